@@ -0,0 +1,139 @@
+/**
+ * Offline Intent Evaluation
+ *
+ * Replays a labelled dataset through the orchestrator and reports per-intent
+ * precision/recall, the intent confusion matrix, response_type accuracy and
+ * regressions against a saved baseline.
+ *
+ *   npm run eval                         # replay recorded LLM fixtures against the fixture catalog
+ *   npm run eval -- --update-baseline    # accept the current results as the new baseline
+ *   npm run eval -- --record             # call the configured live LLM and re-record the fixtures
+ *
+ * Options: --dataset <file> --baseline <file> --fixtures <file> --catalog <file>
+ *          --tolerance <0-1> --verbose
+ * Exits with status 1 when anything regressed against the baseline.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadEnvConfig } from '@next/env';
+import { loadEvalCases } from '@/lib/eval/dataset';
+import { EvalReport, compareToBaseline, computeReport, formatReport, isCorrect } from '@/lib/eval/metrics';
+
+interface CliOptions {
+    dataset: string;
+    baseline: string;
+    fixtures: string;
+    catalog: string;
+    tolerance: number;
+    record: boolean;
+    updateBaseline: boolean;
+    verbose: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        dataset: 'fixtures/eval/cases.json',
+        baseline: 'fixtures/eval/baseline.json',
+        fixtures: 'fixtures/eval/llm.json',
+        catalog: 'fixtures/catalog.json',
+        tolerance: 0,
+        record: false,
+        updateBaseline: false,
+        verbose: false
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined) throw new Error(`${arg} needs a value`);
+            return next;
+        };
+        switch (arg) {
+            case '--dataset': options.dataset = value(); break;
+            case '--baseline': options.baseline = value(); break;
+            case '--fixtures': options.fixtures = value(); break;
+            case '--catalog': options.catalog = value(); break;
+            case '--tolerance': options.tolerance = Number(value()); break;
+            case '--record': options.record = true; break;
+            case '--update-baseline': options.updateBaseline = true; break;
+            case '--verbose': options.verbose = true; break;
+            default: throw new Error(`Unknown option ${arg}`);
+        }
+    }
+    return options;
+}
+
+function writeJSON(filePath: string, value: unknown): void {
+    const resolved = path.resolve(process.cwd(), filePath);
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    fs.writeFileSync(resolved, JSON.stringify(value, null, 2) + '\n');
+}
+
+// Orchestrator logs are per-call chatter; keep the terminal for the report
+function muteConsole(): () => void {
+    const { log, info, warn, error } = console;
+    console.log = console.info = console.warn = console.error = () => { };
+    return () => Object.assign(console, { log, info, warn, error });
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    loadEnvConfig(process.cwd());
+
+    // Must be set before the orchestrator is imported
+    process.env.CATALOG_STORE = 'memory';
+    process.env.CATALOG_FIXTURES_PATH = options.catalog;
+    process.env.SESSION_STORE = 'memory';
+    if (!options.record) {
+        process.env.LLM_PROVIDER = 'fixture';
+        process.env.LLM_FIXTURES_PATH = options.fixtures;
+    }
+
+    const { runEval } = await import('@/lib/eval/runner');
+    const { getLLMClient, setLLMClient, createRecordingClient } = await import('@/lib/llm');
+
+    const recorder = options.record ? createRecordingClient(getLLMClient()) : null;
+    if (recorder) setLLMClient(recorder);
+
+    const cases = loadEvalCases(options.dataset);
+    console.log(`🧪 Evaluating ${cases.length} cases (${recorder ? `recording from ${recorder.provider}` : `replaying ${options.fixtures}`})`);
+
+    const restoreConsole = options.verbose ? () => { } : muteConsole();
+    const results = await runEval(cases, (result, index) => {
+        process.stdout.write(`${isCorrect(result) ? '.' : 'F'}${index === cases.length - 1 ? '\n' : ''}`);
+    });
+    restoreConsole();
+
+    const report = computeReport(results);
+    if (recorder) {
+        writeJSON(options.fixtures, recorder.recorded);
+        console.log(`📼 Recorded ${recorder.recorded.length} LLM calls to ${options.fixtures}`);
+    }
+
+    const baselinePath = path.resolve(process.cwd(), options.baseline);
+    const baseline = fs.existsSync(baselinePath)
+        ? JSON.parse(fs.readFileSync(baselinePath, 'utf8')) as EvalReport
+        : null;
+    const comparison = baseline ? compareToBaseline(report, baseline, options.tolerance) : undefined;
+
+    console.log(formatReport(report, comparison));
+
+    if (options.updateBaseline) {
+        writeJSON(options.baseline, report);
+        console.log(`💾 Baseline written to ${options.baseline}`);
+        return;
+    }
+    if (!baseline) {
+        console.log(`ℹ️ No baseline at ${options.baseline}; run with --update-baseline to save one`);
+    }
+    if (comparison && comparison.regressions.length > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,107 @@
+/**
+ * Compatibility Import
+ *
+ * Loads product → accessory compatibility edges from a CSV (see
+ * src/lib/orchestrator/compatibility.ts for the columns) into the
+ * `product_compatibility` table, or into a catalog fixture file.
+ *
+ *   npm run import:compatibility -- edges.csv                                   # upsert into Supabase
+ *   npm run import:compatibility -- edges.csv --fixture fixtures/catalog.json   # write into a fixture catalog
+ *
+ * Options: --replace   drop existing edges of the products in the CSV first
+ *          --dry-run   validate and report without writing
+ * Edges that reference products missing from the catalog are reported and skipped.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadEnvConfig } from '@next/env';
+import { parseCompatibilityCsv } from '@/lib/orchestrator/compatibility';
+import type { CatalogTables, CompatibilityRow } from '@/lib/orchestrator/catalogRepository';
+
+interface CliOptions {
+    csv: string;
+    fixture: string | null;
+    replace: boolean;
+    dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { csv: '', fixture: null, replace: false, dryRun: false };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--fixture': {
+                const next = argv[++i];
+                if (next === undefined) throw new Error(`${arg} needs a value`);
+                options.fixture = next;
+                break;
+            }
+            case '--replace': options.replace = true; break;
+            case '--dry-run': options.dryRun = true; break;
+            default:
+                if (arg.startsWith('--') || options.csv) throw new Error(`Unknown option ${arg}`);
+                options.csv = arg;
+        }
+    }
+    if (!options.csv) throw new Error('Usage: import-compatibility <file.csv> [--fixture <catalog.json>] [--replace] [--dry-run]');
+    return options;
+}
+
+const edgeKey = (e: CompatibilityRow) => `${e.product_id}|${e.accessory_id}|${e.relation}`;
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    loadEnvConfig(process.cwd());
+
+    // Must be set before the catalog is imported
+    if (options.fixture) {
+        process.env.CATALOG_STORE = 'memory';
+        process.env.CATALOG_FIXTURES_PATH = options.fixture;
+    }
+    const { getCatalogProducts } = await import('@/lib/orchestrator/catalog');
+
+    const edges = parseCompatibilityCsv(fs.readFileSync(path.resolve(process.cwd(), options.csv), 'utf8'));
+    console.log(`📄 Parsed ${edges.length} edges from ${options.csv}`);
+
+    const ids = [...new Set(edges.flatMap(e => [e.product_id, e.accessory_id]))];
+    const known = new Set((await getCatalogProducts(ids)).map(p => p.product_id));
+    const unknown = ids.filter(id => !known.has(id));
+    if (unknown.length > 0) console.warn(`⚠️ Not in the catalog, skipping their edges: ${unknown.join(', ')}`);
+    const valid = edges.filter(e => known.has(e.product_id) && known.has(e.accessory_id));
+
+    if (options.dryRun) {
+        console.log(`🔍 Dry run: ${valid.length} edges would be imported`);
+        return;
+    }
+
+    const productIds = [...new Set(valid.map(e => e.product_id))];
+    if (options.fixture) {
+        const fixturePath = path.resolve(process.cwd(), options.fixture);
+        const tables = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as Partial<CatalogTables>;
+        const incoming = new Set(valid.map(edgeKey));
+        const kept = (tables.product_compatibility || []).filter(e =>
+            !incoming.has(edgeKey(e)) && !(options.replace && productIds.includes(e.product_id)));
+        tables.product_compatibility = [...kept, ...valid];
+        fs.writeFileSync(fixturePath, JSON.stringify(tables, null, 2) + '\n');
+        console.log(`💾 ${options.fixture} now has ${tables.product_compatibility.length} compatibility edges`);
+        return;
+    }
+
+    const { supabase } = await import('@/lib/supabase');
+    if (options.replace && productIds.length > 0) {
+        const { error } = await supabase.from('product_compatibility').delete().in('product_id', productIds);
+        if (error) throw new Error(`Failed to clear compatibility: ${error.message}`);
+    }
+    const { error } = await supabase
+        .from('product_compatibility')
+        .upsert(valid, { onConflict: 'product_id,accessory_id,relation' });
+    if (error) throw new Error(`Failed to import compatibility: ${error.message}`);
+    console.log(`✅ Imported ${valid.length} edges into product_compatibility`);
+}
+
+main().catch(error => {
+    console.error('Import failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
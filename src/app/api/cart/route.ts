@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { CartError, getCartService } from '@/lib/orchestrator/cartService';
+import { getSessionStore } from '@/lib/orchestrator/sessionStore';
+import { toBundleRequest } from '@/lib/orchestrator/bundleBuilder';
+import { getCorrectionNudge } from '@/lib/orchestrator/tradeoffGenerator';
+
+type CartAction = 'add' | 'add_bundle' | 'remove' | 'update_quantity' | 'clear';
+
+interface CartRequest {
+    session_id: string;
+    action: CartAction;
+    product_id?: string;
+    variant_id?: string;
+    quantity?: number;
+    bundle_id?: string; // add_bundle: the kit last shown in this session
+}
+
+// Nudge when the added product scored noticeably lower than another one the user was shown
+async function getCorrectionMessage(sessionId: string, variantId?: string, productId?: string): Promise<string | undefined> {
+    try {
+        const record = await getSessionStore().load(sessionId);
+        const shown = record?.session.last_products || [];
+        const selected = shown.find(p => (variantId && p.variant_id === variantId) || (productId && p.product_id === productId));
+        if (!record || !selected) return undefined;
+
+        const useCase = record.session.outcome_context.use_case || record.session.current_intent_id?.replace(/_/g, ' ') || 'your needs';
+        return getCorrectionNudge(selected, shown, useCase) || undefined;
+    } catch (error) {
+        console.warn('Correction nudge skipped:', error);
+        return undefined;
+    }
+}
+
+// GET /api/cart?session_id=... → current cart with totals
+export async function GET(req: Request) {
+    const sessionId = new URL(req.url).searchParams.get('session_id');
+    if (!sessionId) {
+        return NextResponse.json({ error: 'Missing session_id' }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json(await getCartService().getCart(sessionId));
+    } catch (error) {
+        console.error('Cart load failed:', error);
+        return NextResponse.json({ error: 'Failed to load cart' }, { status: 500 });
+    }
+}
+
+// POST /api/cart { session_id, action, ... } → updated cart with totals
+export async function POST(req: Request) {
+    try {
+        const body: CartRequest = await req.json();
+        const { session_id, action, product_id, variant_id, quantity, bundle_id } = body;
+
+        if (!session_id || !action) {
+            return NextResponse.json({ error: 'Missing session_id or action' }, { status: 400 });
+        }
+
+        const cartService = getCartService();
+
+        switch (action) {
+            case 'add': {
+                if (!variant_id && !product_id) {
+                    return NextResponse.json({ error: 'Missing variant_id or product_id' }, { status: 400 });
+                }
+                const cart = await cartService.addItem(session_id, { variant_id, product_id, quantity });
+                const correction_message = await getCorrectionMessage(session_id, variant_id, product_id);
+                return NextResponse.json({ ...cart, correction_message });
+            }
+            case 'add_bundle': {
+                // Kits are built server-side; only the one last shown can be added
+                const bundle = (await getSessionStore().load(session_id))?.session.last_bundle;
+                if (!bundle || bundle.bundle_id !== bundle_id) {
+                    return NextResponse.json({ error: `Unknown bundle: ${bundle_id}` }, { status: 404 });
+                }
+                return NextResponse.json(await cartService.addBundle(session_id, toBundleRequest(bundle)));
+            }
+            case 'remove':
+                if (!variant_id) {
+                    return NextResponse.json({ error: 'Missing variant_id' }, { status: 400 });
+                }
+                return NextResponse.json(await cartService.removeItem(session_id, variant_id));
+            case 'update_quantity':
+                if (!variant_id || typeof quantity !== 'number') {
+                    return NextResponse.json({ error: 'Missing variant_id or quantity' }, { status: 400 });
+                }
+                return NextResponse.json(await cartService.updateQuantity(session_id, variant_id, quantity));
+            case 'clear':
+                return NextResponse.json(await cartService.clear(session_id));
+            default:
+                return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+        }
+    } catch (error) {
+        if (error instanceof CartError) {
+            const status = error.code === 'unknown_variant' || error.code === 'not_in_cart' ? 404 : 400;
+            return NextResponse.json({ error: error.message, code: error.code }, { status });
+        }
+        console.error('Cart update failed:', error);
+        return NextResponse.json({ error: 'Failed to update cart' }, { status: 500 });
+    }
+}
@@ -1,60 +1,100 @@
 import { NextResponse } from 'next/server';
 import PDFDocument from 'pdfkit';
 import nodemailer from 'nodemailer';
+import { getOrderService, Order, OrderError } from '@/lib/orchestrator/orderService';
+import { getPaymentMethod } from '@/lib/payments';
+import { getCustomerProfileService } from '@/lib/orchestrator/customerProfiles';
 
 // Type definitions
-interface CartItem {
-    id: string;
-    title: string;
-    price: string;
-    quantity: number;
-    image_url: string;
-}
-
 interface UserDetails {
     fullName: string;
-    email: string;
+    email?: string;
+    phone?: string;
     address: string;
+    area?: string;
     city: string;
+    state?: string;
     zipCode: string;
     country: string;
-    paymentMethod: string;
 }
 
 interface CheckoutRequest {
+    session_id: string;
     user_details: UserDetails;
-    cart_items: CartItem[];
+    payment_intent_id: string; // From /api/payments, settled for the quoted total
+    idempotency_key?: string;  // Alternative to the Idempotency-Key header
 }
 
+// GET /api/checkout?session_id=... → the session's cart with server-computed totals
+export async function GET(req: Request) {
+    const sessionId = new URL(req.url).searchParams.get('session_id');
+    if (!sessionId) {
+        return NextResponse.json({ error: 'Missing session_id' }, { status: 400 });
+    }
+
+    try {
+        const { cart, quote } = await getOrderService().quote(sessionId);
+        return NextResponse.json({ items: cart.items, ...quote });
+    } catch (error) {
+        console.error('Checkout quote failed:', error);
+        return NextResponse.json({ error: 'Failed to price cart' }, { status: 500 });
+    }
+}
+
+// POST /api/checkout { session_id, user_details, payment_intent_id } (+ Idempotency-Key header) → canonical order
 export async function POST(req: Request) {
     try {
         const body: CheckoutRequest = await req.json();
-        const { user_details, cart_items } = body;
+        const { session_id, user_details, payment_intent_id } = body;
+        const idempotencyKey = req.headers.get('Idempotency-Key') || body.idempotency_key;
 
-        if (!user_details || !cart_items || cart_items.length === 0) {
-            return NextResponse.json({ error: 'Invalid checkout data' }, { status: 400 });
+        if (!session_id || !user_details || !idempotencyKey) {
+            return NextResponse.json({ error: 'Missing session_id, user_details or idempotency key' }, { status: 400 });
         }
 
-        const orderId = `ORD-${Date.now()}`;
-        const totalAmount = cart_items.reduce((sum, item) => {
-            const price = parseFloat(item.price.replace(/[^0-9.]/g, '')) || 0;
-            return sum + (price * item.quantity);
-        }, 0);
-
-        // 1. Generate PDF Invoice
-        const pdfBuffer = await generateInvoicePDF(orderId, user_details, cart_items, totalAmount);
+        const { order, replayed } = await getOrderService().placeOrder({
+            session_id,
+            idempotency_key: idempotencyKey,
+            customer: {
+                full_name: user_details.fullName,
+                email: user_details.email || undefined,
+                phone: user_details.phone || undefined
+            },
+            shipping_address: {
+                line1: user_details.address,
+                line2: user_details.area || undefined,
+                city: user_details.city,
+                state: user_details.state || undefined,
+                pincode: user_details.zipCode,
+                country: user_details.country || 'India'
+            },
+            payment_intent_id
+        });
 
-        // 2. Send Email
-        const emailSent = await sendOrderConfirmationEmail(user_details.email, orderId, pdfBuffer);
+        // Profile, invoice and email only for the first placement, not for retries
+        if (!replayed) {
+            await getCustomerProfileService().recordOrder(order).catch(error => console.warn('Customer profile update skipped:', error));
+        }
+        let emailSent = false;
+        if (!replayed && order.customer.email) {
+            const pdfBuffer = await generateInvoicePDF(order);
+            emailSent = await sendOrderConfirmationEmail(order.customer.email, order.order_number, pdfBuffer);
+        }
 
         return NextResponse.json({
             success: true,
-            order_id: orderId,
+            order,
+            replayed,
             message: 'Order placed successfully',
             email_sent: emailSent
-        });
+        }, { status: replayed ? 200 : 201 });
 
     } catch (error) {
+        if (error instanceof OrderError) {
+            const status = error.code === 'idempotency_conflict' || error.code === 'payment_in_use' ? 409
+                : error.code === 'payment_required' ? 402 : 400;
+            return NextResponse.json({ error: error.message, code: error.code }, { status });
+        }
         console.error('Checkout failed:', error);
         return NextResponse.json({ error: 'Checkout processing failed' }, { status: 500 });
     }
@@ -63,10 +103,11 @@ export async function POST(req: Request) {
 /**
  * Generates a PDF invoice in memory and returns it as a Buffer
  */
-async function generateInvoicePDF(orderId: string, user: UserDetails, items: CartItem[], total: number): Promise<Buffer> {
+async function generateInvoicePDF(order: Order): Promise<Buffer> {
     return new Promise((resolve, reject) => {
         const doc = new PDFDocument();
         const buffers: Buffer[] = [];
+        const { customer, shipping_address: address } = order;
 
         doc.on('data', buffers.push.bind(buffers));
         doc.on('end', () => resolve(Buffer.concat(buffers)));
@@ -75,16 +116,16 @@ async function generateInvoicePDF(orderId: string, user: UserDetails, items: Car
         // Header
         doc.fontSize(20).text('INVOICE', { align: 'center' });
         doc.moveDown();
-        doc.fontSize(12).text(`Order ID: ${orderId}`);
-        doc.text(`Date: ${new Date().toLocaleDateString()}`);
+        doc.fontSize(12).text(`Order: ${order.order_number}`);
+        doc.text(`Date: ${new Date(order.created_at).toLocaleDateString()}`);
         doc.moveDown();
 
         // Bill To
         doc.text(`Bill To:`);
-        doc.text(user.fullName);
-        doc.text(`${user.address}, ${user.city}`);
-        doc.text(`${user.zipCode}, ${user.country}`);
-        doc.text(`Email: ${user.email}`);
+        doc.text(customer.full_name);
+        doc.text(`${address.line1}${address.line2 ? ', ' + address.line2 : ''}, ${address.city}`);
+        doc.text(`${address.pincode}, ${address.country}`);
+        if (customer.email) doc.text(`Email: ${customer.email}`);
         doc.moveDown();
 
         // Items Table Header
@@ -98,12 +139,11 @@ async function generateInvoicePDF(orderId: string, user: UserDetails, items: Car
         doc.moveDown(0.5);
 
         // Items
-        items.forEach(item => {
-            const price = parseFloat(item.price.replace(/[^0-9.]/g, '')) || 0;
+        order.items.forEach(item => {
             const y = doc.y;
             doc.text(item.title.substring(0, 40), 50, y);
             doc.text(item.quantity.toString(), 300, y);
-            doc.text(`$${price.toFixed(2)}`, 400, y);
+            doc.text(`${order.currency} ${item.unit_price}`, 400, y);
             doc.moveDown();
         });
 
@@ -111,9 +151,14 @@ async function generateInvoicePDF(orderId: string, user: UserDetails, items: Car
         doc.moveTo(50, doc.y).lineTo(550, doc.y).stroke();
         doc.moveDown();
 
-        // Total
-        doc.fontSize(14).text(`Total: $${total.toFixed(2)}`, { align: 'right' });
-        doc.fontSize(10).text(`Payment Method: ${user.paymentMethod}`, { align: 'right' });
+        // Totals
+        doc.fontSize(10).text(`Subtotal: ${order.currency} ${order.subtotal}`, { align: 'right' });
+        if (Number(order.discount) > 0) doc.text(`Bundle discount: -${order.currency} ${order.discount}`, { align: 'right' });
+        doc.text(`Shipping: ${order.currency} ${order.shipping}`, { align: 'right' });
+        doc.text(`GST: ${order.currency} ${order.tax}`, { align: 'right' });
+        doc.fontSize(14).text(`Total: ${order.currency} ${order.total}`, { align: 'right' });
+        doc.fontSize(10).text(`Payment Method: ${getPaymentMethod(order.payment.method).label}`, { align: 'right' });
+        doc.text(`Payment Ref: ${order.payment.intent_id}`, { align: 'right' });
 
         doc.end();
     });
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getImageBlobStore, isImageBlobId } from '@/lib/images';
+
+// GET /api/images/:id → a generated outcome image. Ids hash the provider and prompt, not the
+// bytes (see blobStore.ts): a stored image is never overwritten, and one regenerated after
+// garbage collection renders the same prompt, so a cached copy is as good and is kept as immutable.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    if (!isImageBlobId(id)) {
+        return NextResponse.json({ error: 'Invalid image id' }, { status: 400 });
+    }
+
+    if (req.headers.get('if-none-match') === `"${id}"`) {
+        return new NextResponse(null, { status: 304 });
+    }
+
+    try {
+        const blob = await getImageBlobStore().get(id);
+        if (!blob) {
+            return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+        }
+
+        return new NextResponse(new Uint8Array(blob.data), {
+            headers: {
+                'Content-Type': blob.content_type,
+                'Content-Length': String(blob.data.length),
+                'Cache-Control': 'public, max-age=31536000, immutable',
+                'ETag': `"${id}"`,
+                // SVGs from the local renderer must not run scripts when opened directly
+                'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'"
+            }
+        });
+    } catch (error) {
+        console.error('Image fetch failed:', error);
+        return NextResponse.json({ error: 'Failed to load image' }, { status: 500 });
+    }
+}
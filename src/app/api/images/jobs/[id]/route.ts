@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getImageJobService } from '@/lib/orchestrator/imageJobs';
+
+// Longest a request may hold open waiting for the job (?wait=seconds)
+const MAX_WAIT_SECONDS = 25;
+
+// GET /api/images/jobs/:id[?wait=seconds] → job status, with the images once ready
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    if (!/^[0-9a-f-]{36}$/i.test(id)) {
+        return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+    }
+    const wait = Math.min(Math.max(Number(new URL(req.url).searchParams.get('wait')) || 0, 0), MAX_WAIT_SECONDS);
+
+    try {
+        const service = getImageJobService();
+        const job = wait > 0 ? await service.waitFor(id, wait * 1000) : await service.get(id);
+        if (!job) {
+            return NextResponse.json({ error: 'Image job not found' }, { status: 404 });
+        }
+
+        const { job_id, status, images, error } = job;
+        return NextResponse.json({ job_id, status, images, error }, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        console.error('Image job lookup failed:', error);
+        return NextResponse.json({ error: 'Failed to load image job' }, { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getPaymentGateway, getPaymentOptions, isPaymentMethodId, PaymentError } from '@/lib/payments';
+
+type PaymentAction = 'create_intent' | 'confirm';
+
+interface PaymentRequest {
+    action: PaymentAction;
+    // create_intent
+    method?: string;
+    amount?: number;
+    pincode?: string;
+    reference?: string;
+    idempotency_key?: string;  // Retrying with the same key returns the live intent
+    // confirm
+    intent_id?: string;
+    upi_id?: string;
+    card_last4?: string;
+}
+
+// GET /api/payments?amount=...&pincode=... → every method with its eligibility for the order
+export async function GET(req: Request) {
+    const params = new URL(req.url).searchParams;
+    const amount = Number(params.get('amount'));
+    if (!Number.isFinite(amount) || amount < 0) {
+        return NextResponse.json({ error: 'Missing or invalid amount' }, { status: 400 });
+    }
+
+    const methods = getPaymentOptions({ amount, pincode: params.get('pincode') || undefined })
+        .map(({ id, label, description, online, eligible, reason }) => ({ id, label, description, online, eligible, reason }));
+    return NextResponse.json({ methods });
+}
+
+// POST /api/payments { action: 'create_intent' | 'confirm', ... } → payment intent
+export async function POST(req: Request) {
+    try {
+        const body: PaymentRequest = await req.json();
+        const gateway = getPaymentGateway();
+
+        switch (body.action) {
+            case 'create_intent':
+                if (!isPaymentMethodId(body.method) || typeof body.amount !== 'number') {
+                    return NextResponse.json({ error: 'Missing or invalid method or amount' }, { status: 400 });
+                }
+                return NextResponse.json(await gateway.createIntent({
+                    method: body.method,
+                    amount: body.amount,
+                    currency: 'INR',
+                    pincode: body.pincode,
+                    reference: body.reference,
+                    idempotency_key: body.idempotency_key
+                }));
+            case 'confirm':
+                if (!body.intent_id) {
+                    return NextResponse.json({ error: 'Missing intent_id' }, { status: 400 });
+                }
+                return NextResponse.json(await gateway.confirmIntent(body.intent_id, {
+                    upi_id: body.upi_id,
+                    card_last4: body.card_last4
+                }));
+            default:
+                return NextResponse.json({ error: `Unknown action: ${body.action}` }, { status: 400 });
+        }
+    } catch (error) {
+        if (error instanceof PaymentError) {
+            const status = error.code === 'unknown_intent' ? 404 : error.code === 'idempotency_conflict' ? 409 : 400;
+            return NextResponse.json({ error: error.message, code: error.code }, { status });
+        }
+        console.error('Payment failed:', error);
+        return NextResponse.json({ error: 'Payment processing failed' }, { status: 500 });
+    }
+}
@@ -11,7 +11,7 @@ const getShopifyUrl = (action: string, params: any) => {
         case 'create_draft_order':
             return `https://${domain}/admin/api/${draftOrderVersion}/draft_orders.json`;
         case 'complete_draft_order':
-            return `https://${domain}/admin/api/${draftOrderVersion}/draft_orders/${params.draft_order_id}/complete.json?payment_pending=true`;
+            return `https://${domain}/admin/api/${draftOrderVersion}/draft_orders/${params.draft_order_id}/complete.json?payment_pending=${params.payment_pending !== false}`;
         case 'get_customer':
             return `https://${domain}/admin/api/${adminApiVersion}/customers/search.json?query=email:${params.email}`;
         case 'get_orders':
@@ -0,0 +1,70 @@
+/**
+ * Bundle Message Component
+ *
+ * Presentational component - NO logic, NO state
+ * Displays the backend's complete kit: items, combined price and bundle discount
+ *
+ * CRITICAL: Display prices and totals exactly as received - NEVER recompute
+ */
+
+import Image from 'next/image';
+import { AssistantBundleMessage } from '@/types/message';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AudioPlayer } from './AudioPlayer';
+
+interface BundleMessageProps {
+    message: AssistantBundleMessage;
+    onAddBundle: (bundle: AssistantBundleMessage['bundle']) => void;
+}
+
+export function BundleMessage({ message, onAddBundle }: BundleMessageProps) {
+    const { bundle, explanation } = message;
+    const hasDiscount = Number(bundle.discount) > 0;
+
+    return (
+        <div className="flex justify-start mb-4">
+            <div className="max-w-[90%] bg-muted rounded-2xl rounded-tl-sm px-4 py-3 space-y-3">
+                <div className="flex items-start gap-2">
+                    <p className="text-sm whitespace-pre-wrap break-words flex-1">{message.content}</p>
+                    <AudioPlayer text={`${message.content} ${explanation}`} autoPlay={false} />
+                </div>
+
+                <ul className="space-y-2">
+                    {bundle.items.map(item => (
+                        <li key={item.product_id} className="flex items-center gap-3 text-xs">
+                            {item.image_url ? (
+                                <Image src={item.image_url} alt={item.title} width={40} height={40} className="w-10 h-10 rounded object-contain bg-white" />
+                            ) : (
+                                <div className="w-10 h-10 rounded bg-white" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold truncate">
+                                    {item.title}
+                                    {item.role === 'primary' && <Badge className="ml-2 align-middle">Main pick</Badge>}
+                                </p>
+                                {item.reason && <p className="text-muted-foreground">{item.reason}</p>}
+                            </div>
+                            <span className="whitespace-nowrap">₹{item.price}</span>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="text-xs space-y-0.5 border-t border-border pt-2">
+                    {hasDiscount && (
+                        <>
+                            <p className="flex justify-between"><span>Items</span><span>₹{bundle.subtotal}</span></p>
+                            <p className="flex justify-between text-green-600"><span>Kit discount ({bundle.discount_percent}%)</span><span>−₹{bundle.discount}</span></p>
+                        </>
+                    )}
+                    <p className="flex justify-between text-sm font-semibold"><span>Kit total</span><span>₹{bundle.total}</span></p>
+                    {bundle.budget_note && <p className="text-muted-foreground">{bundle.budget_note}</p>}
+                </div>
+
+                <Button size="sm" className="w-full" onClick={() => onAddBundle(bundle)}>
+                    Add whole kit to cart
+                </Button>
+            </div>
+        </div>
+    );
+}
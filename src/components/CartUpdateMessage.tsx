@@ -0,0 +1,44 @@
+/**
+ * Cart Update Message Component
+ * 
+ * Presentational component - NO logic, NO state
+ * Displays the backend's confirmation of a conversational cart edit
+ * followed by the cart as returned by the server
+ */
+
+import { AssistantCartUpdateMessage } from '@/types/message';
+import { AudioPlayer } from './AudioPlayer';
+
+interface CartUpdateMessageProps {
+    message: AssistantCartUpdateMessage;
+}
+
+export function CartUpdateMessage({ message }: CartUpdateMessageProps) {
+    const { cart } = message;
+
+    return (
+        <div className="flex justify-start mb-4">
+            <div className="max-w-[80%] bg-muted rounded-2xl rounded-tl-sm px-4 py-3">
+                <div className="flex items-start gap-2">
+                    <p className="text-sm whitespace-pre-wrap break-words flex-1">{message.content}</p>
+                    <AudioPlayer text={message.content} autoPlay={false} />
+                </div>
+
+                {cart.items.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                        {cart.items.map(line => (
+                            <li key={line.variant_id} className="flex justify-between gap-4">
+                                <span className="truncate">{line.title} × {line.quantity}</span>
+                                <span>₹{line.price}</span>
+                            </li>
+                        ))}
+                        <li className="flex justify-between gap-4 pt-1 border-t border-border font-medium text-foreground">
+                            <span>Subtotal</span>
+                            <span>₹{cart.subtotal}</span>
+                        </li>
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -21,11 +21,14 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Message, UserMessage, AssistantClarificationMessage, AssistantRecommendationMessage } from '@/types/message';
-import { sendMessageToBackend, addToShopifyCart, ChatHistoryItem, BackendResponse } from '@/lib/api';
+import { Message, UserMessage, AssistantClarificationMessage, AssistantRecommendationMessage, AssistantCartUpdateMessage, AssistantComparisonMessage, AssistantBundleMessage } from '@/types/message';
+import { sendMessageToBackend, streamMessageToBackend, addToShopifyCart, updateCart, ChatHistoryItem, BackendResponse, PresentationProduct, RankedProduct } from '@/lib/api';
 import { generateUUID } from '@/lib/utils';
 import { UserMessageBubble } from '@/components/UserMessageBubble';
 import { ClarificationMessage } from '@/components/ClarificationMessage';
+import { CartUpdateMessage } from '@/components/CartUpdateMessage';
+import { ComparisonMessage } from '@/components/ComparisonMessage';
+import { BundleMessage } from '@/components/BundleMessage';
 import { RecommendationMessage } from '@/components/RecommendationMessage';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -94,6 +97,45 @@ export function ChatScreen() {
                 intentId: (response as any).intent_id,
             } as AssistantRecommendationMessage;
         }
+
+        if (response.response_type === 'comparison') {
+            return {
+                ...baseMessage,
+                responseType: 'comparison',
+                content: response.acknowledgement,
+                products: response.products,
+                capabilities: response.capabilities,
+                summary: response.summary,
+            } as AssistantComparisonMessage;
+        }
+
+        if (response.response_type === 'bundle') {
+            return {
+                ...baseMessage,
+                responseType: 'bundle',
+                content: response.acknowledgement,
+                bundle: response.bundle,
+                explanation: response.explanation,
+            } as AssistantBundleMessage;
+        }
+
+        if (response.response_type === 'order_status') {
+            // Plain text answer: the summary already lists items and fulfilment state
+            return {
+                ...baseMessage,
+                responseType: 'clarification',
+                content: `${response.acknowledgement} ${response.summary}`,
+            } as AssistantClarificationMessage;
+        }
+
+        if (response.response_type === 'cart_update') {
+            return {
+                ...baseMessage,
+                responseType: 'cart_update',
+                content: response.acknowledgement,
+                cart: response.cart,
+            } as AssistantCartUpdateMessage;
+        }
         // Fallback for unexpected response types, though ideally BackendResponse type would prevent this
         return {
             ...baseMessage,
@@ -102,6 +144,16 @@ export function ChatScreen() {
         } as AssistantClarificationMessage;
     };
 
+    // Provisional message shown while a streamed turn is in flight
+    // Replaced in place (same id) as events arrive
+    const upsertMessage = (message: Message) => {
+        setMessages(prev => prev.some(m => m.id === message.id)
+            ? prev.map(m => (m.id === message.id ? message : m))
+            : [...prev, message]);
+    };
+
+    const toPendingProduct = (product: RankedProduct): PresentationProduct => ({ ...product, description: '', reasoning: '' });
+
     // Send message to backend
     const handleSendMessage = async () => {
         // Validation: Don't send empty messages
@@ -127,15 +179,54 @@ export function ChatScreen() {
             // Prepare backend request
             const chatHistory = messages.map(clientMessageToBackendFormat);
 
-            const response = await sendMessageToBackend({
+            const pendingId = generateUUID();
+            let pending: AssistantRecommendationMessage = {
+                id: pendingId,
+                role: 'assistant',
+                responseType: 'recommendation',
+                content: '',
+                timestamp: new Date().toISOString(),
+                secondary_recommendations: [],
+            };
+
+            const response = await streamMessageToBackend({
                 session_id: sessionId,
                 current_message: userMessage.content,
                 chat_history: chatHistory,
+            }, {
+                onAcknowledgement: (event) => {
+                    pending = { ...pending, content: event.acknowledgement, intent_id: event.intent_id };
+                    upsertMessage(pending);
+                },
+                onProductsRanked: (event) => {
+                    const [first, ...rest] = event.products.map(toPendingProduct);
+                    pending = { ...pending, primary_recommendation: first, secondary_recommendations: rest };
+                    upsertMessage(pending);
+                },
+                onPresentationDelta: (event) => {
+                    const { description, reasoning, features, why_fits, tradeoffs, when_to_choose } = event;
+                    const patch = (product?: PresentationProduct) => product?.product_id === event.product_id
+                        ? {
+                            ...product,
+                            description: description ?? product.description,
+                            reasoning: reasoning ?? product.reasoning,
+                            features: features ?? product.features,
+                            why_fits: why_fits ?? product.why_fits,
+                            tradeoffs: tradeoffs ?? product.tradeoffs,
+                            when_to_choose: when_to_choose ?? product.when_to_choose
+                        }
+                        : product;
+                    pending = {
+                        ...pending,
+                        primary_recommendation: patch(pending.primary_recommendation),
+                        secondary_recommendations: pending.secondary_recommendations?.map(patch),
+                    };
+                    upsertMessage(pending);
+                },
             });
 
-            // Handle response (no logic - just transform and append)
-            const assistantMessage = handleBackendResponse(response);
-            setMessages(prev => [...prev, assistantMessage]);
+            // Final response replaces the provisional message
+            upsertMessage({ ...handleBackendResponse(response), id: pendingId });
 
         } catch (err) {
             // Generic error handling - no fallback logic
@@ -152,14 +243,33 @@ export function ChatScreen() {
     // Handle add to cart
     const handleAddToCart = async (variantId: string) => {
         try {
-            await addToShopifyCart(variantId);
+            // Server-side cart is authoritative; Shopify storefront cart is mirrored
+            const cart = await updateCart(sessionId, { action: 'add', variant_id: variantId });
+            addToShopifyCart(variantId).catch(err => console.warn('Shopify add failed:', err));
             toast.success('Added to cart!');
+            if (cart.correction_message) {
+                toast.info(cart.correction_message);
+            }
         } catch (err) {
             toast.error('Failed to add to cart');
             console.error('Cart error:', err);
         }
     };
 
+    // Handle "Add whole kit" (the server adds every item and applies the kit discount)
+    const handleAddBundle = async (bundle: AssistantBundleMessage['bundle']) => {
+        try {
+            const cart = await updateCart(sessionId, { action: 'add_bundle', bundle_id: bundle.bundle_id });
+            for (const item of bundle.items) {
+                addToShopifyCart(item.variant_id).catch(err => console.warn('Shopify add failed:', err));
+            }
+            toast.success(Number(cart.discount) > 0 ? `Kit added to cart! You save ₹${cart.discount}` : 'Kit added to cart!');
+        } catch (err) {
+            toast.error('Failed to add kit to cart');
+            console.error('Cart error:', err);
+        }
+    };
+
     // Handle Enter key
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
         if (e.key === 'Enter' && !e.shiftKey) {
@@ -232,6 +342,12 @@ export function ChatScreen() {
                         // Assistant messages - render based on responseType
                         if (message.responseType === 'clarification') {
                             return <ClarificationMessage key={message.id} message={message} />;
+                        } else if (message.responseType === 'comparison') {
+                            return <ComparisonMessage key={message.id} message={message} />;
+                        } else if (message.responseType === 'bundle') {
+                            return <BundleMessage key={message.id} message={message} onAddBundle={handleAddBundle} />;
+                        } else if (message.responseType === 'cart_update') {
+                            return <CartUpdateMessage key={message.id} message={message} />;
                         } else {
                             return (
                                 <RecommendationMessage
@@ -1,28 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { X, Loader2, CheckCircle, CreditCard, ShoppingBag, ArrowRight, ArrowLeft, MapPin, Phone, Mail, User, Truck, Pencil, Home, Briefcase } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface CartItem {
-    id: string;
-    title: string;
-    price: string;
-    quantity: number;
-    image_url: string;
-}
+import { fetchPaymentOptions, createPaymentIntent, confirmPaymentIntent, fetchCheckoutQuote, placeOrder, CheckoutQuote, PaymentIntent, PaymentMethodId, PaymentMethodOption } from '@/lib/api';
 
 interface CheckoutModalProps {
     isOpen: boolean;
     onClose: () => void;
-    cartItems: CartItem[];
-    onOrderSuccess: (orderId: string) => void;
+    sessionId: string; // Checks out the server-side cart of this session
+    onOrderSuccess: (orderNumber: string) => void;
 }
 
 type CheckoutStep = 'contact' | 'address' | 'preferences' | 'review' | 'success';
 
-export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSuccess }: CheckoutModalProps) {
+export default function CheckoutModal({ isOpen, onClose, sessionId, onOrderSuccess }: CheckoutModalProps) {
     const [step, setStep] = useState<CheckoutStep>('contact');
     const [isLoading, setIsLoading] = useState(false);
     const [orderId, setOrderId] = useState<string | null>(null);
+    const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+    // One key per checkout attempt: resubmits return the same order
+    const idempotencyKey = useRef('');
 
     // State for all steps
     const [contact, setContact] = useState({ fullName: '', phone: '', email: '' });
@@ -30,7 +26,9 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
         line1: '', area: '', city: 'Mumbai', state: 'Maharashtra',
         pincode: '', landmark: '', label: 'Home'
     });
-    const [paymentMethod, setPaymentMethod] = useState('Cash on Delivery');
+    const [paymentOptions, setPaymentOptions] = useState<PaymentMethodOption[]>([]);
+    const [paymentMethod, setPaymentMethod] = useState<PaymentMethodId | null>(null);
+    const [paymentDetails, setPaymentDetails] = useState({ upiId: '', cardNumber: '' });
 
     // Reset state on open
     useEffect(() => {
@@ -38,20 +36,22 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
             setStep('contact');
             setIsLoading(false);
             setOrderId(null);
+            setQuote(null);
+            idempotencyKey.current = crypto.randomUUID();
+            fetchCheckoutQuote(sessionId)
+                .then(setQuote)
+                .catch(err => {
+                    console.error('Checkout quote error:', err);
+                    toast.error("Couldn't load your cart");
+                });
         }
-    }, [isOpen]);
+    }, [isOpen, sessionId]);
 
     if (!isOpen) return null;
 
-    // --- Calculations ---
-    const subTotal = cartItems.reduce((sum, item) => {
-        const price = parseFloat(item.price.replace(/[^0-9.]/g, '')) || 0;
-        return sum + (price * item.quantity);
-    }, 0);
-    const shippingCost = 100;
-    const gstRate = 0.05;
-    const gstAmount = subTotal * gstRate;
-    const totalAmount = subTotal + shippingCost + gstAmount;
+    // --- Totals (computed by the server) ---
+    const cartItems = quote?.items || [];
+    const totalAmount = Number(quote?.total || 0);
 
 
     // --- Validation Helpers ---
@@ -61,6 +61,29 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
         return true;
     };
 
+    const selectedPayment = paymentOptions.find(m => m.id === paymentMethod && m.eligible);
+
+    const validatePayment = () => {
+        if (!selectedPayment) { toast.error("Please choose a payment method"); return false; }
+        if (selectedPayment.id === 'upi' && !/^[\w.-]+@[\w.-]+$/.test(paymentDetails.upiId)) { toast.error("Please enter a valid UPI ID"); return false; }
+        if (selectedPayment.id === 'card' && !/^\d{12,19}$/.test(paymentDetails.cardNumber)) { toast.error("Please enter a valid card number"); return false; }
+        return true;
+    };
+
+    // Methods depend on the order total and the delivery pincode
+    const loadPaymentOptions = async () => {
+        try {
+            const options = await fetchPaymentOptions(totalAmount, address.pincode);
+            setPaymentOptions(options);
+            if (!options.some(m => m.id === paymentMethod && m.eligible)) {
+                setPaymentMethod(options.find(m => m.eligible)?.id ?? null);
+            }
+        } catch (err) {
+            console.error('Payment options error:', err);
+            toast.error("Couldn't load payment options");
+        }
+    };
+
     const validateAddress = () => {
         if (!address.line1.trim()) { toast.error("Address line 1 is required"); return false; }
         if (!address.city.trim()) { toast.error("City is required"); return false; }
@@ -74,9 +97,12 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
         if (step === 'contact') {
             if (validateContact()) setStep('address');
         } else if (step === 'address') {
-            if (validateAddress()) setStep('preferences');
+            if (validateAddress()) {
+                loadPaymentOptions();
+                setStep('preferences');
+            }
         } else if (step === 'preferences') {
-            setStep('review');
+            if (validatePayment()) setStep('review');
         }
     };
 
@@ -88,49 +114,51 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
 
     // --- Final Submission ---
     const handlePlaceOrder = async () => {
+        if (!quote || cartItems.length === 0) { toast.error("Your cart is empty"); return; }
         setIsLoading(true);
 
-        // 1. Generate Order ID locally
-        const date = new Date();
-        const yyyymmdd = date.toISOString().slice(0, 10).replace(/-/g, '');
-        const randomStr = Math.random().toString(36).substring(2, 6).toUpperCase();
-        const newOrderId = `AG-${yyyymmdd}-${randomStr}`;
-        setOrderId(newOrderId);
-
-        // 2. Simulate Delay for realism
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        // 3. Prepare Backend Payload (Concatenating detailed address)
-        const fullAddress = `${address.line1}, ${address.area ? address.area + ', ' : ''}${address.landmark ? 'Near ' + address.landmark : ''}`;
+        // 1. Collect payment for the quoted total (COD intents are settled on delivery).
+        //    A retry gets back the payment already confirmed for this key; a rejected order's payment is voided.
+        let intent: PaymentIntent;
+        try {
+            intent = await createPaymentIntent(selectedPayment!.id, totalAmount, address.pincode, idempotencyKey.current, idempotencyKey.current);
+            if (intent.status === 'requires_confirmation') {
+                intent = await confirmPaymentIntent(intent.intent_id, {
+                    upi_id: selectedPayment!.id === 'upi' ? paymentDetails.upiId : undefined,
+                    card_last4: selectedPayment!.id === 'card' ? paymentDetails.cardNumber.slice(-4) : undefined
+                });
+            }
+            if (intent.status !== 'succeeded' && intent.status !== 'pay_on_delivery') {
+                toast.error(intent.failure_reason || 'Payment failed. Please try another method.');
+                setIsLoading(false);
+                return;
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Payment failed. Please try again.');
+            setIsLoading(false);
+            return;
+        }
 
+        // 2. Create the order on the server (validates the cart, assigns the order number)
         try {
-            // Fire and forget email (or await if critical)
-            fetch('/api/checkout', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    user_details: {
-                        fullName: contact.fullName,
-                        email: contact.email || 'no-email@provided.com', // Fallback for backend
-                        address: fullAddress,
-                        city: address.city,
-                        zipCode: address.pincode,
-                        country: 'India',
-                        paymentMethod: paymentMethod
-                    },
-                    cart_items: cartItems,
-                    order_id_override: newOrderId // Optional: Pass generated ID if backend supports it
-                })
-            });
-
-            // 4. Success State
+            const { order } = await placeOrder(sessionId, {
+                fullName: contact.fullName,
+                email: contact.email || undefined,
+                phone: contact.phone,
+                address: address.landmark ? `${address.line1}, Near ${address.landmark}` : address.line1,
+                area: address.area || undefined,
+                city: address.city,
+                state: address.state,
+                zipCode: address.pincode,
+                country: 'India'
+            }, intent.intent_id, idempotencyKey.current);
+
+            // 3. Success State
+            setOrderId(order.order_number);
             setStep('success');
-            onOrderSuccess(newOrderId);
-
+            onOrderSuccess(order.order_number);
         } catch (err) {
-            toast.error("Network error, but order recorded locally.");
-            setStep('success'); // Fallback to success for demo purposes
-            onOrderSuccess(newOrderId);
+            toast.error(err instanceof Error ? err.message : 'Could not place your order. Please try again.');
         } finally {
             setIsLoading(false);
         }
@@ -259,23 +287,40 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
             <div>
                 <h3 className="text-sm font-medium text-gray-400 mb-3 uppercase tracking-wider">Payment Method</h3>
                 <div className="space-y-3">
-                    <label className="flex items-center gap-3 p-4 rounded-xl border border-purple-500/30 bg-purple-500/5 cursor-pointer ring-1 ring-purple-500/50">
-                        <input type="radio" checked readOnly className="text-purple-500 focus:ring-purple-500 bg-transparent" />
-                        <div className="flex-1">
-                            <div className="text-white font-medium flex items-center gap-2">
-                                <CreditCard className="w-4 h-4" /> Cash on Delivery (COD)
+                    {paymentOptions.length === 0 && (
+                        <div className="flex items-center gap-2 text-sm text-gray-400"><Loader2 className="w-4 h-4 animate-spin" /> Loading payment options...</div>
+                    )}
+                    {paymentOptions.map(option => option.eligible ? (
+                        <label key={option.id} className={`flex items-center gap-3 p-4 rounded-xl border cursor-pointer transition-colors ${paymentMethod === option.id ? 'border-purple-500/30 bg-purple-500/5 ring-1 ring-purple-500/50' : 'border-white/10 bg-[#0F0F0F] hover:bg-white/5'}`}>
+                            <input type="radio" name="payment" checked={paymentMethod === option.id} onChange={() => setPaymentMethod(option.id)} className="text-purple-500 focus:ring-purple-500 bg-transparent" />
+                            <div className="flex-1">
+                                <div className="text-white font-medium flex items-center gap-2">
+                                    <CreditCard className="w-4 h-4" /> {option.label}
+                                </div>
+                                <div className="text-xs text-gray-400 mt-1">{option.description}</div>
+                                {paymentMethod === 'upi' && option.id === 'upi' && (
+                                    <input type="text" className="mt-3 w-full bg-[#0F0F0F] border border-white/10 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                                        placeholder="yourname@upi"
+                                        value={paymentDetails.upiId} onChange={e => setPaymentDetails({ ...paymentDetails, upiId: e.target.value.trim() })}
+                                    />
+                                )}
+                                {paymentMethod === 'card' && option.id === 'card' && (
+                                    <input type="text" inputMode="numeric" maxLength={19} className="mt-3 w-full bg-[#0F0F0F] border border-white/10 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                                        placeholder="Card number"
+                                        value={paymentDetails.cardNumber} onChange={e => setPaymentDetails({ ...paymentDetails, cardNumber: e.target.value.replace(/\D/g, '') })}
+                                    />
+                                )}
                             </div>
-                            <div className="text-xs text-gray-400 mt-1">Pay with cash or UPI upon delivery.</div>
-                        </div>
-                    </label>
-
-                    <label className="flex items-center gap-3 p-4 rounded-xl border border-white/5 bg-[#0F0F0F] opacity-50 cursor-not-allowed">
-                        <input type="radio" disabled className="bg-transparent" />
-                        <div className="flex-1">
-                            <div className="text-gray-400 font-medium">Online Payment</div>
-                            <div className="text-xs text-gray-500 mt-1">Temporarily unavailable</div>
-                        </div>
-                    </label>
+                        </label>
+                    ) : (
+                        <label key={option.id} className="flex items-center gap-3 p-4 rounded-xl border border-white/5 bg-[#0F0F0F] opacity-50 cursor-not-allowed">
+                            <input type="radio" disabled className="bg-transparent" />
+                            <div className="flex-1">
+                                <div className="text-gray-400 font-medium">{option.label}</div>
+                                <div className="text-xs text-gray-500 mt-1">{option.reason}</div>
+                            </div>
+                        </label>
+                    ))}
                 </div>
             </div>
         </div>
@@ -325,7 +370,9 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
                 </div>
                 <div className="text-white text-sm flex items-center gap-2">
                     <CreditCard className="w-4 h-4 text-purple-400" />
-                    Cash on Delivery
+                    {selectedPayment?.label}
+                    {selectedPayment?.id === 'upi' && <span className="text-gray-400">({paymentDetails.upiId})</span>}
+                    {selectedPayment?.id === 'card' && <span className="text-gray-400">(•••• {paymentDetails.cardNumber.slice(-4)})</span>}
                 </div>
             </div>
         </div>
@@ -423,7 +470,7 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
                         <div className="space-y-4">
                             <div className="space-y-3 max-h-[300px] overflow-y-auto pr-2">
                                 {cartItems.map((item) => (
-                                    <div key={item.id} className="flex gap-3 text-sm group">
+                                    <div key={item.variant_id} className="flex gap-3 text-sm group">
                                         {item.image_url ? (
                                             <img src={item.image_url} alt={item.title} className="w-10 h-10 object-cover rounded bg-white/5" />
                                         ) : (
@@ -433,7 +480,7 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
                                             <div className="text-gray-300 truncate group-hover:text-white transition-colors">{item.title}</div>
                                             <div className="text-gray-500 text-xs">Qty: {item.quantity}</div>
                                         </div>
-                                        <div className="text-gray-300 font-medium">₹{(parseFloat(item.price.replace(/[^0-9.]/g, '')) * item.quantity).toFixed(0)}</div>
+                                        <div className="text-gray-300 font-medium">₹{(Number(item.price) * item.quantity).toFixed(0)}</div>
                                     </div>
                                 ))}
                             </div>
@@ -441,24 +488,30 @@ export default function CheckoutModal({ isOpen, onClose, cartItems, onOrderSucce
                             <div className="pt-4 border-t border-white/10 space-y-2 text-sm">
                                 <div className="flex justify-between text-gray-500">
                                     <span>Subtotal</span>
-                                    <span>₹{subTotal.toFixed(2)}</span>
+                                    <span>₹{quote?.subtotal ?? '—'}</span>
                                 </div>
+                                {Number(quote?.discount) > 0 && (
+                                    <div className="flex justify-between text-green-500">
+                                        <span>Kit discount</span>
+                                        <span>−₹{quote!.discount}</span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between text-gray-500">
                                     <span>GST (5%)</span>
-                                    <span>₹{gstAmount.toFixed(2)}</span>
+                                    <span>₹{quote?.tax ?? '—'}</span>
                                 </div>
                                 <div className="flex justify-between text-gray-500">
                                     <span>Shipping</span>
-                                    <span>₹{shippingCost.toFixed(2)}</span>
+                                    <span>₹{quote?.shipping ?? '—'}</span>
                                 </div>
                                 <div className="flex justify-between text-white font-semibold text-lg pt-2 border-t border-white/10">
                                     <span>Total</span>
-                                    <span>₹{totalAmount.toFixed(2)}</span>
+                                    <span>₹{quote?.total ?? '—'}</span>
                                 </div>
                             </div>
 
                             <div className="bg-purple-900/10 border border-purple-500/20 rounded-lg p-3 text-xs text-purple-300 mt-4">
-                                <p><strong>Demo Mode:</strong> No payment will be processed. An invoice will be simulated.</p>
+                                <p><strong>Demo Mode:</strong> Payments go through a mock gateway and no money is charged. The invoice is emailed when email is configured.</p>
                             </div>
                         </div>
                     </div>
@@ -0,0 +1,87 @@
+/**
+ * Comparison Message Component
+ *
+ * Presentational component - NO logic, NO state
+ * Displays the backend's side-by-side capability table and per-product verdicts
+ *
+ * CRITICAL: Display values and verdicts exactly as received - NEVER re-rank
+ */
+
+import { AssistantComparisonMessage } from '@/types/message';
+import { AudioPlayer } from './AudioPlayer';
+
+interface ComparisonMessageProps {
+    message: AssistantComparisonMessage;
+}
+
+export function ComparisonMessage({ message }: ComparisonMessageProps) {
+    const { products, capabilities, summary } = message;
+
+    return (
+        <div className="flex justify-start mb-4">
+            <div className="max-w-[90%] bg-muted rounded-2xl rounded-tl-sm px-4 py-3 space-y-3">
+                <div className="flex items-start gap-2">
+                    <p className="text-sm whitespace-pre-wrap break-words flex-1">{message.content}</p>
+                    <AudioPlayer text={`${message.content} ${summary}`} autoPlay={false} />
+                </div>
+
+                {capabilities.length > 0 && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs border-collapse">
+                            <thead>
+                                <tr>
+                                    <th className="text-left font-medium text-muted-foreground py-1 pr-3"></th>
+                                    {products.map(product => (
+                                        <th key={product.product_id} className="text-left font-semibold py-1 px-2 min-w-[120px]">
+                                            <span className="line-clamp-2">{product.title}</span>
+                                            <span className="block font-normal text-muted-foreground">₹{product.price}</span>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {capabilities.map(row => (
+                                    <tr key={row.capability_key} className="border-t border-border">
+                                        <td className="py-1 pr-3 text-muted-foreground whitespace-nowrap">{row.label}</td>
+                                        {row.values.map((value, index) => (
+                                            <td key={index} className="py-1 px-2">
+                                                {value === null ? (
+                                                    <span className="text-muted-foreground">—</span>
+                                                ) : (
+                                                    <div className="flex items-center gap-2">
+                                                        <div className="h-1.5 w-16 rounded-full bg-background overflow-hidden">
+                                                            <div
+                                                                className={`h-full ${row.leader_index === index ? 'bg-primary' : 'bg-muted-foreground/50'}`}
+                                                                style={{ width: `${Math.round(value * 100)}%` }}
+                                                            />
+                                                        </div>
+                                                        <span className={row.leader_index === index ? 'font-semibold' : ''}>
+                                                            {Math.round(value * 10)}/10
+                                                        </span>
+                                                    </div>
+                                                )}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <p className="text-sm font-medium">{summary}</p>
+
+                <div className="space-y-2">
+                    {products.map(product => (
+                        <div key={product.product_id} className="text-xs space-y-0.5">
+                            <p className="font-semibold">{product.title}</p>
+                            <p>{product.why_fits}</p>
+                            <p className="text-muted-foreground">{product.tradeoffs}</p>
+                            <p className="text-muted-foreground italic">{product.when_to_choose}</p>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
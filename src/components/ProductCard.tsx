@@ -44,6 +44,15 @@ export function ProductCard({ product, onAddToCart }: ProductCardProps) {
                     {product.description}
                 </p>
 
+                {/* Tradeoffs (persona-aware, from backend) */}
+                {(product.why_fits || product.tradeoffs || product.when_to_choose) && (
+                    <div className="text-xs text-muted-foreground space-y-1 whitespace-normal">
+                        {product.why_fits && <p>{product.why_fits}</p>}
+                        {product.tradeoffs && <p><span className="font-medium text-foreground">Tradeoffs: </span>{product.tradeoffs}</p>}
+                        {product.when_to_choose && <p className="italic">{product.when_to_choose}</p>}
+                    </div>
+                )}
+
                 <div className="space-y-2">
                     <Button
                         onClick={() => onAddToCart(product.variant_id)}
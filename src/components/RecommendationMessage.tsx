@@ -67,6 +67,18 @@ export function RecommendationMessage({ message, onAddToCart, onLoadMore }: Reco
                                         <p className="text-sm text-muted-foreground">{primary_recommendation.description}</p>
                                     </div>
 
+                                    {primary_recommendation.tradeoffs && (
+                                        <div className="text-sm text-muted-foreground space-y-1">
+                                            {primary_recommendation.why_fits && (
+                                                <p><span className="font-medium text-foreground">For you: </span>{primary_recommendation.why_fits}</p>
+                                            )}
+                                            <p><span className="font-medium text-foreground">Tradeoffs: </span>{primary_recommendation.tradeoffs}</p>
+                                            {primary_recommendation.when_to_choose && (
+                                                <p className="italic">{primary_recommendation.when_to_choose}</p>
+                                            )}
+                                        </div>
+                                    )}
+
                                     {primary_recommendation.reasoning && (
                                         <div className="text-sm text-muted-foreground">
                                             <p className="font-medium text-foreground mb-1">Details:</p>
@@ -109,9 +121,19 @@ export function RecommendationMessage({ message, onAddToCart, onLoadMore }: Reco
                                     <CardDescription className="font-bold text-primary">{product.price}</CardDescription>
                                 </CardHeader>
                                 <CardContent className="p-4 pt-0 flex-1 flex flex-col justify-between">
-                                    <p className="text-xs text-muted-foreground mb-4 line-clamp-3">
-                                        {product.description}
-                                    </p>
+                                    <div className="mb-4 space-y-1">
+                                        <p className="text-xs text-muted-foreground line-clamp-3">
+                                            {product.description}
+                                        </p>
+                                        {product.tradeoffs && (
+                                            <p className="text-xs text-muted-foreground line-clamp-2">
+                                                <span className="font-medium text-foreground">Tradeoffs: </span>{product.tradeoffs}
+                                            </p>
+                                        )}
+                                        {product.when_to_choose && (
+                                            <p className="text-xs text-muted-foreground italic line-clamp-2">{product.when_to_choose}</p>
+                                        )}
+                                    </div>
                                     <Button
                                         variant="outline"
                                         size="sm"
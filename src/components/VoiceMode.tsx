@@ -25,7 +25,7 @@ import { MiniWaveform } from '@/components/ui/MiniWaveform';
 import { transcribeAudio, isAudioRecordingSupported, initElevenLabs } from '@/lib/elevenlabs';
 import { config } from '@/config';
 import { toast } from 'sonner';
-import { sendMessageToBackend, addToShopifyCart } from '@/lib/api';
+import { sendMessageToBackend, streamMessageToBackend, addToShopifyCart, updateCart, waitForImageJob, ChatRequest, ChatStreamHandlers, CartActionResponse, CartLine, CartSnapshot, ImageGenerationResponse } from '@/lib/api';
 import CheckoutModal from './CheckoutModal';
 import { ShoppingBag } from 'lucide-react';
 import type { ChatHistory } from '@/types/message';
@@ -44,6 +44,12 @@ const DEFAULT_DELIVERY_ADDRESS = {
     email: 'customer@tcules.com'
 };
 
+// Regenerations only send back the variants they replaced
+function mergeGeneratedImages(current: ImageGenerationResponse['images'], response: ImageGenerationResponse): ImageGenerationResponse['images'] {
+    if (!response.regenerated_variants) return response.images;
+    return current.map(image => response.images.find(next => next.variant_id === image.variant_id) || image);
+}
+
 export function VoiceMode() {
     // State management (preserved from original)
     const [agentState, setAgentState] = useState<AgentState>(null);
@@ -53,7 +59,7 @@ export function VoiceMode() {
     const [chatHistory, setChatHistory] = useState<ChatHistory>([]);
     const [isMounted, setIsMounted] = useState(false);
     const [currentResponse, setCurrentResponse] = useState<any>(null);
-    const [cartItems, setCartItems] = useState<Array<{ variantId: string, title: string }>>([]);
+    const [cartItems, setCartItems] = useState<CartLine[]>([]); // Mirror of the server-side cart
     const [imageConfirmationPhase, setImageConfirmationPhase] = useState(false);
     const [generatedImages, setGeneratedImages] = useState<any[]>([]);
     const [selectedImageVariant, setSelectedImageVariant] = useState<string | null>(null);
@@ -70,6 +76,7 @@ export function VoiceMode() {
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
     const audioRef = useRef<HTMLAudioElement | null>(null);
+    const imageJobRef = useRef<string | null>(null); // Image job we are waiting on (a newer one supersedes it)
 
     // Calculate total quantity for badge
     const cartQuantity = cartItems.reduce((acc, item) => acc + item.quantity, 0);
@@ -99,30 +106,37 @@ export function VoiceMode() {
     }, [currentResponse]);
 
     // Business logic methods (preserved from original)
+    // Server-side cart is authoritative; local state only mirrors it
+    const applyCartAdd = (cart: CartSnapshot, variantId: string, productTitle: string) => {
+        setCartItems(cart.items);
+
+        // Mirror to Shopify storefront cart (non-blocking)
+        addToShopifyCart(variantId).catch(err =>
+            console.warn('Shopify add failed, server cart is authoritative:', err)
+        );
+        toast.success(`Added ${productTitle} to cart!`);
+    };
+
     const handleAddToCart = async (variantId: string, productTitle: string) => {
         try {
-            // Try Shopify add (non-blocking)
-            addToShopifyCart(product.variant_id || product.variantId).catch(err =>
-                console.warn('Shopify add failed, proceeding with local cart:', err)
-            );
-
-            setCartItems(prev => [
-                ...prev,
-                {
-                    id: product.variant_id || product.variantId,
-                    title: product.title,
-                    price: product.price || "$0.00",
-                    quantity: 1,
-                    image_url: product.image_url || ""
-                }
-            ]);
-            toast.success(`Added ${product.title} to cart!`);
+            const cart = await updateCart(sessionId, { action: 'add', variant_id: variantId });
+            applyCartAdd(cart, variantId, productTitle);
+            if (cart.correction_message) {
+                toast.info(cart.correction_message);
+            }
         } catch (error) {
-            console.error('Local cart error:', error);
+            console.error('Cart error:', error);
             toast.error('Failed to add to cart.');
         }
     };
 
+    // Voice "add it": the backend already added the item
+    const handleCartAction = async (response: CartActionResponse) => {
+        if (response.cart) {
+            applyCartAdd(response.cart, response.variant_id, response.product_title);
+        }
+    };
+
     const startRecording = async () => {
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -159,6 +173,24 @@ export function VoiceMode() {
         }
     };
 
+    // Streamed turns: speak-ready acknowledgement and product cards
+    // show up before the LLM copy is finished
+    const streamHandlers: ChatStreamHandlers = {
+        onAcknowledgement: (event) => setAgentMessage(event.acknowledgement),
+        onProductsRanked: (event) => {
+            const [primary, ...secondary] = event.products.map(p => ({ ...p, description: '' }));
+            setCurrentResponse({
+                response_type: 'recommendation',
+                intent_id: event.intent_id,
+                confidence: 0,
+                primary_recommendation: primary,
+                secondary_recommendations: secondary,
+                acknowledgement: '',
+                next_page_offset: null
+            });
+        }
+    };
+
     const handleTranscription = async (audioBlob: Blob) => {
         setAgentState('thinking');
         setIsProcessing(true);
@@ -187,30 +219,28 @@ export function VoiceMode() {
             ];
             setChatHistory(newHistory);
 
-            // Send to backend
-            const lastProducts = currentResponse?.response_type === 'recommendation'
-                ? [
-                    currentResponse.primary_recommendation,
-                    ...(currentResponse.secondary_recommendations || [])
-                ].filter(Boolean)
-                : [];
-
-            const response = await sendMessageToBackend({
+            // Send to backend (cart and last shown products are tracked server-side)
+            const response = await streamMessageToBackend({
                 session_id: sessionId,
                 current_message: transcribedText,
                 chat_history: newHistory,
-                last_products: lastProducts,
-                cart_items: cartItems.map(item => ({
-                    variant_id: item.variantId,
-                    title: item.title,
-                    quantity: item.quantity
-                })),
-                address: DEFAULT_DELIVERY_ADDRESS
-            } as any);
+                address: DEFAULT_DELIVERY_ADDRESS,
+                ...imageFeedbackFields()
+            }, streamHandlers);
 
             // Handle cart action response
             if (response.response_type === 'cart_action') {
-                await handleAddToCart(response.variant_id, response.product_title);
+                await handleCartAction(response);
+                setAgentMessage(response.acknowledgement);
+                await playTTS(response.acknowledgement);
+                setAgentState(null);
+                setIsProcessing(false);
+                return;
+            }
+
+            // Handle conversational cart edit (remove / quantity / variant / clear)
+            if (response.response_type === 'cart_update') {
+                setCartItems(response.cart.items);
                 setAgentMessage(response.acknowledgement);
                 await playTTS(response.acknowledgement);
                 setAgentState(null);
@@ -240,11 +270,13 @@ export function VoiceMode() {
 
             // Handle image generation response
             if (response.response_type === 'image_generation') {
-                setGeneratedImages(response.images);
-                setImageConfirmationPhase(true);
+                setGeneratedImages(current => mergeGeneratedImages(current, response));
+                // Pending images open the picker once they arrive
+                setImageConfirmationPhase(!response.job_id);
                 if ((response as any).cached_products) {
                     setCachedProducts((response as any).cached_products);
                 }
+                if (response.job_id) awaitOutcomeImages(response);
                 setAgentMessage(response.acknowledgement);
                 await playTTS(response.acknowledgement);
                 setAgentState(null);
@@ -278,6 +310,12 @@ export function VoiceMode() {
             let ttsText = assistantMessage;
             if (response.response_type === 'recommendation' && response.explanation) {
                 ttsText = `${assistantMessage} ${response.explanation}`;
+            } else if (response.response_type === 'comparison') {
+                ttsText = `${assistantMessage} ${response.summary}`;
+            } else if (response.response_type === 'bundle') {
+                ttsText = `${assistantMessage} ${response.explanation}`;
+            } else if (response.response_type === 'order_status') {
+                ttsText = `${assistantMessage} ${response.summary}`;
             }
 
             await playTTS(ttsText);
@@ -336,6 +374,64 @@ export function VoiceMode() {
         }
     };
 
+    // While the images are on screen, what the user says is feedback on them ("more outdoorsy")
+    const imageFeedbackFields = (): Pick<ChatRequest, 'action' | 'selected_variant'> => imageConfirmationPhase
+        ? { action: 'refine_images', selected_variant: selectedImageVariant || undefined }
+        : {};
+
+    // New images after feedback: keep the picker open with the redone variants swapped in
+    const showRegeneratedImages = async (response: ImageGenerationResponse) => {
+        setGeneratedImages(current => mergeGeneratedImages(current, response));
+        setImageConfirmationPhase(true);
+        setAgentMessage(response.acknowledgement);
+        await playTTS(response.acknowledgement);
+    };
+
+    // Images render in the background: open the picker when they are ready, or show the products if they never come
+    const awaitOutcomeImages = async (response: ImageGenerationResponse) => {
+        const jobId = response.job_id as string;
+        imageJobRef.current = jobId;
+        const job = await waitForImageJob(jobId).catch(err => {
+            console.warn('Image job polling failed:', err);
+            return null;
+        });
+        if (imageJobRef.current !== jobId) return;
+        imageJobRef.current = null;
+
+        if (job?.status === 'ready') {
+            setGeneratedImages(current => mergeGeneratedImages(current, { ...response, images: job.images }));
+            setImageConfirmationPhase(true);
+            return;
+        }
+
+        // A failed regeneration leaves the earlier images to choose from
+        if (response.regenerated_variants) {
+            console.warn('⚠️ Regenerated images unavailable:', job?.error);
+            setImageConfirmationPhase(true);
+            return;
+        }
+
+        console.warn('⚠️ Images unavailable, showing products instead:', job?.error);
+        try {
+            const fallback = await sendMessageToBackend({
+                session_id: sessionId,
+                current_message: 'Show me the products instead',
+                chat_history: chatHistory,
+                action: 'skip_images',
+                intent_id: response.intent_id,
+                cached_products: response.cached_products,
+                address: DEFAULT_DELIVERY_ADDRESS
+            });
+            setCurrentResponse(fallback);
+            const message = fallback.response_type === 'clarification' ? fallback.clarifying_question : fallback.acknowledgement;
+            setAgentMessage(message);
+            await playTTS(message);
+        } catch (error) {
+            console.error('Product fallback failed:', error);
+            toast.error('Failed to load products. Please try again.');
+        }
+    };
+
     const handleImageSelection = async (
         action: 'accept' | 'refine' | 'reject',
         variantId?: string | null
@@ -352,14 +448,8 @@ export function VoiceMode() {
                     selected_variant: variantId,
                     intent_id: currentResponse?.intent_id, // Pass existing intent context
                     cached_products: cachedProducts,
-                    last_products: [],
-                    cart_items: cartItems.map(item => ({
-                        variant_id: item.id,
-                        title: item.title,
-                        quantity: item.quantity
-                    })),
                     address: DEFAULT_DELIVERY_ADDRESS
-                } as any);
+                });
                 if (response.response_type === 'recommendation') {
                     setCurrentResponse(response);
                     setImageConfirmationPhase(false);
@@ -403,17 +493,12 @@ export function VoiceMode() {
                     current_message: "I need more specific options",
                     chat_history: chatHistory,
                     action: 'refine_images',
-                    clarification_count: clarificationCount,
-                    last_products: [],
-                    cart_items: cartItems.map(item => ({
-                        variant_id: item.id,
-                        title: item.title,
-                        quantity: item.quantity
-                    })),
                     address: DEFAULT_DELIVERY_ADDRESS
-                } as any);
+                });
 
-                if (response.response_type === 'clarification') {
+                if (response.response_type === 'image_generation') {
+                    await showRegeneratedImages(response);
+                } else if (response.response_type === 'clarification') {
                     setAgentMessage(response.clarifying_question);
                     await playTTS(response.clarifying_question);
                     setClarificationCount((response as any).clarification_count || clarificationCount + 1);
@@ -435,17 +520,12 @@ export function VoiceMode() {
                     current_message: "These don't match what I'm looking for",
                     chat_history: chatHistory,
                     action: 'reject_images',
-                    clarification_count: clarificationCount,
-                    last_products: [],
-                    cart_items: cartItems.map(item => ({
-                        variant_id: item.id,
-                        title: item.title,
-                        quantity: item.quantity
-                    })),
                     address: DEFAULT_DELIVERY_ADDRESS
-                } as any);
+                });
 
-                if (response.response_type === 'clarification') {
+                if (response.response_type === 'image_generation') {
+                    await showRegeneratedImages(response);
+                } else if (response.response_type === 'clarification') {
                     setAgentMessage(response.clarifying_question);
                     await playTTS(response.clarifying_question);
                     setClarificationCount(response.clarification_count || clarificationCount + 1);
@@ -494,14 +574,8 @@ export function VoiceMode() {
                 session_id: sessionId,
                 current_message: reply,
                 chat_history: newHistory,
-                last_products: [],
-                cart_items: cartItems.map(item => ({
-                    variant_id: item.variantId,
-                    title: item.title,
-                    quantity: 1
-                })),
                 address: DEFAULT_DELIVERY_ADDRESS
-            } as any);
+            });
 
             const assistantMessage = response.response_type === 'clarification'
                 ? response.clarifying_question
@@ -512,12 +586,22 @@ export function VoiceMode() {
                 { role: 'assistant', content: assistantMessage }
             ]);
 
+            if (response.response_type === 'cart_update') {
+                setCartItems(response.cart.items);
+            }
+
             setCurrentResponse(response);
             setAgentMessage(assistantMessage);
 
             let ttsText = assistantMessage;
             if (response.response_type === 'recommendation' && response.explanation) {
                 ttsText = `${assistantMessage} ${response.explanation}`;
+            } else if (response.response_type === 'comparison') {
+                ttsText = `${assistantMessage} ${response.summary}`;
+            } else if (response.response_type === 'bundle') {
+                ttsText = `${assistantMessage} ${response.explanation}`;
+            } else if (response.response_type === 'order_status') {
+                ttsText = `${assistantMessage} ${response.summary}`;
             }
 
             await playTTS(ttsText);
@@ -547,30 +631,27 @@ export function VoiceMode() {
         setChatHistory(newHistory);
 
         try {
-            // Send to backend with correct payload format
-            const lastProducts = currentResponse?.response_type === 'recommendation'
-                ? [
-                    currentResponse.primary_recommendation,
-                    ...(currentResponse.secondary_recommendations || [])
-                ].filter(Boolean)
-                : [];
-
-            const response = await sendMessageToBackend({
+            // Send to backend (cart and last shown products are tracked server-side)
+            const response = await streamMessageToBackend({
                 session_id: sessionId,
                 current_message: userText,
                 chat_history: newHistory,
-                last_products: lastProducts,
-                cart_items: cartItems.map(item => ({
-                    variant_id: item.variantId,
-                    title: item.title,
-                    quantity: 1
-                })),
-                address: DEFAULT_DELIVERY_ADDRESS
-            } as any);
+                address: DEFAULT_DELIVERY_ADDRESS,
+                ...imageFeedbackFields()
+            }, streamHandlers);
 
             // Handle different response types (same as voice input)
             if (response.response_type === 'cart_action') {
-                await handleAddToCart(response.variant_id, response.product_title);
+                await handleCartAction(response);
+                setAgentMessage(response.acknowledgement);
+                await playTTS(response.acknowledgement);
+                setAgentState(null);
+                setIsProcessing(false);
+                return;
+            }
+
+            if (response.response_type === 'cart_update') {
+                setCartItems(response.cart.items);
                 setAgentMessage(response.acknowledgement);
                 await playTTS(response.acknowledgement);
                 setAgentState(null);
@@ -597,11 +678,13 @@ export function VoiceMode() {
             }
 
             if (response.response_type === 'image_generation') {
-                setGeneratedImages(response.images);
-                setImageConfirmationPhase(true);
+                setGeneratedImages(current => mergeGeneratedImages(current, response));
+                // Pending images open the picker once they arrive
+                setImageConfirmationPhase(!response.job_id);
                 if ((response as any).cached_products) {
                     setCachedProducts((response as any).cached_products);
                 }
+                if (response.job_id) awaitOutcomeImages(response);
                 setAgentMessage(response.acknowledgement);
                 await playTTS(response.acknowledgement);
                 setAgentState(null);
@@ -624,6 +707,12 @@ export function VoiceMode() {
             let ttsText = assistantMessage;
             if (response.response_type === 'recommendation' && response.explanation) {
                 ttsText = `${assistantMessage} ${response.explanation}`;
+            } else if (response.response_type === 'comparison') {
+                ttsText = `${assistantMessage} ${response.summary}`;
+            } else if (response.response_type === 'bundle') {
+                ttsText = `${assistantMessage} ${response.explanation}`;
+            } else if (response.response_type === 'order_status') {
+                ttsText = `${assistantMessage} ${response.summary}`;
             }
 
             await playTTS(ttsText);
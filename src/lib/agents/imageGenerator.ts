@@ -1,21 +1,44 @@
 import { OutcomeContext } from '@/types/session';
-import { getVertexAccessToken, getVertexCredentials } from '../vertexAuth';
+import {
+    getImageBlobStore,
+    getImageProviders,
+    hashImagePrompt,
+    ImageBlobStore,
+    ImageRequest,
+    ImageVariant,
+    parseDataUrl,
+    scheduleImageGarbageCollection
+} from '@/lib/images';
+
+// What a variant emphasizes: the product itself, the product in use, or a feature close-up
+export type ImageFocus = 'product' | 'lifestyle' | 'feature';
 
 export interface GeneratedImage {
     url: string;
     variant_id: 'a' | 'b' | 'c';
+    focus: ImageFocus;
     caption: string;
     interpretation: string;
 }
 
+// Focus of each variant letter (for clients that only send back the letter)
+export const IMAGE_VARIANT_FOCUS: Record<GeneratedImage['variant_id'], ImageFocus> = {
+    a: 'product',
+    b: 'lifestyle',
+    c: 'feature'
+};
+
 /**
- * Generate 3 visual variants of user's desired outcome using Gemini Imagen
+ * Generate 3 visual variants of user's desired outcome, trying the configured
+ * image providers in order (see IMAGE_PROVIDERS)
  * Variant A: Realistic product shot
- * Variant B: Lifestyle/context view  
+ * Variant B: Lifestyle/context view
  * Variant C: Feature highlight
  */
 export async function generateOutcomeImages(
-    outcomeContext: OutcomeContext
+    outcomeContext: OutcomeContext,
+    variantIds?: GeneratedImage['variant_id'][], // Only these variants (regeneration); all by default
+    signal?: AbortSignal                         // Stops the provider calls (image job timeout)
 ): Promise<GeneratedImage[]> {
 
     if (!outcomeContext.desired_outcome) {
@@ -24,274 +47,96 @@ export async function generateOutcomeImages(
 
     const basePrompt = buildPromptFromOutcome(outcomeContext);
 
-    const variants = [
+    const allVariants: ImageVariant[] = [
         {
-            id: 'a' as const,
+            id: 'a',
+            focus: IMAGE_VARIANT_FOCUS.a,
             style: 'realistic product photography shot on white background',
             description: 'Product focus'
         },
         {
-            id: 'b' as const,
+            id: 'b',
+            focus: IMAGE_VARIANT_FOCUS.b,
             style: 'lifestyle photography showing product being used in real context',
             description: 'In use'
         },
         {
-            id: 'c' as const,
+            id: 'c',
+            focus: IMAGE_VARIANT_FOCUS.c,
             style: 'macro detail photography highlighting key features and technology',
             description: 'Feature detail'
         }
     ];
-
-    const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-    const vertexCreds = getVertexCredentials();
-    const hfToken = process.env.HUGGING_FACE_ACCESS_TOKEN;
-    const hfModel = process.env.HUGGING_FACE_MODEL || 'black-forest-labs/FLUX.1-schnell';
-
-    console.log('DEBUG: Env check - HF Token:', hfToken ? 'Present' : 'Missing', 'API Key:', apiKey ? 'Present' : 'Missing');
-
-    // Strategy 1: Hugging Face (Priority if configured)
-    if (hfToken) {
-        try {
-            console.log(`🚀 Attempting image generation via Hugging Face (${hfModel})...`);
-
-            const images = await Promise.all(
-                variants.map(async (variant) => {
-                    const prompt = `${basePrompt}, ${variant.style}, professional photography, high quality, sharp focus, no text overlays, no brand logos`;
-
-                    const response = await fetch(
-                        `https://router.huggingface.co/hf-inference/models/${hfModel}`,
-                        {
-                            headers: {
-                                Authorization: `Bearer ${hfToken}`,
-                                "Content-Type": "application/json",
-                            },
-                            method: "POST",
-                            body: JSON.stringify({
-                                inputs: prompt,
-                                parameters: {
-                                    width: 512, // Standard square for FLUX/SD
-                                    height: 512
-                                }
-                            }),
-                        }
-                    );
-
-                    if (!response.ok) {
-                        const errorText = await response.text();
-                        if (response.status === 503) {
-                            throw new Error('Hugging Face model loading/busy (503)');
-                        }
-                        throw new Error(`Hugging Face error ${response.status}: ${errorText}`);
-                    }
-
-                    // Hugging Face inference API returns a Blob (image) usually, or 
-                    // sometimes JSON depending on the model pipeline. 
-                    // For FLUX/SD image-to-text, it returns the raw image blob.
-                    const imageBlob = await response.blob();
-                    const arrayBuffer = await imageBlob.arrayBuffer();
-                    const base64 = Buffer.from(arrayBuffer).toString('base64');
-
-                    return {
-                        url: `data:image/jpeg;base64,${base64}`,
-                        variant_id: variant.id,
-                        caption: `${variant.description}: ${outcomeContext.use_case || outcomeContext.desired_outcome || 'your goal'}`,
-                        interpretation: `${outcomeContext.desired_outcome || 'Outcome visualization'}`
-                    };
-                })
-            );
-
-            console.log('✅ Generated REAL images via Hugging Face');
-            return images;
-
-        } catch (error) {
-            console.error('Hugging Face generation failed:', error);
-            console.warn('Falling back to Vertex / Mocks');
-            // Fall through to next strategy
+    const variants = allVariants.filter(variant => !variantIds || variantIds.includes(variant.id));
+
+    const requests: ImageRequest[] = variants.map(variant => ({
+        prompt: `${basePrompt}, ${variant.style}, professional photography, high quality, sharp focus, no text overlays, no brand logos`,
+        variant,
+        caption: `${variant.description}: ${outcomeContext.use_case || outcomeContext.desired_outcome || 'your goal'}`,
+        preferences: outcomeContext.visual_preferences,
+        signal
+    }));
+
+    const store = getImageBlobStore();
+    const toImages = (urls: (string | null)[]): GeneratedImage[] => requests.map((request, i) => ({
+        url: urls[i] as string,
+        variant_id: request.variant.id,
+        focus: request.variant.focus,
+        caption: request.caption,
+        interpretation: `${outcomeContext.desired_outcome || 'Outcome visualization'}`
+    }));
+
+    // Each provider renders every missing variant or none, so a set never mixes providers
+    for (const provider of getImageProviders()) {
+        if (!provider.isConfigured()) continue;
+        signal?.throwIfAborted();
+
+        // Identical prompts reuse the provider's stored image instead of generating it again.
+        // Keyed by provider: a fallback's image never stands in for a preferred provider's.
+        const ids = requests.map(request => hashImagePrompt(`${provider.name}\n${request.prompt}\n${request.caption}`));
+        const stored = await Promise.all(ids.map(id => store.touch(id).catch(() => false)));
+        const urls = ids.map((id, i) => stored[i] ? `/api/images/${id}` : null);
+        const missing = requests.filter((_, i) => !urls[i]);
+
+        if (missing.length === 0) {
+            console.log(`♻️ Reusing ${requests.length} stored outcome image(s) from ${provider.name}`);
+            return toImages(urls);
         }
-    }
 
-    // Strategy 2: Vertex AI (Priority if configured)
-    if (vertexCreds) {
         try {
-            console.log('🚀 Attempting image generation via Vertex AI...');
-            const accessToken = await getVertexAccessToken();
-
-            const images = await Promise.all(
-                variants.map(async (variant) => {
-                    const prompt = `${basePrompt}, ${variant.style}, professional photography, high quality, sharp focus, no text overlays, no brand logos`;
-
-                    const endpoint = `https://us-central1-aiplatform.googleapis.com/v1/projects/${vertexCreds.projectId}/locations/us-central1/publishers/google/models/imagen-3.0-generate-001:predict`;
-
-                    const response = await fetch(endpoint, {
-                        method: 'POST',
-                        headers: {
-                            'Authorization': `Bearer ${accessToken}`,
-                            'Content-Type': 'application/json; charset=utf-8'
-                        },
-                        body: JSON.stringify({
-                            instances: [{ prompt: prompt }],
-                            parameters: {
-                                sampleCount: 1,
-                                aspectRatio: "1:1"
-                            }
-                        })
-                    });
-
-                    if (!response.ok) {
-                        const errorText = await response.text();
-                        // Handle Quota Error gracefully
-                        if (response.status === 429) {
-                            console.warn('⚠️ Vertex AI Quota Exceeded (429). Falling back to mocks.');
-                            throw new Error(`QUOTA_EXCEEDED`);
-                        }
-                        throw new Error(`Vertex AI error ${response.status}: ${errorText}`);
-                    }
-
-                    const data = await response.json();
-
-                    // Handle Vertex AI response format
-                    // { predictions: [ { bytesBase64Encoded: "..." } ] }
-                    const imageBase64 = data.predictions?.[0]?.bytesBase64Encoded; // Imagen 2/3 format on Vertex
-
-                    if (!imageBase64) {
-                        console.error('Vertex AI response missing image data:', JSON.stringify(data).substring(0, 200));
-                        throw new Error('No image data in Vertex AI response');
-                    }
-
-                    return {
-                        url: `data:image/png;base64,${imageBase64}`,
-                        variant_id: variant.id,
-                        caption: `${variant.description}: ${outcomeContext.use_case || outcomeContext.desired_outcome || 'your goal'}`,
-                        interpretation: `${outcomeContext.desired_outcome || 'Outcome visualization'}`
-                    };
-                })
-            );
-
-            console.log('✅ Generated REAL images via Vertex AI');
-            return images;
-
+            console.log(`🚀 Attempting image generation via ${provider.name}...`);
+            const generated = await Promise.all(missing.map(request => provider.generate(request)));
+            console.log(`✅ Generated images via ${provider.name}`);
+
+            await Promise.all(missing.map(async (request, j) => {
+                const i = requests.indexOf(request);
+                urls[i] = await storeImage(store, ids[i], generated[j]);
+            }));
+            scheduleImageGarbageCollection();
+            return toImages(urls);
         } catch (error) {
-            console.error('Vertex AI generation failed:', error);
-            console.warn('Falling back to Generative Language API / Mocks');
-            // Fall through to next strategy
+            console.error(`${provider.name} image generation failed:`, error);
+            // Fall through to next provider
         }
     }
 
-    if (!apiKey && !vertexCreds && !hfToken) {
-        console.warn('No API keys configured - using mock images');
-        return generateMockImages(outcomeContext, variants);
-    }
-
-    // Strategy 3: Generative Language API (Fallback)
-    try {
-        const images = await Promise.all(
-            variants.map(async (variant) => {
-                const prompt = `${basePrompt}, ${variant.style}, professional photography, high quality, sharp focus, no text overlays, no brand logos`;
-
-                // Try Imagen 3 first, then fallback to alternative endpoints
-                const endpoints = [
-                    // Original Imagen 3 endpoint
-                    {
-                        url: `https://generativelanguage.googleapis.com/v1beta/models/imagen-3.0-generate-001:generateImages?key=${apiKey}`,
-                        body: {
-                            prompt: prompt,
-                            number_of_images: 1,
-                            aspect_ratio: '1:1',
-                            safety_filter_level: 'block_some',
-                            person_generation: 'allow_adult'
-                        }
-                    },
-                    // Try alternative model name
-                    {
-                        url: `https://generativelanguage.googleapis.com/v1beta/models/imagegeneration-002:predict?key=${apiKey}`,
-                        body: {
-                            instances: [{ prompt: prompt }],
-                            parameters: {
-                                sampleCount: 1,
-                                aspectRatio: '1:1'
-                            }
-                        }
-                    }
-                ];
-
-                let lastError: Error | null = null;
-
-                for (const endpoint of endpoints) {
-                    try {
-                        const response = await fetch(endpoint.url, {
-                            method: 'POST',
-                            headers: {
-                                'Content-Type': 'application/json',
-                            },
-                            body: JSON.stringify(endpoint.body)
-                        });
-
-                        if (!response.ok) {
-                            // Silent fail to try next endpoint
-                            lastError = new Error(`API error: ${response.status}`);
-                            continue;
-                        }
-
-                        const data = await response.json();
-
-                        const imageBase64 = data.generatedImages?.[0]?.imageBytes ||
-                            data.predictions?.[0]?.bytesBase64Encoded ||
-                            data.images?.[0]?.data;
-
-                        if (!imageBase64) {
-                            lastError = new Error('No image generated');
-                            continue;
-                        }
-
-                        // Success!
-                        return {
-                            url: `data:image/png;base64,${imageBase64}`,
-                            variant_id: variant.id,
-                            caption: `${variant.description}: ${outcomeContext.use_case || outcomeContext.desired_outcome || 'your goal'}`,
-                            interpretation: `${outcomeContext.desired_outcome || 'Outcome visualization'}`
-                        };
-
-                    } catch (error) {
-                        lastError = error as Error;
-                        continue;
-                    }
-                }
-
-                // All endpoints failed - throw last error
-                throw lastError || new Error('All image generation endpoints failed');
-            })
-        );
-
-        console.log('✅ Generated real Imagen images via GenAI API');
-        return images;
-
-    } catch (error) {
-        // All APIs failed
-        console.warn('All image generation APIs failed, using mock images');
-        return generateMockImages(outcomeContext, variants);
-    }
+    throw new Error('No image provider could generate the outcome images');
 }
 
 /**
- * Generate mock placeholder images for testing
+ * Persist a generated data URL and return the URL it is served from
+ * (the data URL itself if it can't be stored)
  */
-function generateMockImages(
-    outcomeContext: OutcomeContext,
-    variants: Array<{ id: 'a' | 'b' | 'c'; description: string; style: string }>
-): GeneratedImage[] {
-    console.log('🎨 Generating mock placeholder images');
-    return variants.map(variant => {
-        //Generate simple colored placeholders
-        const bgColors = { a: 'FF6B6B', b: '4ECDC4', c: 'FFE66D' }; // Red, Teal, Yellow
-        const text = encodeURIComponent(variant.description);
-
-        return {
-            url: `https://via.placeholder.com/400x400/${bgColors[variant.id]}/000000?text=${text}`,
-            variant_id: variant.id,
-            caption: `${variant.description}: ${outcomeContext.use_case || outcomeContext.desired_outcome || 'your goal'}`,
-            interpretation: `${outcomeContext.desired_outcome || 'Outcome visualization'}`
-        };
-    });
+async function storeImage(store: ImageBlobStore, id: string, url: string): Promise<string> {
+    const parsed = parseDataUrl(url);
+    if (!parsed) return url;
+    try {
+        await store.put({ id, ...parsed });
+        return `/api/images/${id}`;
+    } catch (error) {
+        console.warn('⚠️ Could not store generated image, sending it inline:', error);
+        return url;
+    }
 }
 
 /**
@@ -314,6 +159,19 @@ function buildPromptFromOutcome(context: OutcomeContext): string {
         prompt += `, ${context.visual_preferences.color} color palette`;
     }
 
+    if (context.visual_preferences?.form_factor) {
+        prompt += `, ${context.visual_preferences.form_factor}`;
+    }
+
+    if (context.visual_preferences?.setting) {
+        prompt += `, set ${context.visual_preferences.setting}`;
+    }
+
+    // Free-text feedback from earlier refinement rounds
+    if (context.visual_preferences?.notes && context.visual_preferences.notes.length > 0) {
+        prompt += `, ${context.visual_preferences.notes.join(', ')}`;
+    }
+
     // Add feature constraints as visual elements
     if (context.constraints.features && context.constraints.features.length > 0) {
         const features = context.constraints.features.slice(0, 3).join(', ');
@@ -323,44 +181,63 @@ function buildPromptFromOutcome(context: OutcomeContext): string {
     return prompt;
 }
 
-/**
- * Regenerate images based on user feedback
- */
-export async function regenerateWithFeedback(
-    outcomeContext: OutcomeContext,
-    feedback: string
-): Promise<GeneratedImage[]> {
+type VisualPreferences = NonNullable<OutcomeContext['visual_preferences']>;
 
-    // Parse feedback to adjust prompt
-    const adjustedContext = { ...outcomeContext };
+// Feedback kept verbatim for the prompt (most recent last)
+const MAX_FEEDBACK_NOTES = 3;
 
-    // Simple feedback parsing
-    const lowerFeedback = feedback.toLowerCase();
+// "These don't match", "try again": a rejection without anything to act on
+const GENERIC_FEEDBACK = /^(these|those|they|it|this)?\s*(don'?t|do not|doesn'?t)\s+(match|look right)|^(no|nope|retry|try again|not (it|really|quite)|i need more specific options)\b/i;
 
-    if (lowerFeedback.includes('light') || lowerFeedback.includes('bright') || lowerFeedback.includes('dark')) {
-        if (!adjustedContext.visual_preferences) {
-            adjustedContext.visual_preferences = {};
-        }
+const COLORS = ['black', 'white', 'silver', 'grey', 'gray', 'blue', 'red', 'green', 'pink', 'gold', 'orange', 'yellow', 'purple'];
 
-        if (lowerFeedback.includes('dark') || lowerFeedback.includes('moody')) {
-            adjustedContext.visual_preferences.style = 'moody, dark, dramatic lighting';
-        } else if (lowerFeedback.includes('bright') || lowerFeedback.includes('light')) {
-            adjustedContext.visual_preferences.style = 'bright, well-lit, airy';
-        }
+// Keyword rules: pattern → preference update and how to say it back
+const FEEDBACK_RULES: Array<{ pattern: RegExp; apply: Partial<VisualPreferences>; change: string }> = [
+    { pattern: /\b(dark|darker|moody|dramatic)\b/i, apply: { style: 'moody, dark, dramatic lighting' }, change: 'moodier lighting' },
+    { pattern: /\b(bright|brighter|lighter|airy|sunny)\b/i, apply: { style: 'bright, well-lit, airy' }, change: 'brighter lighting' },
+    { pattern: /\b(outdoors?y?|nature|hiking|mountains?|beach|adventure)\b/i, apply: { setting: 'outdoors in nature' }, change: 'an outdoor setting' },
+    { pattern: /\b(indoors?|at home|living room|studio|desk)\b/i, apply: { setting: 'indoors' }, change: 'an indoor setting' },
+    { pattern: /\b(city|street|urban)\b/i, apply: { setting: 'on city streets' }, change: 'a city setting' },
+    { pattern: /\b(smaller|compact|tiny|pocket|lighter weight|less bulky)\b/i, apply: { form_factor: 'small, compact, pocket-sized device' }, change: 'a smaller device' },
+    { pattern: /\b(bigger|larger|professional|pro-looking|serious)\b/i, apply: { form_factor: 'larger, professional-looking device' }, change: 'a more professional device' },
+    { pattern: /\b(minimal|clean|simple)\b/i, apply: { style: 'minimal, clean composition' }, change: 'a cleaner look' }
+];
+
+export interface ImageFeedbackResult {
+    preferences: VisualPreferences;
+    changes: string[];   // What changed, in words ("an outdoor setting"); empty when nothing was actionable
+}
+
+/**
+ * Fold the user's feedback on the images ("more outdoorsy", "smaller camera")
+ * into the visual preferences used by the image prompt. Feedback no rule
+ * understands is still kept verbatim as a note, unless it is a bare rejection.
+ */
+export function applyImageFeedback(current: VisualPreferences | undefined, feedback: string): ImageFeedbackResult {
+    const preferences: VisualPreferences = { ...current };
+    const changes: string[] = [];
+    const text = feedback.trim();
+
+    for (const rule of FEEDBACK_RULES) {
+        if (!rule.pattern.test(text)) continue;
+        Object.assign(preferences, rule.apply);
+        changes.push(rule.change);
     }
 
-    if (lowerFeedback.includes('angle') || lowerFeedback.includes('perspective')) {
-        if (adjustedContext.desired_outcome) {
-            adjustedContext.desired_outcome += ', different camera angle and perspective';
-        }
+    const color = COLORS.find(c => new RegExp(`\\b${c}\\b`, 'i').test(text));
+    if (color) {
+        preferences.color = color;
+        changes.push(`a ${color} colour scheme`);
     }
 
-    if (lowerFeedback.includes('subject') || lowerFeedback.includes('focus')) {
-        if (adjustedContext.desired_outcome) {
-            adjustedContext.desired_outcome += ', clear focus on main subject';
-        }
+    if (/\b(angle|perspective)\b/i.test(text)) changes.push('a different angle');
+    if (/\b(subject|focus)\b/i.test(text)) changes.push('a clearer main subject');
+
+    const generic = text.length === 0 || GENERIC_FEEDBACK.test(text);
+    if (!generic) {
+        preferences.notes = [...(current?.notes || []), text].slice(-MAX_FEEDBACK_NOTES);
+        if (changes.length === 0) changes.push(`"${text}"`);
     }
 
-    // Regenerate with adjusted context
-    return generateOutcomeImages(adjustedContext);
+    return { preferences, changes };
 }
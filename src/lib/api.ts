@@ -12,6 +12,14 @@
  */
 
 import { config } from '@/config';
+import type {
+    ChatErrorResponse,
+    ChatRequest,
+    ChatResponse,
+    ChatStreamEvent,
+    ClarificationResponse,
+    ImageGenerationResponse
+} from '@/types/chat';
 
 // ============================================================================
 // TYPE DEFINITIONS (Match Backend Contract)
@@ -24,97 +32,42 @@ export interface ChatHistoryItem {
     content: string;
 }
 
-export interface ChatRequest {
-    session_id: string;
-    current_message: string;
-    chat_history: ChatHistoryItem[];
-    intent_id?: string; // For pagination/load more (skip classification)
-    offset?: number;    // Pagination offset
-}
-
-export interface ClarificationResponse {
-    response_type: 'clarification';
-    intent_id: string;
-    confidence: number;
-    missing_info: string[];
-    clarifying_question: string;
-}
+// Chat wire types are defined once, next to the route (src/types/chat.ts)
+export type {
+    BundleResponse,
+    CartActionResponse,
+    CartSummaryResponse,
+    CartUpdateResponse,
+    ChatErrorResponse,
+    ChatRequest,
+    ChatStreamEvent,
+    ClarificationResponse,
+    ComparisonResponse,
+    ImageGenerationResponse,
+    OrderPlacedResponse,
+    OrderStatusResponse,
+    PresentationProduct,
+    RankedProduct,
+    RecommendationResponse
+} from '@/types/chat';
 
-// Presentation Layer Product (Generated by LLM 2)
-export interface PresentationProduct {
-    product_id: string; // From Supabase
-    title: string;      // From Supabase
-    price: string;      // From Supabase
-    image_url: string;  // From Supabase
-    description: string; // Generated "Why this fits" (LLM)
-    reasoning: string;   // Detailed reasoning (LLM - Primary only)
-    features?: string[]; // Generated features list
-}
+export type BackendResponse = ChatResponse;
 
-export interface RecommendationResponse {
-    response_type: 'recommendation';
-    intent_id: string;
-    confidence: number;
-    primary_recommendation?: PresentationProduct; // Rank 1 (only for first page)
-    secondary_recommendations: PresentationProduct[]; // Rank 2-3 (or 4-6 on load more)
-    acknowledgement: string; // "I found these..."
-    explanation?: string; // Why products fit
-    next_page_offset: number | null; // For "Load More"
-}
-
-export interface CartActionResponse {
-    response_type: 'cart_action';
-    action: 'add';
-    product_id: string;
-    variant_id: string;
-    product_title: string;
-    acknowledgement: string;
-}
-
-export interface CartSummaryResponse {
-    response_type: 'cart_summary';
-    items: Array<{
-        product_id: string;
-        variant_id: string;
-        title: string;
-        price: string;
-        quantity: number;
-    }>;
-    subtotal: string;
-    shipping: string;
-    tax: string;
-    total: string;
-    currency: string;
-    acknowledgement: string;
-    draft_order_id?: string;
-}
-
-export interface OrderPlacedResponse {
-    response_type: 'order_placed';
-    order_id: string;
-    order_number: string;
-    total: string;
-    currency: string;
-    acknowledgement: string;
+// Background image generation job (GET /api/images/jobs/[id])
+export interface ImageJobResult {
+    job_id: string;
+    status: 'pending' | 'ready' | 'failed';
+    images: ImageGenerationResponse['images'];
+    error?: string; // 'timeout' or why generation failed
 }
 
-export interface ImageGenerationResponse {
-    response_type: 'image_generation';
-    intent_id: string;
-    outcome_description: string;
-    images: Array<{
-        url: string;
-        variant_id: string;
-        caption: string;
-        interpretation: string;
-    }>;
-    cached_products?: any[]; // Phase 4: Pre-fetched products
-    acknowledgement: string;
-    explanation: string;
+export interface ChatStreamHandlers {
+    onAcknowledgement?: (event: Extract<ChatStreamEvent, { type: 'acknowledgement' }>) => void;
+    onClarification?: (response: ClarificationResponse) => void;
+    onProductsRanked?: (event: Extract<ChatStreamEvent, { type: 'products_ranked' }>) => void;
+    onPresentationDelta?: (event: Extract<ChatStreamEvent, { type: 'presentation_delta' }>) => void;
 }
 
-export type BackendResponse = ClarificationResponse | RecommendationResponse | CartActionResponse | CartSummaryResponse | OrderPlacedResponse | ImageGenerationResponse;
-
 // ============================================================================
 // REQUEST VALIDATION (Prevent Malformed Requests)
 // ============================================================================
@@ -175,26 +128,99 @@ export async function sendMessageToBackend(
         });
 
         if (!response.ok) {
-            throw new Error(`Backend error: ${response.status} ${response.statusText}`);
+            const errorBody: Partial<ChatErrorResponse> = await response.json().catch(() => ({}));
+            throw new Error(`Backend error: ${response.status} ${errorBody.code || response.statusText}`);
         }
 
         const data = await response.json();
+        return validateBackendResponse(data);
+    } catch (error) {
+        // Re-throw with context
+        if (error instanceof Error) {
+            throw new Error(`Backend communication failed: ${error.message}`);
+        }
+        throw new Error('Backend communication failed: Unknown error');
+    }
+}
 
-        // Validate response type
-        if (!data.response_type ||
-            (data.response_type !== 'clarification' &&
-                data.response_type !== 'recommendation' &&
-                data.response_type !== 'cart_action' &&
-                data.response_type !== 'cart_summary' &&
-                data.response_type !== 'order_placed' &&
-                data.response_type !== 'image_generation')) {
-            console.error('Invalid response from backend:', data);
-            throw new Error(`Invalid response_type from backend: ${data.response_type || 'undefined'}`);
+/**
+ * Streaming variant of sendMessageToBackend.
+ * Invokes handlers as events arrive and resolves with the final response.
+ */
+export async function streamMessageToBackend(
+    payload: ChatRequest,
+    handlers: ChatStreamHandlers = {}
+): Promise<BackendResponse> {
+    console.log('📡 streaming message to backend:', payload);
+    validateChatRequest(payload);
+
+    try {
+        const response = await fetch(config.backend.apiUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'text/event-stream',
+            },
+            body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+            const errorBody: Partial<ChatErrorResponse> = await response.json().catch(() => ({}));
+            throw new Error(`Backend error: ${response.status} ${errorBody.code || response.statusText}`);
+        }
+
+        if (!response.body) {
+            throw new Error('Streaming not supported by this browser');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            // SSE frames are separated by a blank line
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                const frame = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+                boundary = buffer.indexOf('\n\n');
+
+                const data = frame
+                    .split('\n')
+                    .filter(line => line.startsWith('data:'))
+                    .map(line => line.slice(5).trim())
+                    .join('\n');
+                if (!data) continue;
+
+                const event = JSON.parse(data) as ChatStreamEvent;
+                switch (event.type) {
+                    case 'acknowledgement':
+                        handlers.onAcknowledgement?.(event);
+                        break;
+                    case 'clarification':
+                        handlers.onClarification?.(event.response);
+                        break;
+                    case 'products_ranked':
+                        handlers.onProductsRanked?.(event);
+                        break;
+                    case 'presentation_delta':
+                        handlers.onPresentationDelta?.(event);
+                        break;
+                    case 'error':
+                        throw new Error(`Backend error: ${event.error.code}`);
+                    case 'done':
+                        await reader.cancel();
+                        return validateBackendResponse(event.response);
+                }
+            }
         }
 
-        return data as BackendResponse;
+        throw new Error('Stream ended without a final response');
     } catch (error) {
-        // Re-throw with context
         if (error instanceof Error) {
             throw new Error(`Backend communication failed: ${error.message}`);
         }
@@ -202,6 +228,28 @@ export async function sendMessageToBackend(
     }
 }
 
+function validateBackendResponse(body: unknown): BackendResponse {
+    const data = body as Partial<BackendResponse> | null;
+
+    // Validate response type
+    if (!data?.response_type ||
+        (data.response_type !== 'clarification' &&
+            data.response_type !== 'recommendation' &&
+            data.response_type !== 'comparison' &&
+            data.response_type !== 'bundle' &&
+            data.response_type !== 'cart_action' &&
+            data.response_type !== 'cart_update' &&
+            data.response_type !== 'cart_summary' &&
+            data.response_type !== 'order_placed' &&
+            data.response_type !== 'order_status' &&
+            data.response_type !== 'image_generation')) {
+        console.error('Invalid response from backend:', data);
+        throw new Error(`Invalid response_type from backend: ${data?.response_type || 'undefined'}`);
+    }
+
+    return data as BackendResponse;
+}
+
 // ============================================================================
 // SHOPIFY CART API
 // ============================================================================
@@ -248,3 +296,219 @@ export async function addToShopifyCart(
         throw new Error('Failed to add to cart: Unknown error');
     }
 }
+
+// ============================================================================
+// SERVER CART API
+// ============================================================================
+
+export interface CartLine {
+    product_id: string;
+    variant_id: string;
+    title: string;
+    price: string;      // Unit price snapshotted when added
+    image_url: string;
+    quantity: number;
+    added_at: string;
+}
+
+export interface CartSnapshot {
+    session_id: string;
+    items: CartLine[];
+    subtotal: string;
+    discount: string;   // Bundle discounts earned
+    total: string;      // subtotal - discount
+    item_count: number;
+    currency: string;
+    updated_at: string;
+}
+
+export type CartUpdate =
+    | { action: 'add'; variant_id?: string; product_id?: string; quantity?: number }
+    | { action: 'add_bundle'; bundle_id: string }
+    | { action: 'remove'; variant_id: string }
+    | { action: 'update_quantity'; variant_id: string; quantity: number }
+    | { action: 'clear' };
+
+export async function fetchCart(sessionId: string): Promise<CartSnapshot> {
+    const response = await fetch(`/api/cart?session_id=${encodeURIComponent(sessionId)}`);
+    if (!response.ok) {
+        throw new Error(`Failed to load cart: ${response.status}`);
+    }
+    return response.json();
+}
+
+// Result of POST /api/cart; adds may carry a nudge toward a better-fitting product
+export type CartUpdateResult = CartSnapshot & { correction_message?: string };
+
+export async function updateCart(sessionId: string, update: CartUpdate): Promise<CartUpdateResult> {
+    const response = await fetch('/api/cart', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ session_id: sessionId, ...update }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`Cart error: ${response.status} - ${errorData.error || response.statusText}`);
+    }
+    return response.json();
+}
+
+// ============================================================================
+// IMAGE JOBS API
+// ============================================================================
+
+/**
+ * Wait for a background image job to finish. Resolves as failed with
+ * error 'timeout' if it hasn't finished within `timeoutMs`.
+ */
+export async function waitForImageJob(jobId: string, timeoutMs: number = 45000): Promise<ImageJobResult> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+        const wait = Math.max(1, Math.min(10, Math.floor((deadline - Date.now()) / 1000)));
+        const response = await fetch(`/api/images/jobs/${encodeURIComponent(jobId)}?wait=${wait}`);
+        if (!response.ok) {
+            throw new Error(`Image job error: ${response.status}`);
+        }
+
+        const job: ImageJobResult = await response.json();
+        if (job.status !== 'pending') return job;
+    }
+    return { job_id: jobId, status: 'failed', images: [], error: 'timeout' };
+}
+
+// ============================================================================
+// PAYMENTS API
+// ============================================================================
+
+export type PaymentMethodId = 'cod' | 'upi' | 'card' | 'pay_later';
+export type PaymentIntentStatus = 'requires_confirmation' | 'succeeded' | 'failed' | 'pay_on_delivery' | 'voided' | 'refunded';
+
+export interface PaymentMethodOption {
+    id: PaymentMethodId;
+    label: string;
+    description: string;
+    online: boolean;
+    eligible: boolean;
+    reason?: string;    // Why it isn't offered for this order
+}
+
+export interface PaymentIntent {
+    intent_id: string;
+    method: PaymentMethodId;
+    amount: string;
+    currency: string;
+    status: PaymentIntentStatus;
+    failure_reason?: string;
+}
+
+async function postPayment<T>(body: Record<string, unknown>): Promise<T> {
+    const response = await fetch('/api/payments', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Payment error: ${response.status}`);
+    }
+    return response.json();
+}
+
+export async function fetchPaymentOptions(amount: number, pincode?: string): Promise<PaymentMethodOption[]> {
+    const params = new URLSearchParams({ amount: amount.toFixed(2) });
+    if (pincode) params.set('pincode', pincode);
+    const response = await fetch(`/api/payments?${params}`);
+    if (!response.ok) {
+        throw new Error(`Failed to load payment options: ${response.status}`);
+    }
+    return (await response.json()).methods;
+}
+
+// The same idempotency key returns the payment already made for this checkout instead of a new one
+export function createPaymentIntent(method: PaymentMethodId, amount: number, pincode?: string, reference?: string, idempotencyKey?: string): Promise<PaymentIntent> {
+    return postPayment({ action: 'create_intent', method, amount, pincode, reference, idempotency_key: idempotencyKey });
+}
+
+export function confirmPaymentIntent(intentId: string, confirmation: { upi_id?: string; card_last4?: string } = {}): Promise<PaymentIntent> {
+    return postPayment({ action: 'confirm', intent_id: intentId, ...confirmation });
+}
+
+// ============================================================================
+// CHECKOUT API
+// ============================================================================
+
+export interface CheckoutQuote {
+    items: CartLine[];
+    subtotal: string;
+    discount: string;   // Bundle discounts
+    shipping: string;
+    tax: string;        // GST
+    total: string;      // Amount to pay
+    currency: string;
+}
+
+export interface CheckoutDetails {
+    fullName: string;
+    email?: string;
+    phone?: string;
+    address: string;
+    area?: string;
+    city: string;
+    state?: string;
+    zipCode: string;
+    country: string;
+}
+
+export interface Order {
+    order_id: string;
+    order_number: string;
+    status: 'confirmed' | 'packed' | 'shipped' | 'delivered' | 'cancelled';
+    items: Array<{ product_id: string; variant_id: string; title: string; unit_price: string; quantity: number }>;
+    subtotal: string;
+    discount: string;
+    shipping: string;
+    tax: string;
+    total: string;
+    currency: string;
+    payment: { method: PaymentMethodId; intent_id: string; status: PaymentIntentStatus };
+    created_at: string;
+}
+
+export interface CheckoutResult {
+    order: Order;
+    replayed: boolean;  // Same idempotency key: the order was already placed
+    email_sent: boolean;
+}
+
+export async function fetchCheckoutQuote(sessionId: string): Promise<CheckoutQuote> {
+    const response = await fetch(`/api/checkout?session_id=${encodeURIComponent(sessionId)}`);
+    if (!response.ok) {
+        throw new Error(`Failed to price cart: ${response.status}`);
+    }
+    return response.json();
+}
+
+// Retrying with the same idempotencyKey never creates a second order
+export async function placeOrder(sessionId: string, details: CheckoutDetails, paymentIntentId: string, idempotencyKey: string): Promise<CheckoutResult> {
+    const response = await fetch('/api/checkout', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': idempotencyKey,
+        },
+        body: JSON.stringify({ session_id: sessionId, user_details: details, payment_intent_id: paymentIntentId }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Checkout error: ${response.status}`);
+    }
+    return response.json();
+}
@@ -0,0 +1,71 @@
+/**
+ * Evaluation Dataset
+ *
+ * Labelled turns for the offline routing evaluation. Each case is one user
+ * message with the history the client would send, plus the intent_id and
+ * response_type the orchestrator is expected to produce. Optional seeds put
+ * products on screen or lines in the cart for follow-up turns, and request
+ * fields replay client actions such as accepting an outcome image.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ChatRequest, RankedProduct } from '@/types/chat';
+import type { ChatHistory } from '@/types/message';
+import type { CartLine } from '@/lib/orchestrator/cartService';
+
+export interface EvalCase {
+    id: string;
+    message: string;
+    history?: ChatHistory;
+    expected_intent_id: string;
+    expected_response_type: string;
+    last_products?: RankedProduct[]; // Products the user is looking at ("compare the first two")
+    cart?: CartLine[];               // Cart contents before the turn ("remove the tripod")
+    request?: Pick<ChatRequest, 'intent_id' | 'action' | 'selected_variant'>; // Sent by the client with the message
+    expected_stage?: string;         // Stage handler that must answer, when the response_type alone is ambiguous
+    notes?: string;
+}
+
+export class EvalDatasetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EvalDatasetError';
+    }
+}
+
+function validateCase(raw: unknown, index: number): EvalCase {
+    const c = raw as Partial<EvalCase>;
+    const where = `case ${index}${c && typeof c.id === 'string' ? ` (${c.id})` : ''}`;
+    for (const field of ['id', 'message', 'expected_intent_id', 'expected_response_type'] as const) {
+        if (typeof c?.[field] !== 'string' || c[field] === '') {
+            throw new EvalDatasetError(`${where}: "${field}" must be a non-empty string`);
+        }
+    }
+    if (c.history !== undefined && !Array.isArray(c.history)) {
+        throw new EvalDatasetError(`${where}: "history" must be an array of messages`);
+    }
+    if (c.request !== undefined && (typeof c.request !== 'object' || c.request === null || Array.isArray(c.request))) {
+        throw new EvalDatasetError(`${where}: "request" must be an object of request fields`);
+    }
+    return c as EvalCase;
+}
+
+/**
+ * Load and validate a dataset (JSON array of EvalCase), resolved from the project root
+ */
+export function loadEvalCases(filePath: string): EvalCase[] {
+    const resolved = path.resolve(process.cwd(), filePath);
+    const raw = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+    if (!Array.isArray(raw)) {
+        throw new EvalDatasetError(`${filePath} must contain a JSON array of cases`);
+    }
+
+    const cases = raw.map(validateCase);
+    const seen = new Set<string>();
+    for (const c of cases) {
+        if (seen.has(c.id)) throw new EvalDatasetError(`Duplicate case id "${c.id}"`);
+        seen.add(c.id);
+    }
+    return cases;
+}
@@ -0,0 +1,199 @@
+/**
+ * Evaluation Metrics
+ *
+ * Turns per-case outcomes into per-intent precision/recall, an intent
+ * confusion matrix and response_type accuracy, and diffs a report against a
+ * saved baseline so prompt or keyword-map changes show up as regressions.
+ */
+
+export const NO_INTENT = '(none)'; // Predicted label when the turn failed before classification finished
+
+export interface EvalResult {
+    id: string;
+    expected_intent_id: string;
+    predicted_intent_id: string;
+    expected_response_type: string;
+    predicted_response_type: string; // 'error' when the turn threw
+    expected_stage?: string;         // Checked only when the case names one
+    stage: string | null;            // Stage handler that produced the response
+    error?: string;
+}
+
+export interface IntentMetrics {
+    support: number;   // Cases labelled with this intent
+    predicted: number; // Cases predicted as this intent
+    precision: number;
+    recall: number;
+    f1: number;
+}
+
+export interface EvalReport {
+    generated_at: string;
+    total: number;
+    intent_accuracy: number;
+    response_type_accuracy: number;
+    per_intent: Record<string, IntentMetrics>;
+    confusion: Record<string, Record<string, number>>; // expected → predicted → count
+    results: EvalResult[];
+}
+
+export interface Regression {
+    kind: 'case' | 'intent' | 'overall';
+    id: string;
+    message: string;
+}
+
+export interface BaselineComparison {
+    regressions: Regression[];
+    improvements: string[]; // Case ids that fail in the baseline and pass now
+}
+
+// " from stage recommendation instead of image_accepted" when the wrong stage answered
+function describeStage(result: EvalResult): string {
+    return result.expected_stage && result.stage !== result.expected_stage ? ` from stage ${result.stage} instead of ${result.expected_stage}` : '';
+}
+
+export function isCorrect(result: EvalResult): boolean {
+    return result.predicted_intent_id === result.expected_intent_id
+        && result.predicted_response_type === result.expected_response_type
+        && (!result.expected_stage || result.stage === result.expected_stage);
+}
+
+function ratio(numerator: number, denominator: number): number {
+    return denominator === 0 ? 0 : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+/**
+ * Aggregate per-case results into a report
+ */
+export function computeReport(results: EvalResult[]): EvalReport {
+    const labels = [...new Set(results.flatMap(r => [r.expected_intent_id, r.predicted_intent_id]))].sort();
+
+    const confusion: EvalReport['confusion'] = {};
+    for (const result of results) {
+        const row = confusion[result.expected_intent_id] ||= {};
+        row[result.predicted_intent_id] = (row[result.predicted_intent_id] || 0) + 1;
+    }
+
+    const per_intent: EvalReport['per_intent'] = {};
+    for (const label of labels) {
+        const support = results.filter(r => r.expected_intent_id === label).length;
+        const predicted = results.filter(r => r.predicted_intent_id === label).length;
+        const truePositives = results.filter(r => r.expected_intent_id === label && r.predicted_intent_id === label).length;
+        const precision = ratio(truePositives, predicted);
+        const recall = ratio(truePositives, support);
+        per_intent[label] = {
+            support,
+            predicted,
+            precision,
+            recall,
+            f1: precision + recall === 0 ? 0 : Math.round((2 * precision * recall / (precision + recall)) * 1000) / 1000
+        };
+    }
+
+    return {
+        generated_at: new Date().toISOString(),
+        total: results.length,
+        intent_accuracy: ratio(results.filter(r => r.predicted_intent_id === r.expected_intent_id).length, results.length),
+        response_type_accuracy: ratio(results.filter(r => r.predicted_response_type === r.expected_response_type).length, results.length),
+        per_intent,
+        confusion,
+        results
+    };
+}
+
+/**
+ * Compare against a saved baseline. A regression is a case that used to pass
+ * and now fails, or an intent/overall metric that dropped by more than `tolerance`.
+ */
+export function compareToBaseline(current: EvalReport, baseline: EvalReport, tolerance: number = 0): BaselineComparison {
+    const regressions: Regression[] = [];
+    const improvements: string[] = [];
+    const baselineResults = new Map(baseline.results.map(r => [r.id, r]));
+
+    for (const result of current.results) {
+        const before = baselineResults.get(result.id);
+        if (!before) continue;
+        if (isCorrect(before) && !isCorrect(result)) {
+            regressions.push({
+                kind: 'case',
+                id: result.id,
+                message: `now ${result.predicted_intent_id}/${result.predicted_response_type}, expected ${result.expected_intent_id}/${result.expected_response_type}${describeStage(result)}${result.error ? ` (${result.error})` : ''}`
+            });
+        } else if (!isCorrect(before) && isCorrect(result)) {
+            improvements.push(result.id);
+        }
+    }
+
+    for (const [intentId, before] of Object.entries(baseline.per_intent)) {
+        const now = current.per_intent[intentId];
+        if (!now || before.support === 0) continue;
+        for (const metric of ['precision', 'recall'] as const) {
+            if (before[metric] - now[metric] > tolerance) {
+                regressions.push({ kind: 'intent', id: intentId, message: `${metric} ${before[metric]} → ${now[metric]}` });
+            }
+        }
+    }
+
+    for (const metric of ['intent_accuracy', 'response_type_accuracy'] as const) {
+        if (baseline[metric] - current[metric] > tolerance) {
+            regressions.push({ kind: 'overall', id: metric, message: `${baseline[metric]} → ${current[metric]}` });
+        }
+    }
+
+    return { regressions, improvements };
+}
+
+function pad(value: string | number, width: number): string {
+    return String(value).padEnd(width);
+}
+
+/**
+ * Plain-text report for the terminal
+ */
+export function formatReport(report: EvalReport, comparison?: BaselineComparison): string {
+    const lines: string[] = [];
+    const intents = Object.keys(report.per_intent);
+    const width = Math.max(12, ...intents.map(i => i.length)) + 5; // Room for the "#n " row prefix
+
+    lines.push(`Cases: ${report.total}   intent accuracy: ${report.intent_accuracy}   response_type accuracy: ${report.response_type_accuracy}`);
+    lines.push('');
+    lines.push(`${pad('intent', width)}${pad('support', 9)}${pad('precision', 11)}${pad('recall', 8)}f1`);
+    for (const intentId of intents) {
+        const m = report.per_intent[intentId];
+        lines.push(`${pad(intentId, width)}${pad(m.support, 9)}${pad(m.precision, 11)}${pad(m.recall, 8)}${m.f1}`);
+    }
+
+    lines.push('');
+    lines.push('Confusion (rows = expected, columns = predicted):');
+    const columns = intents.map((_, i) => `#${i}`);
+    lines.push(`${pad('', width)}${columns.map(c => pad(c, 5)).join('')}`);
+    intents.forEach((expected, i) => {
+        const row = report.confusion[expected] || {};
+        lines.push(`${pad(`#${i} ${expected}`, width)}${intents.map(predicted => pad(row[predicted] || '.', 5)).join('')}`);
+    });
+
+    const failures = report.results.filter(r => !isCorrect(r));
+    if (failures.length > 0) {
+        lines.push('');
+        lines.push('Failures:');
+        for (const r of failures) {
+            lines.push(`  ${r.id}: got ${r.predicted_intent_id}/${r.predicted_response_type}, expected ${r.expected_intent_id}/${r.expected_response_type}${describeStage(r)}${r.error ? ` (${r.error})` : ''}`);
+        }
+    }
+
+    if (comparison) {
+        lines.push('');
+        if (comparison.regressions.length === 0) {
+            lines.push('✅ No regressions against baseline');
+        } else {
+            lines.push(`❌ ${comparison.regressions.length} regression(s) against baseline:`);
+            for (const r of comparison.regressions) lines.push(`  [${r.kind}] ${r.id}: ${r.message}`);
+        }
+        if (comparison.improvements.length > 0) {
+            lines.push(`✨ Now passing: ${comparison.improvements.join(', ')}`);
+        }
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,125 @@
+/**
+ * Evaluation Runner
+ *
+ * Replays dataset cases through the real orchestrator (prepareTurn + stage
+ * handlers) with fresh in-memory session and cart stores per case. The LLM
+ * client and catalog come from the environment: fixture replay and the
+ * in-memory catalog repository offline, or a live LLM provider when recording.
+ * Image generation is swapped for a placeholder stage so routing is measured
+ * without calling an image model.
+ */
+
+import type { ChatRequest, ImageGenerationResponse, StreamEmitter } from '@/types/chat';
+import { prepareTurn, runPipeline, StageHandler, TurnState } from '@/lib/orchestrator/pipeline';
+import { DEFAULT_STAGE_HANDLERS, imageGenerationHandler } from '@/lib/orchestrator/handlers';
+import { advanceTurn } from '@/lib/orchestrator/conversationState';
+import { createInMemorySessionStore, createSessionRecord, setSessionStore } from '@/lib/orchestrator/sessionStore';
+import { createCartService, createInMemoryCartStore, setCartService } from '@/lib/orchestrator/cartService';
+import type { EvalCase } from './dataset';
+import { EvalResult, NO_INTENT } from './metrics';
+
+const noopEmitter: StreamEmitter = () => { };
+
+// Same routing decision as imageGenerationHandler, without generating images
+const placeholderImageStage: StageHandler = {
+    name: imageGenerationHandler.name,
+
+    canHandle(ctx) {
+        return imageGenerationHandler.canHandle(ctx);
+    },
+
+    async handle(ctx) {
+        const response: ImageGenerationResponse = {
+            response_type: 'image_generation',
+            intent_id: ctx.intentId,
+            outcome_description: ctx.state.session.outcome_context.desired_outcome || ctx.intentId,
+            images: [],
+            acknowledgement: '',
+            explanation: 'Image generation skipped during evaluation'
+        };
+        return response;
+    }
+};
+
+/**
+ * The default handlers with image generation replaced by a placeholder
+ */
+export function getEvalStageHandlers(handlers: StageHandler[] = DEFAULT_STAGE_HANDLERS): StageHandler[] {
+    return handlers.map(handler => handler === imageGenerationHandler ? placeholderImageStage : handler);
+}
+
+/**
+ * Run one case on a fresh session and record what the orchestrator did
+ */
+export async function runEvalCase(evalCase: EvalCase, handlers: StageHandler[] = getEvalStageHandlers()): Promise<EvalResult> {
+    const sessionId = `eval-${evalCase.id}`;
+    const record = createSessionRecord(sessionId);
+    const state: TurnState = {
+        conversation: advanceTurn(record.conversation),
+        session: { ...record.session, last_products: evalCase.last_products }
+    };
+
+    const cartStore = createInMemoryCartStore();
+    if (evalCase.cart?.length) {
+        await cartStore.save({ session_id: sessionId, items: evalCase.cart, updated_at: new Date().toISOString() });
+    }
+    setSessionStore(createInMemorySessionStore());
+    setCartService(createCartService(cartStore));
+
+    const request: ChatRequest = {
+        session_id: sessionId,
+        current_message: evalCase.message,
+        chat_history: evalCase.history || [],
+        ...evalCase.request
+    };
+
+    let stage: string | null = null;
+    const tracked = handlers.map(handler => ({
+        ...handler,
+        async handle(ctx: Parameters<StageHandler['handle']>[0]) {
+            const response = await handler.handle(ctx);
+            if (response) stage = handler.name;
+            return response;
+        }
+    }));
+
+    const result: EvalResult = {
+        id: evalCase.id,
+        expected_intent_id: evalCase.expected_intent_id,
+        predicted_intent_id: NO_INTENT,
+        expected_response_type: evalCase.expected_response_type,
+        predicted_response_type: 'error',
+        expected_stage: evalCase.expected_stage,
+        stage: null
+    };
+
+    try {
+        const ctx = await prepareTurn(request, state, noopEmitter);
+        result.predicted_intent_id = ctx.intentId || NO_INTENT;
+        const response = await runPipeline(ctx, tracked);
+        result.predicted_response_type = response.response_type;
+        result.stage = stage;
+    } catch (error) {
+        result.error = (error as Error)?.message || String(error);
+    }
+    return result;
+}
+
+/**
+ * Run every case in order (sequential, so recorded fixtures stay in call order)
+ */
+export async function runEval(
+    cases: EvalCase[],
+    onResult: (result: EvalResult, index: number) => void = () => { },
+    handlers: StageHandler[] = getEvalStageHandlers()
+): Promise<EvalResult[]> {
+    const results: EvalResult[] = [];
+    for (const [index, evalCase] of cases.entries()) {
+        const result = await runEvalCase(evalCase, handlers);
+        results.push(result);
+        onResult(result, index);
+    }
+    setSessionStore(null);
+    setCartService(null);
+    return results;
+}
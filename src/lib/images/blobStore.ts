@@ -0,0 +1,210 @@
+/**
+ * Generated Image Store
+ *
+ * Generated outcome images are kept as blobs and served from /api/images/[id],
+ * so chat responses carry a short URL instead of a base64 data URL. Blob ids
+ * are the hash of the provider and prompt that produced them: an identical
+ * outcome reuses the provider's stored image instead of generating it again.
+ * Blobs not used for IMAGE_MAX_AGE_HOURS are garbage-collected.
+ *
+ * Backends (IMAGE_STORE):
+ * - filesystem: files under IMAGE_STORE_DIR (default .data/images) (default)
+ * - memory:     process-local Map (tests, offline runs)
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Default age (since last use) after which a stored image is deleted
+const DEFAULT_MAX_AGE_HOURS = 24 * 7;
+
+// Minimum time between garbage collections triggered by writes
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg'
+};
+
+export interface ImageBlob {
+    id: string;
+    content_type: string;
+    data: Buffer;
+}
+
+export interface ImageBlobStore {
+    get(id: string): Promise<ImageBlob | null>;
+    put(blob: ImageBlob): Promise<void>;
+    /** Whether the blob exists, refreshing its age if it does */
+    touch(id: string): Promise<boolean>;
+    /** Delete blobs last used before the cutoff, returning how many were removed */
+    deleteOlderThan(cutoff: Date): Promise<number>;
+}
+
+/**
+ * Blob id for a prompt (content-addressed: same prompt, same id)
+ */
+export function hashImagePrompt(prompt: string): string {
+    return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+export function isImageBlobId(id: string): boolean {
+    return /^[a-f0-9]{64}$/.test(id);
+}
+
+/**
+ * Split a base64 data URL into content type and bytes (null for anything else)
+ */
+export function parseDataUrl(url: string): { content_type: string; data: Buffer } | null {
+    const match = url.match(/^data:([^;,]+);base64,([\s\S]*)$/);
+    return match ? { content_type: match[1], data: Buffer.from(match[2], 'base64') } : null;
+}
+
+export function createInMemoryImageBlobStore(): ImageBlobStore {
+    const blobs = new Map<string, { blob: ImageBlob; used_at: number }>();
+
+    return {
+        async get(id) {
+            return blobs.get(id)?.blob || null;
+        },
+
+        async put(blob) {
+            blobs.set(blob.id, { blob, used_at: Date.now() });
+        },
+
+        async touch(id) {
+            const entry = blobs.get(id);
+            if (!entry) return false;
+            entry.used_at = Date.now();
+            return true;
+        },
+
+        async deleteOlderThan(cutoff) {
+            let removed = 0;
+            for (const [id, entry] of blobs) {
+                if (entry.used_at < cutoff.getTime()) {
+                    blobs.delete(id);
+                    removed++;
+                }
+            }
+            return removed;
+        }
+    };
+}
+
+/**
+ * One file per blob, named <id>.<ext>; the file's mtime is its last use
+ */
+export function createFilesystemImageBlobStore(dir: string = process.env.IMAGE_STORE_DIR || '.data/images'): ImageBlobStore {
+    const contentTypes = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type]));
+
+    // The stored file for an id, whatever its extension
+    async function findFile(id: string): Promise<string | null> {
+        for (const ext of Object.values(EXTENSIONS)) {
+            const file = path.join(dir, `${id}.${ext}`);
+            try {
+                await fs.access(file);
+                return file;
+            } catch {
+                // Try the next extension
+            }
+        }
+        return null;
+    }
+
+    return {
+        async get(id) {
+            if (!isImageBlobId(id)) return null;
+            const file = await findFile(id);
+            if (!file) return null;
+            const ext = path.extname(file).slice(1);
+            return { id, content_type: contentTypes[ext], data: await fs.readFile(file) };
+        },
+
+        async put(blob) {
+            const ext = EXTENSIONS[blob.content_type];
+            if (!ext) throw new Error(`Unsupported image type: ${blob.content_type}`);
+            await fs.mkdir(dir, { recursive: true });
+            await fs.writeFile(path.join(dir, `${blob.id}.${ext}`), blob.data);
+        },
+
+        async touch(id) {
+            const file = isImageBlobId(id) ? await findFile(id) : null;
+            if (!file) return false;
+            const now = new Date();
+            await fs.utimes(file, now, now);
+            return true;
+        },
+
+        async deleteOlderThan(cutoff) {
+            let names: string[];
+            try {
+                names = await fs.readdir(dir);
+            } catch {
+                return 0; // Nothing stored yet
+            }
+
+            let removed = 0;
+            for (const name of names) {
+                const file = path.join(dir, name);
+                const stats = await fs.stat(file);
+                if (stats.isFile() && stats.mtime < cutoff) {
+                    await fs.unlink(file);
+                    removed++;
+                }
+            }
+            return removed;
+        }
+    };
+}
+
+// ============================================================================
+// GARBAGE COLLECTION
+// ============================================================================
+
+let lastCollectedAt = 0;
+
+/**
+ * Delete images not used for IMAGE_MAX_AGE_HOURS (default 7 days)
+ */
+export async function collectImageGarbage(store: ImageBlobStore = getImageBlobStore()): Promise<number> {
+    const maxAgeHours = Number(process.env.IMAGE_MAX_AGE_HOURS) || DEFAULT_MAX_AGE_HOURS;
+    lastCollectedAt = Date.now();
+    const removed = await store.deleteOlderThan(new Date(Date.now() - maxAgeHours * 60 * 60 * 1000));
+    if (removed > 0) console.log(`🧹 Removed ${removed} generated image(s) older than ${maxAgeHours}h`);
+    return removed;
+}
+
+/**
+ * Collect garbage unless that happened within the last hour (called after writes)
+ */
+export function scheduleImageGarbageCollection(): void {
+    if (Date.now() - lastCollectedAt < GC_INTERVAL_MS) return;
+    collectImageGarbage().catch(err => console.warn('⚠️ Image garbage collection failed:', err));
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let activeStore: ImageBlobStore | null = null;
+
+/**
+ * Get the configured store (IMAGE_STORE=filesystem|memory)
+ */
+export function getImageBlobStore(): ImageBlobStore {
+    if (!activeStore) {
+        activeStore = process.env.IMAGE_STORE === 'memory' ? createInMemoryImageBlobStore() : createFilesystemImageBlobStore();
+    }
+    return activeStore;
+}
+
+/**
+ * Override the active store (tests, offline runs)
+ */
+export function setImageBlobStore(store: ImageBlobStore | null): void {
+    activeStore = store;
+}
@@ -0,0 +1,81 @@
+/**
+ * Gemini Adapter
+ *
+ * Calls Imagen through the Generative Language API with an API key, trying
+ * the generateImages endpoint first and the older predict endpoint second.
+ */
+
+import { ImageProvider, ImageProviderError } from './provider';
+
+interface GeminiProviderConfig {
+    apiKey?: string;
+}
+
+export function createGeminiImageProvider(providerConfig: GeminiProviderConfig = {}): ImageProvider {
+    const apiKey = providerConfig.apiKey ?? process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+
+    return {
+        name: 'gemini',
+
+        isConfigured() {
+            return !!apiKey;
+        },
+
+        async generate({ prompt, signal }) {
+            const endpoints = [
+                {
+                    url: `https://generativelanguage.googleapis.com/v1beta/models/imagen-3.0-generate-001:generateImages?key=${apiKey}`,
+                    body: {
+                        prompt,
+                        number_of_images: 1,
+                        aspect_ratio: '1:1',
+                        safety_filter_level: 'block_some',
+                        person_generation: 'allow_adult'
+                    }
+                },
+                {
+                    url: `https://generativelanguage.googleapis.com/v1beta/models/imagegeneration-002:predict?key=${apiKey}`,
+                    body: {
+                        instances: [{ prompt }],
+                        parameters: {
+                            sampleCount: 1,
+                            aspectRatio: '1:1'
+                        }
+                    }
+                }
+            ];
+
+            let lastError: Error | null = null;
+            for (const endpoint of endpoints) {
+                try {
+                    const response = await fetch(endpoint.url, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify(endpoint.body),
+                        signal
+                    });
+
+                    if (!response.ok) {
+                        // Silent fail to try next endpoint
+                        lastError = new ImageProviderError(`Gemini image API error: ${response.status}`, response.status);
+                        continue;
+                    }
+
+                    const data = await response.json();
+                    const imageBase64 = data.generatedImages?.[0]?.imageBytes
+                        || data.predictions?.[0]?.bytesBase64Encoded
+                        || data.images?.[0]?.data;
+                    if (!imageBase64) {
+                        lastError = new ImageProviderError('No image generated');
+                        continue;
+                    }
+                    return `data:image/png;base64,${imageBase64}`;
+                } catch (error) {
+                    lastError = error as Error;
+                }
+            }
+
+            throw lastError || new ImageProviderError('All Gemini image endpoints failed');
+        }
+    };
+}
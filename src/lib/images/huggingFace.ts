@@ -0,0 +1,54 @@
+/**
+ * Hugging Face Adapter
+ *
+ * Calls the Inference API router for a text-to-image model (FLUX by default).
+ */
+
+import { ImageProvider, ImageProviderError } from './provider';
+
+interface HuggingFaceProviderConfig {
+    token?: string;
+    model?: string;
+}
+
+export function createHuggingFaceImageProvider(providerConfig: HuggingFaceProviderConfig = {}): ImageProvider {
+    const token = providerConfig.token ?? process.env.HUGGING_FACE_ACCESS_TOKEN;
+    const model = providerConfig.model || process.env.HUGGING_FACE_MODEL || 'black-forest-labs/FLUX.1-schnell';
+
+    return {
+        name: `huggingface (${model})`,
+
+        isConfigured() {
+            return !!token;
+        },
+
+        async generate({ prompt, signal }) {
+            const response = await fetch(`https://router.huggingface.co/hf-inference/models/${model}`, {
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    inputs: prompt,
+                    parameters: {
+                        width: 512, // Standard square for FLUX/SD
+                        height: 512
+                    }
+                }),
+                signal
+            });
+
+            if (!response.ok) {
+                if (response.status === 503) {
+                    throw new ImageProviderError('Hugging Face model loading/busy (503)', 503);
+                }
+                throw new ImageProviderError(`Hugging Face error ${response.status}: ${await response.text()}`, response.status);
+            }
+
+            // Text-to-image pipelines return the raw image bytes
+            const arrayBuffer = await (await response.blob()).arrayBuffer();
+            return `data:image/jpeg;base64,${Buffer.from(arrayBuffer).toString('base64')}`;
+        }
+    };
+}
@@ -0,0 +1,89 @@
+/**
+ * Image Provider Selection
+ *
+ * Outcome images are generated by the first provider in the configured order
+ * that is configured and renders every variant; the rest are fallbacks.
+ *
+ * Providers (IMAGE_PROVIDERS, comma-separated, in order):
+ * - huggingface: Hugging Face Inference API (HUGGING_FACE_ACCESS_TOKEN)
+ * - vertex:      Imagen on Vertex AI (GOOGLE_VERTEX_* service account)
+ * - gemini:      Imagen on the Generative Language API (NEXT_PUBLIC_GEMINI_API_KEY)
+ * - local:       Deterministic SVG compositions (offline dev and tests only)
+ *
+ * Default: huggingface,vertex,gemini. `local` must be listed explicitly and is
+ * skipped in production: when the hosted providers fail, the user gets the
+ * products instead of placeholder drawings.
+ *
+ * Generated images are persisted to the image blob store (see blobStore.ts).
+ */
+
+import type { ImageProvider } from './provider';
+import { createHuggingFaceImageProvider } from './huggingFace';
+import { createVertexImageProvider } from './vertex';
+import { createGeminiImageProvider } from './gemini';
+import { createLocalImageProvider } from './local';
+
+export * from './provider';
+export { createHuggingFaceImageProvider } from './huggingFace';
+export { createVertexImageProvider } from './vertex';
+export { createGeminiImageProvider } from './gemini';
+export { createLocalImageProvider, renderOutcomeSvg } from './local';
+export {
+    collectImageGarbage,
+    createFilesystemImageBlobStore,
+    createInMemoryImageBlobStore,
+    getImageBlobStore,
+    hashImagePrompt,
+    isImageBlobId,
+    parseDataUrl,
+    scheduleImageGarbageCollection,
+    setImageBlobStore
+} from './blobStore';
+export type { ImageBlob, ImageBlobStore } from './blobStore';
+
+const DEFAULT_PROVIDER_ORDER = 'huggingface,vertex,gemini';
+
+// Placeholder renderers never serve real users
+const DEV_ONLY_PROVIDERS = new Set(['local']);
+
+const PROVIDER_FACTORIES: Record<string, () => ImageProvider> = {
+    huggingface: createHuggingFaceImageProvider,
+    vertex: createVertexImageProvider,
+    gemini: createGeminiImageProvider,
+    local: createLocalImageProvider
+};
+
+let activeProviders: ImageProvider[] | null = null;
+
+/**
+ * Get the configured providers in fallback order (IMAGE_PROVIDERS=huggingface,vertex,gemini,local)
+ */
+export function getImageProviders(): ImageProvider[] {
+    if (!activeProviders) {
+        const names = (process.env.IMAGE_PROVIDERS || DEFAULT_PROVIDER_ORDER)
+            .split(',')
+            .map(name => name.trim().toLowerCase())
+            .filter(Boolean);
+
+        activeProviders = names.flatMap(name => {
+            const factory = PROVIDER_FACTORIES[name];
+            if (!factory) {
+                console.warn(`⚠️ Unknown image provider "${name}" in IMAGE_PROVIDERS, skipping`);
+                return [];
+            }
+            if (DEV_ONLY_PROVIDERS.has(name) && process.env.NODE_ENV === 'production') {
+                console.warn(`⚠️ Image provider "${name}" is for development and tests only, skipping`);
+                return [];
+            }
+            return [factory()];
+        });
+    }
+    return activeProviders;
+}
+
+/**
+ * Override the provider order (tests, offline runs)
+ */
+export function setImageProviders(providers: ImageProvider[] | null): void {
+    activeProviders = providers;
+}
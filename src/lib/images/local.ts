@@ -0,0 +1,148 @@
+/**
+ * Local Renderer
+ *
+ * Draws each variant as an SVG composition (no network, no credentials):
+ * a product shot on a plain backdrop, the product in a scene matching the
+ * requested setting, or a lens close-up, captioned underneath. Output depends
+ * only on the request, so the image confirmation flow can be developed and
+ * tested offline with stable results.
+ */
+
+import crypto from 'crypto';
+import { ImageProvider, ImageRequest } from './provider';
+
+const SIZE = 512;
+const CAPTION_LINE_LENGTH = 34;
+
+// Named colours the feedback parser understands (see applyImageFeedback)
+const COLOR_HEX: Record<string, string> = {
+    black: '#1f2328', white: '#f4f4f2', silver: '#b8bcc2', grey: '#7d848c', gray: '#7d848c',
+    blue: '#2f6fde', red: '#d6453d', green: '#2f9e5b', pink: '#e36fa8', gold: '#c9a23f',
+    orange: '#ec8b2f', yellow: '#e8c63a', purple: '#7b53c9'
+};
+
+// Accents picked from the prompt hash when no colour was asked for
+const ACCENTS = ['#2f6fde', '#d6453d', '#2f9e5b', '#ec8b2f', '#7b53c9', '#17a2b8'];
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;' }[c] as string));
+}
+
+// Up to two lines, breaking on words
+function wrapCaption(caption: string): string[] {
+    const lines: string[] = [''];
+    for (const word of caption.split(/\s+/).filter(Boolean)) {
+        const current = lines[lines.length - 1];
+        if (current && current.length + word.length + 1 > CAPTION_LINE_LENGTH) {
+            if (lines.length === 2) {
+                lines[1] = `${current.slice(0, CAPTION_LINE_LENGTH - 1)}…`;
+                return lines;
+            }
+            lines.push(word);
+        } else {
+            lines[lines.length - 1] = current ? `${current} ${word}` : word;
+        }
+    }
+    return lines;
+}
+
+// A compact camera seen from the front, centred on (cx, cy)
+function drawCamera(cx: number, cy: number, scale: number, body: string, accent: string): string {
+    const w = 180 * scale;
+    const h = 120 * scale;
+    return [
+        `<rect x="${cx - w / 2}" y="${cy - h / 2}" width="${w}" height="${h}" rx="${18 * scale}" fill="${body}"/>`,
+        `<rect x="${cx - w / 2 + 14 * scale}" y="${cy - h / 2 - 12 * scale}" width="${40 * scale}" height="${14 * scale}" rx="${4 * scale}" fill="${body}"/>`,
+        `<circle cx="${cx}" cy="${cy}" r="${42 * scale}" fill="#2b2f36"/>`,
+        `<circle cx="${cx}" cy="${cy}" r="${30 * scale}" fill="${accent}" opacity="0.85"/>`,
+        `<circle cx="${cx - 10 * scale}" cy="${cy - 10 * scale}" r="${8 * scale}" fill="#ffffff" opacity="0.6"/>`
+    ].join('');
+}
+
+function drawScene(setting: string | undefined, dark: boolean, seed: Buffer): string {
+    const sky = dark ? '#1b2233' : '#bfe0f5';
+    const ground = dark ? '#2a3140' : '#8cc084';
+    const parts = [`<rect width="${SIZE}" height="${SIZE}" fill="${sky}"/>`];
+
+    if (setting && /city|street|urban/i.test(setting)) {
+        // Skyline of buildings with heights from the seed
+        for (let i = 0; i < 8; i++) {
+            const height = 120 + (seed[i] % 140);
+            parts.push(`<rect x="${i * 64}" y="${380 - height}" width="56" height="${height}" fill="${dark ? '#39415a' : '#8a96a8'}"/>`);
+        }
+        parts.push(`<rect y="380" width="${SIZE}" height="${SIZE - 380}" fill="${dark ? '#23293a' : '#6b7280'}"/>`);
+    } else if (setting && /indoor|home|studio|desk/i.test(setting)) {
+        // Wall, window and a desk
+        parts.push(`<rect width="${SIZE}" height="${SIZE}" fill="${dark ? '#2e2a33' : '#efe6da'}"/>`);
+        parts.push(`<rect x="300" y="60" width="150" height="170" fill="${sky}" stroke="#ffffff" stroke-width="8"/>`);
+        parts.push(`<rect y="330" width="${SIZE}" height="${SIZE - 330}" fill="${dark ? '#4a3b32' : '#b88a5a'}"/>`);
+    } else {
+        // Hills under a sun (or moon)
+        parts.push(`<circle cx="${380 + (seed[0] % 60)}" cy="${90 + (seed[1] % 40)}" r="36" fill="${dark ? '#e8e4d0' : '#ffd75e'}"/>`);
+        parts.push(`<path d="M0 360 Q128 ${260 + (seed[2] % 60)} 256 340 T512 330 V512 H0 Z" fill="${ground}"/>`);
+    }
+
+    return parts.join('');
+}
+
+/**
+ * Render one variant as an SVG string
+ */
+export function renderOutcomeSvg(request: ImageRequest): string {
+    const { variant, caption, preferences } = request;
+    const seed = crypto.createHash('sha256').update(`${variant.id}:${request.prompt}`).digest();
+    const style = preferences?.style || '';
+    const dark = /dark|moody|night/i.test(`${style} ${request.prompt}`) && !/bright|airy/i.test(style);
+    const accent = (preferences?.color && COLOR_HEX[preferences.color.toLowerCase()]) || ACCENTS[seed[3] % ACCENTS.length];
+    const body = dark ? '#3a3f47' : '#2b2f36';
+
+    let scene: string;
+    switch (variant.focus) {
+        case 'lifestyle':
+            scene = drawScene(preferences?.setting, dark, seed) + drawCamera(180 + (seed[4] % 150), 320, 0.6, body, accent);
+            break;
+        case 'feature':
+            // Lens close-up: concentric rings filling the frame
+            scene = [
+                `<rect width="${SIZE}" height="${SIZE}" fill="${dark ? '#101317' : '#e9ecef'}"/>`,
+                `<circle cx="256" cy="220" r="190" fill="${body}"/>`,
+                `<circle cx="256" cy="220" r="150" fill="#1a1d22" stroke="#5a6270" stroke-width="6"/>`,
+                `<circle cx="256" cy="220" r="100" fill="${accent}" opacity="0.8"/>`,
+                `<circle cx="256" cy="220" r="55" fill="#0b0d10"/>`,
+                `<circle cx="${225 + (seed[5] % 20)}" cy="${185 + (seed[6] % 20)}" r="18" fill="#ffffff" opacity="0.5"/>`
+            ].join('');
+            break;
+        default:
+            // Product on a plain backdrop with a soft shadow
+            scene = [
+                `<rect width="${SIZE}" height="${SIZE}" fill="${dark ? '#23262b' : '#ffffff'}"/>`,
+                `<ellipse cx="256" cy="318" rx="130" ry="16" fill="#000000" opacity="0.15"/>`,
+                drawCamera(256, 220, 1.2, body, accent)
+            ].join('');
+    }
+
+    const lines = wrapCaption(caption);
+    const text = lines
+        .map((line, i) => `<text x="256" y="${448 + i * 26 - (lines.length - 1) * 13}" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="20" fill="#ffffff">${escapeXml(line)}</text>`)
+        .join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}" viewBox="0 0 ${SIZE} ${SIZE}">`
+        + scene
+        + `<rect y="400" width="${SIZE}" height="${SIZE - 400}" fill="#000000" opacity="0.55"/>`
+        + text
+        + '</svg>';
+}
+
+export function createLocalImageProvider(): ImageProvider {
+    return {
+        name: 'local',
+
+        isConfigured() {
+            return true;
+        },
+
+        async generate(request) {
+            return `data:image/svg+xml;base64,${Buffer.from(renderOutcomeSvg(request)).toString('base64')}`;
+        }
+    };
+}
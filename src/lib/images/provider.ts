@@ -0,0 +1,42 @@
+/**
+ * Image Provider Contract
+ *
+ * Interface and errors shared by the outcome image adapters (hosted models
+ * and the local renderer).
+ */
+
+import type { GeneratedImage, ImageFocus } from '@/lib/agents/imageGenerator';
+import type { OutcomeContext } from '@/types/session';
+
+export interface ImageVariant {
+    id: GeneratedImage['variant_id'];
+    focus: ImageFocus;
+    style: string;          // Photography style appended to the prompt
+    description: string;    // Short label, also the caption prefix ("In use")
+}
+
+export interface ImageRequest {
+    prompt: string;         // Outcome prompt with the variant style and quality suffix
+    variant: ImageVariant;
+    caption: string;
+    preferences?: OutcomeContext['visual_preferences'];
+    signal?: AbortSignal;   // Aborted when the image job times out
+}
+
+export interface ImageProvider {
+    readonly name: string;
+    /** Whether credentials (if any) are present; unconfigured providers are skipped */
+    isConfigured(): boolean;
+    /** Render one variant, returning a URL the client can show (usually a data URL) */
+    generate(request: ImageRequest): Promise<string>;
+}
+
+/**
+ * Transport or provider failure (non-2xx, quota, no image in the response)
+ */
+export class ImageProviderError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'ImageProviderError';
+    }
+}
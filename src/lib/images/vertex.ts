@@ -0,0 +1,66 @@
+/**
+ * Vertex AI Adapter
+ *
+ * Calls Imagen 3 through the Vertex AI predict endpoint with a service account.
+ */
+
+import { getVertexAccessToken, getVertexCredentials } from '@/lib/vertexAuth';
+import { ImageProvider, ImageProviderError } from './provider';
+
+interface VertexProviderConfig {
+    model?: string;
+    location?: string;
+}
+
+export function createVertexImageProvider(providerConfig: VertexProviderConfig = {}): ImageProvider {
+    const model = providerConfig.model || 'imagen-3.0-generate-001';
+    const location = providerConfig.location || 'us-central1';
+
+    return {
+        name: 'vertex',
+
+        isConfigured() {
+            return getVertexCredentials() !== null;
+        },
+
+        async generate({ prompt, signal }) {
+            const credentials = getVertexCredentials();
+            if (!credentials) throw new ImageProviderError('Missing Vertex AI credentials');
+
+            const accessToken = await getVertexAccessToken();
+            const endpoint = `https://${location}-aiplatform.googleapis.com/v1/projects/${credentials.projectId}/locations/${location}/publishers/google/models/${model}:predict`;
+
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json; charset=utf-8'
+                },
+                body: JSON.stringify({
+                    instances: [{ prompt }],
+                    parameters: {
+                        sampleCount: 1,
+                        aspectRatio: '1:1'
+                    }
+                }),
+                signal
+            });
+
+            if (!response.ok) {
+                if (response.status === 429) {
+                    throw new ImageProviderError('Vertex AI quota exceeded (429)', 429);
+                }
+                throw new ImageProviderError(`Vertex AI error ${response.status}: ${await response.text()}`, response.status);
+            }
+
+            // { predictions: [ { bytesBase64Encoded: "..." } ] }
+            const data = await response.json();
+            const imageBase64 = data.predictions?.[0]?.bytesBase64Encoded;
+            if (!imageBase64) {
+                console.error('Vertex AI response missing image data:', JSON.stringify(data).substring(0, 200));
+                throw new ImageProviderError('No image data in Vertex AI response');
+            }
+            return `data:image/png;base64,${imageBase64}`;
+        }
+    };
+}
@@ -0,0 +1,124 @@
+/**
+ * LLM Client Contract
+ *
+ * Interface, errors and JSON extraction shared by all provider adapters.
+ */
+
+/**
+ * JSON Schema subset understood by all providers
+ */
+export interface JSONSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    items?: JSONSchema;
+    enum?: Array<string | number>;
+    nullable?: boolean;
+}
+
+export interface LLMRequestOptions {
+    label?: string;            // Call site name, used for logging and fixture lookup
+    temperature?: number;
+    maxOutputTokens?: number;
+}
+
+export interface JSONRequestOptions extends LLMRequestOptions {
+    schema?: JSONSchema;
+}
+
+export interface StreamRequestOptions extends JSONRequestOptions {
+    json?: boolean;                     // Ask for JSON output, as generateJSON does
+    onText: (chunk: string) => void;    // Called with each piece of output as it arrives
+}
+
+export interface LLMClient {
+    readonly provider: string;
+    generateText(prompt: string, options?: LLMRequestOptions): Promise<string>;
+    generateJSON<T>(prompt: string, options?: JSONRequestOptions): Promise<T>;
+    /** Like generateText, but reports output as it arrives (omitted by adapters that can't stream) */
+    streamText?(prompt: string, options: StreamRequestOptions): Promise<string>;
+}
+
+/**
+ * Transport or provider failure (non-2xx, empty candidates, missing fixture)
+ */
+export class LLMError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'LLMError';
+    }
+}
+
+/**
+ * The model answered, but not with parseable JSON
+ */
+export class LLMParseError extends Error {
+    constructor(message: string, public readonly rawText: string) {
+        super(message);
+        this.name = 'LLMParseError';
+    }
+}
+
+/**
+ * Extract and parse a JSON object/array from model text.
+ * Prioritizes fenced code blocks, then the outermost {...} or [...] span.
+ */
+export function parseJSONFromText<T>(text: string): T {
+    let candidate = text.trim();
+
+    const codeBlockMatch = candidate.match(/```(?:json)?\s*([[{][\s\S]*[\]}])\s*```/);
+    if (codeBlockMatch) {
+        candidate = codeBlockMatch[1];
+    } else {
+        const firstObject = candidate.indexOf('{');
+        const firstArray = candidate.indexOf('[');
+        const isArray = firstArray !== -1 && (firstObject === -1 || firstArray < firstObject);
+        const open = isArray ? firstArray : firstObject;
+        const close = candidate.lastIndexOf(isArray ? ']' : '}');
+        if (open !== -1 && close > open) {
+            candidate = candidate.substring(open, close + 1);
+        }
+    }
+
+    try {
+        return JSON.parse(candidate) as T;
+    } catch {
+        throw new LLMParseError('Invalid JSON response from model', text);
+    }
+}
+
+/**
+ * Read a Server-Sent Events body, passing each event's data to `onData`
+ */
+export async function readServerSentData(res: Response, onData: (data: string) => void): Promise<void> {
+    if (!res.body) throw new LLMError('Streaming response has no body');
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flush = (frame: string) => {
+        const data = frame
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('\n');
+        if (data) onData(data);
+    };
+
+    for (; ;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Frames are separated by a blank line
+        let boundary = buffer.search(/\r?\n\r?\n/);
+        while (boundary !== -1) {
+            flush(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+            boundary = buffer.search(/\r?\n\r?\n/);
+        }
+    }
+    flush(buffer);
+}
@@ -0,0 +1,103 @@
+/**
+ * Fixture Replay Adapter
+ *
+ * Deterministic LLM stand-in: answers each call from a list of recorded
+ * fixtures so the orchestrator can run offline (tests, evaluation runs).
+ * Fixtures are matched in order; the first one whose constraints all hold wins.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { JSONRequestOptions, LLMClient, LLMError, LLMRequestOptions, parseJSONFromText, StreamRequestOptions } from './client';
+
+export interface LLMFixture {
+    label?: string;             // Must equal the call's options.label
+    prompt_hash?: string;       // sha256 of the exact prompt (written by the recorder)
+    prompt_includes?: string[]; // Every substring must appear in the prompt
+    response: unknown;          // Raw text, or a JSON value for generateJSON
+}
+
+export function hashPrompt(prompt: string): string {
+    return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+function matches(fixture: LLMFixture, prompt: string, options: LLMRequestOptions): boolean {
+    if (fixture.label && fixture.label !== options.label) return false;
+    if (fixture.prompt_hash && fixture.prompt_hash !== hashPrompt(prompt)) return false;
+    if (fixture.prompt_includes && !fixture.prompt_includes.every(part => prompt.includes(part))) return false;
+    return true;
+}
+
+export function createFixtureReplayClient(loadFixtures: LLMFixture[] | (() => LLMFixture[])): LLMClient {
+    let fixtures: LLMFixture[] | null = Array.isArray(loadFixtures) ? loadFixtures : null;
+
+    function find(prompt: string, options: LLMRequestOptions): LLMFixture {
+        if (!fixtures) fixtures = (loadFixtures as () => LLMFixture[])();
+        const fixture = fixtures.find(f => matches(f, prompt, options));
+        if (!fixture) {
+            throw new LLMError(`No LLM fixture matches call "${options.label || 'unlabelled'}" (prompt hash ${hashPrompt(prompt).slice(0, 12)})`);
+        }
+        return fixture;
+    }
+
+    return {
+        provider: 'fixture',
+
+        async generateText(prompt, options = {}) {
+            const { response } = find(prompt, options);
+            return typeof response === 'string' ? response : JSON.stringify(response);
+        },
+
+        async generateJSON<T>(prompt: string, options: JSONRequestOptions = {}) {
+            const { response } = find(prompt, options);
+            // String fixtures go through the same extraction as live model text
+            return typeof response === 'string'
+                ? parseJSONFromText<T>(response)
+                : structuredClone(response) as T;
+        }
+    };
+}
+
+/**
+ * Replay fixtures from a JSON file (array of LLMFixture), resolved from the project root
+ */
+export function createFixtureReplayClientFromFile(filePath: string): LLMClient {
+    return createFixtureReplayClient(() => {
+        const resolved = path.resolve(process.cwd(), filePath);
+        return JSON.parse(fs.readFileSync(resolved, 'utf8')) as LLMFixture[];
+    });
+}
+
+/**
+ * Wrap a live client and capture every call as a replayable fixture
+ */
+export function createRecordingClient(inner: LLMClient): LLMClient & { recorded: LLMFixture[] } {
+    const recorded: LLMFixture[] = [];
+
+    return {
+        provider: `recording:${inner.provider}`,
+        recorded,
+
+        async generateText(prompt, options = {}) {
+            const response = await inner.generateText(prompt, options);
+            recorded.push({ label: options.label, prompt_hash: hashPrompt(prompt), response });
+            return response;
+        },
+
+        async generateJSON<T>(prompt: string, options: JSONRequestOptions = {}) {
+            const response = await inner.generateJSON<T>(prompt, options);
+            recorded.push({ label: options.label, prompt_hash: hashPrompt(prompt), response });
+            return response;
+        },
+
+        // Streamed text is replayed as a whole (fixture clients don't stream)
+        ...(inner.streamText && {
+            async streamText(prompt: string, options: StreamRequestOptions) {
+                const response = await inner.streamText!(prompt, options);
+                recorded.push({ label: options.label, prompt_hash: hashPrompt(prompt), response });
+                return response;
+            }
+        })
+    };
+}
@@ -0,0 +1,107 @@
+/**
+ * Gemini Adapter
+ *
+ * Calls the Generative Language API generateContent endpoint.
+ */
+
+import { JSONRequestOptions, JSONSchema, LLMClient, LLMError, LLMRequestOptions, parseJSONFromText, readServerSentData } from './client';
+
+interface GeminiClientConfig {
+    apiKey?: string;
+    model?: string;
+}
+
+/**
+ * Gemini expects OpenAPI-style upper-case type names
+ */
+function toGeminiSchema(schema: JSONSchema): Record<string, unknown> {
+    return {
+        type: schema.type.toUpperCase(),
+        ...(schema.description && { description: schema.description }),
+        ...(schema.enum && { enum: schema.enum.map(String) }),
+        ...(schema.nullable && { nullable: true }),
+        ...(schema.required && { required: schema.required }),
+        ...(schema.items && { items: toGeminiSchema(schema.items) }),
+        ...(schema.properties && {
+            properties: Object.fromEntries(
+                Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+            )
+        })
+    };
+}
+
+export function createGeminiClient(clientConfig: GeminiClientConfig = {}): LLMClient {
+    const apiKey = clientConfig.apiKey ?? process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+    const model = clientConfig.model || process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp';
+
+    async function generate(
+        prompt: string,
+        options: LLMRequestOptions,
+        generationConfig: Record<string, unknown> = {},
+        onText?: (chunk: string) => void
+    ): Promise<string> {
+        const url = onText
+            ? `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+            : `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+
+        const res = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                generationConfig: {
+                    ...(options.temperature !== undefined && { temperature: options.temperature }),
+                    ...(options.maxOutputTokens !== undefined && { maxOutputTokens: options.maxOutputTokens }),
+                    ...generationConfig
+                }
+            }),
+        });
+
+        if (!res.ok) {
+            const errorText = await res.text();
+            throw new LLMError(`Gemini API error (${options.label || 'generate'}): ${res.status} ${res.statusText} - ${errorText}`, res.status);
+        }
+
+        let text: string | undefined;
+        if (onText) {
+            // Each event carries the next piece of the candidate's text
+            text = '';
+            await readServerSentData(res, data => {
+                const chunk = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+                if (!chunk) return;
+                text += chunk;
+                onText(chunk);
+            });
+        } else {
+            const json = await res.json();
+            text = json.candidates?.[0]?.content?.parts?.[0]?.text;
+        }
+        if (!text) {
+            throw new LLMError(`Gemini did not return any text (${options.label || 'generate'})`);
+        }
+        return text;
+    }
+
+    return {
+        provider: 'gemini',
+
+        generateText(prompt, options = {}) {
+            return generate(prompt, options);
+        },
+
+        async generateJSON<T>(prompt: string, options: JSONRequestOptions = {}) {
+            const text = await generate(prompt, options, {
+                responseMimeType: 'application/json',
+                ...(options.schema && { responseSchema: toGeminiSchema(options.schema) })
+            });
+            return parseJSONFromText<T>(text);
+        },
+
+        streamText(prompt, options) {
+            const generationConfig = options.json
+                ? { responseMimeType: 'application/json', ...(options.schema && { responseSchema: toGeminiSchema(options.schema) }) }
+                : {};
+            return generate(prompt, options, generationConfig, options.onText);
+        }
+    };
+}
@@ -0,0 +1,50 @@
+/**
+ * LLM Provider Selection
+ *
+ * Single entry point for every orchestrator LLM call (classification, presentation,
+ * semantic validation, capability inference, clarifying questions).
+ *
+ * Providers (LLM_PROVIDER):
+ * - gemini:  Google Generative Language API (default)
+ * - openai:  Any OpenAI-compatible chat completions endpoint
+ * - fixture: Deterministic replay of recorded responses (offline tests)
+ */
+
+import type { LLMClient } from './client';
+import { createGeminiClient } from './gemini';
+import { createOpenAICompatibleClient } from './openai';
+import { createFixtureReplayClientFromFile } from './fixtureReplay';
+
+export * from './client';
+export { createGeminiClient } from './gemini';
+export { createOpenAICompatibleClient } from './openai';
+export { createFixtureReplayClient, createFixtureReplayClientFromFile, createRecordingClient, hashPrompt } from './fixtureReplay';
+export type { LLMFixture } from './fixtureReplay';
+
+let activeClient: LLMClient | null = null;
+
+/**
+ * Get the configured client (LLM_PROVIDER=gemini|openai|fixture)
+ */
+export function getLLMClient(): LLMClient {
+    if (!activeClient) {
+        switch (process.env.LLM_PROVIDER) {
+            case 'openai':
+                activeClient = createOpenAICompatibleClient();
+                break;
+            case 'fixture':
+                activeClient = createFixtureReplayClientFromFile(process.env.LLM_FIXTURES_PATH || 'fixtures/eval/llm.json');
+                break;
+            default:
+                activeClient = createGeminiClient();
+        }
+    }
+    return activeClient;
+}
+
+/**
+ * Override the active client (tests, offline runs)
+ */
+export function setLLMClient(client: LLMClient | null): void {
+    activeClient = client;
+}
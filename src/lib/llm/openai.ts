@@ -0,0 +1,114 @@
+/**
+ * OpenAI-Compatible Adapter
+ *
+ * Works with any /chat/completions endpoint (OpenAI, Azure-style gateways,
+ * local servers such as vLLM or Ollama's OpenAI shim).
+ */
+
+import { JSONRequestOptions, JSONSchema, LLMClient, LLMError, LLMRequestOptions, parseJSONFromText, readServerSentData } from './client';
+
+interface OpenAIClientConfig {
+    apiKey?: string;
+    baseUrl?: string;
+    model?: string;
+}
+
+/**
+ * Convert `nullable` into a JSON Schema type union
+ */
+function toOpenAISchema(schema: JSONSchema): Record<string, unknown> {
+    return {
+        type: schema.nullable ? [schema.type, 'null'] : schema.type,
+        ...(schema.description && { description: schema.description }),
+        ...(schema.enum && { enum: schema.enum }),
+        ...(schema.required && { required: schema.required }),
+        ...(schema.items && { items: toOpenAISchema(schema.items) }),
+        ...(schema.properties && {
+            properties: Object.fromEntries(
+                Object.entries(schema.properties).map(([key, value]) => [key, toOpenAISchema(value)])
+            )
+        })
+    };
+}
+
+// Structured output requires an object at the root; arrays rely on the prompt
+function responseFormatBody(options: JSONRequestOptions): Record<string, unknown> {
+    if (options.schema?.type !== 'object') return {};
+    return {
+        response_format: {
+            type: 'json_schema',
+            json_schema: { name: options.label || 'response', schema: toOpenAISchema(options.schema), strict: false }
+        }
+    };
+}
+
+export function createOpenAICompatibleClient(clientConfig: OpenAIClientConfig = {}): LLMClient {
+    const apiKey = clientConfig.apiKey ?? process.env.OPENAI_API_KEY;
+    const baseUrl = (clientConfig.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const model = clientConfig.model || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+    async function complete(
+        prompt: string,
+        options: LLMRequestOptions,
+        extraBody: Record<string, unknown> = {},
+        onText?: (chunk: string) => void
+    ): Promise<string> {
+        const res = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+            },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                ...(options.temperature !== undefined && { temperature: options.temperature }),
+                ...(options.maxOutputTokens !== undefined && { max_tokens: options.maxOutputTokens }),
+                ...(onText && { stream: true }),
+                ...extraBody
+            }),
+        });
+
+        if (!res.ok) {
+            const errorText = await res.text();
+            throw new LLMError(`OpenAI-compatible API error (${options.label || 'generate'}): ${res.status} ${res.statusText} - ${errorText}`, res.status);
+        }
+
+        let text: string | undefined;
+        if (onText) {
+            // Chunks carry content deltas; the stream ends with [DONE]
+            text = '';
+            await readServerSentData(res, data => {
+                if (data === '[DONE]') return;
+                const chunk = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (!chunk) return;
+                text += chunk;
+                onText(chunk);
+            });
+        } else {
+            const json = await res.json();
+            text = json.choices?.[0]?.message?.content;
+        }
+        if (!text) {
+            throw new LLMError(`OpenAI-compatible API did not return any text (${options.label || 'generate'})`);
+        }
+        return text;
+    }
+
+    return {
+        provider: 'openai',
+
+        generateText(prompt, options = {}) {
+            return complete(prompt, options);
+        },
+
+        async generateJSON<T>(prompt: string, options: JSONRequestOptions = {}) {
+            const text = await complete(prompt, options, responseFormatBody(options));
+            return parseJSONFromText<T>(text);
+        },
+
+        streamText(prompt, options) {
+            return complete(prompt, options, options.json ? responseFormatBody(options) : {}, options.onText);
+        }
+    };
+}
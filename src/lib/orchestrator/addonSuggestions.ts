@@ -5,7 +5,10 @@
  * Aligned with Aarav's helpful, non-pushy approach.
  */
 
-import { supabase } from '@/lib/supabase';
+import { getCatalogRepository, CompatibilityRow } from './catalogRepository';
+import { getCatalogProducts, getScoredProducts, toProductListing } from './catalog';
+import { describeRelation } from './compatibility';
+import { describePaymentMethods, PaymentMethod } from '@/lib/payments';
 
 export interface AddOn {
     product_id: string;
@@ -14,55 +17,123 @@ export interface AddOn {
     image_url: string;
     variant_id: string;
     reason: string; // "Completes your setup" / "Protects your investment"
+    relation?: string; // Compatibility relation that earned the suggestion (mount, battery, ...)
+}
+
+// Ranking weights for compatibility edges
+const CART_EDGE_WEIGHT = 0.5;          // Edges from other cart items count half as much as the product just added
+const COVERED_RELATION_WEIGHT = 0.3;   // The cart already has an accessory for this relation (e.g. a second tripod)
+const INTENT_FIT_WEIGHT = 0.5;         // Bonus per unit of the accessory's fit_score for the current intent
+
+interface AddonCandidate {
+    accessoryId: string;
+    score: number;
+    edge: CompatibilityRow;  // Strongest edge, used for the reason
+    edgeScore: number;
 }
 
 /**
- * Get relevant add-ons for a product
- * Currently uses simple logic: find accessories from the same intent
+ * Get relevant add-ons for a product from the compatibility graph.
+ * Accessories compatible with the product just added rank first, then those
+ * compatible with other cart items; accessories that fit the current intent
+ * get a boost, and relations the cart already covers are pushed down.
+ * Results prefer distinct relations (a mount and a battery over two mounts).
+ * Without any compatibility edges, falls back to top `accessory_only` products.
  */
 export async function getRelevantAddons(
     productId: string,
     intentId: string,
-    limit: number = 2
+    limit: number = 2,
+    cartProductIds: string[] = []
 ): Promise<AddOn[]> {
     try {
-        // For now, find accessories based on the 'accessory_only' intent
-        // In future, could use product compatibility table
-        const { data: accessoryScores, error } = await supabase
-            .from('intent_product_scores')
-            .select(`
-                product_id,
-                products (
-                    title,
-                    price,
-                    image_url,
-                    variants (variant_id)
-                )
-            `)
-            .eq('intent_id', 'accessory_only')
-            .neq('product_id', productId) // Don't suggest the same product
-            .order('fit_score', { ascending: false })
-            .limit(limit);
-
-        if (error || !accessoryScores) {
-            console.warn('Failed to fetch add-ons:', error);
-            return [];
+        const catalog = getCatalogRepository();
+        const inCart = new Set([productId, ...cartProductIds].map(String));
+        const edges = await catalog.listCompatibility({ productIds: [...inCart] });
+        if (edges.length === 0) return await getIntentAccessories(inCart, limit);
+
+        // Relations where a compatible accessory is already in the cart
+        const covered = new Set(edges.filter(e => inCart.has(String(e.accessory_id))).map(e => e.relation));
+
+        const candidates = new Map<string, AddonCandidate>();
+        for (const edge of edges) {
+            const accessoryId = String(edge.accessory_id);
+            if (inCart.has(accessoryId)) continue;
+
+            const score = (edge.strength ?? 1)
+                * (String(edge.product_id) === String(productId) ? 1 : CART_EDGE_WEIGHT)
+                * (covered.has(edge.relation) ? COVERED_RELATION_WEIGHT : 1);
+            const candidate = candidates.get(accessoryId);
+            if (!candidate) {
+                candidates.set(accessoryId, { accessoryId, score, edge, edgeScore: score });
+            } else {
+                candidate.score += score;
+                if (score > candidate.edgeScore) Object.assign(candidate, { edge, edgeScore: score });
+            }
         }
+        if (candidates.size === 0) return [];
 
-        return accessoryScores.map((score: any) => ({
-            product_id: score.product_id,
-            title: score.products?.title || 'Accessory',
-            price: score.products?.price || '0',
-            image_url: score.products?.image_url || '',
-            variant_id: score.products?.variants?.[0]?.variant_id || '',
-            reason: 'Completes your setup'
-        }));
+        const accessoryIds = [...candidates.keys()];
+        const fits = await catalog.listIntentScores({ intentId, productIds: accessoryIds });
+        for (const fit of fits) {
+            const candidate = candidates.get(String(fit.product_id));
+            if (candidate) candidate.score += (fit.fit_score ?? 0) * INTENT_FIT_WEIGHT;
+        }
+
+        const ranked = [...candidates.values()].sort((a, b) => b.score - a.score);
+        const picked = pickDiverse(ranked, limit);
+
+        const products = await getCatalogProducts([...new Set([...picked.map(c => c.accessoryId), ...picked.map(c => String(c.edge.product_id))])]);
+        const byId = new Map(products.map(p => [p.product_id, p]));
+
+        console.log(`🧩 Add-ons for ${productId} (${intentId}): ${picked.map(c => `${c.accessoryId} [${c.edge.relation} ${c.score.toFixed(2)}]`).join(', ')}`);
+        return picked.flatMap(candidate => {
+            const accessory = byId.get(candidate.accessoryId);
+            if (!accessory) return [];
+            const target = byId.get(String(candidate.edge.product_id));
+            return [{
+                ...toProductListing(accessory),
+                reason: candidate.edge.note || (target ? describeRelation(candidate.edge.relation, target.title) : 'Completes your setup'),
+                relation: candidate.edge.relation
+            }];
+        });
     } catch (error) {
         console.error('Error fetching add-ons:', error);
         return [];
     }
 }
 
+// Best candidates, one per relation first, then topped up by score
+function pickDiverse(ranked: AddonCandidate[], limit: number): AddonCandidate[] {
+    const picked: AddonCandidate[] = [];
+    const relations = new Set<string>();
+    for (const candidate of ranked) {
+        if (picked.length >= limit) break;
+        if (relations.has(candidate.edge.relation)) continue;
+        picked.push(candidate);
+        relations.add(candidate.edge.relation);
+    }
+    for (const candidate of ranked) {
+        if (picked.length >= limit) break;
+        if (!picked.includes(candidate)) picked.push(candidate);
+    }
+    return picked.sort((a, b) => b.score - a.score);
+}
+
+// Catalog without compatibility data: generic accessories
+async function getIntentAccessories(exclude: Set<string>, limit: number): Promise<AddOn[]> {
+    const accessories = await getScoredProducts({
+        intentId: 'accessory_only',
+        excludeProductIds: [...exclude], // Don't suggest what's already in the cart
+        limit
+    });
+
+    return accessories.map(({ product }) => ({
+        ...toProductListing(product),
+        reason: 'Completes your setup'
+    }));
+}
+
 /**
  * Generate add-on suggestion message
  */
@@ -75,15 +146,14 @@ export function generateAddonMessage(addons: AddOn[]): string {
 }
 
 /**
- * Payment mode options
+ * Generate payment mode question from the methods eligible for this order
  */
-export const PAYMENT_MODES = [
-    { id: 'cod', label: 'Cash on Delivery', description: 'Pay when you receive' }
-];
-
-/**
- * Generate payment mode question
- */
-export function generatePaymentModeQuestion(): string {
-    return "Great choice! Before we finalize, how would you like to pay? We currently accept Cash on Delivery.";
+export function generatePaymentModeQuestion(methods: PaymentMethod[]): string {
+    if (methods.length === 0) {
+        return "Great choice! Unfortunately none of our payment options are available for this order. Could you try a different delivery address?";
+    }
+    if (methods.length === 1) {
+        return `Great choice! Before we finalize, how would you like to pay? For this order we can accept ${describePaymentMethods(methods)}.`;
+    }
+    return `Great choice! Before we finalize, how would you like to pay? You can choose ${describePaymentMethods(methods)}.`;
 }
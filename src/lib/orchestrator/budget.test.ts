@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyBudget, describeBudget, extractBudget, getBudgetNote, parsePrice } from './budget';
+
+describe('extractBudget', () => {
+    it('reads upper bounds, lower bounds and ranges', () => {
+        assert.deepEqual(extractBudget('something under ₹50,000'), { max: 50000, currency: 'INR' });
+        assert.deepEqual(extractBudget('at least 1.5 lakh'), { min: 150000, currency: 'INR' });
+        assert.deepEqual(extractBudget('between 20 and 40k'), { min: 20000, max: 40000, currency: 'INR' });
+        assert.deepEqual(extractBudget('my budget is 30000'), { max: 30000, currency: 'INR' });
+        assert.deepEqual(extractBudget('under $800'), { max: 800, currency: 'USD' });
+    });
+
+    it('gives "around" some headroom', () => {
+        assert.deepEqual(extractBudget('around 50k'), { max: 55000, currency: 'INR' });
+    });
+
+    it('keeps the previous currency when none is given', () => {
+        assert.deepEqual(extractBudget('under 2k', { max: 900, currency: 'USD' }), { max: 2000, currency: 'USD' });
+    });
+
+    it('ignores measurements and bare numbers', () => {
+        assert.equal(extractBudget('under 500 g please'), undefined);
+        assert.equal(extractBudget('up to 120 fps'), undefined);
+        assert.equal(extractBudget('around 3 of them'), undefined);
+    });
+
+    it('does not read video resolutions as prices', () => {
+        assert.equal(extractBudget('records up to 4K at 60fps'), undefined);
+        assert.equal(extractBudget('shoots at least 4K'), undefined);
+        assert.equal(extractBudget('around 8k video'), undefined);
+        assert.deepEqual(extractBudget('a 4k video camera under 60k'), { max: 60000, currency: 'INR' });
+        assert.deepEqual(extractBudget('a tripod under 5k'), { max: 5000, currency: 'INR' });
+    });
+
+    it('lifts the budget when the user says it does not matter', () => {
+        assert.equal(extractBudget("budget isn't an issue"), null);
+        assert.equal(extractBudget('show me cameras'), undefined);
+    });
+});
+
+describe('applyBudget', () => {
+    const products = [{ id: 'a', price: '₹45,999.00' }, { id: 'b', price: '70000' }, { id: 'c', price: 'N/A' }];
+
+    it('keeps fitting products in rank order', () => {
+        assert.deepEqual(applyBudget(products, { max: 50000, currency: 'INR' }), [{ id: 'a', price: '₹45,999.00', within_budget: true }]);
+    });
+
+    it('falls back to the nearest priced products when nothing fits', () => {
+        const nearest = applyBudget(products, { max: 60000, min: 55000, currency: 'INR' });
+        assert.deepEqual(nearest.map(p => p.id), ['a', 'b']);
+        assert.ok(nearest.every(p => p.within_budget === false));
+        assert.equal(getBudgetNote(nearest, { max: 60000, min: 55000, currency: 'INR' }), "I couldn't find anything between ₹55,000 and ₹60,000 for this, so here are the closest options.");
+    });
+
+    it('leaves products alone for budgets in another currency', () => {
+        assert.equal(applyBudget(products, { max: 500, currency: 'USD' }), products);
+    });
+});
+
+describe('describeBudget', () => {
+    it('phrases each kind of bound', () => {
+        assert.equal(describeBudget({ max: 50000, currency: 'INR' }), 'under ₹50,000');
+        assert.equal(describeBudget({ min: 800, currency: 'USD' }), 'above $800');
+    });
+});
+
+describe('parsePrice', () => {
+    it('parses catalog prices', () => {
+        assert.equal(parsePrice('₹45,999.00'), 45999);
+        assert.equal(parsePrice(1200), 1200);
+        assert.equal(parsePrice('N/A'), null);
+    });
+});
@@ -0,0 +1,214 @@
+/**
+ * Budget Constraints
+ *
+ * Extracts a price range from the user's words ("under ₹50k", "between 20
+ * and 40 thousand", "around 1 lakh") into constraints.budget, parses variant
+ * prices from products_raw and filters ranked products against the range.
+ * When nothing fits, the nearest options are kept so the user still gets
+ * something to react to.
+ */
+
+import type { BudgetConstraint } from '@/types/session';
+
+export const CATALOG_CURRENCY = 'INR';
+
+const CURRENCY_SYMBOLS: Record<string, string> = { INR: '₹', USD: '$' };
+const AROUND_TOLERANCE = 0.1; // "around 50k" allows up to 55k
+
+// Units that make a number a measurement rather than a price ("under 500 g", "up to 120 fps")
+const MEASUREMENT_UNITS = String.raw`(?:g|gms?|grams?|kgs?|kilos?|kilograms?|mg|mm|cm|m|meters?|metres?|km|inch(?:es)?|ft|feet|mah|wh|w|watts?|v|fps|mp|megapixels?|gb|tb|mb|hz|khz|mhz|hours?|hrs?|mins?|minutes?|secs?|seconds?|days?|people|persons?)`;
+
+// Amount with optional currency marker and multiplier: "₹50,000", "50k", "1.5 lakh", "$800"
+// (never followed by a measurement unit)
+const AMOUNT = String.raw`(₹|rs\.?|inr|\$|usd)?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|lakhs?|lacs?|l)?\b\s*(rupees|rs|inr|dollars|usd|bucks)?(?!\s*${MEASUREMENT_UNITS}\b)`;
+
+// "4K"/"8k" next to video words is a resolution, not a price: "records up to 4K at 60fps",
+// "shoots at least 4K", "around 8k video" (resolutions are single digits: 2K to 8K)
+const RESOLUTION_BEFORE = /\b(?:shoots?|shooting|records?|recording|films?|filming|captures?|capturing)\s*$/i;
+const RESOLUTION_AFTER = /^\s*(?:video|resolution|res|recording|footage|uhd|hdr|raw|at\s+\d+\s*(?:fps|p)\b|@\s*\d+|\/\s*\d+|\d+\s*(?:fps|p)\b)/i;
+
+const CLEAR_PATTERNS = [
+    /\bno budget\b/i,
+    /\bany budget\b/i,
+    /\bbudget (is not|isn't) an? (issue|concern|problem)\b/i,
+    /\bmoney('s| is)? no object\b/i,
+    /\bprice doesn'?t matter\b/i
+];
+
+const RANGE_PATTERN = new RegExp(String.raw`\b(?:between|from)\s+${AMOUNT}\s*(?:and|to|-)\s*${AMOUNT}`, 'i');
+const DASH_RANGE_PATTERN = new RegExp(String.raw`${AMOUNT}\s*(?:-|to)\s*${AMOUNT}\s*(?:budget|range)`, 'i');
+const MAX_PATTERN = new RegExp(String.raw`\b(?:under|below|less than|up ?to|within|max(?:imum)?|no more than|not more than|cheaper than)\s+${AMOUNT}`, 'i');
+const BUDGET_PATTERN = new RegExp(String.raw`\bbudget(?: is| of)?\s+${AMOUNT}`, 'i');
+const MIN_PATTERN = new RegExp(String.raw`\b(?:above|over|more than|at least|starting (?:at|from))\s+${AMOUNT}`, 'i');
+const AROUND_PATTERN = new RegExp(String.raw`\b(?:around|about|roughly|approx(?:imately)?)\s+${AMOUNT}`, 'i');
+
+interface ParsedAmount {
+    value: number;
+    currency: string | null; // null when the user gave no marker
+    explicit: boolean;       // Had a currency marker or multiplier ("50k"), so it's clearly money
+}
+
+function parseAmount(match: RegExpMatchArray, start: number): ParsedAmount | null {
+    const [prefix, digits, multiplier, suffix] = match.slice(start, start + 4);
+    const base = parseFloat((digits || '').replace(/,/g, ''));
+    if (!Number.isFinite(base)) return null;
+
+    const unit = (multiplier || '').toLowerCase();
+    if (unit === 'k' && !prefix && !suffix && /^\d$/.test(digits) && isResolution(match)) return null;
+    const factor = unit === 'k' || unit === 'thousand' ? 1_000
+        : unit.startsWith('lakh') || unit.startsWith('lac') || unit === 'l' ? 100_000
+            : 1;
+    const marker = `${prefix || ''}${suffix || ''}`.toLowerCase();
+    const currency = /\$|usd|dollar|bucks/.test(marker) ? 'USD'
+        : /₹|rs|inr|rupee/.test(marker) ? 'INR'
+            : null;
+
+    return { value: base * factor, currency, explicit: currency !== null || factor > 1 };
+}
+
+function isResolution(match: RegExpMatchArray): boolean {
+    const input = match.input || '';
+    const start = match.index || 0;
+    return RESOLUTION_BEFORE.test(input.slice(0, start)) || RESOLUTION_AFTER.test(input.slice(start + match[0].length));
+}
+
+// "under 500" could be grams or fps as easily as rupees: only "under ₹500" or "under 5k" is money
+function isMoney(amount: ParsedAmount | null): amount is ParsedAmount {
+    return amount !== null && amount.explicit;
+}
+
+/**
+ * Extract a budget from one message.
+ * Returns undefined when the message says nothing about budget and null when
+ * the user lifted the constraint ("budget isn't an issue").
+ */
+export function extractBudget(message: string, previous?: BudgetConstraint): BudgetConstraint | null | undefined {
+    if (CLEAR_PATTERNS.some(p => p.test(message))) return null;
+
+    const range = message.match(RANGE_PATTERN) || message.match(DASH_RANGE_PATTERN);
+    if (range) {
+        const low = parseAmount(range, 1);
+        const high = parseAmount(range, 5);
+        if (low && high && (isMoney(low) || isMoney(high))) {
+            // "between 20 and 40k": the multiplier on the upper bound applies to both
+            const highFactor = high.value / parseFloat(range[6].replace(/,/g, ''));
+            const lowValue = low.explicit ? low.value : low.value * highFactor;
+            return {
+                min: Math.min(lowValue, high.value),
+                max: Math.max(lowValue, high.value),
+                currency: high.currency || low.currency || previous?.currency || CATALOG_CURRENCY
+            };
+        }
+    }
+
+    const max = message.match(MAX_PATTERN);
+    if (max) {
+        const amount = parseAmount(max, 1);
+        if (isMoney(amount)) return { max: amount.value, currency: amount.currency || previous?.currency || CATALOG_CURRENCY };
+    }
+
+    // "my budget is 50000": the word budget already says it's money
+    const stated = message.match(BUDGET_PATTERN);
+    if (stated) {
+        const amount = parseAmount(stated, 1);
+        if (amount) return { max: amount.value, currency: amount.currency || previous?.currency || CATALOG_CURRENCY };
+    }
+
+    const around = message.match(AROUND_PATTERN);
+    if (around) {
+        const amount = parseAmount(around, 1);
+        // Bare "around 3" is a count, not a price
+        if (isMoney(amount)) {
+            return { max: Math.round(amount.value * (1 + AROUND_TOLERANCE)), currency: amount.currency || previous?.currency || CATALOG_CURRENCY };
+        }
+    }
+
+    const min = message.match(MIN_PATTERN);
+    if (min) {
+        const amount = parseAmount(min, 1);
+        if (isMoney(amount)) return { min: amount.value, currency: amount.currency || previous?.currency || CATALOG_CURRENCY };
+    }
+
+    return undefined;
+}
+
+/**
+ * Parse a catalog price ("₹45,999.00", 45999, "N/A") into a number
+ */
+export function parsePrice(price: unknown): number | null {
+    if (typeof price === 'number') return Number.isFinite(price) ? price : null;
+    if (typeof price !== 'string') return null;
+    const value = parseFloat(price.replace(/[^0-9.]/g, ''));
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * How far a price is outside the budget (0 when it fits)
+ */
+export function budgetDistance(price: number, budget: BudgetConstraint): number {
+    if (budget.max !== undefined && price > budget.max) return price - budget.max;
+    if (budget.min !== undefined && price < budget.min) return budget.min - price;
+    return 0;
+}
+
+/**
+ * Whether a budget can be checked against catalog prices (has a bound, same currency)
+ */
+export function budgetAppliesToCatalog(budget?: BudgetConstraint): budget is BudgetConstraint {
+    if (!budget || (budget.min === undefined && budget.max === undefined)) return false;
+    if (budget.currency !== CATALOG_CURRENCY) {
+        console.warn(`💸 Budget in ${budget.currency} ignored: catalog prices are ${CATALOG_CURRENCY}`);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Keep ranked products that fit the budget (rank order preserved). If none
+ * fit, return every priced product ordered by distance to the budget and
+ * flagged within_budget: false.
+ */
+export function applyBudget<T extends { price: string }>(
+    products: T[],
+    budget?: BudgetConstraint
+): Array<T & { within_budget?: boolean }> {
+    if (!budgetAppliesToCatalog(budget)) return products;
+
+    const priced = products
+        .map(product => ({ product, price: parsePrice(product.price) }))
+        .filter((p): p is { product: T; price: number } => p.price !== null);
+
+    const fitting = priced.filter(p => budgetDistance(p.price, budget) === 0);
+    if (fitting.length > 0) {
+        return fitting.map(p => ({ ...p.product, within_budget: true }));
+    }
+
+    console.log(`💸 Nothing fits ${describeBudget(budget)}, returning nearest options`);
+    return priced
+        .sort((a, b) => budgetDistance(a.price, budget) - budgetDistance(b.price, budget))
+        .map(p => ({ ...p.product, within_budget: false }));
+}
+
+function formatAmount(value: number, currency: string): string {
+    const locale = currency === 'INR' ? 'en-IN' : 'en-US';
+    return `${CURRENCY_SYMBOLS[currency] || `${currency} `}${Math.round(value).toLocaleString(locale)}`;
+}
+
+/**
+ * Human phrasing of a budget: "under ₹50,000", "between ₹20,000 and ₹40,000"
+ */
+export function describeBudget(budget: BudgetConstraint): string {
+    const { min, max, currency } = budget;
+    if (min !== undefined && max !== undefined) return `between ${formatAmount(min, currency)} and ${formatAmount(max, currency)}`;
+    if (max !== undefined) return `under ${formatAmount(max, currency)}`;
+    if (min !== undefined) return `above ${formatAmount(min, currency)}`;
+    return 'your budget';
+}
+
+/**
+ * Explanation to prepend when none of the shown products fit the budget
+ */
+export function getBudgetNote(products: Array<{ within_budget?: boolean }>, budget?: BudgetConstraint): string | null {
+    if (!budget || products.length === 0 || !products.every(p => p.within_budget === false)) return null;
+    return `I couldn't find anything ${describeBudget(budget)} for this, so here are the closest options.`;
+}
@@ -0,0 +1,71 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInMemoryCatalogRepository, setCatalogRepository } from './catalogRepository';
+import { buildBundle, BundleItem, priceBundle, toBundleRequest } from './bundleBuilder';
+
+function item(productId: string, price: string, role: BundleItem['role'] = 'accessory'): BundleItem {
+    return { product_id: productId, variant_id: `${productId}-v`, title: productId, price, image_url: '', role };
+}
+
+describe('priceBundle', () => {
+    it('discounts kits with enough items only', () => {
+        assert.deepEqual(priceBundle([item('cam', '1000.00', 'primary'), item('mic', '300.00'), item('sd', '200.00')], 10), {
+            subtotal: '1500.00', discount_percent: 10, discount: '150.00', total: '1350.00'
+        });
+        assert.deepEqual(priceBundle([item('cam', '1000.00', 'primary'), item('mic', '300.00')], 10), {
+            subtotal: '1300.00', discount_percent: 0, discount: '0.00', total: '1300.00'
+        });
+    });
+});
+
+describe('buildBundle', () => {
+    before(() => {
+        setCatalogRepository(createInMemoryCatalogRepository({
+            products_raw: [
+                { id: 'cam', title: 'Vlog Camera', variants: [{ id: 1, price: '1000.00' }] },
+                { id: 'mic', title: 'Shotgun Mic', variants: [{ id: 2, price: '300.00' }] },
+                { id: 'sd', title: 'SD Card', variants: [{ id: 3, price: '200.00' }] },
+                { id: 'grip', title: 'Tripod Grip', variants: [{ id: 4, price: '150.00' }] }
+            ],
+            product_compatibility: [
+                { product_id: 'cam', accessory_id: 'mic', relation: 'audio', strength: 1 },
+                { product_id: 'cam', accessory_id: 'sd', relation: 'storage', strength: 0.9 },
+                { product_id: 'cam', accessory_id: 'grip', relation: 'mount', strength: 0.8, note: 'Doubles as a tripod' }
+            ]
+        }));
+    });
+
+    after(() => setCatalogRepository(null));
+
+    const primary = { product_id: 'cam', variant_id: '1', title: 'Vlog Camera', price: '1000.00', image_url: '' };
+
+    it('builds a kit around the chosen product with one accessory per relation', async () => {
+        const bundle = await buildBundle('vlogging', { primary });
+        assert.deepEqual(bundle?.items.map(i => [i.product_id, i.role]), [['cam', 'primary'], ['mic', 'accessory'], ['sd', 'accessory'], ['grip', 'accessory']]);
+        assert.equal(bundle?.items[3].reason, 'Doubles as a tripod');
+        assert.equal(bundle?.subtotal, '1650.00');
+        assert.equal(bundle?.within_budget, undefined);
+    });
+
+    it('leaves out accessories that would break the budget', async () => {
+        const bundle = await buildBundle('vlogging', { primary, constraints: { budget: { max: 1400, currency: 'INR' } } });
+        assert.deepEqual(bundle?.items.map(i => i.product_id), ['cam', 'mic']);
+        assert.equal(bundle?.within_budget, true);
+        assert.equal(bundle?.budget_note, 'I left out the SD Card and Tripod Grip to stay under ₹1,400.');
+    });
+
+    it('skips accessories already in the cart', async () => {
+        const bundle = await buildBundle('vlogging', { primary, cartProductIds: ['mic'] });
+        assert.deepEqual(bundle?.items.map(i => i.product_id), ['cam', 'sd', 'grip']);
+    });
+
+    it('converts to a cart bundle request', async () => {
+        const bundle = (await buildBundle('vlogging', { primary, cartProductIds: ['sd', 'grip'] }))!;
+        assert.deepEqual(toBundleRequest(bundle), {
+            bundle_id: 'kit:cam+mic',
+            title: 'Vlog Camera kit',
+            items: [{ product_id: 'cam', variant_id: '1' }, { product_id: 'mic', variant_id: '2' }],
+            discount_percent: 0
+        });
+    });
+});
@@ -0,0 +1,189 @@
+/**
+ * Bundle Builder
+ *
+ * Assembles a "complete kit" for users who want a full setup rather than one
+ * product: the primary recommendation plus compatible accessories (one per
+ * relation where possible: card, mic, tripod...), kept within the user's
+ * budget, priced as a whole with an optional bundle discount.
+ *
+ * BUNDLE_DISCOUNT_PERCENT (default 5, 0 disables) applies to kits of at least
+ * BUNDLE_MIN_ITEMS_FOR_DISCOUNT items.
+ */
+
+import type { OutcomeConstraints } from '@/types/session';
+import type { RankedProduct } from '@/types/chat';
+import { getTopProducts } from './productService';
+import { toRankedProducts } from './presentation';
+import { getRelevantAddons, AddOn } from './addonSuggestions';
+import { CATALOG_CURRENCY, describeBudget, parsePrice } from './budget';
+import type { BundleRequest } from './cartService';
+
+export const MAX_BUNDLE_ACCESSORIES = 3;
+export const BUNDLE_MIN_ITEMS_FOR_DISCOUNT = 3;
+const PRIMARY_CANDIDATES = 3; // Next-best primaries to try when the best one leaves no room for accessories
+
+export interface BundleItem {
+    product_id: string;
+    variant_id: string;
+    title: string;
+    price: string;
+    image_url: string;
+    role: 'primary' | 'accessory';
+    relation?: string; // Accessory's compatibility relation (mount, storage, audio...)
+    reason?: string;   // Why the accessory is in the kit
+}
+
+export interface Bundle {
+    bundle_id: string;
+    intent_id: string;
+    title: string;              // "Sony ZV-1F Vlog Camera kit"
+    items: BundleItem[];        // Primary first
+    subtotal: string;           // Sum of item prices
+    discount_percent: number;   // 0 when the kit doesn't qualify
+    discount: string;
+    total: string;
+    currency: string;
+    within_budget?: boolean;    // Set when a budget applies
+    budget_note?: string;       // Why the kit exceeds the budget, or what was left out
+}
+
+export interface BundleOptions {
+    message?: string;               // For the dynamic capability fallback
+    constraints?: OutcomeConstraints;
+    primary?: RankedProduct;        // Build around a product the user picked ("a kit for the second one")
+    cartProductIds?: string[];      // Skip accessories already in the cart
+}
+
+/**
+ * Configured discount percent (BUNDLE_DISCOUNT_PERCENT, default 5)
+ */
+export function getBundleDiscountPercent(): number {
+    const configured = Number(process.env.BUNDLE_DISCOUNT_PERCENT ?? 5);
+    return Number.isFinite(configured) ? Math.min(Math.max(configured, 0), 100) : 0;
+}
+
+const priceOf = (item: { price: string }) => parsePrice(item.price) ?? 0;
+
+/**
+ * Total up a kit. The discount only applies to kits with enough items.
+ */
+export function priceBundle(items: BundleItem[], discountPercent: number = getBundleDiscountPercent()) {
+    const subtotal = items.reduce((sum, item) => sum + priceOf(item), 0);
+    const percent = items.length >= BUNDLE_MIN_ITEMS_FOR_DISCOUNT ? discountPercent : 0;
+    const discount = subtotal * percent / 100;
+    return {
+        subtotal: subtotal.toFixed(2),
+        discount_percent: percent,
+        discount: discount.toFixed(2),
+        total: (subtotal - discount).toFixed(2)
+    };
+}
+
+function toPrimaryItem(product: RankedProduct): BundleItem {
+    return {
+        product_id: product.product_id,
+        variant_id: product.variant_id || '',
+        title: product.title,
+        price: product.price,
+        image_url: product.image_url,
+        role: 'primary'
+    };
+}
+
+function toAccessoryItem(addon: AddOn): BundleItem {
+    return {
+        product_id: addon.product_id,
+        variant_id: addon.variant_id,
+        title: addon.title,
+        price: addon.price,
+        image_url: addon.image_url,
+        role: 'accessory',
+        relation: addon.relation,
+        reason: addon.reason
+    };
+}
+
+/**
+ * Accessories (best first) that fit in what's left of the budget
+ */
+function fitAccessories(primary: BundleItem, addons: AddOn[], maxTotal?: number): { items: BundleItem[]; skipped: AddOn[] } {
+    let total = priceOf(primary);
+    const items: BundleItem[] = [];
+    const skipped: AddOn[] = [];
+    for (const addon of addons) {
+        if (maxTotal !== undefined && total + priceOf(addon) > maxTotal) {
+            skipped.push(addon);
+            continue;
+        }
+        items.push(toAccessoryItem(addon));
+        total += priceOf(addon);
+    }
+    return { items, skipped };
+}
+
+/**
+ * Build a kit for an intent, or null when there's no primary product to build around
+ */
+export async function buildBundle(intentId: string, options: BundleOptions = {}): Promise<Bundle | null> {
+    const constraints = options.constraints || {};
+    const budget = constraints.budget?.currency === CATALOG_CURRENCY ? constraints.budget : undefined;
+    const maxTotal = budget?.max;
+
+    const candidates = options.primary
+        ? [options.primary]
+        : toRankedProducts(await getTopProducts(intentId, 0, PRIMARY_CANDIDATES, options.message, constraints));
+    if (candidates.length === 0) return null;
+
+    // Best-ranked primary whose kit fits the budget with at least one accessory
+    let best: { primary: BundleItem; accessories: BundleItem[]; skipped: AddOn[] } | null = null;
+    for (const candidate of candidates) {
+        const primary = toPrimaryItem(candidate);
+        const addons = await getRelevantAddons(candidate.product_id, intentId, MAX_BUNDLE_ACCESSORIES, options.cartProductIds);
+        const { items, skipped } = fitAccessories(primary, addons, maxTotal);
+        if (!best) best = { primary, accessories: items, skipped };
+        if (maxTotal === undefined || (priceOf(primary) <= maxTotal && items.length > 0)) {
+            best = { primary, accessories: items, skipped };
+            break;
+        }
+    }
+
+    const { primary, accessories, skipped } = best!;
+    const items = [primary, ...accessories];
+    const pricing = priceBundle(items);
+
+    let within_budget: boolean | undefined;
+    let budget_note: string | undefined;
+    if (budget && maxTotal !== undefined) {
+        within_budget = Number(pricing.total) <= maxTotal;
+        if (!within_budget) {
+            budget_note = `The ${primary.title} alone is over ${describeBudget(budget)}, so this kit goes past your budget.`;
+        } else if (skipped.length > 0) {
+            budget_note = `I left out the ${skipped.map(a => a.title).join(' and ')} to stay ${describeBudget(budget)}.`;
+        }
+    }
+
+    const bundle: Bundle = {
+        bundle_id: `kit:${items.map(i => i.product_id).join('+')}`,
+        intent_id: intentId,
+        title: `${primary.title} kit`,
+        items,
+        ...pricing,
+        currency: CATALOG_CURRENCY,
+        within_budget,
+        budget_note
+    };
+    console.log(`🎁 Bundle: ${bundle.title} (${items.length} items, ₹${bundle.total}${bundle.discount_percent ? `, ${bundle.discount_percent}% off` : ''})`);
+    return bundle;
+}
+
+/**
+ * What the cart needs to add a kit in one step
+ */
+export function toBundleRequest(bundle: Bundle): BundleRequest {
+    return {
+        bundle_id: bundle.bundle_id,
+        title: bundle.title,
+        items: bundle.items.map(({ product_id, variant_id }) => ({ product_id, variant_id: variant_id || undefined })),
+        discount_percent: bundle.discount_percent
+    };
+}
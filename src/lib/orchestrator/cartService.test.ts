@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Cart, CartError, createInMemoryCartStore } from './cartService';
+import { createTestCart, TEST_VARIANTS } from './testFixtures';
+
+describe('createInMemoryCartStore', () => {
+    it('saves, loads copies and deletes carts', async () => {
+        const store = createInMemoryCartStore();
+        const cart: Cart = { session_id: 's1', items: [], updated_at: '2026-01-01T00:00:00.000Z' };
+        await store.save(cart);
+
+        const loaded = await store.load('s1');
+        assert.deepEqual(loaded, cart);
+        loaded!.items.push({ ...TEST_VARIANTS[0], quantity: 1, added_at: '' });
+        assert.equal((await store.load('s1'))?.items.length, 0);
+
+        await store.delete('s1');
+        assert.equal(await store.load('s1'), null);
+    });
+});
+
+describe('createCartService', () => {
+    it('starts with an empty cart', async () => {
+        const { cart } = createTestCart();
+        const snapshot = await cart.getCart('s1');
+        assert.deepEqual(snapshot.items, []);
+        assert.equal(snapshot.total, '0.00');
+        assert.equal(snapshot.currency, 'INR');
+    });
+
+    it('adds items, merges repeats and totals the cart', async () => {
+        const { cart, store } = createTestCart();
+        await cart.addItem('s1', { variant_id: '11' });
+        await cart.addItem('s1', { product_id: 'p2', quantity: 2 });
+        const snapshot = await cart.addItem('s1', { variant_id: '11' });
+
+        assert.deepEqual(snapshot.items.map(l => [l.variant_id, l.quantity]), [['11', 2], ['21', 2]]);
+        assert.equal(snapshot.subtotal, '2400.00');
+        assert.equal(snapshot.item_count, 4);
+        assert.equal((await store.load('s1'))?.items.length, 2);
+    });
+
+    it('rejects unknown variants and bad quantities', async () => {
+        const { cart } = createTestCart();
+        await assert.rejects(cart.addItem('s1', { variant_id: '99' }), (e: CartError) => e.code === 'unknown_variant');
+        await assert.rejects(cart.addItem('s1', { variant_id: '11', quantity: 0 }), (e: CartError) => e.code === 'invalid_quantity');
+        await assert.rejects(cart.addItem('s1', { variant_id: '11', quantity: 11 }), (e: CartError) => e.code === 'invalid_quantity');
+        await cart.addItem('s1', { variant_id: '11', quantity: 10 });
+        await assert.rejects(cart.addItem('s1', { variant_id: '11' }), (e: CartError) => e.code === 'invalid_quantity');
+    });
+
+    it('updates quantities and removes lines', async () => {
+        const { cart } = createTestCart();
+        await cart.addItem('s1', { variant_id: '11' });
+        await cart.addItem('s1', { variant_id: '21' });
+
+        assert.equal((await cart.updateQuantity('s1', '11', 3)).item_count, 4);
+        assert.deepEqual((await cart.updateQuantity('s1', '11', 0)).items.map(l => l.variant_id), ['21']);
+        assert.deepEqual((await cart.removeItem('s1', '21')).items, []);
+        await assert.rejects(cart.removeItem('s1', '21'), (e: CartError) => e.code === 'not_in_cart');
+    });
+
+    it('swaps a line to another option of the same product', async () => {
+        const { cart } = createTestCart();
+        await cart.addItem('s1', { variant_id: '11', quantity: 2 });
+
+        const snapshot = await cart.swapVariant('s1', '11', '12');
+        assert.deepEqual(snapshot.items.map(l => [l.variant_id, l.title, l.quantity]), [['12', 'Camera - White', 2]]);
+        await assert.rejects(cart.swapVariant('s1', '12', '21'), (e: CartError) => e.code === 'unknown_variant');
+    });
+
+    it('merges a swap into an existing line for the new variant', async () => {
+        const { cart } = createTestCart();
+        await cart.addItem('s1', { variant_id: '11' });
+        await cart.addItem('s1', { variant_id: '12', quantity: 2 });
+
+        const snapshot = await cart.swapVariant('s1', '11', '12');
+        assert.deepEqual(snapshot.items.map(l => [l.variant_id, l.quantity]), [['12', 3]]);
+    });
+
+    it('adds a bundle with its discount until one of its lines is removed', async () => {
+        const { cart } = createTestCart();
+        const kit = { bundle_id: 'kit', title: 'Vlog kit', items: [{ variant_id: '11' }, { product_id: 'p3' }], discount_percent: 10 };
+
+        const added = await cart.addBundle('s1', kit);
+        assert.deepEqual(added.items.map(l => l.variant_id), ['11', '31']);
+        assert.equal(added.discount, '130.00');
+        assert.equal(added.total, '1170.00');
+
+        const edited = await cart.removeItem('s1', '31');
+        assert.equal(edited.discount, '0.00');
+        assert.deepEqual(edited.bundles, []);
+    });
+
+    it('leaves the cart untouched when a bundle item is unknown', async () => {
+        const { cart } = createTestCart();
+        await cart.addItem('s1', { variant_id: '21' });
+        const kit = { bundle_id: 'kit', title: 'Broken kit', items: [{ variant_id: '11' }, { variant_id: '99' }], discount_percent: 10 };
+
+        await assert.rejects(cart.addBundle('s1', kit), (e: CartError) => e.code === 'unknown_variant');
+        assert.deepEqual((await cart.getCart('s1')).items.map(l => l.variant_id), ['21']);
+    });
+
+    it('serializes concurrent changes to the same cart', async () => {
+        const { cart } = createTestCart();
+        await Promise.all([1, 2, 3].map(() => cart.addItem('s1', { variant_id: '11' })));
+        assert.equal((await cart.getCart('s1')).items[0].quantity, 3);
+    });
+
+    it('clears items and bundles', async () => {
+        const { cart } = createTestCart();
+        await cart.addBundle('s1', { bundle_id: 'kit', title: 'Kit', items: [{ variant_id: '11' }, { variant_id: '21' }], discount_percent: 5 });
+        const snapshot = await cart.clear('s1');
+        assert.deepEqual(snapshot.items, []);
+        assert.deepEqual(snapshot.bundles, []);
+    });
+});
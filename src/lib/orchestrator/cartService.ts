@@ -0,0 +1,428 @@
+/**
+ * Cart Service
+ *
+ * Authoritative cart keyed by session_id. Variants are validated against
+ * products_raw and the price is snapshotted when a line is added, so the
+ * chat stages and checkout never trust cart arrays posted by the client.
+ *
+ * Backends (CART_STORE, falls back to SESSION_STORE):
+ * - memory:   process-local Map (tests, local dev)
+ * - supabase: `carts` table (production)
+ *
+ * Bundles ("complete kits") added in one go are remembered on the cart; their
+ * discount applies only while every variant of the kit is still in the cart.
+ *
+ * Expected Supabase table:
+ *   create table carts (
+ *     session_id text primary key,
+ *     items jsonb not null,
+ *     bundles jsonb,
+ *     updated_at timestamptz not null
+ *   );
+ */
+
+import { supabase } from '@/lib/supabase';
+import { parsePrice } from './budget';
+import { CatalogProduct, CatalogVariant, findCatalogProductByVariant, findVariant, getCatalogProduct, getVariantDisplayTitle } from './catalog';
+
+export interface CartLine {
+    product_id: string;
+    variant_id: string;
+    title: string;
+    price: string;        // Unit price snapshotted at add time
+    image_url: string;
+    quantity: number;
+    added_at: string;
+}
+
+// Kit added as a unit; discount_percent applies to one of each of its variants
+export interface CartBundle {
+    bundle_id: string;
+    title: string;
+    variant_ids: string[];
+    discount_percent: number;
+    added_at: string;
+}
+
+export interface Cart {
+    session_id: string;
+    items: CartLine[];
+    bundles?: CartBundle[];
+    updated_at: string;
+}
+
+export interface CartSnapshot extends Cart {
+    subtotal: string;     // Sum of line prices
+    discount: string;     // Bundle discounts currently earned
+    total: string;        // subtotal - discount (before shipping and tax)
+    item_count: number;
+    currency: string;
+}
+
+// Kit to add in one step (see bundleBuilder.ts)
+export interface BundleRequest {
+    bundle_id: string;
+    title: string;
+    items: Array<{ variant_id?: string; product_id?: string }>;
+    discount_percent: number;
+}
+
+export const CART_CURRENCY = 'INR';
+export const MAX_LINE_QUANTITY = 10;
+
+export type CartErrorCode = 'unknown_variant' | 'invalid_quantity' | 'not_in_cart';
+
+export class CartError extends Error {
+    constructor(message: string, public readonly code: CartErrorCode) {
+        super(message);
+        this.name = 'CartError';
+    }
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface CartStore {
+    load(sessionId: string): Promise<Cart | null>;
+    save(cart: Cart): Promise<void>;
+    delete(sessionId: string): Promise<void>;
+}
+
+export function createInMemoryCartStore(): CartStore {
+    const carts = new Map<string, Cart>();
+
+    return {
+        async load(sessionId) {
+            const cart = carts.get(sessionId);
+            return cart ? structuredClone(cart) : null;
+        },
+
+        async save(cart) {
+            carts.set(cart.session_id, structuredClone(cart));
+        },
+
+        async delete(sessionId) {
+            carts.delete(sessionId);
+        }
+    };
+}
+
+export function createSupabaseCartStore(table: string = 'carts'): CartStore {
+    return {
+        async load(sessionId) {
+            const { data, error } = await supabase
+                .from(table)
+                .select('session_id, items, bundles, updated_at')
+                .eq('session_id', sessionId)
+                .maybeSingle();
+            if (error) throw new Error(`Failed to load cart: ${error.message}`);
+            return data ? (data as Cart) : null;
+        },
+
+        async save(cart) {
+            const { error } = await supabase.from(table).upsert(cart, { onConflict: 'session_id' });
+            if (error) throw new Error(`Failed to save cart: ${error.message}`);
+        },
+
+        async delete(sessionId) {
+            const { error } = await supabase.from(table).delete().eq('session_id', sessionId);
+            if (error) throw new Error(`Failed to delete cart: ${error.message}`);
+        }
+    };
+}
+
+// ============================================================================
+// VARIANT LOOKUP
+// ============================================================================
+
+export interface ResolvedVariant {
+    product_id: string;
+    variant_id: string;
+    title: string;
+    price: string;
+    image_url: string;
+}
+
+export type VariantResolver = (variantId?: string, productId?: string) => Promise<ResolvedVariant | null>;
+
+function toResolvedVariant(product: CatalogProduct, variant: CatalogVariant): ResolvedVariant {
+    return {
+        product_id: product.product_id,
+        variant_id: variant.variant_id,
+        title: getVariantDisplayTitle(product, variant),
+        price: variant.price || '0',
+        image_url: product.image_url
+    };
+}
+
+/**
+ * Resolve a variant from the catalog.
+ * With only a product_id the first variant is used; with only a variant_id
+ * the product is looked up by variant.
+ */
+export const resolveVariantFromCatalog: VariantResolver = async (variantId, productId) => {
+    let product: CatalogProduct | null;
+    if (productId) {
+        product = await getCatalogProduct(productId);
+    } else if (variantId) {
+        product = await findCatalogProductByVariant(variantId);
+    } else {
+        return null;
+    }
+    if (!product) return null;
+
+    const variant = variantId ? findVariant(product, variantId) : product.variants[0];
+    if (!variant) return null;
+
+    return toResolvedVariant(product, variant);
+};
+
+/**
+ * List every variant of a product (used to match "the black one" to a variant)
+ */
+export async function listProductVariants(productId: string): Promise<Array<ResolvedVariant & { option: string }>> {
+    const product = await getCatalogProduct(productId);
+    if (!product) return [];
+
+    return product.variants.map(variant => ({
+        ...toResolvedVariant(product, variant),
+        option: variant.title
+    }));
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export interface CartService {
+    getCart(sessionId: string): Promise<CartSnapshot>;
+    addItem(sessionId: string, item: { variant_id?: string; product_id?: string; quantity?: number }): Promise<CartSnapshot>;
+    removeItem(sessionId: string, variantId: string): Promise<CartSnapshot>;
+    updateQuantity(sessionId: string, variantId: string, quantity: number): Promise<CartSnapshot>;
+    swapVariant(sessionId: string, variantId: string, newVariantId: string): Promise<CartSnapshot>;
+    /** Add every item of a kit (all or nothing) and record its discount */
+    addBundle(sessionId: string, bundle: BundleRequest): Promise<CartSnapshot>;
+    clear(sessionId: string): Promise<CartSnapshot>;
+}
+
+const linePrice = (line: CartLine) => parsePrice(line.price) ?? 0;
+
+// A bundle stays on the cart only while all of its variants do
+function isBundleComplete(cart: Cart, bundle: CartBundle): boolean {
+    return bundle.variant_ids.every(id => cart.items.some(l => l.variant_id === id));
+}
+
+/**
+ * Discount earned by a complete bundle: its percent off one unit of each variant
+ */
+export function getBundleDiscount(cart: Cart, bundle: CartBundle): number {
+    if (!isBundleComplete(cart, bundle)) return 0;
+    const kitPrice = bundle.variant_ids.reduce((sum, id) => sum + linePrice(cart.items.find(l => l.variant_id === id)!), 0);
+    return kitPrice * bundle.discount_percent / 100;
+}
+
+/**
+ * Attach totals to a cart
+ */
+export function toCartSnapshot(cart: Cart): CartSnapshot {
+    const subtotal = cart.items.reduce((sum, line) => sum + linePrice(line) * line.quantity, 0);
+    const discount = (cart.bundles || []).reduce((sum, bundle) => sum + getBundleDiscount(cart, bundle), 0);
+    return {
+        ...cart,
+        subtotal: subtotal.toFixed(2),
+        discount: discount.toFixed(2),
+        total: (subtotal - discount).toFixed(2),
+        item_count: cart.items.reduce((sum, line) => sum + line.quantity, 0),
+        currency: CART_CURRENCY
+    };
+}
+
+function validateQuantity(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > MAX_LINE_QUANTITY) {
+        throw new CartError(`Quantity must be a whole number between 0 and ${MAX_LINE_QUANTITY}`, 'invalid_quantity');
+    }
+}
+
+export function createCartService(
+    store: CartStore = getCartStore(),
+    resolveVariant: VariantResolver = resolveVariantFromCatalog
+): CartService {
+    // Serializes mutations for the same cart within this process
+    const locks = new Map<string, Promise<unknown>>();
+
+    async function load(sessionId: string): Promise<Cart> {
+        return await store.load(sessionId) || { session_id: sessionId, items: [], updated_at: new Date().toISOString() };
+    }
+
+    function mutate(sessionId: string, change: (cart: Cart) => Promise<Cart> | Cart): Promise<CartSnapshot> {
+        const previous = locks.get(sessionId) || Promise.resolve();
+        const current = previous.catch(() => undefined).then(async () => {
+            const updated = await change(await load(sessionId));
+            // Editing a kit's lines away ends its discount; re-adding them doesn't bring it back
+            const bundles = (updated.bundles || []).filter(b => isBundleComplete(updated, b));
+            const saved = { ...updated, bundles, updated_at: new Date().toISOString() };
+            await store.save(saved);
+            return toCartSnapshot(saved);
+        });
+
+        locks.set(sessionId, current);
+        return current.finally(() => {
+            if (locks.get(sessionId) === current) locks.delete(sessionId);
+        });
+    }
+
+    function findLine(cart: Cart, variantId: string): CartLine {
+        const line = cart.items.find(l => l.variant_id === String(variantId));
+        if (!line) throw new CartError(`Variant ${variantId} is not in the cart`, 'not_in_cart');
+        return line;
+    }
+
+    return {
+        async getCart(sessionId) {
+            return toCartSnapshot(await load(sessionId));
+        },
+
+        addItem(sessionId, item) {
+            const quantity = item.quantity ?? 1;
+            return mutate(sessionId, async (cart) => {
+                validateQuantity(quantity);
+                if (quantity === 0) {
+                    throw new CartError('Quantity must be at least 1', 'invalid_quantity');
+                }
+                const variant = await resolveVariant(item.variant_id, item.product_id);
+                if (!variant) {
+                    throw new CartError(`Unknown variant ${item.variant_id || `for product ${item.product_id}`}`, 'unknown_variant');
+                }
+
+                const existing = cart.items.find(l => l.variant_id === variant.variant_id);
+                if (existing) {
+                    const newQuantity = existing.quantity + quantity;
+                    validateQuantity(newQuantity);
+                    return { ...cart, items: cart.items.map(l => l === existing ? { ...l, quantity: newQuantity } : l) };
+                }
+
+                const line: CartLine = { ...variant, quantity, added_at: new Date().toISOString() };
+                return { ...cart, items: [...cart.items, line] };
+            });
+        },
+
+        removeItem(sessionId, variantId) {
+            return mutate(sessionId, (cart) => {
+                const line = findLine(cart, variantId);
+                return { ...cart, items: cart.items.filter(l => l !== line) };
+            });
+        },
+
+        updateQuantity(sessionId, variantId, quantity) {
+            return mutate(sessionId, (cart) => {
+                validateQuantity(quantity);
+                const line = findLine(cart, variantId);
+                return {
+                    ...cart,
+                    items: quantity === 0
+                        ? cart.items.filter(l => l !== line)
+                        : cart.items.map(l => l === line ? { ...l, quantity } : l)
+                };
+            });
+        },
+
+        swapVariant(sessionId, variantId, newVariantId) {
+            return mutate(sessionId, async (cart) => {
+                const line = findLine(cart, variantId);
+                const variant = await resolveVariant(newVariantId, line.product_id);
+                if (!variant || variant.product_id !== line.product_id) {
+                    throw new CartError(`Variant ${newVariantId} is not an option of product ${line.product_id}`, 'unknown_variant');
+                }
+                if (variant.variant_id === line.variant_id) return cart;
+
+                // Keep the quantity, re-snapshot title and price; merge if the new variant is already in the cart
+                const existing = cart.items.find(l => l.variant_id === variant.variant_id);
+                if (existing) {
+                    const quantity = existing.quantity + line.quantity;
+                    validateQuantity(quantity);
+                    return {
+                        ...cart,
+                        items: cart.items
+                            .filter(l => l !== line)
+                            .map(l => l === existing ? { ...l, quantity } : l)
+                    };
+                }
+                return {
+                    ...cart,
+                    items: cart.items.map(l => l === line ? { ...variant, quantity: line.quantity, added_at: line.added_at } : l)
+                };
+            });
+        },
+
+        addBundle(sessionId, bundle) {
+            return mutate(sessionId, async (cart) => {
+                if (bundle.items.length === 0) throw new CartError(`Bundle ${bundle.bundle_id} is empty`, 'unknown_variant');
+
+                // Resolve everything first so a bad item leaves the cart untouched
+                const variants = await Promise.all(bundle.items.map(item => resolveVariant(item.variant_id, item.product_id)));
+                const missing = bundle.items.filter((_, i) => !variants[i]);
+                if (missing.length > 0) {
+                    throw new CartError(`Unknown variant(s) in bundle: ${missing.map(i => i.variant_id || i.product_id).join(', ')}`, 'unknown_variant');
+                }
+
+                let items = cart.items;
+                for (const variant of variants as ResolvedVariant[]) {
+                    const existing = items.find(l => l.variant_id === variant.variant_id);
+                    if (existing) {
+                        validateQuantity(existing.quantity + 1);
+                        items = items.map(l => l === existing ? { ...l, quantity: l.quantity + 1 } : l);
+                    } else {
+                        items = [...items, { ...variant, quantity: 1, added_at: new Date().toISOString() }];
+                    }
+                }
+
+                const added: CartBundle = {
+                    bundle_id: bundle.bundle_id,
+                    title: bundle.title,
+                    variant_ids: [...new Set((variants as ResolvedVariant[]).map(v => v.variant_id))],
+                    discount_percent: bundle.discount_percent,
+                    added_at: new Date().toISOString()
+                };
+                const bundles = [...(cart.bundles || []).filter(b => b.bundle_id !== bundle.bundle_id), added];
+                return { ...cart, items, bundles };
+            });
+        },
+
+        clear(sessionId) {
+            return mutate(sessionId, (cart) => ({ ...cart, items: [], bundles: [] }));
+        }
+    };
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let activeStore: CartStore | null = null;
+let activeService: CartService | null = null;
+
+/**
+ * Get the configured store (CART_STORE=memory|supabase, defaults to SESSION_STORE)
+ */
+export function getCartStore(): CartStore {
+    if (!activeStore) {
+        const backend = process.env.CART_STORE || process.env.SESSION_STORE;
+        activeStore = backend === 'memory' ? createInMemoryCartStore() : createSupabaseCartStore();
+    }
+    return activeStore;
+}
+
+export function getCartService(): CartService {
+    if (!activeService) {
+        activeService = createCartService();
+    }
+    return activeService;
+}
+
+/**
+ * Override the active service (tests, offline runs)
+ */
+export function setCartService(service: CartService | null): void {
+    activeService = service;
+}
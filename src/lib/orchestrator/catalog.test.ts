@@ -0,0 +1,131 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInMemoryCatalogRepository, setCatalogRepository } from './catalogRepository';
+import {
+    DEFAULT_VARIANT_TITLE,
+    findCatalogProductByVariant,
+    findVariant,
+    getCatalogProduct,
+    getCatalogProducts,
+    getScoredProducts,
+    getVariantDisplayTitle,
+    selectVariant,
+    toCatalogProduct,
+    toProductListing
+} from './catalog';
+
+const camera = toCatalogProduct({
+    id: 'p1',
+    title: 'Sony ZV-1F',
+    product_type: 'Camera',
+    tags: 'vlogging, compact ,',
+    body_html: '<p>Made for <b>vlogging</b></p>\n<p>Flip screen</p>',
+    variants: [
+        { id: 11, title: 'Black', price: '45000.00' },
+        { variant_id: 12, title: 'White', price: 38000 },
+        { id: 13, title: 'Bundle', price: 'N/A' },
+        { title: 'No id', price: '1.00' }
+    ],
+    images: [{ src: 'https://cdn.example/zv1f.jpg' }, { src: 'https://cdn.example/back.jpg' }]
+});
+
+describe('toCatalogProduct', () => {
+    it('normalizes tags, description, image and variants', () => {
+        assert.equal(camera.product_id, 'p1');
+        assert.deepEqual(camera.tags, ['vlogging', 'compact']);
+        assert.equal(camera.description, 'Made for vlogging Flip screen');
+        assert.equal(camera.image_url, 'https://cdn.example/zv1f.jpg');
+        assert.deepEqual(camera.variants, [
+            { variant_id: '11', title: 'Black', price: '45000.00', price_value: 45000 },
+            { variant_id: '12', title: 'White', price: '38000', price_value: 38000 },
+            { variant_id: '13', title: 'Bundle', price: 'N/A', price_value: null }
+        ]);
+    });
+
+    it('fills defaults for sparse rows', () => {
+        const product = toCatalogProduct({ id: 'p2', title: 'Tripod', tags: ['travel'], variants: [{ id: 21 }] });
+        assert.equal(product.description, '');
+        assert.equal(product.image_url, '');
+        assert.deepEqual(product.tags, ['travel']);
+        assert.deepEqual(product.variants, [{ variant_id: '21', title: DEFAULT_VARIANT_TITLE, price: '', price_value: null }]);
+    });
+});
+
+describe('selectVariant', () => {
+    it('uses the first variant without a budget', () => {
+        assert.equal(selectVariant(camera)?.variant_id, '11');
+    });
+
+    it('picks the first variant within the budget', () => {
+        assert.equal(selectVariant(camera, { max: 40000, currency: 'INR' })?.variant_id, '12');
+    });
+
+    it('falls back to the variant closest to the budget', () => {
+        assert.equal(selectVariant(camera, { max: 30000, currency: 'INR' })?.variant_id, '12');
+        assert.equal(selectVariant(camera, { min: 50000, currency: 'INR' })?.variant_id, '11');
+    });
+
+    it('ignores budgets in another currency', () => {
+        assert.equal(selectVariant(camera, { max: 500, currency: 'USD' })?.variant_id, '11');
+    });
+});
+
+describe('variant helpers', () => {
+    it('finds variants by id', () => {
+        assert.equal(findVariant(camera, '12')?.title, 'White');
+        assert.equal(findVariant(camera, '99'), undefined);
+    });
+
+    it('titles option variants and leaves default ones alone', () => {
+        assert.equal(getVariantDisplayTitle(camera, camera.variants[1]), 'Sony ZV-1F - White');
+        const single = toCatalogProduct({ id: 'p2', title: 'Tripod', variants: [{ id: 21, price: '999.00' }] });
+        assert.equal(getVariantDisplayTitle(single, single.variants[0]), 'Tripod');
+    });
+
+    it('flattens a product with its first or given variant', () => {
+        assert.deepEqual(toProductListing(camera), {
+            product_id: 'p1',
+            variant_id: '11',
+            title: 'Sony ZV-1F',
+            price: '45000.00',
+            image_url: 'https://cdn.example/zv1f.jpg'
+        });
+        assert.equal(toProductListing(camera, camera.variants[1]).price, '38000');
+        assert.equal(toProductListing({ ...camera, variants: [] }).price, 'N/A');
+    });
+});
+
+describe('catalog access', () => {
+    before(() => {
+        setCatalogRepository(createInMemoryCatalogRepository({
+            products_raw: [
+                { id: 'p1', title: 'Camera', variants: [{ id: 11, price: '100.00' }] },
+                { id: 'p2', title: 'Tripod', variants: [{ id: 21, price: '20.00' }] }
+            ],
+            product_intent_scores: [
+                { intent_id: 'vlogging', product_id: 'p2', fit_score: 0.9, score_breakdown: null },
+                { intent_id: 'vlogging', product_id: 'gone', fit_score: 0.8, score_breakdown: null },
+                { intent_id: 'vlogging', product_id: 'p1', fit_score: 0.5, score_breakdown: null }
+            ]
+        }));
+    });
+
+    after(() => setCatalogRepository(null));
+
+    it('returns products in the order requested, skipping unknown ids', async () => {
+        assert.deepEqual((await getCatalogProducts(['p2', 'missing', 'p1'])).map(p => p.title), ['Tripod', 'Camera']);
+        assert.deepEqual(await getCatalogProducts([]), []);
+        assert.equal((await getCatalogProduct('p1'))?.title, 'Camera');
+        assert.equal(await getCatalogProduct('missing'), null);
+    });
+
+    it('finds a product by one of its variants', async () => {
+        assert.equal((await findCatalogProductByVariant('21'))?.product_id, 'p2');
+        assert.equal(await findCatalogProductByVariant('99'), null);
+    });
+
+    it('joins scores to products best first and drops scores for unknown products', async () => {
+        const scored = await getScoredProducts({ intentId: 'vlogging' });
+        assert.deepEqual(scored.map(s => [s.product.product_id, s.score.fit_score]), [['p2', 0.9], ['p1', 0.5]]);
+    });
+});
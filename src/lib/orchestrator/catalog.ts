@@ -0,0 +1,162 @@
+/**
+ * Catalog
+ *
+ * The one place catalog rows become products. `products_raw` rows are
+ * Shopify-like (variants[] with id/variant_id and string prices, images[].src,
+ * tags as a string or array, HTML descriptions); every orchestrator module
+ * works with the normalized CatalogProduct instead and picks variants, prices
+ * and images through the helpers here.
+ */
+
+import type { BudgetConstraint } from '@/types/session';
+import { budgetAppliesToCatalog, budgetDistance, parsePrice } from './budget';
+import { getCatalogRepository, IntentScoreQuery, IntentScoreRow, RawProductRow } from './catalogRepository';
+
+export interface CatalogVariant {
+    variant_id: string;
+    title: string;              // Option name ("Black", "64GB"); "Default Title" for single-variant products
+    price: string;              // As stored, e.g. "37990.00"
+    price_value: number | null; // Parsed price, null when missing or unparseable
+}
+
+export interface CatalogProduct {
+    product_id: string;
+    title: string;
+    product_type: string;
+    tags: string[];
+    description: string;        // body_html without markup
+    image_url: string;          // First image, '' when there is none
+    variants: CatalogVariant[];
+}
+
+export interface ScoredCatalogProduct {
+    product: CatalogProduct;
+    score: IntentScoreRow;
+}
+
+// Flat product + variant shape shared by recommendations, add-ons and the cart
+export interface ProductListing {
+    product_id: string;
+    variant_id: string;
+    title: string;
+    price: string;
+    image_url: string;
+}
+
+export const DEFAULT_VARIANT_TITLE = 'Default Title';
+
+function toTags(tags: RawProductRow['tags']): string[] {
+    const list = Array.isArray(tags) ? tags : (tags || '').split(',');
+    return list.map(t => t.trim()).filter(Boolean);
+}
+
+/**
+ * Normalize a products_raw row
+ */
+export function toCatalogProduct(row: RawProductRow): CatalogProduct {
+    return {
+        product_id: String(row.id),
+        title: row.title || '',
+        product_type: row.product_type || '',
+        tags: toTags(row.tags),
+        description: (row.body_html || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim(),
+        image_url: row.images?.[0]?.src || '',
+        variants: (row.variants || [])
+            .filter(v => (v.id ?? v.variant_id) !== undefined)
+            .map(v => ({
+                variant_id: String(v.id ?? v.variant_id),
+                title: v.title || DEFAULT_VARIANT_TITLE,
+                price: v.price === undefined || v.price === null ? '' : String(v.price),
+                price_value: parsePrice(v.price)
+            }))
+    };
+}
+
+/**
+ * Pick the variant to show: the first that fits the budget, otherwise the one
+ * closest to it. Without a budget the first variant is used.
+ */
+export function selectVariant(product: CatalogProduct, budget?: BudgetConstraint): CatalogVariant | undefined {
+    const { variants } = product;
+    if (!budgetAppliesToCatalog(budget) || variants.length === 0) return variants[0];
+
+    let best: CatalogVariant | undefined;
+    let bestDistance = Infinity;
+    for (const variant of variants) {
+        if (variant.price_value === null) continue;
+        const distance = budgetDistance(variant.price_value, budget);
+        if (distance === 0) return variant;
+        if (distance < bestDistance) {
+            best = variant;
+            bestDistance = distance;
+        }
+    }
+    return best || variants[0];
+}
+
+export function findVariant(product: CatalogProduct, variantId: string): CatalogVariant | undefined {
+    return product.variants.find(v => v.variant_id === String(variantId));
+}
+
+/**
+ * Display title for a variant: "Sony ZV-1F - White", or just the product title
+ */
+export function getVariantDisplayTitle(product: CatalogProduct, variant: CatalogVariant): string {
+    return variant.title && variant.title !== DEFAULT_VARIANT_TITLE ? `${product.title} - ${variant.title}` : product.title;
+}
+
+/**
+ * Flatten a product and one of its variants (the first one by default)
+ */
+export function toProductListing(product: CatalogProduct, variant: CatalogVariant | undefined = product.variants[0]): ProductListing {
+    return {
+        product_id: product.product_id,
+        variant_id: variant?.variant_id || '',
+        title: product.title,
+        price: variant?.price || 'N/A',
+        image_url: product.image_url
+    };
+}
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+/**
+ * Products by id, in the order requested (unknown ids are skipped)
+ */
+export async function getCatalogProducts(productIds: string[]): Promise<CatalogProduct[]> {
+    const ids = productIds.map(String);
+    if (ids.length === 0) return [];
+    const rows = await getCatalogRepository().getProducts(ids);
+    const byId = new Map(rows.map(row => [String(row.id), toCatalogProduct(row)]));
+    return ids.map(id => byId.get(id)).filter((p): p is CatalogProduct => !!p);
+}
+
+export async function getCatalogProduct(productId: string): Promise<CatalogProduct | null> {
+    return (await getCatalogProducts([productId]))[0] || null;
+}
+
+export async function findCatalogProductByVariant(variantId: string): Promise<CatalogProduct | null> {
+    const row = await getCatalogRepository().findProductByVariant(String(variantId));
+    return row ? toCatalogProduct(row) : null;
+}
+
+/**
+ * Best-scoring products for a score query (product_intent_scores joined to
+ * products_raw), best first. Scores whose product is missing are skipped.
+ */
+export async function getScoredProducts(query: IntentScoreQuery): Promise<ScoredCatalogProduct[]> {
+    const scores = await getCatalogRepository().listIntentScores(query);
+    const products = await getCatalogProducts(scores.map(s => s.product_id));
+    const byId = new Map(products.map(p => [p.product_id, p]));
+
+    return scores.flatMap(score => {
+        const product = byId.get(String(score.product_id));
+        if (!product) {
+            console.warn(`⚠️ Score for unknown product ${score.product_id} (intent ${score.intent_id})`);
+            return [];
+        }
+        return [{ product, score }];
+    });
+}
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInMemoryCatalogRepository, getVariantId } from './catalogRepository';
+
+const tables = {
+    intents: [
+        { intent_id: 'vlogging', name: 'Vlogging' },
+        { intent_id: 'weapons', name: 'Weapons', safety_level: 'blocked' }
+    ],
+    products_raw: [
+        { id: 'p1', title: 'Camera', variants: [{ id: 11, title: 'Black', price: '100.00' }, { id: 12, title: 'White', price: '110.00' }] },
+        { id: 'p2', title: 'Tripod', variants: [{ variant_id: 21, price: 20 }] },
+        { id: 'p3', title: 'Mic', variants: [{ id: 31, price: '30.00' }] }
+    ],
+    product_intent_scores: [
+        { intent_id: 'vlogging', product_id: 'p2', fit_score: 0.4, score_breakdown: null },
+        { intent_id: 'vlogging', product_id: 'p1', fit_score: 0.9, score_breakdown: null },
+        { intent_id: 'vlogging', product_id: 'p3', fit_score: null, score_breakdown: null },
+        { intent_id: 'travel', product_id: 'p1', fit_score: 0.7, score_breakdown: null }
+    ],
+    product_capabilities: [
+        { product_id: 'p1', capability_key: 'low_light', value: 0.8 },
+        { product_id: 'p1', capability_key: 'portability', value: 0.6 },
+        { product_id: 'p2', capability_key: 'portability', value: 0.9 }
+    ],
+    product_compatibility: [
+        { product_id: 'p1', accessory_id: 'p2', relation: 'mount' },
+        { product_id: 'p1', accessory_id: 'p3', relation: 'audio', strength: 0.5 }
+    ]
+};
+
+describe('getVariantId', () => {
+    it('reads id or variant_id as a string', () => {
+        assert.equal(getVariantId({ id: 11 }), '11');
+        assert.equal(getVariantId({ variant_id: 'v-2' }), 'v-2');
+        assert.equal(getVariantId({ title: 'No id' }), undefined);
+    });
+});
+
+describe('createInMemoryCatalogRepository', () => {
+    it('lists intents, optionally without blocked ones', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        assert.deepEqual((await repository.listIntents()).map(i => i.intent_id), ['vlogging', 'weapons']);
+        assert.deepEqual((await repository.listIntents({ excludeBlocked: true })).map(i => i.intent_id), ['vlogging']);
+    });
+
+    it('orders intent scores best first, missing scores last, and pages them', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        const all = await repository.listIntentScores({ intentId: 'vlogging' });
+        assert.deepEqual(all.map(s => s.product_id), ['p1', 'p2', 'p3']);
+
+        const page = await repository.listIntentScores({ intentId: 'vlogging', offset: 1, limit: 1 });
+        assert.deepEqual(page.map(s => s.product_id), ['p2']);
+    });
+
+    it('filters intent scores by product', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        assert.deepEqual((await repository.listIntentScores({ productIds: ['p1'] })).map(s => s.intent_id), ['vlogging', 'travel']);
+        assert.deepEqual((await repository.listIntentScores({ intentId: 'vlogging', excludeProductIds: ['p1'] })).map(s => s.product_id), ['p2', 'p3']);
+    });
+
+    it('gets products by id and skips unknown ids', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        const products = await repository.getProducts(['p3', 'missing', 'p1']);
+        assert.deepEqual(products.map(p => p.id).sort(), ['p1', 'p3']);
+    });
+
+    it('finds the product owning a variant', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        assert.equal((await repository.findProductByVariant('12'))?.id, 'p1');
+        assert.equal((await repository.findProductByVariant('21'))?.id, 'p2');
+        assert.equal(await repository.findProductByVariant('99'), null);
+    });
+
+    it('filters capabilities by product and key', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        const rows = await repository.listCapabilities({ productIds: ['p1'], capabilityKeys: ['portability'] });
+        assert.deepEqual(rows, [{ product_id: 'p1', capability_key: 'portability', value: 0.6 }]);
+    });
+
+    it('filters compatibility edges by product and accessory', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        assert.equal((await repository.listCompatibility({ productIds: ['p1'] })).length, 2);
+        assert.deepEqual((await repository.listCompatibility({ accessoryIds: ['p3'] })).map(c => c.relation), ['audio']);
+    });
+
+    it('returns copies, so callers cannot change the tables', async () => {
+        const repository = createInMemoryCatalogRepository(tables);
+        const [product] = await repository.getProducts(['p1']);
+        product.title = 'Changed';
+        assert.equal((await repository.getProducts(['p1']))[0].title, 'Camera');
+    });
+
+    it('loads lazily and fills in missing tables', async () => {
+        let loads = 0;
+        const repository = createInMemoryCatalogRepository(() => {
+            loads++;
+            return { intents: tables.intents };
+        });
+        assert.equal(loads, 0);
+        assert.deepEqual(await repository.getProducts(['p1']), []);
+        await repository.listIntents();
+        assert.equal(loads, 1);
+    });
+});
@@ -0,0 +1,296 @@
+/**
+ * Catalog Repository
+ *
+ * Read access to the catalog tables used by the orchestrator: `intents`,
+ * `products_raw`, `product_intent_scores`, `product_capabilities` and
+ * `product_compatibility`.
+ * Every catalog read goes through this interface so the app can run against
+ * a live Supabase project or entirely offline.
+ *
+ * Backends (CATALOG_STORE):
+ * - memory:   tables loaded from a JSON fixture file (CATALOG_FIXTURES_PATH,
+ *             default fixtures/catalog.json) — tests, evaluation, local dev
+ * - supabase: the live tables (production, default)
+ *
+ * Fixture file shape: { "intents": [...], "products_raw": [...],
+ * "product_intent_scores": [...], "product_capabilities": [...],
+ * "product_compatibility": [...] }, one array of rows per table, rows as
+ * Supabase returns them.
+ *
+ * Expected Supabase table for accessory compatibility (see compatibility.ts):
+ *   create table product_compatibility (
+ *     product_id text not null,
+ *     accessory_id text not null,
+ *     relation text not null,
+ *     strength real,
+ *     note text,
+ *     primary key (product_id, accessory_id, relation)
+ *   );
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { supabase } from '@/lib/supabase';
+
+export interface IntentRow {
+    intent_id: string;
+    name: string;
+    description?: string | null;
+    safety_level?: string | null; // 'blocked' intents are hidden from semantic matching
+}
+
+// products_raw variant / product (Shopify-like)
+export interface RawVariant {
+    id?: string | number;
+    variant_id?: string | number;
+    title?: string;
+    price?: string | number;
+}
+
+export interface RawProductRow {
+    id: string;
+    title: string;
+    product_type?: string;
+    tags?: string | string[];
+    body_html?: string;
+    variants?: RawVariant[];
+    images?: Array<{ src: string }>;
+}
+
+export interface IntentScoreRow {
+    intent_id: string;
+    product_id: string;
+    fit_score: number | null;
+    score_breakdown: Record<string, unknown> | null;
+}
+
+export interface CapabilityRow {
+    product_id: string;
+    capability_key: string;
+    value: number | null;
+}
+
+// product -> accessory edge; relation is one of COMPATIBILITY_RELATIONS
+export interface CompatibilityRow {
+    product_id: string;
+    accessory_id: string;
+    relation: string;
+    strength?: number | null;   // 0–1, how strong a pairing it is (1 when missing)
+    note?: string | null;       // Shown as the add-on reason when present
+}
+
+export interface IntentScoreQuery {
+    intentId?: string;             // All intents when omitted
+    productIds?: string[];
+    excludeProductIds?: string[];
+    offset?: number;
+    limit?: number;
+}
+
+export interface CapabilityQuery {
+    productIds?: string[];
+    capabilityKeys?: string[];
+}
+
+export interface CompatibilityQuery {
+    productIds?: string[];
+    accessoryIds?: string[];
+}
+
+export interface CatalogRepository {
+    listIntents(options?: { excludeBlocked?: boolean }): Promise<IntentRow[]>;
+    /** Scores ordered by fit_score, best first */
+    listIntentScores(query?: IntentScoreQuery): Promise<IntentScoreRow[]>;
+    /** Products by id (missing ids are skipped, order not guaranteed) */
+    getProducts(ids: string[]): Promise<RawProductRow[]>;
+    /** The product that owns a variant id, or null */
+    findProductByVariant(variantId: string): Promise<RawProductRow | null>;
+    listCapabilities(query: CapabilityQuery): Promise<CapabilityRow[]>;
+    /** Accessory edges for the given products (and/or accessories) */
+    listCompatibility(query: CompatibilityQuery): Promise<CompatibilityRow[]>;
+}
+
+export interface CatalogTables {
+    intents: IntentRow[];
+    products_raw: RawProductRow[];
+    product_intent_scores: IntentScoreRow[];
+    product_capabilities: CapabilityRow[];
+    product_compatibility: CompatibilityRow[];
+}
+
+// Variants store their id as `id` (Shopify) or `variant_id`
+export function getVariantId(variant: RawVariant): string | undefined {
+    const id = variant.id ?? variant.variant_id;
+    return id === undefined ? undefined : String(id);
+}
+
+// ============================================================================
+// IN-MEMORY REPOSITORY
+// ============================================================================
+
+function byFitScore(a: IntentScoreRow, b: IntentScoreRow): number {
+    return (b.fit_score ?? -Infinity) - (a.fit_score ?? -Infinity);
+}
+
+export function createInMemoryCatalogRepository(loadTables: Partial<CatalogTables> | (() => Partial<CatalogTables>)): CatalogRepository {
+    let tables: CatalogTables | null = null;
+
+    function getTables(): CatalogTables {
+        if (!tables) {
+            const loaded = typeof loadTables === 'function' ? loadTables() : loadTables;
+            tables = {
+                intents: loaded.intents || [],
+                products_raw: loaded.products_raw || [],
+                product_intent_scores: loaded.product_intent_scores || [],
+                product_capabilities: loaded.product_capabilities || [],
+                product_compatibility: loaded.product_compatibility || []
+            };
+        }
+        return tables;
+    }
+
+    return {
+        async listIntents(options = {}) {
+            return structuredClone(getTables().intents.filter(i => !options.excludeBlocked || i.safety_level !== 'blocked'));
+        },
+
+        async listIntentScores(query = {}) {
+            const offset = query.offset || 0;
+            const rows = getTables().product_intent_scores
+                .filter(s => query.intentId === undefined || s.intent_id === query.intentId)
+                .filter(s => !query.productIds || query.productIds.includes(String(s.product_id)))
+                .filter(s => !query.excludeProductIds?.includes(String(s.product_id)))
+                .sort(byFitScore)
+                .slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+            return structuredClone(rows);
+        },
+
+        async getProducts(ids) {
+            const wanted = new Set(ids.map(String));
+            return structuredClone(getTables().products_raw.filter(p => wanted.has(String(p.id))));
+        },
+
+        async findProductByVariant(variantId) {
+            const product = getTables().products_raw.find(p => (p.variants || []).some(v => getVariantId(v) === String(variantId)));
+            return product ? structuredClone(product) : null;
+        },
+
+        async listCapabilities(query) {
+            return structuredClone(getTables().product_capabilities.filter(c =>
+                (!query.productIds || query.productIds.includes(String(c.product_id)))
+                && (!query.capabilityKeys || query.capabilityKeys.includes(c.capability_key))));
+        },
+
+        async listCompatibility(query) {
+            return structuredClone(getTables().product_compatibility.filter(c =>
+                (!query.productIds || query.productIds.includes(String(c.product_id)))
+                && (!query.accessoryIds || query.accessoryIds.includes(String(c.accessory_id)))));
+        }
+    };
+}
+
+/**
+ * In-memory repository seeded from a JSON fixture file, resolved from the project root
+ */
+export function createInMemoryCatalogRepositoryFromFile(filePath: string): CatalogRepository {
+    return createInMemoryCatalogRepository(() => {
+        const resolved = path.resolve(process.cwd(), filePath);
+        return JSON.parse(fs.readFileSync(resolved, 'utf8')) as Partial<CatalogTables>;
+    });
+}
+
+// ============================================================================
+// SUPABASE REPOSITORY
+// ============================================================================
+
+export function createSupabaseCatalogRepository(): CatalogRepository {
+    return {
+        async listIntents(options = {}) {
+            let query = supabase.from('intents').select('intent_id, name, description, safety_level');
+            if (options.excludeBlocked) query = query.neq('safety_level', 'blocked');
+            const { data, error } = await query;
+            if (error) throw new Error(`Failed to load intents: ${error.message}`);
+            return (data || []) as IntentRow[];
+        },
+
+        async listIntentScores(query = {}) {
+            let request = supabase
+                .from('product_intent_scores')
+                .select('intent_id, product_id, fit_score, score_breakdown');
+            if (query.intentId !== undefined) request = request.eq('intent_id', query.intentId);
+            if (query.productIds) request = request.in('product_id', query.productIds);
+            if (query.excludeProductIds?.length) request = request.not('product_id', 'in', `(${query.excludeProductIds.join(',')})`);
+            request = request.order('fit_score', { ascending: false, nullsFirst: false });
+            if (query.limit !== undefined) {
+                const offset = query.offset || 0;
+                request = request.range(offset, offset + query.limit - 1);
+            }
+
+            const { data, error } = await request;
+            if (error) throw new Error(`Failed to fetch product scores: ${error.message}`);
+            return (data || []) as IntentScoreRow[];
+        },
+
+        async getProducts(ids) {
+            if (ids.length === 0) return [];
+            const { data, error } = await supabase.from('products_raw').select('*').in('id', ids);
+            if (error) throw new Error(`Failed to fetch product details: ${error.message}`);
+            return (data || []) as RawProductRow[];
+        },
+
+        async findProductByVariant(variantId) {
+            const idValue = /^\d+$/.test(variantId) ? Number(variantId) : variantId;
+            const { data, error } = await supabase
+                .from('products_raw')
+                .select('*')
+                .filter('variants', 'cs', JSON.stringify([{ id: idValue }]))
+                .limit(1)
+                .maybeSingle();
+            if (error) throw new Error(`Failed to look up variant: ${error.message}`);
+            return data ? (data as RawProductRow) : null;
+        },
+
+        async listCapabilities(query) {
+            let request = supabase.from('product_capabilities').select('product_id, capability_key, value');
+            if (query.productIds) request = request.in('product_id', query.productIds);
+            if (query.capabilityKeys) request = request.in('capability_key', query.capabilityKeys);
+            const { data, error } = await request;
+            if (error) throw new Error(`Failed to fetch capabilities: ${error.message}`);
+            return (data || []) as CapabilityRow[];
+        },
+
+        async listCompatibility(query) {
+            let request = supabase.from('product_compatibility').select('product_id, accessory_id, relation, strength, note');
+            if (query.productIds) request = request.in('product_id', query.productIds);
+            if (query.accessoryIds) request = request.in('accessory_id', query.accessoryIds);
+            const { data, error } = await request;
+            if (error) throw new Error(`Failed to fetch compatibility: ${error.message}`);
+            return (data || []) as CompatibilityRow[];
+        }
+    };
+}
+
+// ============================================================================
+// REPOSITORY SELECTION
+// ============================================================================
+
+let activeRepository: CatalogRepository | null = null;
+
+/**
+ * Get the configured repository (CATALOG_STORE=memory|supabase, default supabase)
+ */
+export function getCatalogRepository(): CatalogRepository {
+    if (!activeRepository) {
+        activeRepository = process.env.CATALOG_STORE === 'memory'
+            ? createInMemoryCatalogRepositoryFromFile(process.env.CATALOG_FIXTURES_PATH || 'fixtures/catalog.json')
+            : createSupabaseCatalogRepository();
+    }
+    return activeRepository;
+}
+
+/**
+ * Override the active repository (tests, offline runs)
+ */
+export function setCatalogRepository(repository: CatalogRepository | null): void {
+    activeRepository = repository;
+}
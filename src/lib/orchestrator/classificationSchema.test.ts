@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClassificationContext, validateClassification } from './classificationSchema';
+
+const CONTEXT: ClassificationContext = { intentIds: ['travel_vlogging', 'dashcam'], productCount: 3, cartItemCount: 2 };
+
+function classification(overrides: Record<string, unknown> = {}) {
+    return { intent_id: 'travel_vlogging', confidence: 0.9, missing_info: [], acknowledgement: 'Got it!', explanation: 'Matched.', ...overrides };
+}
+
+// Fields the validation flagged, or [] when it passed
+function issueFields(raw: unknown, context: ClassificationContext = CONTEXT): string[] {
+    const validation = validateClassification(raw, context);
+    return validation.ok ? [] : validation.issues.map(issue => issue.field);
+}
+
+describe('validateClassification', () => {
+    it('accepts a valid classification and clamps the confidence', () => {
+        const validation = validateClassification(classification({ confidence: '1.4', must_have_features: [' waterproof ', ''] }), CONTEXT);
+        assert.ok(validation.ok);
+        assert.equal(validation.value.confidence, 1);
+        assert.deepEqual(validation.value.must_have_features, ['waterproof']);
+    });
+
+    it('rejects unknown intents and non-objects', () => {
+        assert.deepEqual(issueFields(classification({ intent_id: 'drones' })), ['intent_id']);
+        assert.deepEqual(issueFields([]), ['$']);
+    });
+
+    it('keeps product and cart indexes within what the user has', () => {
+        assert.deepEqual(issueFields(classification({ cart_action: 'add', product_index: 2 })), []);
+        assert.deepEqual(issueFields(classification({ cart_action: 'add', product_index: 3 })), ['product_index']);
+        assert.deepEqual(issueFields(classification({ cart_action: 'remove', cart_item_index: 2 })), ['cart_item_index']);
+    });
+
+    it('rejects indexes when no products were shown or the cart is empty', () => {
+        const empty = { ...CONTEXT, productCount: 0, cartItemCount: 0 };
+        assert.deepEqual(issueFields(classification({ cart_action: 'add', product_index: 0 }), empty), ['product_index']);
+        assert.deepEqual(issueFields(classification({ cart_action: 'remove', cart_item_index: 0 }), empty), ['cart_item_index']);
+        assert.deepEqual(issueFields(classification({ compare_indices: [0, 1] }), empty), ['compare_indices']);
+    });
+
+    it('requires the details each cart action needs', () => {
+        assert.deepEqual(issueFields(classification({ cart_action: 'set_quantity', cart_item_index: 0 })), ['quantity']);
+        assert.deepEqual(issueFields(classification({ cart_action: 'swap_variant', cart_item_index: 0 })), ['variant_hint']);
+        assert.deepEqual(issueFields(classification({ compare_indices: [1, 1] })), ['compare_indices']);
+    });
+
+    it('checks the customer email and phone', () => {
+        assert.deepEqual(issueFields(classification({ customer_email: 'priya@', customer_phone: '12345' })), ['customer_email', 'customer_phone']);
+    });
+});
@@ -0,0 +1,335 @@
+/**
+ * Classification Schema
+ *
+ * Structured-output schema and runtime validation for the intent classifier.
+ * The LLM's JSON is never trusted as-is: intent must exist in the registry,
+ * confidence is clamped to 0–1, and cart actions must point at a real product
+ * or cart line.
+ */
+
+import type { JSONSchema } from '@/lib/llm';
+import { PAYMENT_METHOD_IDS, PaymentMethodId } from '@/lib/payments/methods';
+
+export const CART_ACTIONS = ['add', 'add_bundle', 'summary', 'place_order', 'remove', 'set_quantity', 'swap_variant', 'clear'] as const;
+export type CartActionType = typeof CART_ACTIONS[number];
+export const CART_EDIT_ACTIONS = ['remove', 'set_quantity', 'swap_variant', 'clear'] as const;
+export type CartEditAction = typeof CART_EDIT_ACTIONS[number];
+export const ORDER_QUERIES = ['status', 'history'] as const;
+export type OrderQuery = typeof ORDER_QUERIES[number];
+
+export interface GeminiResponse {
+    intent_id: string;
+    confidence: number;
+    confidence_level?: 'high' | 'medium' | 'low';  // New: Confidence assessment
+    missing_info: string[];
+    acknowledgement: string;      // New: User acknowledgement
+    clarifying_question?: string; // New: If low confidence
+    explanation: string;          // New: Reasoning for intent/question
+    cart_action?: CartActionType | null;   // New: Cart action detection
+    product_index?: number;       // New: Which product to add (0-based)
+    cart_item_index?: number;     // Cart line to edit (0-based) for remove/set_quantity/swap_variant
+    quantity?: number;            // Target quantity for set_quantity
+    variant_hint?: string;        // Requested variant for swap_variant ("black", "64GB")
+    compare_indices?: number[];   // Shown products to compare side by side (0-based, 2+)
+    bundle_request?: boolean;     // Wants a complete kit (product + accessories), optionally around product_index
+    payment_method?: PaymentMethodId; // How the user wants to pay (place_order)
+    order_query?: OrderQuery;     // "Where is my order?" (status) / "What did I buy last time?" (history)
+    customer_email?: string;      // Email the user gave (order lookups, returning customers)
+    customer_phone?: string;      // Phone number the user gave (order lookups, returning customers)
+    must_have_features?: string[]; // Non-negotiable features ("waterproof", "4K")
+    compatibility?: string[];     // Must work with ("iPhone", "Sony E-mount")
+    relaxed_constraints?: string[]; // Earlier must-haves / compatibility the user dropped ("doesn't need to be waterproof")
+    outcome_description?: string; // New: What user wants to achieve
+    ready_for_image_generation?: boolean; // New: High confidence + outcome clear
+}
+
+// Structured output schema for classifyIntent (mirrors GeminiResponse)
+export const CLASSIFICATION_SCHEMA: JSONSchema = {
+    type: 'object',
+    properties: {
+        intent_id: { type: 'string' },
+        confidence: { type: 'number' },
+        missing_info: { type: 'array', items: { type: 'string' } },
+        acknowledgement: { type: 'string' },
+        clarifying_question: { type: 'string' },
+        explanation: { type: 'string' },
+        outcome_description: { type: 'string' },
+        ready_for_image_generation: { type: 'boolean' },
+        cart_action: { type: 'string', enum: [...CART_ACTIONS], nullable: true },
+        product_index: { type: 'integer', nullable: true },
+        cart_item_index: { type: 'integer', nullable: true },
+        quantity: { type: 'integer', nullable: true },
+        variant_hint: { type: 'string', nullable: true },
+        compare_indices: { type: 'array', items: { type: 'integer' }, nullable: true },
+        bundle_request: { type: 'boolean', nullable: true },
+        payment_method: { type: 'string', enum: [...PAYMENT_METHOD_IDS], nullable: true },
+        order_query: { type: 'string', enum: [...ORDER_QUERIES], nullable: true },
+        customer_email: { type: 'string', nullable: true },
+        customer_phone: { type: 'string', nullable: true },
+        must_have_features: { type: 'array', items: { type: 'string' }, nullable: true },
+        compatibility: { type: 'array', items: { type: 'string' }, nullable: true },
+        relaxed_constraints: { type: 'array', items: { type: 'string' }, nullable: true }
+    },
+    required: ['intent_id', 'confidence', 'missing_info', 'acknowledgement', 'explanation']
+};
+
+export interface ClassificationIssue {
+    field: string;
+    message: string;
+}
+
+export interface ClassificationContext {
+    intentIds: string[];   // Allowed intent_ids (from loadIntents)
+    productCount: number;  // Length of last_products shown to the user
+    cartItemCount: number; // Lines in the session's cart
+}
+
+export type ClassificationValidation =
+    | { ok: true; value: GeminiResponse }
+    | { ok: false; issues: ClassificationIssue[] };
+
+/**
+ * Thrown when the classifier output is still invalid after the repair retry
+ */
+export class ClassificationValidationError extends Error {
+    constructor(public readonly issues: ClassificationIssue[]) {
+        super(`Intent classification failed validation: ${issues.map(i => `${i.field} ${i.message}`).join('; ')}`);
+        this.name = 'ClassificationValidationError';
+    }
+}
+
+function optionalString(
+    raw: Record<string, unknown>,
+    field: string,
+    issues: ClassificationIssue[]
+): string | undefined {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string') {
+        issues.push({ field, message: 'must be a string' });
+        return undefined;
+    }
+    return value;
+}
+
+function optionalBoolean(
+    raw: Record<string, unknown>,
+    field: string,
+    issues: ClassificationIssue[]
+): boolean | undefined {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'boolean') {
+        issues.push({ field, message: 'must be a boolean' });
+        return undefined;
+    }
+    return value;
+}
+
+function optionalStringArray(
+    raw: Record<string, unknown>,
+    field: string,
+    issues: ClassificationIssue[]
+): string[] | undefined {
+    const value = raw[field];
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+        issues.push({ field, message: 'must be an array of strings' });
+        return undefined;
+    }
+    const cleaned = (value as string[]).map(v => v.trim()).filter(Boolean);
+    return cleaned.length > 0 ? cleaned : undefined;
+}
+
+/**
+ * Validate and normalize raw classifier JSON
+ */
+export function validateClassification(raw: unknown, context: ClassificationContext): ClassificationValidation {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { ok: false, issues: [{ field: '$', message: 'must be a JSON object' }] };
+    }
+
+    const data = raw as Record<string, unknown>;
+    const issues: ClassificationIssue[] = [];
+
+    // intent_id: must be one of the registered intents
+    const intentId = data.intent_id;
+    if (typeof intentId !== 'string' || intentId.trim() === '') {
+        issues.push({ field: 'intent_id', message: 'is required' });
+    } else if (!context.intentIds.includes(intentId)) {
+        issues.push({ field: 'intent_id', message: `"${intentId}" is not an allowed intent (${context.intentIds.join(', ')})` });
+    }
+
+    // confidence: numeric (numeric strings tolerated), clamped to 0–1
+    const rawConfidence = typeof data.confidence === 'string' ? parseFloat(data.confidence) : data.confidence;
+    let confidence = 0;
+    if (typeof rawConfidence !== 'number' || !Number.isFinite(rawConfidence)) {
+        issues.push({ field: 'confidence', message: 'must be a number between 0 and 1' });
+    } else {
+        confidence = Math.min(1, Math.max(0, rawConfidence));
+    }
+
+    // missing_info: array of strings
+    let missingInfo: string[] = [];
+    if (data.missing_info !== undefined && data.missing_info !== null) {
+        if (!Array.isArray(data.missing_info) || data.missing_info.some(m => typeof m !== 'string')) {
+            issues.push({ field: 'missing_info', message: 'must be an array of strings' });
+        } else {
+            missingInfo = data.missing_info as string[];
+        }
+    }
+
+    const acknowledgement = optionalString(data, 'acknowledgement', issues) || '';
+    const explanation = optionalString(data, 'explanation', issues) || '';
+    const clarifyingQuestion = optionalString(data, 'clarifying_question', issues);
+    const outcomeDescription = optionalString(data, 'outcome_description', issues);
+
+    const readyForImages = optionalBoolean(data, 'ready_for_image_generation', issues);
+    const bundleRequest = optionalBoolean(data, 'bundle_request', issues);
+
+    // cart_action: one of the supported actions, or null
+    let cartAction: CartActionType | null = null;
+    if (data.cart_action !== undefined && data.cart_action !== null) {
+        if (!CART_ACTIONS.includes(data.cart_action as CartActionType)) {
+            issues.push({ field: 'cart_action', message: `must be one of ${CART_ACTIONS.join(', ')} or null` });
+        } else {
+            cartAction = data.cart_action as CartActionType;
+        }
+    }
+
+    // product_index: integer within the products the user has seen
+    let productIndex: number | undefined;
+    if (data.product_index !== undefined && data.product_index !== null) {
+        if (typeof data.product_index !== 'number' || !Number.isInteger(data.product_index)) {
+            issues.push({ field: 'product_index', message: 'must be an integer' });
+        } else if (data.product_index < 0 || data.product_index >= context.productCount) {
+            issues.push({ field: 'product_index', message: context.productCount > 0 ? `must be between 0 and ${context.productCount - 1}` : 'requires products to have been shown' });
+        } else {
+            productIndex = data.product_index;
+        }
+    }
+
+    // cart_item_index: integer within the session's cart lines
+    let cartItemIndex: number | undefined;
+    if (data.cart_item_index !== undefined && data.cart_item_index !== null) {
+        if (typeof data.cart_item_index !== 'number' || !Number.isInteger(data.cart_item_index)) {
+            issues.push({ field: 'cart_item_index', message: 'must be an integer' });
+        } else if (data.cart_item_index < 0 || data.cart_item_index >= context.cartItemCount) {
+            issues.push({ field: 'cart_item_index', message: context.cartItemCount > 0 ? `must be between 0 and ${context.cartItemCount - 1}` : 'requires items in the cart' });
+        } else {
+            cartItemIndex = data.cart_item_index;
+        }
+    }
+
+    // quantity: required for set_quantity, 0 removes the line (upper bound is enforced by the cart)
+    let quantity: number | undefined;
+    if (data.quantity !== undefined && data.quantity !== null) {
+        if (typeof data.quantity !== 'number' || !Number.isInteger(data.quantity) || data.quantity < 0) {
+            issues.push({ field: 'quantity', message: 'must be a non-negative integer' });
+        } else {
+            quantity = data.quantity;
+        }
+    } else if (cartAction === 'set_quantity') {
+        issues.push({ field: 'quantity', message: 'is required when cart_action is "set_quantity"' });
+    }
+
+    const variantHint = optionalString(data, 'variant_hint', issues);
+    if (cartAction === 'swap_variant' && !variantHint?.trim()) {
+        issues.push({ field: 'variant_hint', message: 'is required when cart_action is "swap_variant"' });
+    }
+
+    // compare_indices: 2+ distinct products the user has seen
+    let compareIndices: number[] | undefined;
+    if (data.compare_indices !== undefined && data.compare_indices !== null) {
+        const indices = data.compare_indices;
+        if (!Array.isArray(indices) || indices.some(i => typeof i !== 'number' || !Number.isInteger(i))) {
+            issues.push({ field: 'compare_indices', message: 'must be an array of integers' });
+        } else if (indices.some(i => i < 0 || i >= context.productCount)) {
+            issues.push({ field: 'compare_indices', message: context.productCount > 0 ? `must be between 0 and ${context.productCount - 1}` : 'requires products to have been shown' });
+        } else if (new Set(indices).size < 2) {
+            issues.push({ field: 'compare_indices', message: 'must contain at least 2 distinct products' });
+        } else {
+            compareIndices = [...new Set(indices as number[])];
+        }
+    }
+
+    // payment_method: one of the registered payment methods
+    let paymentMethod: PaymentMethodId | undefined;
+    if (data.payment_method !== undefined && data.payment_method !== null) {
+        if (!PAYMENT_METHOD_IDS.includes(data.payment_method as PaymentMethodId)) {
+            issues.push({ field: 'payment_method', message: `must be one of ${PAYMENT_METHOD_IDS.join(', ')} or null` });
+        } else {
+            paymentMethod = data.payment_method as PaymentMethodId;
+        }
+    }
+
+    // order_query: status or history lookup
+    let orderQuery: OrderQuery | undefined;
+    if (data.order_query !== undefined && data.order_query !== null) {
+        if (!ORDER_QUERIES.includes(data.order_query as OrderQuery)) {
+            issues.push({ field: 'order_query', message: `must be one of ${ORDER_QUERIES.join(', ')} or null` });
+        } else {
+            orderQuery = data.order_query as OrderQuery;
+        }
+    }
+
+    const customerEmail = optionalString(data, 'customer_email', issues)?.trim();
+    if (customerEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(customerEmail)) {
+        issues.push({ field: 'customer_email', message: 'must be an email address' });
+    }
+    const customerPhone = optionalString(data, 'customer_phone', issues)?.trim();
+    if (customerPhone && customerPhone.replace(/\D/g, '').length < 10) {
+        issues.push({ field: 'customer_phone', message: 'must have at least 10 digits' });
+    }
+
+    const mustHaveFeatures = optionalStringArray(data, 'must_have_features', issues);
+    const compatibility = optionalStringArray(data, 'compatibility', issues);
+    const relaxedConstraints = optionalStringArray(data, 'relaxed_constraints', issues);
+
+    if (issues.length > 0) {
+        return { ok: false, issues };
+    }
+
+    return {
+        ok: true,
+        value: {
+            intent_id: intentId as string,
+            confidence,
+            missing_info: missingInfo,
+            acknowledgement,
+            explanation,
+            clarifying_question: clarifyingQuestion,
+            outcome_description: outcomeDescription,
+            ready_for_image_generation: readyForImages,
+            cart_action: cartAction,
+            product_index: productIndex,
+            cart_item_index: cartItemIndex,
+            quantity,
+            variant_hint: variantHint,
+            compare_indices: compareIndices,
+            bundle_request: bundleRequest,
+            payment_method: paymentMethod,
+            order_query: orderQuery,
+            customer_email: customerEmail || undefined,
+            customer_phone: customerPhone || undefined,
+            must_have_features: mustHaveFeatures,
+            compatibility,
+            relaxed_constraints: relaxedConstraints
+        }
+    };
+}
+
+/**
+ * Build the follow-up prompt used for the single repair retry
+ */
+export function buildRepairPrompt(originalPrompt: string, previousOutput: string, issues: ClassificationIssue[]): string {
+    return `${originalPrompt}
+
+YOUR PREVIOUS RESPONSE WAS INVALID:
+${previousOutput}
+
+Problems:
+${issues.map(i => `- ${i.field}: ${i.message}`).join('\n')}
+
+Return the corrected JSON object ONLY, fixing every problem above.`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Product Comparison
+ *
+ * Builds a side-by-side capability matrix for products the user has already
+ * seen (product_capabilities + score_breakdown from product_intent_scores),
+ * then asks the LLM for per-product verdicts via the tradeoff prompt.
+ */
+
+import type { RankedProduct } from '@/types/chat';
+import type { Persona } from './conversationState';
+import { generateTradeoffs } from './tradeoffGenerator';
+import { detectCapabilityScale } from './dynamicCapabilityMatcher';
+import { getCatalogRepository } from './catalogRepository';
+
+const MAX_ROWS = 8;
+const TIE_MARGIN = 0.05; // Normalized gap below which a row has no leader
+
+export interface CapabilityComparisonRow {
+    capability_key: string;
+    label: string;
+    values: Array<number | null>; // Normalized 0–1, aligned with `products`
+    leader_index: number | null;  // Index of the strongest product, null on a tie
+}
+
+export interface ComparedProduct extends RankedProduct {
+    fit_score?: number;
+    why_fits: string;
+    tradeoffs: string;
+    when_to_choose: string;
+}
+
+export interface ProductComparison {
+    products: ComparedProduct[];
+    capabilities: CapabilityComparisonRow[];
+    summary: string;
+}
+
+function toLabel(key: string): string {
+    const words = key.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Build the normalized capability matrix. Rows the user mentioned come first,
+ * then intent-relevant rows (present in score_breakdown), then the widest gaps.
+ */
+export async function buildCapabilityMatrix(
+    products: RankedProduct[],
+    intentId: string,
+    userMessage: string = ''
+): Promise<{ rows: CapabilityComparisonRow[]; fitScores: Array<number | undefined> }> {
+    const productIds = products.map(p => p.product_id);
+
+    const catalog = getCatalogRepository();
+    const [capabilities, scores] = await Promise.all([
+        catalog.listCapabilities({ productIds }),
+        catalog.listIntentScores({ intentId, productIds })
+    ]);
+
+    // raw[key][productIndex]
+    const raw = new Map<string, Array<number | null>>();
+    const cell = (key: string) => {
+        if (!raw.has(key)) raw.set(key, productIds.map(() => null));
+        return raw.get(key)!;
+    };
+
+    for (const row of capabilities) {
+        if (typeof row.value !== 'number') continue;
+        cell(row.capability_key)[productIds.indexOf(row.product_id)] = row.value;
+    }
+
+    // score_breakdown fills gaps and marks which capabilities drive this intent
+    const intentKeys = new Set<string>();
+    for (const score of scores) {
+        const index = productIds.indexOf(score.product_id);
+        for (const [key, value] of Object.entries(score.score_breakdown || {})) {
+            if (typeof value !== 'number') continue;
+            intentKeys.add(key);
+            const values = cell(key);
+            if (values[index] === null) values[index] = value;
+        }
+    }
+
+    const allValues = [...raw.values()].flat().filter((v): v is number => v !== null);
+    const scale = detectCapabilityScale(allValues);
+    const message = userMessage.toLowerCase();
+
+    const rows = [...raw.entries()]
+        .filter(([, values]) => values.filter(v => v !== null).length >= 2)
+        .map(([key, values]) => {
+            const normalized = values.map(v => v === null ? null : Math.round(Math.min(1, Math.max(0, v / scale)) * 100) / 100);
+            const present = normalized.filter((v): v is number => v !== null);
+            const best = Math.max(...present);
+            const spread = best - Math.min(...present);
+            const leaders = normalized.filter(v => v !== null && best - v < TIE_MARGIN);
+            return {
+                row: {
+                    capability_key: key,
+                    label: toLabel(key),
+                    values: normalized,
+                    leader_index: leaders.length === 1 ? normalized.indexOf(best) : null
+                },
+                mentioned: message.includes(key.replace(/_/g, ' ')),
+                relevant: intentKeys.has(key),
+                spread
+            };
+        })
+        .sort((a, b) =>
+            Number(b.mentioned) - Number(a.mentioned)
+            || Number(b.relevant) - Number(a.relevant)
+            || b.spread - a.spread)
+        .slice(0, MAX_ROWS)
+        .map(r => r.row);
+
+    const fitScores = productIds.map(id => {
+        const score = scores.find(s => s.product_id === id);
+        return typeof score?.fit_score === 'number' ? score.fit_score : undefined;
+    });
+
+    return { rows, fitScores };
+}
+
+/**
+ * One spoken-friendly line: who leads on what
+ */
+export function summarizeComparison(products: RankedProduct[], rows: CapabilityComparisonRow[]): string {
+    const leads = products.map((product, index) => ({
+        title: product.title,
+        labels: rows.filter(r => r.leader_index === index).map(r => r.label.toLowerCase())
+    })).filter(l => l.labels.length > 0);
+
+    if (leads.length === 0) {
+        return 'These are very evenly matched on the capabilities we track.';
+    }
+    return leads
+        .map(l => `${l.title} leads on ${l.labels.slice(0, 3).join(', ')}`)
+        .join('; ') + '.';
+}
+
+/**
+ * Compare products side by side with LLM-written verdicts
+ */
+export async function compareProducts(
+    products: RankedProduct[],
+    intentId: string,
+    persona: Persona,
+    userMessage: string
+): Promise<ProductComparison> {
+    const { rows, fitScores } = await buildCapabilityMatrix(products, intentId, userMessage);
+
+    const matrixText = rows
+        .map(r => `- ${r.label}: ${r.values.map((v, i) => `${products[i].title}=${v ?? 'n/a'}`).join(', ')}`)
+        .join('\n');
+    const verdicts = await generateTradeoffs(products, intentId, persona, userMessage, {
+        label: 'comparison_verdicts',
+        appendix: `The user asked to compare these products directly. Base the tradeoffs on this capability comparison (0–1, higher is better):
+${matrixText || '(no capability data available)'}`
+    });
+    return {
+        products: products.map((product, index) => ({
+            ...product,
+            fit_score: fitScores[index],
+            why_fits: verdicts[index].why_fits,
+            tradeoffs: verdicts[index].tradeoffs,
+            when_to_choose: verdicts[index].when_to_choose
+        })),
+        capabilities: rows,
+        summary: summarizeComparison(products, rows)
+    };
+}
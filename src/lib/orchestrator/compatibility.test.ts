@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CompatibilityImportError, describeRelation, isCompatibilityRelation, parseCompatibilityCsv } from './compatibility';
+
+describe('parseCompatibilityCsv', () => {
+    it('parses edges, quoted notes and optional strength', () => {
+        const csv = [
+            '# Exported from the merchandising sheet',
+            'Product_ID,accessory_id,relation,strength,note',
+            'p_gopro12,p_enduro,Battery,0.8,"Spare battery, for ""long"" shoots"',
+            '',
+            'p_gopro12,p_sd128,storage,,'
+        ].join('\r\n');
+
+        assert.deepEqual(parseCompatibilityCsv(csv), [
+            { product_id: 'p_gopro12', accessory_id: 'p_enduro', relation: 'battery', strength: 0.8, note: 'Spare battery, for "long" shoots' },
+            { product_id: 'p_gopro12', accessory_id: 'p_sd128', relation: 'storage', strength: null, note: null }
+        ]);
+    });
+
+    it('keeps the last of duplicate edges', () => {
+        const csv = 'product_id,accessory_id,relation,strength\np1,p2,mount,0.2\np1,p2,mount,0.9\n';
+        assert.deepEqual(parseCompatibilityCsv(csv).map(e => e.strength), [0.9]);
+    });
+
+    it('reports the line of invalid rows', () => {
+        const header = 'product_id,accessory_id,relation,strength\n';
+        assert.throws(() => parseCompatibilityCsv(header + 'p1,p2,teleport'), (e: CompatibilityImportError) => e.line === 2 && /Unknown relation/.test(e.message));
+        assert.throws(() => parseCompatibilityCsv(header + 'p1,p1,mount'), (e: CompatibilityImportError) => e.line === 2);
+        assert.throws(() => parseCompatibilityCsv(header + 'p1,p2,mount,1.5'), (e: CompatibilityImportError) => /strength/.test(e.message));
+        assert.throws(() => parseCompatibilityCsv(header + 'p1,"p2,mount'), (e: CompatibilityImportError) => /Unterminated/.test(e.message));
+    });
+
+    it('rejects empty files and missing columns', () => {
+        assert.throws(() => parseCompatibilityCsv('# nothing here\n'), /CSV is empty/);
+        assert.throws(() => parseCompatibilityCsv('product_id,relation\n'), /Missing column\(s\): accessory_id/);
+    });
+});
+
+describe('describeRelation', () => {
+    it('explains what the accessory does for the product', () => {
+        assert.equal(describeRelation('battery', 'GoPro HERO12 Black'), 'Extra battery life for your GoPro HERO12 Black');
+        assert.equal(describeRelation('unknown', 'GoPro HERO12 Black'), 'Completes your setup');
+        assert.ok(isCompatibilityRelation('audio'));
+        assert.ok(!isCompatibilityRelation('teleport'));
+    });
+});
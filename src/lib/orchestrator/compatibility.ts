@@ -0,0 +1,131 @@
+/**
+ * Accessory Compatibility
+ *
+ * Product → accessory edges (`product_compatibility`) with a relation type:
+ * what the accessory does for the product it fits. Edges are maintained as a
+ * CSV export from the merchandising sheet and imported with
+ * `npm run import:compatibility`.
+ *
+ * CSV columns (header row required, extra columns ignored):
+ *   product_id,accessory_id,relation,strength,note
+ *   p_gopro12,p_enduro,battery,1,"Spare Enduro battery for long shoots"
+ */
+
+import type { CompatibilityRow } from './catalogRepository';
+
+export const COMPATIBILITY_RELATIONS = ['mount', 'battery', 'storage', 'audio', 'power', 'lighting', 'protection'] as const;
+export type CompatibilityRelation = typeof COMPATIBILITY_RELATIONS[number];
+
+const REQUIRED_COLUMNS = ['product_id', 'accessory_id', 'relation'];
+
+export class CompatibilityImportError extends Error {
+    constructor(message: string, public readonly line?: number) {
+        super(line ? `Line ${line}: ${message}` : message);
+        this.name = 'CompatibilityImportError';
+    }
+}
+
+export function isCompatibilityRelation(value: string): value is CompatibilityRelation {
+    return (COMPATIBILITY_RELATIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Default add-on reason for a relation, e.g. "Extra battery life for your GoPro HERO12 Black"
+ */
+export function describeRelation(relation: string, productTitle: string): string {
+    switch (relation) {
+        case 'mount': return `Mounts your ${productTitle} for steadier, hands-free shots`;
+        case 'battery': return `Extra battery life for your ${productTitle}`;
+        case 'storage': return `Fast storage that keeps up with your ${productTitle}`;
+        case 'audio': return `Clearer audio than the ${productTitle}'s built-in mic`;
+        case 'power': return `Keeps your ${productTitle} powered`;
+        case 'lighting': return `Better lighting for your ${productTitle}`;
+        case 'protection': return `Protects your ${productTitle}`;
+        default: return 'Completes your setup';
+    }
+}
+
+// Split one CSV line, honouring double-quoted fields with "" escapes
+function splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) throw new Error('Unterminated quoted field');
+    fields.push(field);
+    return fields.map(f => f.trim());
+}
+
+/**
+ * Parse a compatibility CSV into edges. Blank lines and lines starting with #
+ * are skipped; duplicate (product, accessory, relation) edges keep the last one.
+ */
+export function parseCompatibilityCsv(text: string): CompatibilityRow[] {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const headerIndex = lines.findIndex(l => l.trim() && !l.trim().startsWith('#'));
+    if (headerIndex === -1) throw new CompatibilityImportError('CSV is empty');
+
+    const header = splitCsvLine(lines[headerIndex]).map(h => h.toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(c => !header.includes(c));
+    if (missing.length > 0) throw new CompatibilityImportError(`Missing column(s): ${missing.join(', ')}`, headerIndex + 1);
+    const column = (fields: string[], name: string) => {
+        const index = header.indexOf(name);
+        return index === -1 ? '' : fields[index] || '';
+    };
+
+    const edges = new Map<string, CompatibilityRow>();
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || line.trim().startsWith('#')) continue;
+
+        let fields: string[];
+        try {
+            fields = splitCsvLine(line);
+        } catch (error) {
+            throw new CompatibilityImportError((error as Error).message, i + 1);
+        }
+
+        const product_id = column(fields, 'product_id');
+        const accessory_id = column(fields, 'accessory_id');
+        const relation = column(fields, 'relation').toLowerCase();
+        if (!product_id || !accessory_id) throw new CompatibilityImportError('product_id and accessory_id are required', i + 1);
+        if (product_id === accessory_id) throw new CompatibilityImportError(`${product_id} cannot be its own accessory`, i + 1);
+        if (!isCompatibilityRelation(relation)) {
+            throw new CompatibilityImportError(`Unknown relation "${relation}" (expected ${COMPATIBILITY_RELATIONS.join(', ')})`, i + 1);
+        }
+
+        const rawStrength = column(fields, 'strength');
+        const strength = rawStrength ? Number(rawStrength) : null;
+        if (strength !== null && (!Number.isFinite(strength) || strength < 0 || strength > 1)) {
+            throw new CompatibilityImportError(`strength must be between 0 and 1, got "${rawStrength}"`, i + 1);
+        }
+
+        edges.set(`${product_id}|${accessory_id}|${relation}`, {
+            product_id,
+            accessory_id,
+            relation,
+            strength,
+            note: column(fields, 'note') || null
+        });
+    }
+    return [...edges.values()];
+}
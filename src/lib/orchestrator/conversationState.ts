@@ -78,6 +78,27 @@ export function incrementClarificationAttempts(state: ConversationState): Conver
     };
 }
 
+/**
+ * Reset clarification attempt counter (after products have been shown)
+ */
+export function resetClarificationAttempts(state: ConversationState): ConversationState {
+    return {
+        ...state,
+        clarification_attempts: 0
+    };
+}
+
+/**
+ * Record the latest detected intent and confidence
+ */
+export function updateIntent(state: ConversationState, intentId: string, confidence: number): ConversationState {
+    return {
+        ...state,
+        intent_id: intentId,
+        confidence
+    };
+}
+
 /**
  * Update inferred persona
  */
@@ -88,6 +109,18 @@ export function updatePersona(state: ConversationState, persona: Persona): Conve
     };
 }
 
+/**
+ * Flag a recognized returning customer, resuming their last persona unless
+ * this conversation has already inferred one
+ */
+export function markReturningUser(state: ConversationState, lastPersona: Persona): ConversationState {
+    return {
+        ...state,
+        is_returning_user: true,
+        inferred_persona: state.inferred_persona ?? lastPersona
+    };
+}
+
 /**
  * Check if max clarification attempts reached (strategy switch trigger)
  */
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCustomerProfileService, createInMemoryCustomerProfileStore, CustomerProfile, getOwnedProductIds } from './customerProfiles';
+import type { Order } from './orderService';
+
+function order(orderNumber: string, createdAt: string, productIds: string[], customer: Order['customer'] = { full_name: 'Priya', email: 'priya@example.com' }): Order {
+    return {
+        order_id: `id-${orderNumber}`,
+        order_number: orderNumber,
+        idempotency_key: `key-${orderNumber}`,
+        session_id: 's1',
+        status: 'confirmed',
+        items: productIds.map(id => ({ product_id: id, variant_id: `${id}-v`, title: `Product ${id}`, unit_price: '100.00', quantity: 1 })),
+        subtotal: '0.00', discount: '0.00', shipping: '0.00', tax: '0.00', total: '0.00', currency: 'INR',
+        customer,
+        shipping_address: { line1: '12 MG Road', city: 'Pune', pincode: '411001', country: 'IN' },
+        payment: { method: 'cod', intent_id: `pi-${orderNumber}`, status: 'pay_on_delivery' },
+        created_at: createdAt,
+        updated_at: createdAt
+    };
+}
+
+function profile(overrides: Partial<CustomerProfile>): CustomerProfile {
+    return {
+        profile_id: 'prof-1',
+        order_numbers: [],
+        owned_products: [],
+        preferred_categories: {},
+        last_persona: null,
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        ...overrides
+    };
+}
+
+// No past orders unless a test provides them
+const noOrders = { findOrders: async () => [] as Order[] };
+
+describe('createInMemoryCustomerProfileStore', () => {
+    it('finds the most recently updated profile by email or phone', async () => {
+        const store = createInMemoryCustomerProfileStore();
+        await store.save(profile({ profile_id: 'a', email: 'priya@example.com' }));
+        await store.save(profile({ profile_id: 'b', phone: '9876543210', updated_at: '2026-02-01T00:00:00.000Z' }));
+
+        assert.equal((await store.findByIdentity({ email: 'priya@example.com' }))?.profile_id, 'a');
+        assert.equal((await store.findByIdentity({ email: 'priya@example.com', phone: '9876543210' }))?.profile_id, 'b');
+        assert.equal(await store.findByIdentity({ email: 'nobody@example.com' }), null);
+        assert.equal(await store.findByIdentity({}), null);
+    });
+
+    it('replaces a profile by id', async () => {
+        const store = createInMemoryCustomerProfileStore();
+        await store.save(profile({ email: 'priya@example.com' }));
+        await store.save(profile({ email: 'priya@example.com', last_persona: 'aspiring_hobbyist' }));
+        assert.equal((await store.findByIdentity({ email: 'priya@example.com' }))?.last_persona, 'aspiring_hobbyist');
+    });
+
+    it('updates only the given fields of a stored profile', async () => {
+        const store = createInMemoryCustomerProfileStore();
+        await store.save(profile({ email: 'priya@example.com', order_numbers: ['N1'] }));
+        await store.update('prof-1', { last_persona: 'occasion_driven' });
+        await store.update('missing', { last_persona: 'occasion_driven' });
+
+        const stored = await store.getById('prof-1');
+        assert.deepEqual(stored?.order_numbers, ['N1']);
+        assert.equal(stored?.last_persona, 'occasion_driven');
+        assert.equal(await store.getById('missing'), null);
+    });
+});
+
+describe('createCustomerProfileService', () => {
+    it('does not recognize unknown customers or empty identities', async () => {
+        const service = createCustomerProfileService(createInMemoryCustomerProfileStore(), noOrders);
+        assert.equal(await service.recognize({ email: 'priya@example.com' }), null);
+        assert.equal(await service.recognize({ email: '  ' }), null);
+    });
+
+    it('backfills a profile from past orders, newest first', async () => {
+        const store = createInMemoryCustomerProfileStore();
+        const past = [order('N2', '2026-02-01T00:00:00.000Z', ['p2', 'p1']), order('N1', '2026-01-01T00:00:00.000Z', ['p1'])];
+        const service = createCustomerProfileService(store, { findOrders: async () => past });
+
+        const recognized = await service.recognize({ email: ' Priya@Example.com ' });
+        assert.deepEqual(recognized?.order_numbers, ['N2', 'N1']);
+        assert.deepEqual(getOwnedProductIds(recognized), ['p2', 'p1']);
+        assert.equal(recognized?.owned_products.find(p => p.product_id === 'p1')?.purchased_at, '2026-02-01T00:00:00.000Z');
+        assert.equal((await store.findByIdentity({ email: 'priya@example.com' }))?.profile_id, recognized?.profile_id);
+    });
+
+    it('records each order once', async () => {
+        const store = createInMemoryCustomerProfileStore();
+        const service = createCustomerProfileService(store, noOrders);
+        const first = order('N1', '2026-01-01T00:00:00.000Z', ['p1'], { full_name: 'Priya', phone: '+91 98765 43210' });
+
+        await service.recordOrder(first);
+        await service.recordOrder(first);
+        const updated = await service.recordOrder(order('N2', '2026-02-01T00:00:00.000Z', ['p2'], { full_name: 'Priya', phone: '9876543210' }));
+
+        assert.equal(updated?.phone, '9876543210');
+        assert.deepEqual(updated?.order_numbers, ['N2', 'N1']);
+        assert.deepEqual(getOwnedProductIds(updated), ['p2', 'p1']);
+    });
+
+    it('skips orders without an email or phone', async () => {
+        const service = createCustomerProfileService(createInMemoryCustomerProfileStore(), noOrders);
+        assert.equal(await service.recordOrder(order('N1', '2026-01-01T00:00:00.000Z', ['p1'], { full_name: 'Guest' })), null);
+    });
+
+    it('counts shopping turns per intent and keeps the last persona', async () => {
+        const store = createInMemoryCustomerProfileStore();
+        const service = createCustomerProfileService(store, noOrders);
+        const start = profile({ email: 'priya@example.com', last_persona: 'aspiring_hobbyist' });
+        await store.save(start);
+
+        const once = await service.recordTurn(start, { intent_id: 'vlogging', persona: null });
+        const twice = await service.recordTurn(once, { intent_id: 'vlogging', persona: 'occasion_driven' });
+        assert.deepEqual(twice.preferred_categories, { vlogging: 2 });
+        assert.equal(once.last_persona, 'aspiring_hobbyist');
+        assert.equal(twice.last_persona, 'occasion_driven');
+        assert.deepEqual((await store.findByIdentity({ email: 'priya@example.com' }))?.preferred_categories, { vlogging: 2 });
+    });
+
+    it('keeps an order recorded during the turn', async () => {
+        const store = createInMemoryCustomerProfileStore();
+        const service = createCustomerProfileService(store, noOrders);
+        const start = profile({ email: 'priya@example.com' });
+        await store.save(start);
+
+        await service.recordOrder(order('N1', '2026-01-01T00:00:00.000Z', ['p1']));
+        const updated = await service.recordTurn(start, { intent_id: 'vlogging', persona: null });
+        assert.deepEqual(updated.order_numbers, ['N1']);
+        assert.deepEqual((await store.getById(start.profile_id))?.order_numbers, ['N1']);
+    });
+});
+
+describe('getOwnedProductIds', () => {
+    it('is empty for unrecognized customers', () => {
+        assert.deepEqual(getOwnedProductIds(null), []);
+    });
+});
@@ -0,0 +1,277 @@
+/**
+ * Customer Profiles
+ *
+ * What we remember about a customer across sessions, keyed by the email or
+ * phone they identified with (at checkout or in the conversation): their past
+ * orders, the gear they already own, the categories (intents) they shop for
+ * and the persona they last showed. The pipeline uses it to greet returning
+ * customers, resume their persona and rank accessories for gear they own,
+ * once they have verified their email or phone with a code.
+ *
+ * Profiles are created when an order is placed, or backfilled from the order
+ * store the first time a customer with earlier orders is recognized.
+ *
+ * Backends (CUSTOMER_PROFILE_STORE, falls back to ORDER_STORE, CART_STORE, then SESSION_STORE):
+ * - memory:   process-local Map (tests, local dev)
+ * - supabase: `customer_profiles` table (production)
+ *
+ * Expected Supabase table:
+ *   create table customer_profiles (
+ *     profile_id uuid primary key,
+ *     email text unique,
+ *     phone text unique,
+ *     order_numbers jsonb not null,
+ *     owned_products jsonb not null,
+ *     preferred_categories jsonb not null,
+ *     last_persona text,
+ *     created_at timestamptz not null,
+ *     updated_at timestamptz not null
+ *   );
+ */
+
+import crypto from 'crypto';
+import { supabase } from '@/lib/supabase';
+import type { Persona } from './conversationState';
+import { CustomerIdentity, getOrderService, normalizeEmail, normalizePhone, Order, OrderService } from './orderService';
+
+// Orders read when backfilling a profile for a customer who bought before profiles existed
+const BACKFILL_ORDER_LIMIT = 20;
+
+export interface OwnedProduct {
+    product_id: string;
+    title: string;
+    purchased_at: string;
+}
+
+export interface CustomerProfile {
+    profile_id: string;
+    email?: string;                                // Stored lowercased
+    phone?: string;                                // Stored as the last 10 digits
+    order_numbers: string[];                       // Newest first
+    owned_products: OwnedProduct[];                // One per product, latest purchase first
+    preferred_categories: Record<string, number>;  // intent_id → turns spent shopping for it
+    last_persona: Persona;
+    created_at: string;
+    updated_at: string;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface CustomerProfileStore {
+    /** The profile matching the email or phone (most recently updated first) */
+    findByIdentity(identity: CustomerIdentity): Promise<CustomerProfile | null>;
+    getById(profileId: string): Promise<CustomerProfile | null>;
+    /** Insert or replace by profile_id */
+    save(profile: CustomerProfile): Promise<void>;
+    /** Change some fields of an existing profile, leaving the rest as stored */
+    update(profileId: string, changes: Partial<Omit<CustomerProfile, 'profile_id'>>): Promise<void>;
+}
+
+export function createInMemoryCustomerProfileStore(): CustomerProfileStore {
+    const profiles = new Map<string, CustomerProfile>();
+
+    return {
+        async findByIdentity(identity) {
+            const profile = [...profiles.values()]
+                .filter(p => (identity.email && p.email === identity.email) || (identity.phone && p.phone === identity.phone))
+                .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+            return profile ? structuredClone(profile) : null;
+        },
+
+        async getById(profileId) {
+            const profile = profiles.get(profileId);
+            return profile ? structuredClone(profile) : null;
+        },
+
+        async save(profile) {
+            profiles.set(profile.profile_id, structuredClone(profile));
+        },
+
+        async update(profileId, changes) {
+            const profile = profiles.get(profileId);
+            if (profile) profiles.set(profileId, structuredClone({ ...profile, ...changes }));
+        }
+    };
+}
+
+export function createSupabaseCustomerProfileStore(table: string = 'customer_profiles'): CustomerProfileStore {
+    return {
+        async findByIdentity(identity) {
+            // One .eq() query per detail: customer input never goes into a filter string
+            const filters: Array<[string, string]> = [];
+            if (identity.email) filters.push(['email', identity.email]);
+            if (identity.phone) filters.push(['phone', identity.phone]);
+
+            const matches = await Promise.all(filters.map(async ([column, value]) => {
+                const { data, error } = await supabase.from(table).select('*').eq(column, value).maybeSingle();
+                if (error) throw new Error(`Failed to load customer profile: ${error.message}`);
+                return data as CustomerProfile | null;
+            }));
+            return matches
+                .filter((profile): profile is CustomerProfile => !!profile)
+                .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0] || null;
+        },
+
+        async getById(profileId) {
+            const { data, error } = await supabase.from(table).select('*').eq('profile_id', profileId).maybeSingle();
+            if (error) throw new Error(`Failed to load customer profile: ${error.message}`);
+            return (data as CustomerProfile | null) || null;
+        },
+
+        async save(profile) {
+            const { error } = await supabase.from(table).upsert(profile, { onConflict: 'profile_id' });
+            if (error) throw new Error(`Failed to save customer profile: ${error.message}`);
+        },
+
+        async update(profileId, changes) {
+            const { error } = await supabase.from(table).update(changes).eq('profile_id', profileId);
+            if (error) throw new Error(`Failed to update customer profile: ${error.message}`);
+        }
+    };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+function normalizeIdentity(identity: CustomerIdentity): CustomerIdentity {
+    return { email: normalizeEmail(identity.email), phone: normalizePhone(identity.phone) };
+}
+
+function newProfile(identity: CustomerIdentity, now: string): CustomerProfile {
+    return {
+        profile_id: crypto.randomUUID(),
+        email: identity.email,
+        phone: identity.phone,
+        order_numbers: [],
+        owned_products: [],
+        preferred_categories: {},
+        last_persona: null,
+        created_at: now,
+        updated_at: now
+    };
+}
+
+// Fold an order into the profile (orders already recorded are ignored)
+function addOrder(profile: CustomerProfile, order: Order): CustomerProfile {
+    if (profile.order_numbers.includes(order.order_number)) return profile;
+
+    const bought = order.items.map(item => ({ product_id: item.product_id, title: item.title, purchased_at: order.created_at }));
+    const owned = [...bought, ...profile.owned_products]
+        .sort((a, b) => b.purchased_at.localeCompare(a.purchased_at))
+        .filter((product, index, all) => all.findIndex(p => p.product_id === product.product_id) === index);
+
+    return {
+        ...profile,
+        email: profile.email || order.customer.email,
+        phone: profile.phone || order.customer.phone,
+        order_numbers: [order.order_number, ...profile.order_numbers],
+        owned_products: owned
+    };
+}
+
+export interface CustomerTurn {
+    intent_id?: string;   // Set when the turn was spent shopping for an intent
+    persona: Persona;
+}
+
+export interface CustomerProfileService {
+    /** The customer's profile, backfilled from their orders if they have no profile yet */
+    recognize(identity: CustomerIdentity): Promise<CustomerProfile | null>;
+    /** Remember a placed order (and the products it bought) */
+    recordOrder(order: Order): Promise<CustomerProfile | null>;
+    /** Remember what a recognized customer shopped for and how they came across (only those fields are written) */
+    recordTurn(profile: CustomerProfile, turn: CustomerTurn): Promise<CustomerProfile>;
+}
+
+export function createCustomerProfileService(
+    store: CustomerProfileStore = getCustomerProfileStore(),
+    orders: Pick<OrderService, 'findOrders'> = getOrderService()
+): CustomerProfileService {
+    return {
+        async recognize(identity) {
+            const normalized = normalizeIdentity(identity);
+            if (!normalized.email && !normalized.phone) return null;
+
+            const existing = await store.findByIdentity(normalized);
+            if (existing) return existing;
+
+            const past = await orders.findOrders(normalized, BACKFILL_ORDER_LIMIT);
+            if (past.length === 0) return null;
+
+            const now = new Date().toISOString();
+            const profile = past.reduceRight(addOrder, newProfile(normalized, now));
+            await store.save(profile);
+            console.log(`👤 Backfilled customer profile from ${past.length} order(s)`);
+            return profile;
+        },
+
+        async recordOrder(order) {
+            const identity = normalizeIdentity(order.customer);
+            if (!identity.email && !identity.phone) return null;
+
+            const now = new Date().toISOString();
+            const current = await store.findByIdentity(identity) || newProfile(identity, now);
+            const profile = { ...addOrder(current, order), updated_at: now };
+            await store.save(profile);
+            console.log(`👤 Customer profile updated with order ${order.order_number}`);
+            return profile;
+        },
+
+        async recordTurn(profile, turn) {
+            // Reloaded: an order recorded during the turn must not be overwritten
+            const current = await store.getById(profile.profile_id) || profile;
+            const { intent_id, persona } = turn;
+            const changes = {
+                last_persona: persona || current.last_persona,
+                preferred_categories: intent_id
+                    ? { ...current.preferred_categories, [intent_id]: (current.preferred_categories[intent_id] || 0) + 1 }
+                    : current.preferred_categories,
+                updated_at: new Date().toISOString()
+            };
+            await store.update(profile.profile_id, changes);
+            return { ...current, ...changes };
+        }
+    };
+}
+
+/**
+ * Products the customer already owns (empty for unrecognized customers)
+ */
+export function getOwnedProductIds(profile: CustomerProfile | null): string[] {
+    return profile ? profile.owned_products.map(p => p.product_id) : [];
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let activeStore: CustomerProfileStore | null = null;
+let activeService: CustomerProfileService | null = null;
+
+/**
+ * Get the configured store (CUSTOMER_PROFILE_STORE=memory|supabase, defaults to ORDER_STORE, CART_STORE, then SESSION_STORE)
+ */
+export function getCustomerProfileStore(): CustomerProfileStore {
+    if (!activeStore) {
+        const backend = process.env.CUSTOMER_PROFILE_STORE || process.env.ORDER_STORE || process.env.CART_STORE || process.env.SESSION_STORE;
+        activeStore = backend === 'memory' ? createInMemoryCustomerProfileStore() : createSupabaseCustomerProfileStore();
+    }
+    return activeStore;
+}
+
+export function getCustomerProfileService(): CustomerProfileService {
+    if (!activeService) {
+        activeService = createCustomerProfileService();
+    }
+    return activeService;
+}
+
+/**
+ * Override the active service (tests, offline runs)
+ */
+export function setCustomerProfileService(service: CustomerProfileService | null): void {
+    activeService = service;
+}
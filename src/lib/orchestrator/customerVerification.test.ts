@@ -0,0 +1,77 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    checkVerificationCode,
+    extractVerificationCode,
+    matchVerifiedIdentity,
+    setVerificationCodeSender,
+    startVerification,
+    VerificationCodeSender
+} from './customerVerification';
+import type { CustomerIdentity } from './orderService';
+
+// Email-only sender that keeps the codes it sends
+function emailSender() {
+    const sent: Array<{ identity: CustomerIdentity; code: string }> = [];
+    const sender: VerificationCodeSender = {
+        canSend: identity => !!identity.email,
+        send: async (identity, code) => { sent.push({ identity, code }); }
+    };
+    setVerificationCodeSender(sender);
+    return sent;
+}
+
+describe('startVerification', () => {
+    afterEach(() => setVerificationCodeSender(undefined));
+
+    it('sends a code to the normalized email and keeps only its hash', async () => {
+        const sent = emailSender();
+        const challenge = await startVerification({ email: ' Priya@Example.com ', phone: '9876543210' }, 0);
+
+        assert.deepEqual(sent.map(s => s.identity), [{ email: 'priya@example.com' }]);
+        assert.match(sent[0].code, /^\d{6}$/);
+        assert.deepEqual(challenge?.identity, { email: 'priya@example.com' });
+        assert.notEqual(challenge?.code_hash, sent[0].code);
+    });
+
+    it('gives up when the code cannot be delivered', async () => {
+        emailSender();
+        assert.equal(await startVerification({ phone: '9876543210' }), null);
+        setVerificationCodeSender(null);
+        assert.equal(await startVerification({ email: 'priya@example.com' }), null);
+    });
+});
+
+describe('checkVerificationCode', () => {
+    afterEach(() => setVerificationCodeSender(undefined));
+
+    it('accepts the sent code until it expires or is guessed too often', async () => {
+        const sent = emailSender();
+        const challenge = (await startVerification({ email: 'priya@example.com' }, 0))!;
+        const wrong = sent[0].code === '000000' ? '111111' : '000000';
+
+        assert.equal(checkVerificationCode(challenge, sent[0].code, 1000), 'verified');
+        assert.equal(checkVerificationCode(challenge, wrong, 1000), 'wrong_code');
+        assert.equal(checkVerificationCode(challenge, sent[0].code, 11 * 60 * 1000), 'expired');
+        assert.equal(checkVerificationCode({ ...challenge, attempts: 5 }, sent[0].code, 1000), 'expired');
+    });
+});
+
+describe('extractVerificationCode', () => {
+    it('finds a six-digit code, spaced or not, and nothing in longer numbers', () => {
+        assert.equal(extractVerificationCode('the code is 042817'), '042817');
+        assert.equal(extractVerificationCode('042 817'), '042817');
+        assert.equal(extractVerificationCode('call me on 9876543210'), null);
+        assert.equal(extractVerificationCode('where is my order?'), null);
+    });
+});
+
+describe('matchVerifiedIdentity', () => {
+    it('matches on a normalized email or phone only', () => {
+        const verified = { email: 'priya@example.com' };
+        assert.equal(matchVerifiedIdentity(verified, { email: 'PRIYA@example.com ' }), verified);
+        assert.equal(matchVerifiedIdentity(verified, { email: 'other@example.com' }), null);
+        assert.equal(matchVerifiedIdentity(verified, { phone: '9876543210' }), null);
+        assert.equal(matchVerifiedIdentity(undefined, { email: 'priya@example.com' }), null);
+    });
+});
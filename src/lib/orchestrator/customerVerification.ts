@@ -0,0 +1,145 @@
+/**
+ * Customer Verification
+ *
+ * Order lookups disclose order numbers, items and totals, so the customer
+ * proves they own the email or phone first: a six-digit code is sent to it and
+ * checked on a later turn. The session keeps only a hash of the code, and a
+ * code stops working after 10 minutes or 5 wrong tries.
+ *
+ * Codes go out by email (EMAIL_USER/EMAIL_PASS, like order confirmations).
+ * Outside production, without a mailer, the code is logged instead. There is
+ * no SMS sender yet, so in production a phone number alone can't be verified.
+ */
+
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { CustomerIdentity, isSameCustomer, normalizeEmail, normalizePhone } from './orderService';
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+// A code sent and not yet entered
+export interface VerificationChallenge {
+    identity: CustomerIdentity;  // The one email or phone the code went to
+    code_hash: string;
+    expires_at: number;
+    attempts: number;            // Wrong codes entered so far
+}
+
+export type VerificationResult = 'verified' | 'wrong_code' | 'expired';
+
+export interface VerificationCodeSender {
+    /** Whether codes can reach this identity (email or phone) */
+    canSend(identity: CustomerIdentity): boolean;
+    send(identity: CustomerIdentity, code: string): Promise<void>;
+}
+
+// ============================================
+// SENDERS
+// ============================================
+
+export function createEmailCodeSender(user: string, pass: string): VerificationCodeSender {
+    return {
+        canSend: identity => !!identity.email,
+
+        async send(identity, code) {
+            const transporter = nodemailer.createTransport({ service: 'gmail', auth: { user, pass } });
+            await transporter.sendMail({
+                from: `"Ladani Store" <${user}>`,
+                to: identity.email,
+                subject: `Your verification code: ${code}`,
+                text: `Your code to look up your orders is ${code}. It expires in 10 minutes.`
+            });
+            console.log(`🔐 Verification code emailed to ${identity.email}`);
+        }
+    };
+}
+
+// Development only: the code is printed to the server log
+export function createConsoleCodeSender(): VerificationCodeSender {
+    return {
+        canSend: identity => !!(identity.email || identity.phone),
+
+        async send(identity, code) {
+            console.log(`🔐 [MOCK CODE] ${identity.email || identity.phone}: ${code}`);
+        }
+    };
+}
+
+let activeSender: VerificationCodeSender | null | undefined;
+
+/**
+ * The configured code sender, or null when codes can't be delivered
+ */
+export function getVerificationCodeSender(): VerificationCodeSender | null {
+    if (activeSender !== undefined) return activeSender;
+
+    const user = process.env.EMAIL_USER;
+    const pass = process.env.EMAIL_PASS;
+    if (user && pass) {
+        activeSender = createEmailCodeSender(user, pass);
+    } else if (process.env.NODE_ENV !== 'production') {
+        activeSender = createConsoleCodeSender();
+    } else {
+        console.warn('⚠️ No EMAIL_USER/EMAIL_PASS found. Order lookups cannot be verified.');
+        activeSender = null;
+    }
+    return activeSender;
+}
+
+/**
+ * Replace the code sender (tests); null means codes can't be delivered
+ */
+export function setVerificationCodeSender(sender: VerificationCodeSender | null | undefined): void {
+    activeSender = sender;
+}
+
+// ============================================
+// CHALLENGES
+// ============================================
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+/**
+ * Send a code to the identity's email (or phone, if that's all the sender
+ * can reach). Returns null when no code could be sent.
+ */
+export async function startVerification(identity: CustomerIdentity, now: number = Date.now()): Promise<VerificationChallenge | null> {
+    const sender = getVerificationCodeSender();
+    const email = normalizeEmail(identity.email);
+    const phone = normalizePhone(identity.phone);
+    const candidates: CustomerIdentity[] = [...(email ? [{ email }] : []), ...(phone ? [{ phone }] : [])];
+    const target = candidates.find(candidate => sender?.canSend(candidate));
+    if (!sender || !target) return null;
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+    try {
+        await sender.send(target, code);
+    } catch (error) {
+        console.error('Verification code could not be sent:', error);
+        return null;
+    }
+    return { identity: target, code_hash: hashCode(code), expires_at: now + CODE_TTL_MS, attempts: 0 };
+}
+
+/**
+ * The six-digit code in a message ("it's 042 817" included), if any
+ */
+export function extractVerificationCode(message: string): string | null {
+    const match = message.match(/(?<!\d)(\d{3})[\s-]?(\d{3})(?!\d)/);
+    return match ? match[1] + match[2] : null;
+}
+
+export function checkVerificationCode(challenge: VerificationChallenge, code: string, now: number = Date.now()): VerificationResult {
+    if (now > challenge.expires_at || challenge.attempts >= MAX_ATTEMPTS) return 'expired';
+    const expected = Buffer.from(challenge.code_hash, 'hex');
+    const given = Buffer.from(hashCode(code), 'hex');
+    return crypto.timingSafeEqual(expected, given) ? 'verified' : 'wrong_code';
+}
+
+/**
+ * The verified identity, if it covers the email or phone being asked about
+ */
+export function matchVerifiedIdentity(verified: CustomerIdentity | undefined, identity: CustomerIdentity): CustomerIdentity | null {
+    return verified && isSameCustomer(identity, verified) ? verified : null;
+}
@@ -5,7 +5,15 @@
  * use LLM to infer relevant capability keys and query products directly.
  */
 
-import { supabase } from '@/lib/supabase';
+import { getLLMClient, LLMParseError } from '@/lib/llm';
+import type { OutcomeConstraints } from '@/types/session';
+import { applyBudget } from './budget';
+import { applyHardConstraints, hasHardConstraints, ConstraintReport } from './hardConstraints';
+import { getCatalogRepository, CapabilityRow } from './catalogRepository';
+import { CatalogProduct, getCatalogProducts, selectVariant, toProductListing } from './catalog';
+
+// Capability-ranked pool to filter from when budget or hard constraints apply
+const CONSTRAINED_CANDIDATE_POOL = 30;
 
 // All available capability keys from the database
 export const CAPABILITY_KEYS = [
@@ -40,6 +48,16 @@ export const CAPABILITY_KEYS = [
     'compatibility'
 ];
 
+/**
+ * Capability values are stored on 0–1, 0–10 or 0–100 scales depending on the import
+ */
+export function detectCapabilityScale(values: number[]): number {
+    const max = Math.max(0, ...values);
+    if (max <= 1) return 1;
+    if (max <= 10) return 10;
+    return 100;
+}
+
 export interface CapabilityWeight {
     capability_key: string;
     weight: number; // 0.0 to 1.0
@@ -52,6 +70,7 @@ export interface DynamicProduct {
     image_url: string;
     variant_id: string;
     computed_score: number;
+    within_budget?: boolean;
 }
 
 /**
@@ -61,8 +80,6 @@ export async function inferCapabilitiesForIntent(
     intentDescription: string,
     userMessage: string
 ): Promise<CapabilityWeight[]> {
-    const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-
     const prompt = `You are a camera product expert. Given a user's intent, identify the most important camera capabilities.
 
 User Intent: "${intentDescription}"
@@ -80,33 +97,30 @@ Respond with ONLY a JSON array:
 ]`;
 
     try {
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
-            {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [{ parts: [{ text: prompt }] }],
-                    generationConfig: { temperature: 0.3, maxOutputTokens: 500 }
-                })
+        const capabilities = await getLLMClient().generateJSON<CapabilityWeight[]>(prompt, {
+            label: 'infer_capabilities',
+            temperature: 0.3,
+            maxOutputTokens: 500,
+            schema: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        capability_key: { type: 'string', enum: CAPABILITY_KEYS },
+                        weight: { type: 'number' }
+                    },
+                    required: ['capability_key', 'weight']
+                }
             }
-        );
-
-        const data = await response.json();
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '[]';
-
-        // Extract JSON array
-        const jsonMatch = text.match(/\[[\s\S]*?\]/);
-        if (!jsonMatch) {
-            console.warn('❌ Failed to parse capability inference, using defaults');
-            return getDefaultCapabilities(intentDescription);
-        }
-
-        const capabilities = JSON.parse(jsonMatch[0]) as CapabilityWeight[];
+        });
         console.log(`🎯 Inferred capabilities for "${intentDescription}":`, capabilities);
         return capabilities;
 
     } catch (error) {
+        if (error instanceof LLMParseError) {
+            console.warn('❌ Failed to parse capability inference, using defaults');
+            return getDefaultCapabilities(intentDescription);
+        }
         console.error('Capability inference failed:', error);
         return getDefaultCapabilities(intentDescription);
     }
@@ -154,23 +168,26 @@ function getDefaultCapabilities(intent: string): CapabilityWeight[] {
 }
 
 /**
- * Query products by capability scores
+ * Query products by capability scores, excluding products that fail a hard
+ * constraint (reported into `report`) and filtering by budget
  */
 export async function getProductsByCapabilities(
     capabilities: CapabilityWeight[],
-    limit: number = 3
+    limit: number = 3,
+    constraints: OutcomeConstraints = {},
+    report?: ConstraintReport
 ): Promise<DynamicProduct[]> {
+    const { budget } = constraints;
+    const constrained = !!budget || hasHardConstraints(constraints);
     console.log(`🔍 Dynamic search: Finding products by ${capabilities.length} capabilities`);
 
     // Get all capability scores for selected keys
     const capKeys = capabilities.map(c => c.capability_key);
 
-    const { data: scores, error } = await supabase
-        .from('product_capabilities')
-        .select('product_id, capability_key, value')
-        .in('capability_key', capKeys);
-
-    if (error || !scores) {
+    let scores: CapabilityRow[];
+    try {
+        scores = await getCatalogRepository().listCapabilities({ capabilityKeys: capKeys });
+    } catch (error) {
         console.error('❌ Failed to fetch capability scores:', error);
         return [];
     }
@@ -194,7 +211,7 @@ export async function getProductsByCapabilities(
             computed_score: score / (productCapCounts[product_id] || 1) // Average weighted score
         }))
         .sort((a, b) => b.computed_score - a.computed_score)
-        .slice(0, limit);
+        .slice(0, constrained ? CONSTRAINED_CANDIDATE_POOL : limit);
 
     console.log(`📊 Top ${rankedProducts.length} products by capability match:`, rankedProducts);
 
@@ -202,30 +219,26 @@ export async function getProductsByCapabilities(
 
     // Fetch product details
     const productIds = rankedProducts.map(p => p.product_id);
-    const { data: products, error: prodErr } = await supabase
-        .from('products_raw')
-        .select('*')
-        .in('id', productIds);
-
-    if (prodErr || !products) {
-        console.error('❌ Failed to fetch product details:', prodErr);
+    let products: CatalogProduct[];
+    try {
+        products = await getCatalogProducts(productIds);
+    } catch (error) {
+        console.error('❌ Failed to fetch product details:', error);
         return [];
     }
 
     // Merge with scores
-    return rankedProducts.map(ranked => {
-        const prod = products.find((p: any) => p.id === ranked.product_id);
-        if (!prod) return null;
-
-        return {
-            product_id: prod.id,
-            title: prod.title,
-            price: prod.variants?.[0]?.price || 'N/A',
-            image_url: prod.images?.[0]?.src || '',
-            variant_id: prod.variants?.[0]?.id?.toString() || '',
-            computed_score: ranked.computed_score
-        } as DynamicProduct;
-    }).filter(Boolean) as DynamicProduct[];
+    const merged = rankedProducts.flatMap(ranked => {
+        const product = products.find(p => p.product_id === ranked.product_id);
+        if (!product) return [];
+
+        const listing = toProductListing(product, selectVariant(product, budget));
+        return [{ ...listing, computed_score: ranked.computed_score } as DynamicProduct];
+    });
+
+    if (!constrained) return merged;
+    const eligible = await applyHardConstraints(merged, p => p.product_id, constraints, report);
+    return applyBudget(eligible, budget).slice(0, limit);
 }
 
 /**
@@ -234,7 +247,9 @@ export async function getProductsByCapabilities(
 export async function dynamicProductSearch(
     intentDescription: string,
     userMessage: string,
-    limit: number = 3
+    limit: number = 3,
+    constraints: OutcomeConstraints = {},
+    report?: ConstraintReport
 ): Promise<DynamicProduct[]> {
     console.log(`🔄 Dynamic fallback: Searching by capabilities for "${intentDescription}"`);
 
@@ -247,7 +262,7 @@ export async function dynamicProductSearch(
     }
 
     // Step 2: Query products by capabilities
-    const products = await getProductsByCapabilities(capabilities, limit);
+    const products = await getProductsByCapabilities(capabilities, limit, constraints, report);
 
     console.log(`✅ Dynamic search found ${products.length} products`);
     return products;
@@ -0,0 +1,45 @@
+/**
+ * Aarav Greetings & Acknowledgements
+ *
+ * Fixed copy prepended to responses so Aarav sounds like he is listening,
+ * not responding mechanically.
+ */
+
+/**
+ * Generate Aarav's greeting for first turn (returning customers are asked
+ * about the last thing they bought, when we know it)
+ */
+export function generateGreeting(isReturningUser: boolean, lastPurchase?: string): string {
+    if (isReturningUser && lastPurchase) {
+        return `Welcome back! How are you getting on with your ${lastPurchase}? How may I assist you today?`;
+    }
+    if (isReturningUser) {
+        return "I see you've shopped with us before. How may I assist you today?";
+    }
+    return "Hello! I'm Aarav from Ladani Store. How are you today?";
+}
+
+/**
+ * Generate input acknowledgment (always prepend to responses)
+ * This shows Aarav is listening and understanding, not just responding mechanically
+ */
+export function generateAcknowledgment(userMessage: string, intentId: string | null): string {
+    // Extract key intent signals for more personalized acknowledgment
+    const lowerMessage = userMessage.toLowerCase();
+
+    if (lowerMessage.includes('wedding') || lowerMessage.includes('birthday') || lowerMessage.includes('event')) {
+        return "I understand this is for a special occasion.";
+    }
+    if (lowerMessage.includes('budget') || lowerMessage.includes('affordable') || lowerMessage.includes('cheap')) {
+        return "I hear you're looking for the best value within your budget.";
+    }
+    if (lowerMessage.includes('beginner') || lowerMessage.includes('learn') || lowerMessage.includes('start')) {
+        return "Great that you're getting started with photography!";
+    }
+    if (lowerMessage.includes('travel') || lowerMessage.includes('trip')) {
+        return "Sounds like you want to capture your travel memories.";
+    }
+
+    // Generic but warm acknowledgment
+    return "I understand what you're looking for.";
+}
@@ -0,0 +1,116 @@
+/**
+ * Bundle Stages
+ *
+ * - bundle: "I need the complete kit": builds a kit around the top
+ *   recommendation (or the shown product the user picked) and remembers it
+ * - bundleCart: "add the whole kit": adds the last kit shown in one cart action
+ */
+
+import type { BundleResponse, CartActionResponse, ClarificationResponse } from '@/types/chat';
+import type { StageHandler } from '../pipeline';
+import { buildBundle, toBundleRequest, Bundle } from '../bundleBuilder';
+import { CartError, getCartService } from '../cartService';
+import { updatePhase } from '../conversationState';
+
+function describeKit(bundle: Bundle): string {
+    const [primary, ...accessories] = bundle.items;
+    if (accessories.length === 0) {
+        return `I couldn't find accessories that go with the ${primary.title}, so for now it's just the ${primary.title} at ₹${bundle.total}.`;
+    }
+    const saving = bundle.discount_percent > 0 ? `, ${bundle.discount_percent}% off as a kit (you save ₹${bundle.discount})` : '';
+    return `The ${primary.title} with ${accessories.map(a => a.title).join(', ')}: ₹${bundle.total} in total${saving}.`;
+}
+
+export const bundleHandler: StageHandler = {
+    name: 'bundle',
+
+    canHandle(ctx) {
+        return !!ctx.classification?.bundle_request && !ctx.classification.cart_action;
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence, message, lastProducts } = ctx;
+        const index = ctx.classification!.product_index;
+        const primary = typeof index === 'number' ? lastProducts[index] : undefined;
+
+        const bundle = await buildBundle(intent_id, {
+            message,
+            constraints: ctx.state.session.outcome_context.constraints,
+            primary,
+            cartProductIds: ctx.cart?.items.map(l => l.product_id)
+        });
+        // Nothing to build around: let the recommendation stage explain
+        if (!bundle) return null;
+
+        ctx.state.conversation = updatePhase(ctx.state.conversation, 'recommendation');
+        ctx.state.session = { ...ctx.state.session, last_bundle: bundle };
+
+        const response: BundleResponse = {
+            response_type: 'bundle',
+            intent_id,
+            confidence,
+            bundle,
+            acknowledgement: ctx.greetingPrefix + (ctx.classification!.acknowledgement || 'Here is a complete kit for you.'),
+            explanation: [describeKit(bundle), bundle.budget_note, 'Want me to add the whole kit to your cart?'].filter(Boolean).join(' ')
+        };
+        return response;
+    }
+};
+
+export const bundleCartHandler: StageHandler = {
+    name: 'bundle_cart',
+
+    canHandle(ctx) {
+        return ctx.classification?.cart_action === 'add_bundle';
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence } = ctx;
+        const bundle = ctx.state.session.last_bundle;
+
+        if (!bundle) {
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['bundle'],
+                acknowledgement: "Happy to put a kit together!",
+                clarifying_question: "What will you be using it for? I'll build you a complete setup first.",
+                explanation: "No kit has been shown in this conversation yet.",
+            };
+            return response;
+        }
+
+        try {
+            const cart = await getCartService().addBundle(ctx.request.session_id, toBundleRequest(bundle));
+            const [primary] = bundle.items;
+            const saving = Number(bundle.discount) > 0 ? ` You're saving ₹${bundle.discount} as a kit.` : '';
+
+            const response: CartActionResponse = {
+                response_type: 'cart_action',
+                action: 'add_bundle',
+                bundle_id: bundle.bundle_id,
+                product_id: primary.product_id,
+                variant_id: primary.variant_id,
+                product_title: bundle.title,
+                acknowledgement: `Added the ${bundle.title} (${bundle.items.length} items) to your cart!${saving} Ready to check out?`,
+                cart
+            };
+            console.log(`🛒 Added bundle ${bundle.bundle_id} to cart`);
+            return response;
+        } catch (error) {
+            if (!(error instanceof CartError)) throw error;
+            console.warn(`🛒 Cart rejected bundle ${bundle.bundle_id}: ${error.message}`);
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: `I couldn't add the ${bundle.title} to your cart.`,
+                clarifying_question: "Part of the kit doesn't seem to be available anymore. Shall I put together a new one?",
+                explanation: error.message,
+            };
+            return response;
+        }
+    }
+};
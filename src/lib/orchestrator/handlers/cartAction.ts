@@ -0,0 +1,88 @@
+/**
+ * Cart Action Stage
+ *
+ * Voice "add it / add the second one": resolves product_index against the
+ * products the user last saw, adds it to the server-side cart and suggests add-ons.
+ * Adding a noticeably lower-fit product than one shown earns a gentle nudge.
+ */
+
+import type { CartActionResponse, ClarificationResponse } from '@/types/chat';
+import type { StageHandler } from '../pipeline';
+import { getRelevantAddons, generateAddonMessage } from '../addonSuggestions';
+import { CartError, getCartService } from '../cartService';
+import { generateAcknowledgment } from '../greetings';
+import { getCorrectionNudge } from '../tradeoffGenerator';
+
+export const cartActionHandler: StageHandler = {
+    name: 'cart_action',
+
+    canHandle(ctx) {
+        return ctx.classification?.cart_action === 'add'
+            && typeof ctx.classification.product_index === 'number';
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence, message, lastProducts } = ctx;
+        const productToAdd = lastProducts[ctx.classification!.product_index!];
+
+        if (!productToAdd) {
+            // No products in context - ask for clarification
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['product_context'],
+                acknowledgement: "I'd love to add that for you!",
+                clarifying_question: "Which product would you like? Could you search for something first?",
+                explanation: "No products available to add to cart.",
+            };
+            return response;
+        }
+
+        let cart;
+        try {
+            cart = await getCartService().addItem(ctx.request.session_id, {
+                product_id: productToAdd.product_id,
+                variant_id: productToAdd.variant_id
+            });
+        } catch (error) {
+            if (!(error instanceof CartError)) throw error;
+            console.warn(`🛒 Cart rejected ${productToAdd.title}: ${error.message}`);
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: `I couldn't add ${productToAdd.title} to your cart.`,
+                clarifying_question: error.code === 'invalid_quantity'
+                    ? "You've reached the maximum quantity for this item. Would you like anything else?"
+                    : "That option doesn't seem to be available anymore. Would you like to see similar products?",
+                explanation: error.message,
+            };
+            return response;
+        }
+
+        // Phase 5: Fetch add-ons compatible with this product and the rest of the cart
+        const addons = await getRelevantAddons(productToAdd.product_id, intent_id, 2, cart.items.map(l => l.product_id));
+        const addonMessage = generateAddonMessage(addons);
+
+        const useCase = ctx.state.session.outcome_context.use_case || intent_id.replace(/_/g, ' ');
+        const correctionMessage = getCorrectionNudge(productToAdd, lastProducts, useCase);
+
+        const cartResponse: CartActionResponse = {
+            response_type: 'cart_action',
+            action: 'add',
+            product_id: productToAdd.product_id,
+            variant_id: cart.items.find(l => l.product_id === productToAdd.product_id)?.variant_id || productToAdd.variant_id || '',
+            product_title: productToAdd.title,
+            acknowledgement: generateAcknowledgment(message, intent_id) + ` Added ${productToAdd.title} to your cart!`
+                + (correctionMessage ? ` ${correctionMessage}` : ''),
+            suggested_addons: addons.length > 0 ? addons : undefined,
+            addon_message: addonMessage || undefined,
+            correction_message: correctionMessage || undefined,
+            cart
+        };
+        console.log(`🛒 Added to cart: ${productToAdd.title}, Add-ons: ${addons.length}${correctionMessage ? ', nudged toward better fit' : ''}`);
+        return cartResponse;
+    }
+};
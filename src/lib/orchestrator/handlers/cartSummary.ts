@@ -0,0 +1,70 @@
+/**
+ * Cart Summary Stage
+ *
+ * "What's in my cart?": prices the server-side cart via a Shopify draft
+ * order so shipping and tax are included.
+ */
+
+import type { CartSummaryResponse, ClarificationResponse } from '@/types/chat';
+import type { StageHandler } from '../pipeline';
+import { createDraftOrderForSummary } from '../shopifyOrders';
+import { getCartService } from '../cartService';
+
+export const cartSummaryHandler: StageHandler = {
+    name: 'cart_summary',
+
+    canHandle(ctx) {
+        return ctx.classification?.cart_action === 'summary';
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence } = ctx;
+        const acknowledgement = ctx.classification!.acknowledgement;
+        const cart = await getCartService().getCart(ctx.request.session_id);
+        const cartItems = cart.items;
+
+        if (cartItems.length === 0) {
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['cart_items'],
+                acknowledgement: "Your cart is empty!",
+                clarifying_question: "Would you like to search for products?",
+                explanation: "No items in cart yet.",
+            };
+            return response;
+        }
+
+        try {
+            // Create draft order to calculate shipping & tax
+            const draftOrderResponse = await createDraftOrderForSummary(cartItems, cart.discount);
+            const draftOrder = draftOrderResponse.draft_order;
+
+            const summaryResponse: CartSummaryResponse = {
+                response_type: 'cart_summary',
+                items: cartItems.map(({ product_id, variant_id, title, price, quantity }) => ({ product_id, variant_id, title, price, quantity })),
+                subtotal: draftOrder.subtotal_price || cart.subtotal,
+                shipping: draftOrder.total_shipping_price_set?.shop_money?.amount || '0',
+                tax: draftOrder.total_tax || '0',
+                total: draftOrder.total_price || '0',
+                currency: 'INR',
+                acknowledgement: acknowledgement || `You have ${cartItems.length} item${cartItems.length > 1 ? 's' : ''} in your cart.`,
+                draft_order_id: draftOrder.id
+            };
+            return summaryResponse;
+        } catch (error) {
+            console.error('Cart summary error:', error);
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: acknowledgement,
+                clarifying_question: "I had trouble calculating your cart total. Would you like to try again?",
+                explanation: "Error creating draft order for summary.",
+            };
+            return response;
+        }
+    }
+};
@@ -0,0 +1,130 @@
+/**
+ * Cart Update Stage
+ *
+ * Conversational cart edits ("remove the tripod", "make that two", "the black
+ * one instead", "empty my cart"): resolves cart_item_index against the
+ * server-side cart and applies the edit through the CartService.
+ */
+
+import type { CartUpdateResponse, ClarificationResponse } from '@/types/chat';
+import type { StageHandler, TurnContext } from '../pipeline';
+import { CART_EDIT_ACTIONS, CartEditAction } from '../classificationSchema';
+import { CartError, CartLine, CartSnapshot, getCartService, listProductVariants } from '../cartService';
+
+function isCartEdit(action: unknown): action is CartEditAction {
+    return CART_EDIT_ACTIONS.includes(action as CartEditAction);
+}
+
+function clarify(ctx: TurnContext, acknowledgement: string, clarifying_question: string, explanation: string): ClarificationResponse {
+    return {
+        response_type: 'clarification',
+        intent_id: ctx.intentId,
+        confidence: ctx.confidence,
+        missing_info: ['cart_item'],
+        acknowledgement,
+        clarifying_question,
+        explanation,
+    };
+}
+
+/**
+ * Match a spoken option ("black", "64gb") against a product's variants
+ */
+async function findVariantByHint(line: CartLine, hint: string) {
+    const wanted = hint.trim().toLowerCase();
+    const variants = (await listProductVariants(line.product_id)).filter(v => v.variant_id !== line.variant_id);
+    return variants.find(v => v.option.toLowerCase() === wanted)
+        || variants.find(v => v.option.toLowerCase().includes(wanted))
+        || null;
+}
+
+export const cartUpdateHandler: StageHandler = {
+    name: 'cart_update',
+
+    canHandle(ctx) {
+        return isCartEdit(ctx.classification?.cart_action);
+    },
+
+    async handle(ctx) {
+        const classification = ctx.classification!;
+        const action = classification.cart_action as CartEditAction;
+        const sessionId = ctx.request.session_id;
+        const cartService = getCartService();
+        const items = (ctx.cart || await cartService.getCart(sessionId)).items;
+
+        if (items.length === 0) {
+            return clarify(ctx, "Your cart is empty!", "Would you like to search for products?", "No items in cart to edit.");
+        }
+
+        const respond = (cart: CartSnapshot, acknowledgement: string, line?: CartLine, quantity?: number): CartUpdateResponse => ({
+            response_type: 'cart_update',
+            action,
+            product_id: line?.product_id,
+            variant_id: line?.variant_id,
+            product_title: line?.title,
+            quantity,
+            cart,
+            acknowledgement
+        });
+
+        if (action === 'clear') {
+            const cart = await cartService.clear(sessionId);
+            console.log(`🛒 Cart cleared (${items.length} lines)`);
+            return respond(cart, "Done, I've emptied your cart.");
+        }
+
+        // "that" / "it" without an index means the most recently added line
+        const index = classification.cart_item_index ?? items.length - 1;
+        const line = items[index];
+        if (!line) {
+            return clarify(ctx, "I'm not sure which item you mean.", "Which item in your cart would you like to change?", `No cart line at index ${index}.`);
+        }
+
+        try {
+            if (action === 'remove') {
+                const cart = await cartService.removeItem(sessionId, line.variant_id);
+                console.log(`🛒 Removed from cart: ${line.title}`);
+                return respond(cart, `Removed ${line.title} from your cart.`, line);
+            }
+
+            if (action === 'set_quantity') {
+                const quantity = classification.quantity ?? 1;
+                const cart = await cartService.updateQuantity(sessionId, line.variant_id, quantity);
+                console.log(`🛒 Quantity of ${line.title} → ${quantity}`);
+                return respond(
+                    cart,
+                    quantity === 0 ? `Removed ${line.title} from your cart.` : `Updated ${line.title} to ${quantity} in your cart.`,
+                    line,
+                    quantity
+                );
+            }
+
+            // swap_variant
+            const hint = classification.variant_hint || '';
+            const variant = await findVariantByHint(line, hint);
+            if (!variant) {
+                return clarify(
+                    ctx,
+                    `I couldn't find ${line.title} in "${hint}".`,
+                    "Which option would you like instead?",
+                    `No variant of ${line.product_id} matches "${hint}".`
+                );
+            }
+            const cart = await cartService.swapVariant(sessionId, line.variant_id, variant.variant_id);
+            const swapped = cart.items.find(l => l.variant_id === variant.variant_id);
+            console.log(`🛒 Swapped ${line.title} → ${variant.title}`);
+            return respond(cart, `Switched to ${variant.title}.`, swapped);
+        } catch (error) {
+            if (!(error instanceof CartError)) throw error;
+            console.warn(`🛒 Cart rejected ${action} on ${line.title}: ${error.message}`);
+            return clarify(
+                ctx,
+                `I couldn't update ${line.title}.`,
+                error.code === 'invalid_quantity'
+                    ? "That quantity isn't available. How many would you like?"
+                    : "That option doesn't seem to be available. Would you like something else?",
+                error.message
+            );
+        }
+    }
+};
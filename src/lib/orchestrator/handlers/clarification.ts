@@ -0,0 +1,241 @@
+/**
+ * Clarification Stages
+ *
+ * - imageFeedback: user rejected or wants to refine the outcome images; their
+ *   feedback updates the visual preferences and the rejected variants are
+ *   regenerated as a background job (like the first round, see imageJobs.ts),
+ *   or (with nothing to act on) a clarifying question is asked
+ * - clarification: confidence too low, or the classifier asked a question
+ */
+
+import type { ClarificationResponse, ImageGenerationResponse } from '@/types/chat';
+import type { ImageAttempt } from '@/types/session';
+import type { StageHandler, TurnContext } from '../pipeline';
+import { updatePhase, incrementClarificationAttempts } from '../conversationState';
+import { getLLMClient } from '@/lib/llm';
+import { getImageJobService } from '../imageJobs';
+import { withSession } from '../sessionStore';
+import { applyImageFeedback, generateOutcomeImages, GeneratedImage, IMAGE_VARIANT_FOCUS } from '@/lib/agents/imageGenerator';
+
+// Rounds of images per session, the first generation included
+const MAX_IMAGE_ATTEMPTS = 4;
+
+const ALL_VARIANTS = Object.keys(IMAGE_VARIANT_FOCUS) as GeneratedImage['variant_id'][];
+
+// reject: every variant; refine: the ones named, else all but the one the user picked
+function variantsToRegenerate(ctx: TurnContext): GeneratedImage['variant_id'][] {
+    const { action, rejected_variants, selected_variant } = ctx.request;
+    if (action === 'reject_images') return ALL_VARIANTS;
+    const named = ALL_VARIANTS.filter(id => rejected_variants?.includes(id));
+    if (named.length > 0) return named;
+    const others = ALL_VARIANTS.filter(id => id !== selected_variant);
+    return others.length > 0 ? others : ALL_VARIANTS;
+}
+
+function describeRegenerated(variants: string[]): string {
+    if (variants.length === ALL_VARIANTS.length) return "I'm drawing a fresh set.";
+    return variants.length === 1 ? "I'm redoing the image you didn't like." : `I'm redoing the ${variants.length} images you didn't pick.`;
+}
+
+// Once the job is done, swap the regenerated variants into the images the user is choosing from
+async function recordRegeneratedImages(sessionId: string, jobId: string, images: GeneratedImage[]): Promise<void> {
+    await withSession(sessionId, async (record) => {
+        // A newer round of images (or a new session) replaced this job
+        if (record.session.image_job_id !== jobId) return { record, result: undefined };
+
+        const regenerated = images.map(image => image.variant_id);
+        const shown = (record.session.last_images || []).filter(image => !regenerated.includes(image.variant_id));
+        return {
+            record: {
+                ...record,
+                session: {
+                    ...record.session,
+                    last_images: [...shown, ...images.map(({ variant_id, focus, caption, interpretation }) => ({ variant_id, focus, caption, interpretation }))]
+                        .sort((a, b) => a.variant_id.localeCompare(b.variant_id))
+                }
+            },
+            result: undefined
+        };
+    }, undefined, { retryOnConflict: true });
+}
+
+// Regenerate the rejected variants with the updated preferences as a background job (null if it can't be started)
+async function regenerateImages(ctx: TurnContext, changes: string[], preferences: ImageAttempt['visual_preferences']): Promise<ImageGenerationResponse | null> {
+    const outcomeContext = { ...ctx.state.session.outcome_context, visual_preferences: preferences };
+    const variants = variantsToRegenerate(ctx);
+    const sessionId = ctx.request.session_id;
+
+    let jobId: string;
+    try {
+        const job = await getImageJobService().start(
+            sessionId,
+            signal => generateOutcomeImages(outcomeContext, variants, signal),
+            (images, job) => recordRegeneratedImages(sessionId, job.job_id, images)
+        );
+        jobId = job.job_id;
+    } catch (error) {
+        console.error('Image regeneration could not be started:', error);
+        return null;
+    }
+
+    const attempts = ctx.state.session.image_attempts || [];
+    ctx.state.session = {
+        ...ctx.state.session,
+        outcome_context: outcomeContext,
+        image_job_id: jobId,
+        image_attempts: [...attempts, {
+            attempt: attempts.length + 1,
+            action: ctx.request.action as ImageAttempt['action'],
+            feedback: ctx.message,
+            variants,
+            visual_preferences: preferences,
+            created_at: new Date().toISOString()
+        }]
+    };
+    console.log(`🎨 Image job ${jobId} regenerating ${variants.join(', ')} (attempt ${attempts.length + 1}): ${changes.join(', ')}`);
+
+    return {
+        response_type: 'image_generation',
+        intent_id: ctx.intentId,
+        outcome_description: outcomeContext.desired_outcome || ctx.intentId,
+        images: [],
+        job_id: jobId,
+        regenerated_variants: variants,
+        cached_products: ctx.state.session.pre_fetched_products,
+        acknowledgement: `Got it: ${changes.join(', ')}. ${describeRegenerated(variants)} Let's see if they're closer to what you had in mind.`,
+        explanation: `Regenerated with your feedback: ${changes.join(', ')}`,
+        inferred_persona: ctx.persona
+    };
+}
+
+// PHASE 5: HANDLE IMAGE REJECTION/REFINEMENT - Intent Clarification
+export const imageFeedbackHandler: StageHandler = {
+    name: 'image_feedback',
+
+    canHandle(ctx) {
+        const classification = ctx.classification;
+        // VoiceMode marks every message refine_images while the picker is open: "add the first one" is still a cart turn
+        const otherRequest = !!classification && (!!classification.cart_action || !!classification.order_query
+            || (classification.compare_indices?.length ?? 0) >= 2 || !!classification.bundle_request);
+        return classification !== null && !otherRequest
+            && (ctx.request.action === 'reject_images' || ctx.request.action === 'refine_images');
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence } = ctx;
+        const clarificationCount = ctx.state.conversation.clarification_attempts;
+        const actionType = ctx.request.action === 'reject_images' ? 'rejected' : 'wants to refine';
+        const imageAttempts = ctx.state.session.image_attempts?.length || 0;
+        console.log(`📝 User ${actionType} images (attempt ${clarificationCount + 1}, ${imageAttempts} image round(s))`);
+
+        // Check max clarification attempts
+        if (clarificationCount >= 2 || imageAttempts >= MAX_IMAGE_ATTEMPTS) {
+            console.log('⚠️ Max clarification attempts reached');
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: "I'm having trouble understanding your needs visually.",
+                clarifying_question: "Would you like to describe what you're looking for in detail, or should I show you product options directly?",
+                explanation: "Maximum clarification attempts reached.",
+                clarification_count: clarificationCount
+            };
+            return response;
+        }
+
+        // Feedback we can act on: new visuals for the rejected variants
+        const { preferences, changes } = applyImageFeedback(ctx.state.session.outcome_context.visual_preferences, ctx.message);
+        if (changes.length > 0 && ctx.state.session.outcome_context.desired_outcome) {
+            const regenerated = await regenerateImages(ctx, changes, preferences);
+            if (regenerated) return regenerated;
+        }
+        ctx.state.conversation = updatePhase(incrementClarificationAttempts(ctx.state.conversation), 'clarification');
+
+        // Ask LLM to generate clarifying question about THE INTENT
+        const currentOutcome = ctx.classification?.outcome_description || intent_id;
+        const useCase = ctx.state.session.outcome_context?.use_case || '';
+        const clarificationPrompt = `
+        The user ${actionType} the visual representations of their intended outcome.
+        Current understanding:
+        - Intent: ${intent_id}
+        - Outcome: ${currentOutcome}
+        - Use case: ${useCase}
+        The user's actual intent may differ from our current understanding. Generate a targeted clarifying question to better understand:
+        1. What specific outcome/result they actually want to achieve
+        2. The exact context or scenario they have in mind
+        3. Any misunderstanding about their use case or requirements
+        Focus on understanding their INTENT and CONTEXT better, not visual preferences.
+        Examples of good questions:
+        - "Are you using this professionally or personally?"
+        - "What specific scenario do you have in mind?"
+        - "Is this for indoor or outdoor use?"
+        - "Are you looking for portability or high performance?"
+        - "Will this be for daily use or special occasions?"
+        Generate a natural, conversational clarifying question that will help us understand their true intent.
+        `;
+
+        try {
+            const generatedQuestion = await getLLMClient().generateText(clarificationPrompt, {
+                label: 'image_rejection_clarifier',
+                temperature: 1.0,
+                maxOutputTokens: 150
+            });
+            const clarifyingQuestion = generatedQuestion.trim() ||
+                "Can you tell me more about what you're looking for and how you plan to use it?";
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['intent_context', 'use_case_details'],
+                acknowledgement: "Let me understand better what you're looking for.",
+                clarifying_question: clarifyingQuestion,
+                explanation: "Refining understanding of user's actual intent.",
+                clarification_count: ctx.state.conversation.clarification_attempts
+            };
+            console.log(`💬 Clarifying question: "${clarifyingQuestion}"`);
+            return response;
+        } catch (error) {
+            console.error('Failed to generate clarifying question:', error);
+            // Fallback clarifying question
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['intent_details'],
+                acknowledgement: "Let me make sure I understand correctly.",
+                clarifying_question: "Can you describe in more detail what you're looking for and how you plan to use it?",
+                explanation: "Clarifying user intent.",
+                clarification_count: ctx.state.conversation.clarification_attempts
+            };
+            return response;
+        }
+    }
+};
+
+// 2. Determine state: Clarification vs Recommendation
+export const clarificationHandler: StageHandler = {
+    name: 'clarification',
+
+    canHandle(ctx) {
+        if (!ctx.classification) return false;
+        const question = ctx.classification.clarifying_question;
+        return ctx.confidence < 0.7 || !!(question && question.trim().length > 0);
+    },
+
+    async handle(ctx) {
+        const classification = ctx.classification!;
+        ctx.state.conversation = updatePhase(incrementClarificationAttempts(ctx.state.conversation), 'clarification');
+        const response: ClarificationResponse = {
+            response_type: 'clarification',
+            intent_id: ctx.intentId,
+            confidence: ctx.confidence,
+            missing_info: classification.missing_info,
+            acknowledgement: classification.acknowledgement || "I understood that.",
+            clarifying_question: classification.clarifying_question || "Could you tell me more?",
+            explanation: classification.explanation || "I need a bit more detail to help you best.",
+            clarification_count: ctx.state.conversation.clarification_attempts
+        };
+        return response;
+    }
+};
@@ -0,0 +1,57 @@
+/**
+ * Comparison Stage
+ *
+ * "Which of these two is better for low light?": compares products the user
+ * last saw side by side instead of returning another recommendation.
+ */
+
+import type { ClarificationResponse, ComparisonResponse } from '@/types/chat';
+import type { StageHandler } from '../pipeline';
+import { compareProducts } from '../comparison';
+
+export const comparisonHandler: StageHandler = {
+    name: 'comparison',
+
+    canHandle(ctx) {
+        return (ctx.classification?.compare_indices?.length ?? 0) >= 2;
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence, message, persona, lastProducts } = ctx;
+        const products = ctx.classification!.compare_indices!
+            .map(i => lastProducts[i])
+            .filter(Boolean);
+
+        if (products.length < 2) {
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['product_context'],
+                acknowledgement: "Happy to compare options for you!",
+                clarifying_question: "Which products would you like me to compare? Let me show you a few first.",
+                explanation: "Fewer than two shown products to compare.",
+            };
+            return response;
+        }
+
+        try {
+            const comparison = await compareProducts(products, intent_id, persona, message);
+            const response: ComparisonResponse = {
+                response_type: 'comparison',
+                intent_id,
+                confidence,
+                products: comparison.products,
+                capabilities: comparison.capabilities,
+                summary: comparison.summary,
+                acknowledgement: ctx.classification!.acknowledgement || "Let's put them side by side."
+            };
+            console.log(`⚖️ Compared ${products.length} products on ${comparison.capabilities.length} capabilities`);
+            return response;
+        } catch (error) {
+            // Fall through to a regular recommendation
+            console.error('Comparison failed:', error);
+            return null;
+        }
+    }
+};
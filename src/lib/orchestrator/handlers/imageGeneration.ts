@@ -0,0 +1,107 @@
+/**
+ * Image Generation Stage
+ *
+ * PHASE 4: BACKGROUND IMAGES - Fetch products now, render images as a job.
+ * Triggers when ready_for_image_generation is true AND confidence is medium or high (≥0.6).
+ * Answers at once with a pending image_generation response carrying the job id;
+ * the client polls for the images and shows the cached products if they never come.
+ * Passes (returns null) when the job can't be started, so products are shown instead.
+ */
+
+import type { ImageGenerationResponse } from '@/types/chat';
+import type { OutcomeContext } from '@/types/session';
+import type { StageHandler } from '../pipeline';
+import { getTopProducts } from '../productService';
+import { getOwnedProductIds } from '../customerProfiles';
+import { generateAcknowledgment } from '../greetings';
+import { getImageJobService } from '../imageJobs';
+import { withSession } from '../sessionStore';
+import { GeneratedImage, generateOutcomeImages } from '@/lib/agents/imageGenerator';
+
+// Once the job is done, remember what each variant meant, so accepting one can steer the ranking
+async function recordOutcomeImages(sessionId: string, jobId: string, images: GeneratedImage[], outcomeContext: OutcomeContext): Promise<void> {
+    await withSession(sessionId, async (record) => {
+        // A newer round of images (or a new session) replaced this job
+        if (record.session.image_job_id !== jobId) return { record, result: undefined };
+
+        return {
+            record: {
+                ...record,
+                session: {
+                    ...record.session,
+                    last_images: images.map(({ variant_id, focus, caption, interpretation }) => ({ variant_id, focus, caption, interpretation })),
+                    image_attempts: [{
+                        attempt: 1,
+                        action: 'generate',
+                        variants: images.map(image => image.variant_id),
+                        visual_preferences: outcomeContext.visual_preferences,
+                        created_at: new Date().toISOString()
+                    }]
+                }
+            },
+            result: undefined
+        };
+    }, undefined, { retryOnConflict: true });
+}
+
+export const imageGenerationHandler: StageHandler = {
+    name: 'image_generation',
+
+    canHandle(ctx) {
+        // Image actions respond to images already shown (see imageAccepted / imageFeedback)
+        if (!ctx.classification || ctx.request.action) return false;
+        const level = ctx.confidenceLevel.level;
+        const ready = !!ctx.classification.ready_for_image_generation;
+        console.log("🔍 IMAGE CHECK:", { level, ready, willTrigger: (level === 'high' || level === 'medium') && ready });
+        return (level === 'high' || level === 'medium') && ready;
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, message, persona, greetingPrefix } = ctx;
+        const outcomeContext = ctx.state.session.outcome_context;
+        const sessionId = ctx.request.session_id;
+
+        let jobId: string;
+        try {
+            const job = await getImageJobService().start(
+                sessionId,
+                signal => generateOutcomeImages(outcomeContext, undefined, signal),
+                (images, job) => recordOutcomeImages(sessionId, job.job_id, images, outcomeContext)
+            );
+            jobId = job.job_id;
+        } catch (error) {
+            console.error('Image job could not be started:', error);
+            console.warn('⚠️  Image generation unavailable, showing products directly');
+            return null;
+        }
+
+        // Products are cached for instant display on accept (or if the images never arrive)
+        const products = await getTopProducts(intent_id, 0, 3, message, outcomeContext.constraints, getOwnedProductIds(ctx.profile)).catch(err => {
+            console.error('Product pre-fetch failed:', err);
+            return []; // Return empty, will fetch on accept
+        });
+
+        const response: ImageGenerationResponse = {
+            response_type: 'image_generation',
+            intent_id,
+            outcome_description: outcomeContext.desired_outcome || intent_id,
+            images: [],
+            job_id: jobId,
+            cached_products: products,
+            acknowledgement: greetingPrefix + generateAcknowledgment(message, intent_id) + " I'm visualizing your outcome in 3 ways. Which best represents what you're looking for?",
+            explanation: `These images show different perspectives of your goal: ${outcomeContext.desired_outcome}`,
+            inferred_persona: persona // Pass persona to frontend
+        };
+
+        ctx.state.session = {
+            ...ctx.state.session,
+            pre_fetched_products: products,
+            image_job_id: jobId,
+            last_images: undefined,
+            image_attempts: undefined
+        };
+
+        console.log(`🎨 Image job ${jobId} started with ${products.length} cached products`);
+        return response;
+    }
+};
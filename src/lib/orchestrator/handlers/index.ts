@@ -0,0 +1,54 @@
+/**
+ * Stage Handler Registry
+ *
+ * Order matters: the first handler that can handle the turn and responds wins.
+ * To add a flow, write a StageHandler and insert it at the right priority.
+ */
+
+import type { StageHandler } from '../pipeline';
+import { strategySwitchHandler, imageAcceptedHandler, recommendationHandler } from './recommendation';
+import { imageGenerationHandler } from './imageGeneration';
+import { imageFeedbackHandler, clarificationHandler } from './clarification';
+import { comparisonHandler } from './comparison';
+import { bundleHandler, bundleCartHandler } from './bundle';
+import { cartActionHandler } from './cartAction';
+import { cartUpdateHandler } from './cartUpdate';
+import { cartSummaryHandler } from './cartSummary';
+import { orderPlacedHandler } from './orderPlaced';
+import { orderVerificationHandler, orderStatusHandler } from './orderStatus';
+
+export {
+    orderVerificationHandler,
+    strategySwitchHandler,
+    imageGenerationHandler,
+    imageAcceptedHandler,
+    imageFeedbackHandler,
+    comparisonHandler,
+    bundleHandler,
+    bundleCartHandler,
+    cartActionHandler,
+    cartUpdateHandler,
+    cartSummaryHandler,
+    orderPlacedHandler,
+    orderStatusHandler,
+    clarificationHandler,
+    recommendationHandler
+};
+
+export const DEFAULT_STAGE_HANDLERS: StageHandler[] = [
+    orderVerificationHandler,   // Only while an order lookup code is awaited
+    strategySwitchHandler,
+    imageGenerationHandler,
+    imageAcceptedHandler,
+    imageFeedbackHandler,
+    comparisonHandler,
+    bundleHandler,
+    bundleCartHandler,
+    cartActionHandler,
+    cartUpdateHandler,
+    cartSummaryHandler,
+    orderPlacedHandler,
+    orderStatusHandler,
+    clarificationHandler,
+    recommendationHandler   // Terminal: always handles
+];
@@ -0,0 +1,203 @@
+/**
+ * Order Placement Stage
+ *
+ * "Place my order": asks how the user wants to pay (only methods eligible for
+ * the order total and delivery pincode are offered), collects payment through
+ * the gateway and places the order through the order service, the same path
+ * as /api/checkout (which also empties the cart).
+ */
+
+import type { ClarificationResponse, OrderPlacedResponse } from '@/types/chat';
+import type { StageHandler, TurnContext } from '../pipeline';
+import { getCartService } from '../cartService';
+import { getOrderService, isSameCustomer, OrderError, priceOrder } from '../orderService';
+import { generateAcknowledgment } from '../greetings';
+import { generatePaymentModeQuestion } from '../addonSuggestions';
+import { getCustomerProfileService } from '../customerProfiles';
+import {
+    describePaymentMethods,
+    getEligiblePaymentMethods,
+    getIneligibilityReason,
+    getPaymentGateway,
+    getPaymentMethod,
+    isPaymentSettled,
+    PaymentError,
+    PaymentMethod
+} from '@/lib/payments';
+
+// "Would you like to pay with UPI or card instead?"
+function suggestOtherMethods(methods: PaymentMethod[]): string {
+    return methods.length > 0 ? `Would you like to pay with ${describePaymentMethods(methods)} instead?` : generatePaymentModeQuestion(methods);
+}
+
+function paymentClarification(ctx: TurnContext, acknowledgement: string, question: string, explanation: string): ClarificationResponse {
+    return {
+        response_type: 'clarification',
+        intent_id: ctx.intentId,
+        confidence: ctx.confidence,
+        missing_info: ['payment_method'],
+        acknowledgement,
+        clarifying_question: question,
+        explanation,
+    };
+}
+
+export const orderPlacedHandler: StageHandler = {
+    name: 'order_placed',
+
+    canHandle(ctx) {
+        return ctx.classification?.cart_action === 'place_order';
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence, message } = ctx;
+        const acknowledgement = ctx.classification!.acknowledgement;
+        const cart = await getCartService().getCart(ctx.request.session_id);
+        const cartItems = cart.items;
+        const address = ctx.request.address;
+
+        if (cartItems.length === 0) {
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['cart_items'],
+                acknowledgement: "Your cart is empty!",
+                clarifying_question: "You need to add items before placing an order. Would you like to search for products?",
+                explanation: "No items to order.",
+            };
+            return response;
+        }
+
+        if (!address) {
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['address'],
+                acknowledgement: "I'll need your delivery address.",
+                clarifying_question: "Please provide your delivery address including street, city, state, and PIN code.",
+                explanation: "Need address for order placement.",
+            };
+            return response;
+        }
+
+        // Payment method: picked this turn, or remembered from an earlier one
+        const quote = priceOrder(cart);
+        const eligibility = { amount: Number(quote.total), pincode: address.zip };
+        const eligible = getEligiblePaymentMethods(eligibility);
+        const methodId = ctx.classification!.payment_method || ctx.state.session.payment_method;
+
+        if (!methodId) {
+            return paymentClarification(ctx, "Almost there!", generatePaymentModeQuestion(eligible), "Need a payment method for order placement.");
+        }
+
+        const method = getPaymentMethod(methodId);
+        const ineligible = getIneligibilityReason(method, eligibility);
+        if (ineligible) {
+            ctx.state.session = { ...ctx.state.session, payment_method: undefined };
+            return paymentClarification(
+                ctx,
+                ineligible,
+                suggestOtherMethods(eligible),
+                `${method.label} is not eligible for this order.`
+            );
+        }
+        ctx.state.session = { ...ctx.state.session, payment_method: methodId };
+
+        // Same cart version → same payment and order if this turn is retried
+        const idempotencyKey = `voice:${ctx.request.session_id}:${cart.updated_at}`;
+
+        try {
+            // Collect payment for the order total (COD is settled on delivery)
+            const gateway = getPaymentGateway();
+            let intent = await gateway.createIntent({
+                method: methodId,
+                amount: Number(quote.total),
+                currency: quote.currency,
+                pincode: address.zip,
+                reference: ctx.request.session_id,
+                idempotency_key: idempotencyKey
+            });
+            if (intent.status === 'requires_confirmation') {
+                intent = await gateway.confirmIntent(intent.intent_id);
+            }
+            if (!isPaymentSettled(intent)) {
+                ctx.state.session = { ...ctx.state.session, payment_method: undefined };
+                return paymentClarification(
+                    ctx,
+                    intent.failure_reason || `Your ${method.label} payment didn't go through.`,
+                    suggestOtherMethods(eligible.filter(m => m.id !== methodId)),
+                    'Payment failed, order not placed.'
+                );
+            }
+
+            // A rejected order voids the payment, so the next attempt pays afresh
+            const { order, replayed } = await getOrderService().placeOrder({
+                session_id: ctx.request.session_id,
+                idempotency_key: idempotencyKey,
+                customer: {
+                    full_name: [address.first_name, address.last_name].filter(Boolean).join(' '),
+                    email: address.email,
+                    phone: address.phone
+                },
+                shipping_address: {
+                    line1: address.address1,
+                    city: address.city,
+                    state: address.province,
+                    pincode: address.zip,
+                    country: address.country || 'IN'
+                },
+                payment_intent_id: intent.intent_id
+            });
+            // The voice address may be the client's default: only a customer who gave these details themselves gets the order on their profile
+            const customer = ctx.state.session.customer;
+            if (!replayed && customer && isSameCustomer(customer, order.customer)) {
+                await getCustomerProfileService().recordOrder(order).catch(error => console.warn('Customer profile update skipped:', error));
+            }
+
+            const orderResponse: OrderPlacedResponse = {
+                response_type: 'order_placed',
+                order_id: order.order_id,
+                order_number: order.order_number,
+                total: order.total,
+                currency: order.currency,
+                payment_method: order.payment.method,
+                payment_status: order.payment.status,
+                payment_intent_id: order.payment.intent_id,
+                acknowledgement: generateAcknowledgment(message, intent_id) + ` Order placed successfully with ${method.spoken}! Your order #${order.order_number} will arrive soon.`
+            };
+            return orderResponse;
+        } catch (error) {
+            if (error instanceof OrderError) {
+                console.warn(`🧾 Order rejected: ${error.message}`);
+                const response: ClarificationResponse = {
+                    response_type: 'clarification',
+                    intent_id,
+                    confidence,
+                    missing_info: [],
+                    acknowledgement: "I couldn't place your order.",
+                    clarifying_question: `${error.message} Would you like to review your cart?`,
+                    explanation: `Order rejected (${error.code}).`,
+                };
+                return response;
+            }
+            if (error instanceof PaymentError) {
+                console.warn(`💳 Payment rejected: ${error.message}`);
+                ctx.state.session = { ...ctx.state.session, payment_method: undefined };
+                return paymentClarification(ctx, error.message, suggestOtherMethods(eligible.filter(m => m.id !== methodId)), 'Payment could not be started.');
+            }
+            console.error('Order placement error:', error);
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: acknowledgement,
+                clarifying_question: "I had trouble placing your order. Would you like to try again?",
+                explanation: "Error placing the order.",
+            };
+            return response;
+        }
+    }
+};
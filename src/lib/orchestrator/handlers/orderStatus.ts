@@ -0,0 +1,126 @@
+/**
+ * Order Status Stage
+ *
+ * "Where is my order?" / "What did I buy last time?": looks the user's orders
+ * up by the email or phone they gave (now or earlier in the session) and
+ * answers with their line items and fulfilment state.
+ *
+ * Orders are only disclosed for an email or phone the user has proven this
+ * session: the first lookup sends a code (customerVerification.ts) and the
+ * answer comes once the code is entered.
+ */
+
+import type { ClarificationResponse, OrderStatusResponse } from '@/types/chat';
+import type { StageHandler, TurnContext } from '../pipeline';
+import type { CustomerIdentity } from '../orderService';
+import type { OrderQuery } from '../classificationSchema';
+import { lookupOrders, summarizeOrders } from '../orderStatus';
+import { checkVerificationCode, extractVerificationCode, matchVerifiedIdentity, startVerification } from '../customerVerification';
+
+const HISTORY_LIMIT = 5;
+
+function clarification(ctx: TurnContext, missing: string, acknowledgement: string, question: string, explanation: string): ClarificationResponse {
+    return {
+        response_type: 'clarification',
+        intent_id: ctx.intentId,
+        confidence: ctx.confidence,
+        missing_info: [missing],
+        acknowledgement,
+        clarifying_question: question,
+        explanation,
+    };
+}
+
+async function answerOrders(ctx: TurnContext, identity: CustomerIdentity, query: OrderQuery): Promise<OrderStatusResponse> {
+    const orders = await lookupOrders(identity, query === 'status' ? 1 : HISTORY_LIMIT);
+    console.log(`📦 Order ${query} lookup: ${orders.length} order(s)`);
+
+    return {
+        response_type: 'order_status',
+        intent_id: ctx.intentId,
+        query,
+        orders,
+        acknowledgement: ctx.greetingPrefix + (ctx.classification?.acknowledgement || 'Let me check your orders.'),
+        summary: orders.length > 0
+            ? summarizeOrders(orders, query)
+            : `I couldn't find any orders for ${identity.email || identity.phone}. Did you use a different email or phone number?`
+    };
+}
+
+// The user reads back the code sent for their order lookup
+export const orderVerificationHandler: StageHandler = {
+    name: 'order_verification',
+
+    canHandle(ctx) {
+        return !!ctx.state.session.customer_verification && !!extractVerificationCode(ctx.message);
+    },
+
+    async handle(ctx) {
+        const { query, ...challenge } = ctx.state.session.customer_verification!;
+        const result = checkVerificationCode(challenge, extractVerificationCode(ctx.message)!);
+        console.log(`🔐 Verification code for order ${query}: ${result}`);
+
+        if (result === 'wrong_code') {
+            ctx.state.session = {
+                ...ctx.state.session,
+                customer_verification: { ...challenge, query, attempts: challenge.attempts + 1 }
+            };
+            return clarification(ctx, 'verification_code', "Hmm, that code doesn't match.", "Could you check the code and read it to me again?", 'Wrong verification code.');
+        }
+
+        if (result === 'expired') {
+            ctx.state.session = { ...ctx.state.session, customer_verification: undefined };
+            return clarification(ctx, 'customer_email', "That code has expired.", "Tell me your email or phone number again and I'll send a new one.", 'Verification code expired or too many attempts.');
+        }
+
+        ctx.state.session = {
+            ...ctx.state.session,
+            customer_verification: undefined,
+            verified_customer: challenge.identity,
+            customer: { ...ctx.state.session.customer, ...challenge.identity }
+        };
+        return answerOrders(ctx, challenge.identity, ctx.classification?.order_query || query);
+    }
+};
+
+export const orderStatusHandler: StageHandler = {
+    name: 'order_status',
+
+    canHandle(ctx) {
+        return !!ctx.classification?.order_query && !ctx.classification.cart_action;
+    },
+
+    async handle(ctx) {
+        const classification = ctx.classification!;
+        const query = classification.order_query!;
+
+        // Details given this turn win over remembered ones
+        const known = ctx.state.session.customer || {};
+        const identity: CustomerIdentity = {
+            email: classification.customer_email || known.email,
+            phone: classification.customer_phone || known.phone
+        };
+
+        if (!identity.email && !identity.phone) {
+            return clarification(ctx, 'customer_email', "Sure, let me look that up.", "What email address or phone number did you use for the order?", "Need the customer's email or phone to find their orders.");
+        }
+        ctx.state.session = { ...ctx.state.session, customer: identity };
+
+        const verified = matchVerifiedIdentity(ctx.state.session.verified_customer, identity);
+        if (verified) return answerOrders(ctx, verified, query);
+
+        // Prove the email or phone belongs to the user before showing its orders
+        const challenge = await startVerification(identity);
+        if (!challenge) {
+            return clarification(ctx, 'customer_email', "I need to confirm it's you first.", "I can't send a code there right now. What email address did you use for the order?", 'Verification code could not be sent.');
+        }
+        ctx.state.session = { ...ctx.state.session, customer_verification: { ...challenge, query } };
+        return clarification(
+            ctx,
+            'verification_code',
+            "Sure, I just need to confirm it's you.",
+            `I've sent a 6-digit code to ${challenge.identity.email || challenge.identity.phone}. What's the code?`,
+            'Order details are only shared once the email or phone is verified.'
+        );
+    }
+};
@@ -0,0 +1,246 @@
+/**
+ * Recommendation Stages
+ *
+ * - strategySwitch: after 3 clarification attempts, show best-guess products
+ * - imageAccepted: user picked an outcome image, show (cached) products
+ *   re-ranked toward what that image emphasizes (or, when the images never
+ *   arrived, the cached products as they are)
+ * - recommendation: default terminal stage (also serves pagination bypass)
+ */
+
+import type { ClarificationResponse, PresentationProduct, RecommendationResponse } from '@/types/chat';
+import type { ShownImage } from '@/types/session';
+import type { StageHandler, TurnContext } from '../pipeline';
+import { getTopProducts, getTopProductsWithReport, EnrichedProduct } from '../productService';
+import { updatePhase, resetClarificationAttempts, shouldSwitchStrategy, getProductCountForPersona } from '../conversationState';
+import { getDecisionFrame } from '../tradeoffGenerator';
+import { handleNoProductScenario } from '../noProductHandler';
+import { generatePresentation, toRankedProducts } from '../presentation';
+import { generateAcknowledgment } from '../greetings';
+import { getBudgetNote } from '../budget';
+import { describeEliminations } from '../hardConstraints';
+import { getOwnedProductIds } from '../customerProfiles';
+import { rankByImagePreference } from '../imagePreference';
+import { GeneratedImage, IMAGE_VARIANT_FOCUS } from '@/lib/agents/imageGenerator';
+
+// Remember what was shown so "add the second one" resolves server-side
+function enterRecommendationPhase(ctx: TurnContext, shownProducts: EnrichedProduct[]): void {
+    ctx.state.conversation = updatePhase(resetClarificationAttempts(ctx.state.conversation), 'recommendation');
+    ctx.state.session = { ...ctx.state.session, last_products: toRankedProducts(shownProducts) };
+}
+
+// AARAV PHASE 2: STRATEGY SWITCHING - Max clarification turns check (3 max)
+// After 3 attempts, SWITCH STRATEGY: show products instead of asking more questions
+export const strategySwitchHandler: StageHandler = {
+    name: 'strategy_switch',
+
+    canHandle(ctx) {
+        return ctx.classification !== null
+            && shouldSwitchStrategy(ctx.state.conversation)
+            && ctx.confidenceLevel.level !== 'high';
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence, message, persona, greetingPrefix } = ctx;
+        const constraints = ctx.state.session.outcome_context.constraints;
+        console.log('⚠️ Max clarification attempts reached (3), switching to product-first strategy');
+
+        // Strategy switch: Fetch and show products based on best-guess intent
+        try {
+            const topProducts = await getTopProducts(intent_id, 0, getProductCountForPersona(persona), message, constraints, getOwnedProductIds(ctx.profile));
+
+            if (topProducts.length > 0) {
+                // Show products with context-aware messaging
+                const presentation = await generatePresentation(intent_id, message, topProducts, 0, ctx.emit, persona);
+
+                const personaMessage = getBudgetNote(topProducts, constraints.budget) || (persona === 'delegator'
+                    ? "Let me show you what I think will work best."
+                    : "Based on what you've shared, here are my top recommendations.");
+
+                const response: RecommendationResponse = {
+                    response_type: 'recommendation',
+                    intent_id,
+                    confidence,
+                    primary_recommendation: presentation.primary,
+                    secondary_recommendations: presentation.secondary,
+                    decision_frame: getDecisionFrame(persona, intent_id),
+                    acknowledgement: greetingPrefix + generateAcknowledgment(message, intent_id) + ` ${personaMessage}`,
+                    explanation: presentation.acknowledgement,
+                    next_page_offset: topProducts.length === 3 ? 3 : null
+                };
+                console.log(`✅ Strategy switch successful: Showing ${topProducts.length} products`);
+                enterRecommendationPhase(ctx, topProducts);
+                return response;
+            }
+
+            // PHASE 6: Graceful no-product handling
+            console.log('⚠️ No products available, using graceful decline');
+            const noProductResult = await handleNoProductScenario(intent_id, message, persona);
+
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: greetingPrefix + noProductResult.message,
+                clarifying_question: noProductResult.has_alternatives
+                    ? "Would you like to see these alternatives, or would you prefer to speak with a specialist?"
+                    : "Would you like to browse our popular products, or speak with a specialist?",
+                explanation: "No direct product matches. Alternatives: " + (noProductResult.alternatives?.length || 0)
+            };
+            return response;
+        } catch (error) {
+            console.error('Strategy switch failed:', error);
+            // Fallback to specialist offer
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: "I want to make sure I get this right for you.",
+                clarifying_question: "Let me show you our popular options, or would you like to talk to a specialist?",
+                explanation: "Maximum clarification attempts reached."
+            };
+            return response;
+        }
+    }
+};
+
+// The accepted variant as it was shown, or (if the server didn't see it) what its letter stands for
+function findAcceptedImage(ctx: TurnContext): ShownImage | null {
+    const variantId = ctx.request.selected_variant as GeneratedImage['variant_id'] | undefined;
+    if (!variantId) return null;
+    const shown = ctx.state.session.last_images?.find(image => image.variant_id === variantId);
+    if (shown) return shown;
+    const focus = IMAGE_VARIANT_FOCUS[variantId];
+    return focus ? { variant_id: variantId, focus, caption: '', interpretation: ctx.state.session.outcome_context.desired_outcome || '' } : null;
+}
+
+// PHASE 4: HANDLE IMAGE ACCEPTANCE - Use cached products for instant display
+export const imageAcceptedHandler: StageHandler = {
+    name: 'image_accepted',
+
+    canHandle(ctx) {
+        // skip_images: the images never arrived, so show the products behind them.
+        // No classification needed: the client sends the images' intent_id (bypass mode).
+        return ctx.request.action === 'accept_image' || ctx.request.action === 'skip_images';
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence, message, persona, greetingPrefix } = ctx;
+        const constraints = ctx.state.session.outcome_context.constraints;
+        const prefetched = ctx.state.session.pre_fetched_products;
+        let cachedProducts: EnrichedProduct[] = prefetched?.length ? prefetched : ctx.request.cached_products || [];
+        const skipped = ctx.request.action === 'skip_images';
+        console.log(skipped ? '⏭️ Images unavailable, showing products instead' : `✅ User accepted variant ${ctx.request.selected_variant}`);
+
+        if (cachedProducts.length === 0) {
+            // Cached products not available - fetch now
+            console.log('⏱️  No cached products, fetching now...');
+            cachedProducts = await getTopProducts(intent_id, 0, 3, message, constraints, getOwnedProductIds(ctx.profile));
+        }
+
+        // If STILL no products, return guidance/clarification instead of empty recommendation
+        if (cachedProducts.length === 0) {
+            console.log('⚠️ No products found for intent:', intent_id);
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: greetingPrefix + generateAcknowledgment(message, intent_id) + " I couldn't find exact matches in our current catalog.",
+                clarifying_question: "To help me find the best alternative, could you tell me which feature matters most to you: portability, professional quality, or ease of use?",
+                explanation: "No direct product matches found for this visual intent."
+            };
+            ctx.state.session = { ...ctx.state.session, pre_fetched_products: undefined, last_images: undefined, image_job_id: undefined };
+            return response;
+        }
+
+        // What the chosen image emphasizes re-ranks the products before presenting them
+        const image = skipped ? null : findAcceptedImage(ctx);
+        let preferenceNote = skipped ? "The pictures are taking too long, so here are the products straight away." : '';
+        if (image) {
+            const preference = await rankByImagePreference(cachedProducts, image);
+            cachedProducts = preference.products;
+            preferenceNote = preference.note;
+        }
+
+        // Generate presentation using cached products
+        const presentation = await generatePresentation(intent_id, message, cachedProducts, 0, ctx.emit, persona);
+        const response: RecommendationResponse = {
+            response_type: 'recommendation',
+            intent_id,
+            confidence,
+            primary_recommendation: presentation.primary,
+            secondary_recommendations: presentation.secondary,
+            decision_frame: getDecisionFrame(persona, intent_id),
+            acknowledgement: greetingPrefix + generateAcknowledgment(message, intent_id) + ' ' + ([getBudgetNote(cachedProducts, constraints.budget), preferenceNote].filter(Boolean).join(' ') || "Perfect! Here are products that match this outcome."),
+            explanation: presentation.acknowledgement,
+            next_page_offset: cachedProducts.length === 3 ? 3 : null
+        };
+        console.log('⚡ Products ready instantly (used cache)');
+        enterRecommendationPhase(ctx, cachedProducts);
+        ctx.state.session = { ...ctx.state.session, pre_fetched_products: undefined, last_images: undefined, image_job_id: undefined };
+        return response;
+    }
+};
+
+// 3. Recommendation flow (Deterministic + Presentation)
+export const recommendationHandler: StageHandler = {
+    name: 'recommendation',
+
+    canHandle() {
+        return true;
+    },
+
+    async handle(ctx) {
+        const { intentId: intent_id, confidence, message, persona, offset } = ctx;
+        const constraints = ctx.state.session.outcome_context.constraints;
+        const { products: topProducts, report } = await getTopProductsWithReport(intent_id, offset, 3, message, constraints, getOwnedProductIds(ctx.profile));
+        const eliminationNote = describeEliminations(report);
+
+        if (topProducts.length === 0 && report.eliminated.length > 0) {
+            // Candidates existed, but every one failed a must-have
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: ['constraints'],
+                acknowledgement: `Nothing I have meets all of your must-haves (${report.constraints.join(', ')}).`,
+                clarifying_question: `Which of these could you be flexible on: ${report.constraints.join(', ')}?`,
+                explanation: eliminationNote || 'All candidates failed a hard constraint.',
+            };
+            return response;
+        }
+
+        if (topProducts.length === 0) {
+            const response: ClarificationResponse = {
+                response_type: 'clarification',
+                intent_id,
+                confidence,
+                missing_info: [],
+                acknowledgement: "I looked for products...",
+                clarifying_question: "It seems I can't find exact matches. Could you broaden your search?",
+                explanation: "No products found for this intent.",
+            };
+            return response;
+        }
+
+        // Generate Presentation (LLM 2)
+        const presentation = await generatePresentation(intent_id, message, topProducts, offset, ctx.emit, persona);
+
+        const response: RecommendationResponse = {
+            response_type: 'recommendation',
+            intent_id,
+            confidence,
+            primary_recommendation: offset === 0 ? presentation.primary : undefined,
+            secondary_recommendations: offset === 0 ? presentation.secondary : [presentation.primary, ...presentation.secondary].filter((p): p is PresentationProduct => !!p),
+            decision_frame: getDecisionFrame(persona, intent_id),
+            acknowledgement: [getBudgetNote(topProducts, constraints.budget), presentation.acknowledgement, eliminationNote].filter(Boolean).join(' '),
+            explanation: ctx.classification?.explanation || '', // Add explanation from classification
+            next_page_offset: topProducts.length === 3 ? offset + 3 : null,
+        };
+        enterRecommendationPhase(ctx, topProducts);
+        return response;
+    }
+};
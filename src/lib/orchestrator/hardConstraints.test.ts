@@ -0,0 +1,71 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInMemoryCatalogRepository, setCatalogRepository } from './catalogRepository';
+import { applyHardConstraints, ConstraintReport, describeEliminations, resolveHardConstraints } from './hardConstraints';
+
+describe('resolveHardConstraints', () => {
+    it('maps known features to capability thresholds or catalog terms', () => {
+        assert.deepEqual(resolveHardConstraints({ features: ['waterproof', '4K'] }), [
+            { label: 'waterproof', kind: 'capability', capability_key: 'durability_weather_resistance', min: 0.7 },
+            { label: '4K', kind: 'terms', terms: ['4k', 'uhd', '2160p', '5.3k', '5.7k', '6k', '8k'] }
+        ]);
+    });
+
+    it('reads rain as weather resistance but not terrain or training', () => {
+        const keys = (feature: string) => resolveHardConstraints({ features: [feature] }).map(c => c.kind === 'capability' ? c.capability_key : c.terms.join('|'));
+        assert.deepEqual(keys('works in the rain'), ['durability_weather_resistance']);
+        assert.deepEqual(keys('rainproof'), ['durability_weather_resistance']);
+        assert.deepEqual(keys('rough terrain'), ['rough terrain']);
+        assert.deepEqual(keys('training sessions'), ['training sessions']);
+    });
+
+    it('maps compatibility phrases to platform aliases or their core words', () => {
+        assert.deepEqual(resolveHardConstraints({ compatibility: ['works with my iPhone 14', 'compatible with Zoom'] }), [
+            { label: 'works with my iPhone 14', kind: 'terms', terms: ['iphone', 'ios', 'apple', 'lightning'] },
+            { label: 'compatible with Zoom', kind: 'terms', terms: ['zoom'] }
+        ]);
+    });
+});
+
+describe('applyHardConstraints', () => {
+    before(() => {
+        setCatalogRepository(createInMemoryCatalogRepository({
+            products_raw: [
+                { id: 'p1', title: 'Action Cam', tags: ['4K', 'waterproof'] },
+                { id: 'p2', title: 'Vlog Cam', body_html: '<p>Records in 4K</p>' },
+                { id: 'p3', title: 'Webcam' }
+            ],
+            product_capabilities: [
+                { product_id: 'p1', capability_key: 'durability_weather_resistance', value: 0.9 },
+                { product_id: 'p2', capability_key: 'durability_weather_resistance', value: 0.3 }
+            ]
+        }));
+    });
+
+    after(() => setCatalogRepository(null));
+
+    const products = [{ id: 'p1', title: 'Action Cam' }, { id: 'p2', title: 'Vlog Cam' }, { id: 'p3', title: 'Webcam' }];
+
+    it('keeps products meeting every constraint and reports the rest', async () => {
+        const report: ConstraintReport = { constraints: [], eliminated: [] };
+        const kept = await applyHardConstraints(products, p => p.id, { features: ['waterproof', '4K'] }, report);
+
+        assert.deepEqual(kept.map(p => p.id), ['p1']);
+        assert.deepEqual(report.constraints, ['waterproof', '4K']);
+        assert.deepEqual(report.eliminated.map(e => [e.product_id, e.reason]), [
+            ['p2', 'durability_weather_resistance 0.30 < 0.7'],
+            ['p3', 'no durability_weather_resistance rating']
+        ]);
+        assert.equal(describeEliminations(report), 'I left out 2 options that didn\'t meet "waterproof".');
+    });
+
+    it('matches terms against the title, tags and description', async () => {
+        const kept = await applyHardConstraints(products, p => p.id, { features: ['4K'] });
+        assert.deepEqual(kept.map(p => p.id), ['p1', 'p2']);
+    });
+
+    it('leaves products alone without constraints', async () => {
+        assert.equal(await applyHardConstraints(products, p => p.id, {}), products);
+        assert.equal(describeEliminations({ constraints: [], eliminated: [] }), null);
+    });
+});
@@ -0,0 +1,207 @@
+/**
+ * Hard Constraints
+ *
+ * Must-have features ("waterproof", "4K") and compatibility requirements
+ * ("works with iPhone") from constraints.features / constraints.compatibility.
+ * Each phrase maps to a capability threshold (product_capabilities) or to
+ * catalog terms matched against the product's title, tags and description.
+ * Products failing any hard constraint are excluded, and every elimination
+ * is reported so the response can say why an option is missing.
+ */
+
+import type { OutcomeConstraints } from '@/types/session';
+import { detectCapabilityScale } from './dynamicCapabilityMatcher';
+import { getCatalogRepository, CapabilityRow } from './catalogRepository';
+import { CatalogProduct, getCatalogProducts } from './catalog';
+
+export type HardConstraint =
+    | { label: string; kind: 'capability'; capability_key: string; min: number } // min on a 0–1 scale
+    | { label: string; kind: 'terms'; terms: string[] };                         // any term must appear
+
+export interface ConstraintElimination {
+    product_id: string;
+    title: string;
+    constraint: string; // HardConstraint.label
+    reason: string;
+}
+
+// Accumulates eliminations across the retrieval steps of one search
+export interface ConstraintReport {
+    constraints: string[];
+    eliminated: ConstraintElimination[];
+}
+
+interface FeatureRule {
+    pattern: RegExp;
+    constraint: Omit<Extract<HardConstraint, { kind: 'capability' }>, 'label'> | Omit<Extract<HardConstraint, { kind: 'terms' }>, 'label'>;
+}
+
+const FEATURE_RULES: FeatureRule[] = [
+    { pattern: /water ?proof|water.?resistant|weather.?(proof|sealed|resistant)|\brain(proof|y)?\b|underwater/i, constraint: { kind: 'capability', capability_key: 'durability_weather_resistance', min: 0.7 } },
+    { pattern: /\b8k\b/i, constraint: { kind: 'terms', terms: ['8k', '4320p'] } },
+    { pattern: /\b4k\b|\buhd\b|2160p/i, constraint: { kind: 'terms', terms: ['4k', 'uhd', '2160p', '5.3k', '5.7k', '6k', '8k'] } },
+    { pattern: /stabili[sz]|gimbal|steady|shake/i, constraint: { kind: 'capability', capability_key: 'stabilization_quality', min: 0.7 } },
+    { pattern: /low.?light|\bnight|\bdark\b/i, constraint: { kind: 'capability', capability_key: 'low_light', min: 0.7 } },
+    { pattern: /battery/i, constraint: { kind: 'capability', capability_key: 'battery_life', min: 0.7 } },
+    { pattern: /light.?weight|compact|portable|pocket/i, constraint: { kind: 'capability', capability_key: 'portability', min: 0.7 } },
+    { pattern: /external mic|mic(rophone)? (input|jack|port)|audio input/i, constraint: { kind: 'capability', capability_key: 'audio_input_support', min: 0.6 } },
+    { pattern: /live.?stream|webcam/i, constraint: { kind: 'capability', capability_key: 'streaming_webcam_support', min: 0.6 } },
+    { pattern: /auto.?focus|tracking/i, constraint: { kind: 'capability', capability_key: 'autofocus_reliability', min: 0.7 } },
+    { pattern: /wi-?fi|bluetooth|app control|phone app/i, constraint: { kind: 'capability', capability_key: 'mobile_app_workflow', min: 0.6 } },
+    { pattern: /durable|rugged|tough/i, constraint: { kind: 'capability', capability_key: 'durability', min: 0.7 } }
+];
+
+// Platform aliases for compatibility phrases
+const COMPATIBILITY_ALIASES: Record<string, string[]> = {
+    iphone: ['iphone', 'ios', 'apple', 'lightning'],
+    ipad: ['ipad', 'ios', 'apple'],
+    android: ['android', 'usb-c', 'usb c'],
+    mac: ['mac', 'macos', 'apple'],
+    windows: ['windows', 'pc'],
+    gopro: ['gopro'],
+    'e-mount': ['e-mount', 'e mount', 'sony e'],
+    'rf mount': ['rf mount', 'rf-mount', 'canon rf']
+};
+
+const FILLER = /\b(works?|working|compatible|compatibility|with|for|my|a|an|the|must|needs?|to|be|have|has|should|support(s|ed)?)\b/gi;
+
+/**
+ * Map one compatibility phrase ("works with my iPhone 14") to catalog terms
+ */
+function compatibilityTerms(phrase: string): string[] {
+    const lower = phrase.toLowerCase();
+    const alias = Object.keys(COMPATIBILITY_ALIASES).find(key => lower.includes(key));
+    if (alias) return COMPATIBILITY_ALIASES[alias];
+
+    const core = lower.replace(FILLER, ' ').replace(/\s+/g, ' ').trim();
+    return core ? [core] : [];
+}
+
+/**
+ * Resolve the session's stored phrases into checkable constraints
+ */
+export function resolveHardConstraints(constraints: OutcomeConstraints): HardConstraint[] {
+    const resolved: HardConstraint[] = [];
+
+    for (const feature of constraints.features || []) {
+        const rule = FEATURE_RULES.find(r => r.pattern.test(feature));
+        if (rule) {
+            resolved.push({ label: feature, ...rule.constraint } as HardConstraint);
+        } else {
+            // Unknown feature: require it to be mentioned by the product itself
+            const term = feature.toLowerCase().trim();
+            if (term) resolved.push({ label: feature, kind: 'terms', terms: [term] });
+        }
+    }
+
+    for (const requirement of constraints.compatibility || []) {
+        const terms = compatibilityTerms(requirement);
+        if (terms.length > 0) {
+            resolved.push({ label: requirement, kind: 'terms', terms });
+        }
+    }
+
+    return resolved;
+}
+
+export function hasHardConstraints(constraints: OutcomeConstraints): boolean {
+    return (constraints.features?.length || 0) + (constraints.compatibility?.length || 0) > 0;
+}
+
+function searchableText(product: CatalogProduct): string {
+    return `${product.title} ${product.tags.join(' ')} ${product.product_type} ${product.description}`.toLowerCase();
+}
+
+/**
+ * Drop products that fail any hard constraint. Eliminations are appended to
+ * `report` (first failing constraint per product). Rank order is preserved.
+ */
+export async function applyHardConstraints<T extends { title: string }>(
+    products: T[],
+    getId: (product: T) => string,
+    constraints: OutcomeConstraints,
+    report?: ConstraintReport
+): Promise<T[]> {
+    const resolved = resolveHardConstraints(constraints);
+    if (resolved.length === 0 || products.length === 0) return products;
+
+    const ids = products.map(p => String(getId(p)));
+    const capabilityKeys = [...new Set(resolved.flatMap(c => c.kind === 'capability' ? [c.capability_key] : []))];
+    const needsText = resolved.some(c => c.kind === 'terms');
+
+    const [capabilityRows, catalogProducts] = await Promise.all([
+        capabilityKeys.length > 0
+            ? getCatalogRepository().listCapabilities({ productIds: ids, capabilityKeys })
+            : Promise.resolve([] as CapabilityRow[]),
+        needsText
+            ? getCatalogProducts(ids)
+            : Promise.resolve([] as CatalogProduct[])
+    ]);
+
+    const scale = detectCapabilityScale(capabilityRows.map(r => r.value || 0));
+    const capabilityValue = (productId: string, key: string) => {
+        const row = capabilityRows.find(r => String(r.product_id) === productId && r.capability_key === key);
+        return typeof row?.value === 'number' ? row.value / scale : null;
+    };
+    const texts = new Map(catalogProducts.map(p => [p.product_id, searchableText(p)]));
+
+    const kept: T[] = [];
+    for (const product of products) {
+        const productId = String(getId(product));
+        let failure: ConstraintElimination | null = null;
+
+        for (const constraint of resolved) {
+            if (constraint.kind === 'capability') {
+                const value = capabilityValue(productId, constraint.capability_key);
+                if (value === null || value < constraint.min) {
+                    failure = {
+                        product_id: productId,
+                        title: product.title,
+                        constraint: constraint.label,
+                        reason: value === null
+                            ? `no ${constraint.capability_key} rating`
+                            : `${constraint.capability_key} ${value.toFixed(2)} < ${constraint.min}`
+                    };
+                }
+            } else {
+                const text = texts.get(productId) || '';
+                if (!constraint.terms.some(term => text.includes(term))) {
+                    failure = {
+                        product_id: productId,
+                        title: product.title,
+                        constraint: constraint.label,
+                        reason: `no mention of ${constraint.terms.join(' / ')}`
+                    };
+                }
+            }
+            if (failure) break;
+        }
+
+        if (failure) {
+            report?.eliminated.push(failure);
+        } else {
+            kept.push(product);
+        }
+    }
+
+    if (report) {
+        report.constraints = [...new Set([...report.constraints, ...resolved.map(c => c.label)])];
+    }
+    console.log(`🚫 Hard constraints [${resolved.map(c => c.label).join(', ')}]: kept ${kept.length}/${products.length}`);
+    return kept;
+}
+
+/**
+ * Short explanation of what was left out and why, or null if nothing was
+ */
+export function describeEliminations(report: ConstraintReport): string | null {
+    if (report.eliminated.length === 0) return null;
+
+    const byConstraint = new Map<string, string[]>();
+    for (const e of report.eliminated) {
+        byConstraint.set(e.constraint, [...(byConstraint.get(e.constraint) || []), e.title]);
+    }
+    return [...byConstraint.entries()]
+        .map(([constraint, titles]) => `I left out ${titles.length === 1 ? titles[0] : `${titles.length} options`} that didn't meet "${constraint}".`)
+        .join(' ');
+}
@@ -0,0 +1,244 @@
+/**
+ * Image Generation Jobs
+ *
+ * Outcome images are generated in the background so a slow image provider
+ * doesn't hold up the turn: the chat response carries a job id, and the
+ * client polls /api/images/jobs/[id] for the finished images. A job that
+ * hasn't finished within IMAGE_JOB_TIMEOUT_MS counts as failed (its provider
+ * calls are aborted), and the client shows products instead.
+ *
+ * The job runs under Next's after(), so a serverless function stays alive
+ * until it settles rather than freezing once the response is sent.
+ *
+ * Backends (IMAGE_JOB_STORE, falls back to SESSION_STORE):
+ * - memory:   process-local Map (tests, local dev)
+ * - supabase: `image_jobs` table (production)
+ *
+ * Expected Supabase table:
+ *   create table image_jobs (
+ *     job_id uuid primary key,
+ *     session_id text not null,
+ *     status text not null,
+ *     images jsonb not null,
+ *     error text,
+ *     created_at timestamptz not null,
+ *     deadline_at timestamptz not null,
+ *     completed_at timestamptz
+ *   );
+ */
+
+import crypto from 'crypto';
+import { after } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import type { GeneratedImage } from '@/lib/agents/imageGenerator';
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+// How often a waiting request re-reads the job
+const POLL_INTERVAL_MS = 500;
+
+export type ImageJobStatus = 'pending' | 'ready' | 'failed';
+
+export interface ImageJob {
+    job_id: string;
+    session_id: string;
+    status: ImageJobStatus;
+    images: GeneratedImage[];      // Empty until ready
+    error?: string;                // 'timeout' or the generation error
+    created_at: string;
+    deadline_at: string;           // Pending past this counts as timed out
+    completed_at?: string;
+}
+
+/**
+ * Job time budget (IMAGE_JOB_TIMEOUT_MS, default 30s)
+ */
+export function getImageJobTimeoutMs(): number {
+    return Number(process.env.IMAGE_JOB_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface ImageJobStore {
+    load(jobId: string): Promise<ImageJob | null>;
+    /** Insert or replace by job_id */
+    save(job: ImageJob): Promise<void>;
+}
+
+export function createInMemoryImageJobStore(): ImageJobStore {
+    const jobs = new Map<string, ImageJob>();
+
+    return {
+        async load(jobId) {
+            const job = jobs.get(jobId);
+            return job ? structuredClone(job) : null;
+        },
+
+        async save(job) {
+            jobs.set(job.job_id, structuredClone(job));
+        }
+    };
+}
+
+export function createSupabaseImageJobStore(table: string = 'image_jobs'): ImageJobStore {
+    return {
+        async load(jobId) {
+            const { data, error } = await supabase.from(table).select('*').eq('job_id', jobId).maybeSingle();
+            if (error) throw new Error(`Failed to load image job: ${error.message}`);
+            return (data as ImageJob | null) || null;
+        },
+
+        async save(job) {
+            const { error } = await supabase.from(table).upsert(job, { onConflict: 'job_id' });
+            if (error) throw new Error(`Failed to save image job: ${error.message}`);
+        }
+    };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+function isExpired(job: ImageJob, now: number = Date.now()): boolean {
+    return job.status === 'pending' && Date.parse(job.deadline_at) <= now;
+}
+
+function timedOut(job: ImageJob): ImageJob {
+    return { ...job, status: 'failed', error: 'timeout', completed_at: new Date().toISOString() };
+}
+
+export interface ImageJobService {
+    /**
+     * Start generating in the background and return the pending job at once.
+     * `onReady` runs with the images when they arrive in time.
+     */
+    start(
+        sessionId: string,
+        generate: (signal: AbortSignal) => Promise<GeneratedImage[]>,
+        onReady?: (images: GeneratedImage[], job: ImageJob) => Promise<void>
+    ): Promise<ImageJob>;
+    /** Current state of a job (pending jobs past their deadline come back failed) */
+    get(jobId: string): Promise<ImageJob | null>;
+    /** Wait up to `waitMs` for a pending job to finish */
+    waitFor(jobId: string, waitMs: number): Promise<ImageJob | null>;
+}
+
+export function createImageJobService(
+    store: ImageJobStore = getImageJobStore(),
+    timeoutMs: number = getImageJobTimeoutMs()
+): ImageJobService {
+    async function run(
+        job: ImageJob,
+        generate: (signal: AbortSignal) => Promise<GeneratedImage[]>,
+        onReady?: (images: GeneratedImage[], job: ImageJob) => Promise<void>
+    ): Promise<void> {
+        // The deadline also aborts the provider calls, so they don't run on unseen
+        const controller = new AbortController();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error = new Error('timeout');
+                controller.abort(error);
+                reject(error);
+            }, timeoutMs);
+        });
+
+        let finished: ImageJob;
+        try {
+            const images = await Promise.race([generate(controller.signal), deadline]);
+            if (images.length === 0) throw new Error('No images generated');
+            finished = { ...job, status: 'ready', images, completed_at: new Date().toISOString() };
+            console.log(`🖼️ Image job ${job.job_id} ready (${images.length} images)`);
+        } catch (error) {
+            const message = (error as Error)?.message || 'Image generation failed';
+            finished = { ...job, status: 'failed', error: message, completed_at: new Date().toISOString() };
+            console.warn(`⚠️ Image job ${job.job_id} failed: ${message}`);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        // Record the images before announcing them, so a quick accept finds them
+        if (finished.status === 'ready' && onReady) {
+            await onReady(finished.images, finished).catch(err => console.warn(`⚠️ Image job ${job.job_id} onReady failed:`, err));
+        }
+        await store.save(finished);
+    }
+
+    const service: ImageJobService = {
+        async start(sessionId, generate, onReady) {
+            const now = Date.now();
+            const job: ImageJob = {
+                job_id: crypto.randomUUID(),
+                session_id: sessionId,
+                status: 'pending',
+                images: [],
+                created_at: new Date(now).toISOString(),
+                deadline_at: new Date(now + timeoutMs).toISOString()
+            };
+            await store.save(job);
+
+            // Not awaited: the turn answers while the images render
+            const running = run(job, generate, onReady).catch(err => console.error(`Image job ${job.job_id} could not be recorded:`, err));
+            try {
+                after(running);
+            } catch {
+                // Outside a request (scripts, tests) there is nothing to keep alive
+            }
+            return job;
+        },
+
+        async get(jobId) {
+            const job = await store.load(jobId);
+            if (!job || !isExpired(job)) return job;
+
+            // The process running it is gone or stuck: settle it as timed out
+            const failed = timedOut(job);
+            await store.save(failed);
+            return failed;
+        },
+
+        async waitFor(jobId, waitMs) {
+            const until = Date.now() + waitMs;
+            for (; ;) {
+                const job = await service.get(jobId);
+                if (!job || job.status !== 'pending' || Date.now() >= until) return job;
+                await new Promise(resolve => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, until - Date.now())));
+            }
+        }
+    };
+    return service;
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let activeStore: ImageJobStore | null = null;
+let activeService: ImageJobService | null = null;
+
+/**
+ * Get the configured store (IMAGE_JOB_STORE=memory|supabase, defaults to SESSION_STORE)
+ */
+export function getImageJobStore(): ImageJobStore {
+    if (!activeStore) {
+        const backend = process.env.IMAGE_JOB_STORE || process.env.SESSION_STORE;
+        activeStore = backend === 'memory' ? createInMemoryImageJobStore() : createSupabaseImageJobStore();
+    }
+    return activeStore;
+}
+
+export function getImageJobService(): ImageJobService {
+    if (!activeService) {
+        activeService = createImageJobService();
+    }
+    return activeService;
+}
+
+/**
+ * Override the active service (tests, offline runs)
+ */
+export function setImageJobService(service: ImageJobService | null): void {
+    activeService = service;
+}
@@ -0,0 +1,146 @@
+/**
+ * Image Preference Ranking
+ *
+ * The outcome image a user accepts says what they care about: the product
+ * itself (ease of use, looks), the product in use (portability, battery,
+ * stabilization) or a feature close-up (image quality, low light, audio).
+ * Those capabilities, plus any the image's caption points at, re-score the
+ * pre-fetched products before they are presented, and the response says how.
+ */
+
+import type { ShownImage } from '@/types/session';
+import type { ImageFocus } from '@/lib/agents/imageGenerator';
+import { getCatalogRepository } from './catalogRepository';
+import { detectCapabilityScale } from './dynamicCapabilityMatcher';
+import type { EnrichedProduct } from './productService';
+
+// Share of the final score that comes from the image preference (the rest is intent fit)
+const IMAGE_PREFERENCE_WEIGHT = 0.3;
+
+// Weight of a capability the caption points at
+const CAPTION_CAPABILITY_WEIGHT = 1;
+
+const FOCUS_LABELS: Record<ImageFocus, string> = {
+    product: 'product close-up',
+    lifestyle: 'in-use shot',
+    feature: 'feature detail'
+};
+
+// Capabilities each kind of image speaks to (weights 0–1)
+const FOCUS_CAPABILITIES: Record<ImageFocus, Record<string, number>> = {
+    product: { ease_of_use: 1, portability: 0.8, video_image_quality: 0.6, mobile_app_workflow: 0.4 },
+    lifestyle: { portability: 1, battery_life: 0.8, stabilization_quality: 0.7, durability_weather_resistance: 0.5, mobile_app_workflow: 0.4 },
+    feature: { video_image_quality: 1, low_light: 0.9, stabilization_quality: 0.7, audio_input_support: 0.6, autofocus_reliability: 0.6 }
+};
+
+// Caption phrases that point at a capability ("In use: night-time city walks")
+const CAPTION_CAPABILITIES: Array<[RegExp, string]> = [
+    [/\b(night|low[- ]light|dark|evening|concert)/i, 'low_light'],
+    [/\b(steady|stable|smooth|walking|running|cycling)/i, 'stabilization_quality'],
+    [/\b(travel|trip|pocket|compact|hiking)/i, 'portability'],
+    [/\b(voice|audio|mic|interview|podcast)/i, 'audio_input_support'],
+    [/\b(all[- ]day|battery|long shoots?)/i, 'battery_life'],
+    [/\b(rain|water|beach|snow|outdoor|adventure)/i, 'durability_weather_resistance'],
+    [/\b(stream|webcam|meeting|video call)/i, 'streaming_webcam_support']
+];
+
+const CAPABILITY_PHRASES: Record<string, string> = {
+    ease_of_use: 'ease of use',
+    portability: 'portability',
+    video_image_quality: 'image quality',
+    mobile_app_workflow: 'the phone workflow',
+    battery_life: 'battery life',
+    stabilization_quality: 'stabilization',
+    durability_weather_resistance: 'toughness',
+    low_light: 'low-light performance',
+    audio_input_support: 'audio',
+    autofocus_reliability: 'autofocus',
+    streaming_webcam_support: 'streaming support'
+};
+
+export interface ImagePreferenceResult {
+    products: EnrichedProduct[];
+    note: string;   // How the choice shaped the picks
+}
+
+/**
+ * Capability weights for an accepted image: its focus, raised for
+ * capabilities its caption or interpretation mentions
+ */
+export function getImagePreferenceWeights(image: ShownImage): Record<string, number> {
+    const weights = { ...FOCUS_CAPABILITIES[image.focus] };
+    const text = `${image.caption} ${image.interpretation}`;
+    for (const [pattern, key] of CAPTION_CAPABILITIES) {
+        if (pattern.test(text)) weights[key] = Math.max(weights[key] ?? 0, CAPTION_CAPABILITY_WEIGHT);
+    }
+    return weights;
+}
+
+function joinPhrases(phrases: string[]): string {
+    return phrases.length <= 1 ? phrases.join('') : `${phrases.slice(0, -1).join(', ')} and ${phrases[phrases.length - 1]}`;
+}
+
+/**
+ * Re-score products toward what the accepted image emphasizes. Products
+ * without capability data keep their intent fit score.
+ */
+export async function rankByImagePreference(products: EnrichedProduct[], image: ShownImage): Promise<ImagePreferenceResult> {
+    const weights = getImagePreferenceWeights(image);
+    const label = FOCUS_LABELS[image.focus];
+    if (products.length === 0) return { products, note: '' };
+
+    const keys = Object.keys(weights);
+    const capabilities = await getCatalogRepository().listCapabilities({
+        productIds: products.map(p => String(p.id)),
+        capabilityKeys: keys
+    });
+
+    // normalized[product_id][capability_key] on 0–1
+    const normalized = new Map<string, Map<string, number>>();
+    for (const key of keys) {
+        const rows = capabilities.filter(c => c.capability_key === key && c.value !== null);
+        const scale = detectCapabilityScale(rows.map(c => c.value as number));
+        for (const row of rows) {
+            const productId = String(row.product_id);
+            if (!normalized.has(productId)) normalized.set(productId, new Map());
+            normalized.get(productId)!.set(key, (row.value as number) / scale);
+        }
+    }
+
+    if (normalized.size === 0) {
+        return { products, note: `You picked the ${label}, so here are the products behind that picture.` };
+    }
+
+    const score = (product: EnrichedProduct): number => {
+        const fit = product.fit_score ?? 0;
+        const values = normalized.get(String(product.id));
+        if (!values) return fit;
+        let weighted = 0;
+        let total = 0;
+        for (const [key, value] of values) {
+            weighted += weights[key] * value;
+            total += weights[key];
+        }
+        return (1 - IMAGE_PREFERENCE_WEIGHT) * fit + IMAGE_PREFERENCE_WEIGHT * (weighted / total);
+    };
+
+    const ranked = products
+        .map(product => ({ product, score: score(product) }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ product }) => product);
+
+    // The two heaviest capabilities we actually had data for
+    const covered = new Set([...normalized.values()].flatMap(values => [...values.keys()]));
+    const emphasis = keys
+        .filter(key => covered.has(key))
+        .sort((a, b) => weights[b] - weights[a])
+        .slice(0, 2)
+        .map(key => CAPABILITY_PHRASES[key] || key.replace(/_/g, ' '));
+
+    const lead = ranked[0];
+    const note = `Since you picked the ${label}, I gave ${joinPhrases(emphasis)} more weight`
+        + (lead.id !== products[0].id ? `, which puts the ${lead.title} first.` : `; the ${lead.title} still comes out on top.`);
+
+    console.log(`🖼️ Image preference (${image.focus}): ${ranked.map(p => p.id).join(', ')}`);
+    return { products: ranked, note };
+}
@@ -1,15 +1,12 @@
-import { supabase } from '@/lib/supabase';
-import type { Intent } from '@/app/api/chat/route'; // reuse type if needed
+import type { Intent } from '@/types/chat';
+import { getCatalogRepository } from './catalogRepository';
 
 let cachedIntents: Intent[] | null = null;
 
 export async function loadIntents(): Promise<Intent[]> {
     if (cachedIntents) return cachedIntents;
-    const { data, error } = await supabase
-        .from('intents')
-        .select('intent_id, name, description');
-    if (error) throw new Error('Failed to load intents');
-    cachedIntents = data as Intent[];
+    const intents = await getCatalogRepository().listIntents();
+    cachedIntents = intents.map(({ intent_id, name, description }) => ({ intent_id, name, description: description ?? null }));
     return cachedIntents;
 }
 
@@ -5,7 +5,8 @@
  * Per Aarav guidelines: never leave user without guidance.
  */
 
-import { supabase } from '@/lib/supabase';
+import type { IntentScoreQuery } from './catalogRepository';
+import { getScoredProducts, toProductListing } from './catalog';
 import type { Persona } from './conversationState';
 
 export interface NoProductResponse {
@@ -71,6 +72,16 @@ export function generatePoliteDecline(
     }
 }
 
+type Alternative = NonNullable<NoProductResponse['alternatives']>[number];
+
+/**
+ * Load the best-scoring products for a score query as alternatives
+ */
+async function loadAlternatives(query: IntentScoreQuery, relevance: string): Promise<Alternative[]> {
+    const scored = await getScoredProducts(query);
+    return scored.map(({ product }) => ({ ...toProductListing(product), relevance }));
+}
+
 /**
  * Get alternatives based on intent
  */
@@ -80,34 +91,7 @@ export async function getAlternatives(
 ): Promise<NoProductResponse['alternatives']> {
     try {
         // Find any products with reasonable fit scores
-        const { data, error } = await supabase
-            .from('intent_product_scores')
-            .select(`
-                product_id,
-                fit_score,
-                products (
-                    title,
-                    price,
-                    image_url,
-                    variants (variant_id)
-                )
-            `)
-            .order('fit_score', { ascending: false })
-            .limit(limit);
-
-        if (error || !data) {
-            console.warn('Failed to fetch alternatives:', error);
-            return [];
-        }
-
-        return data.map((item: any) => ({
-            product_id: item.product_id,
-            title: item.products?.title || 'Product',
-            price: item.products?.price || '0',
-            image_url: item.products?.image_url || '',
-            variant_id: item.products?.variants?.[0]?.variant_id || '',
-            relevance: 'Popular choice'
-        }));
+        return await loadAlternatives({ limit }, 'Popular choice');
     } catch (error) {
         console.error('Error fetching alternatives:', error);
         return [];
@@ -121,33 +105,7 @@ export async function getAccessoriesAsFallback(
     limit: number = 2
 ): Promise<NoProductResponse['alternatives']> {
     try {
-        const { data, error } = await supabase
-            .from('intent_product_scores')
-            .select(`
-                product_id,
-                products (
-                    title,
-                    price,
-                    image_url,
-                    variants (variant_id)
-                )
-            `)
-            .eq('intent_id', 'accessory_only')
-            .order('fit_score', { ascending: false })
-            .limit(limit);
-
-        if (error || !data) {
-            return [];
-        }
-
-        return data.map((item: any) => ({
-            product_id: item.product_id,
-            title: item.products?.title || 'Accessory',
-            price: item.products?.price || '0',
-            image_url: item.products?.image_url || '',
-            variant_id: item.products?.variants?.[0]?.variant_id || '',
-            relevance: 'Helpful accessory'
-        }));
+        return await loadAlternatives({ intentId: 'accessory_only', limit }, 'Helpful accessory');
     } catch (error) {
         console.error('Error fetching accessories:', error);
         return [];
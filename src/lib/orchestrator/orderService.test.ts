@@ -0,0 +1,214 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockPaymentGateway, PaymentError } from '@/lib/payments';
+import {
+    createInMemoryOrderStore,
+    createOrderService,
+    generateOrderNumber,
+    Order,
+    OrderConflictError,
+    OrderError,
+    PlaceOrderInput,
+    priceOrder
+} from './orderService';
+import { createTestCart, resolveTestVariant, TEST_VARIANTS } from './testFixtures';
+
+function setup() {
+    const store = createInMemoryOrderStore();
+    const { cart } = createTestCart();
+    const gateway = createMockPaymentGateway();
+    const orders = createOrderService(store, cart, gateway, resolveTestVariant);
+
+    // Pay the current total for the session's cart by UPI
+    async function pay(sessionId: string, upiId: string = 'buyer@upi'): Promise<string> {
+        const { quote } = await orders.quote(sessionId);
+        const intent = await gateway.createIntent({ method: 'upi', amount: Number(quote.total), currency: quote.currency, reference: sessionId });
+        return (await gateway.confirmIntent(intent.intent_id, { upi_id: upiId })).intent_id;
+    }
+
+    return { store, cart, gateway, orders, pay };
+}
+
+function orderInput(sessionId: string, paymentIntentId: string, key: string = `key-${sessionId}`): PlaceOrderInput {
+    return {
+        session_id: sessionId,
+        idempotency_key: key,
+        customer: { full_name: ' Priya Shah ', email: ' Priya@Example.com ', phone: '+91 98765 43210' },
+        shipping_address: { line1: '12 MG Road', city: 'Pune', pincode: '411001', country: 'IN' },
+        payment_intent_id: paymentIntentId
+    };
+}
+
+function storedOrder(overrides: Partial<Order>): Order {
+    return {
+        order_id: 'o1',
+        order_number: 'AG-20260101-AAAAAA',
+        idempotency_key: 'k1',
+        session_id: 's1',
+        status: 'confirmed',
+        items: [],
+        subtotal: '0.00', discount: '0.00', shipping: '0.00', tax: '0.00', total: '0.00', currency: 'INR',
+        customer: { full_name: 'Priya', email: 'priya@example.com', phone: '9876543210' },
+        shipping_address: { line1: '12 MG Road', city: 'Pune', pincode: '411001', country: 'IN' },
+        payment: { method: 'cod', intent_id: 'pi_1', status: 'pay_on_delivery' },
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+        ...overrides
+    };
+}
+
+describe('createInMemoryOrderStore', () => {
+    it('looks orders up by id, number, idempotency key and payment', async () => {
+        const store = createInMemoryOrderStore();
+        await store.insert(storedOrder({}));
+        assert.equal((await store.getById('o1'))?.order_number, 'AG-20260101-AAAAAA');
+        assert.equal((await store.getByNumber('AG-20260101-AAAAAA'))?.order_id, 'o1');
+        assert.equal((await store.getByIdempotencyKey('k1'))?.order_id, 'o1');
+        assert.equal((await store.getByPaymentIntent('pi_1'))?.order_id, 'o1');
+        assert.equal(await store.getById('missing'), null);
+    });
+
+    it('rejects a taken order number, idempotency key or payment', async () => {
+        const store = createInMemoryOrderStore();
+        await store.insert(storedOrder({}));
+        const payment = { method: 'cod' as const, intent_id: 'pi_2', status: 'pay_on_delivery' as const };
+        await assert.rejects(store.insert(storedOrder({ order_id: 'o2', idempotency_key: 'k2', payment })), OrderConflictError);
+        await assert.rejects(store.insert(storedOrder({ order_id: 'o2', order_number: 'AG-20260101-BBBBBB', payment })), OrderConflictError);
+        await assert.rejects(store.insert(storedOrder({ order_id: 'o2', order_number: 'AG-20260101-BBBBBB', idempotency_key: 'k2' })), OrderConflictError);
+    });
+
+    it('lists a customer\'s orders by email or phone, newest first', async () => {
+        const store = createInMemoryOrderStore();
+        await store.insert(storedOrder({}));
+        await store.insert(storedOrder({ order_id: 'o2', order_number: 'N2', idempotency_key: 'k2', payment: { method: 'cod', intent_id: 'pi_2', status: 'pay_on_delivery' }, created_at: '2026-02-01T00:00:00.000Z', customer: { full_name: 'Priya', phone: '9876543210' } }));
+        await store.insert(storedOrder({ order_id: 'o3', order_number: 'N3', idempotency_key: 'k3', payment: { method: 'cod', intent_id: 'pi_3', status: 'pay_on_delivery' }, customer: { full_name: 'Someone else', email: 'other@example.com' } }));
+
+        assert.deepEqual((await store.listByCustomer({ email: 'priya@example.com', phone: '9876543210' }, 5)).map(o => o.order_id), ['o2', 'o1']);
+        assert.deepEqual((await store.listByCustomer({ email: 'priya@example.com' }, 5)).map(o => o.order_id), ['o1']);
+        assert.deepEqual((await store.listByCustomer({ phone: '9876543210' }, 1)).map(o => o.order_id), ['o2']);
+    });
+});
+
+describe('priceOrder', () => {
+    it('adds shipping and GST on the discounted subtotal', () => {
+        const quote = priceOrder({ session_id: 's1', items: [{ ...TEST_VARIANTS[0], quantity: 1, added_at: '' }], updated_at: '', subtotal: '1000.00', discount: '100.00', total: '900.00', item_count: 1, currency: 'INR' });
+        assert.deepEqual(quote, { subtotal: '1000.00', discount: '100.00', shipping: '100.00', tax: '45.00', total: '1045.00', currency: 'INR' });
+    });
+});
+
+describe('generateOrderNumber', () => {
+    it('formats the date and a six-character suffix', () => {
+        assert.match(generateOrderNumber(new Date('2026-01-15T10:00:00Z')), /^AG-20260115-[0-9A-Z]{6}$/);
+    });
+});
+
+describe('createOrderService', () => {
+    it('places a paid order from the cart and empties the cart', async () => {
+        const { cart, orders, pay } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        await cart.addItem('s1', { variant_id: '21', quantity: 2 });
+
+        const { order, replayed } = await orders.placeOrder(orderInput('s1', await pay('s1')));
+        assert.equal(replayed, false);
+        assert.equal(order.total, '1570.00');
+        assert.deepEqual(order.items.map(i => [i.variant_id, i.unit_price, i.quantity]), [['11', '1000.00', 1], ['21', '200.00', 2]]);
+        assert.deepEqual(order.customer, { full_name: 'Priya Shah', email: 'priya@example.com', phone: '9876543210' });
+        assert.equal(order.payment.status, 'succeeded');
+        assert.deepEqual((await cart.getCart('s1')).items, []);
+        assert.equal((await orders.getOrderByNumber(order.order_number))?.order_id, order.order_id);
+    });
+
+    it('replays the order for a key that was already used', async () => {
+        const { cart, orders, pay } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        const input = orderInput('s1', await pay('s1'));
+
+        const [first, second] = await Promise.all([orders.placeOrder(input), orders.placeOrder(input)]);
+        assert.equal(first.order.order_id, second.order.order_id);
+
+        const again = await orders.placeOrder(input);
+        assert.equal(again.replayed, true);
+        assert.equal(again.order.order_id, first.order.order_id);
+        await assert.rejects(orders.placeOrder({ ...input, session_id: 's2' }), (e: OrderError) => e.code === 'idempotency_conflict');
+    });
+
+    it('refuses empty carts, incomplete details and unsettled payments', async () => {
+        const { cart, gateway, orders, pay } = setup();
+        await assert.rejects(orders.placeOrder(orderInput('s1', 'pi_none')), (e: OrderError) => e.code === 'empty_cart');
+
+        await cart.addItem('s1', { variant_id: '11' });
+        await assert.rejects(orders.placeOrder({ ...orderInput('s1', 'pi_none'), shipping_address: { line1: '', city: 'Pune', pincode: '411001', country: 'IN' } }), (e: OrderError) => e.code === 'invalid_details');
+        await assert.rejects(orders.placeOrder(orderInput('s1', 'pi_none')), (e: OrderError) => e.code === 'payment_required');
+        await assert.rejects(orders.placeOrder(orderInput('s1', await pay('s1', 'fail@upi'))), (e: OrderError) => e.code === 'payment_required');
+
+        const unconfirmed = await gateway.createIntent({ method: 'upi', amount: 1150, currency: 'INR', reference: 's1' });
+        await assert.rejects(orders.placeOrder(orderInput('s1', unconfirmed.intent_id)), (e: OrderError) => e.code === 'payment_required');
+    });
+
+    it('refuses a payment for a different amount', async () => {
+        const { cart, orders, pay } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        const intentId = await pay('s1');
+        await cart.addItem('s1', { variant_id: '21' });
+
+        await assert.rejects(orders.placeOrder(orderInput('s1', intentId)), (e: OrderError) => e.code === 'payment_mismatch');
+        assert.equal((await cart.getCart('s1')).items.length, 2);
+    });
+
+    it('refunds the payment of a rejected order', async () => {
+        const { cart, gateway, orders, pay } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        const intentId = await pay('s1');
+        await cart.addItem('s1', { variant_id: '21' });
+
+        await assert.rejects(orders.placeOrder(orderInput('s1', intentId)), (e: OrderError) => e.code === 'payment_mismatch');
+        assert.equal((await gateway.getIntent(intentId))?.status, 'refunded');
+    });
+
+    it('reuses the payment for a retried key and pays afresh once it was refunded', async () => {
+        const { cart, gateway, orders } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        const { quote } = await orders.quote('s1');
+        const payment = { method: 'upi' as const, amount: Number(quote.total), currency: quote.currency, reference: 'key-s1', idempotency_key: 'key-s1' };
+
+        const first = await gateway.confirmIntent((await gateway.createIntent(payment)).intent_id, { upi_id: 'buyer@upi' });
+        const retried = await gateway.createIntent(payment);
+        assert.equal(retried.intent_id, first.intent_id);
+        assert.equal(retried.status, 'succeeded');
+        await assert.rejects(gateway.createIntent({ ...payment, method: 'card' }), (e: PaymentError) => e.code === 'idempotency_conflict');
+
+        await gateway.voidIntent(first.intent_id);
+        assert.notEqual((await gateway.createIntent(payment)).intent_id, first.intent_id);
+    });
+
+    it('refuses a payment made for another checkout', async () => {
+        const { cart, gateway, orders, pay } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        await cart.addItem('s2', { variant_id: '11' });
+        const intentId = await pay('s1');
+
+        await assert.rejects(orders.placeOrder(orderInput('s2', intentId)), (e: OrderError) => e.code === 'payment_mismatch');
+        assert.equal((await gateway.getIntent(intentId))?.status, 'succeeded');
+    });
+
+    it('uses a payment for one order only', async () => {
+        const { cart, gateway, orders, pay } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        const intentId = await pay('s1');
+        await orders.placeOrder(orderInput('s1', intentId));
+
+        await cart.addItem('s1', { variant_id: '11' });
+        await assert.rejects(orders.placeOrder(orderInput('s1', intentId, 'key-again')), (e: OrderError) => e.code === 'payment_in_use');
+        assert.equal((await gateway.getIntent(intentId))?.status, 'succeeded');
+    });
+
+    it('finds a customer\'s orders by normalized email or phone', async () => {
+        const { cart, orders, pay } = setup();
+        await cart.addItem('s1', { variant_id: '11' });
+        const { order } = await orders.placeOrder(orderInput('s1', await pay('s1')));
+
+        assert.deepEqual((await orders.findOrders({ email: 'PRIYA@example.com' })).map(o => o.order_id), [order.order_id]);
+        assert.deepEqual((await orders.findOrders({ phone: '098765-43210' })).map(o => o.order_id), [order.order_id]);
+        assert.deepEqual(await orders.findOrders({}), []);
+    });
+});
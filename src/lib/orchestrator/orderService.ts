@@ -0,0 +1,570 @@
+/**
+ * Order Service
+ *
+ * The one place orders are created. Checkout (/api/checkout) and the voice
+ * place_order stage both turn the session's server-side cart into an order
+ * here: every line is re-validated against the catalog, totals are computed
+ * on the server, the payment intent must be settled for exactly that total,
+ * and a unique order number is assigned before the order and its line items
+ * are persisted and the cart is emptied.
+ *
+ * Idempotency: every placement carries a key (the modal's Idempotency-Key
+ * header, or the cart version for voice). Placing again with a key that
+ * already produced an order returns that order instead of creating another.
+ *
+ * Payments: the intent must have been created for this checkout (its
+ * reference is the session or the idempotency key) and can pay for one order
+ * only. When an order is rejected, its payment is voided (or refunded) so a
+ * corrected retry pays afresh.
+ *
+ * Backends (ORDER_STORE, falls back to CART_STORE, then SESSION_STORE):
+ * - memory:   process-local Map (tests, local dev)
+ * - supabase: `orders` + `order_items` tables (production)
+ *
+ * Expected Supabase tables:
+ *   create table orders (
+ *     order_id uuid primary key,
+ *     order_number text not null unique,
+ *     idempotency_key text not null unique,
+ *     payment_intent_id text not null unique,
+ *     session_id text not null,
+ *     status text not null,
+ *     customer jsonb not null,
+ *     shipping_address jsonb not null,
+ *     payment jsonb not null,
+ *     subtotal numeric(12,2) not null,
+ *     discount numeric(12,2) not null,
+ *     shipping numeric(12,2) not null,
+ *     tax numeric(12,2) not null,
+ *     total numeric(12,2) not null,
+ *     currency text not null,
+ *     created_at timestamptz not null,
+ *     updated_at timestamptz not null
+ *   );
+ *   create table order_items (
+ *     order_id uuid not null references orders on delete cascade,
+ *     position integer not null,
+ *     product_id text not null,
+ *     variant_id text not null,
+ *     title text not null,
+ *     unit_price numeric(12,2) not null,
+ *     quantity integer not null,
+ *     primary key (order_id, position)
+ *   );
+ */
+
+import crypto from 'crypto';
+import { supabase } from '@/lib/supabase';
+import { getPaymentGateway, isPaymentSettled, PaymentGateway, PaymentIntentStatus, PaymentMethodId } from '@/lib/payments';
+import { parsePrice } from './budget';
+import { CartService, CartSnapshot, CART_CURRENCY, getCartService, resolveVariantFromCatalog, VariantResolver } from './cartService';
+
+export const ORDER_SHIPPING_FEE = 100;
+export const ORDER_TAX_RATE = 0.05; // GST
+
+export type OrderStatus = 'confirmed' | 'packed' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderLine {
+    product_id: string;
+    variant_id: string;
+    title: string;
+    unit_price: string;
+    quantity: number;
+}
+
+export interface OrderCustomer {
+    full_name: string;
+    email?: string;   // Stored lowercased
+    phone?: string;   // Stored as the last 10 digits
+}
+
+// Who is asking about their orders
+export interface CustomerIdentity {
+    email?: string;
+    phone?: string;
+}
+
+export interface OrderAddress {
+    line1: string;
+    line2?: string;
+    city: string;
+    state?: string;
+    pincode: string;
+    country: string;
+}
+
+export interface OrderPayment {
+    method: PaymentMethodId;
+    intent_id: string;
+    status: PaymentIntentStatus;
+}
+
+// Server-computed totals for a cart
+export interface OrderQuote {
+    subtotal: string;
+    discount: string;   // Bundle discounts
+    shipping: string;
+    tax: string;        // GST on the discounted subtotal
+    total: string;
+    currency: string;
+}
+
+export interface Order extends OrderQuote {
+    order_id: string;
+    order_number: string;   // Customer-facing, e.g. "AG-20260115-7K2Q9D"
+    idempotency_key: string;
+    session_id: string;
+    status: OrderStatus;
+    items: OrderLine[];
+    customer: OrderCustomer;
+    shipping_address: OrderAddress;
+    payment: OrderPayment;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PlaceOrderInput {
+    session_id: string;
+    idempotency_key: string;
+    customer: OrderCustomer;
+    shipping_address: OrderAddress;
+    payment_intent_id: string;
+}
+
+export interface PlaceOrderResult {
+    order: Order;
+    replayed: boolean;  // The key had already produced this order
+}
+
+export type OrderErrorCode =
+    | 'empty_cart'
+    | 'unavailable_item'
+    | 'invalid_details'
+    | 'payment_required'
+    | 'payment_mismatch'
+    | 'payment_in_use'
+    | 'idempotency_conflict';
+
+export class OrderError extends Error {
+    constructor(message: string, public readonly code: OrderErrorCode) {
+        super(message);
+        this.name = 'OrderError';
+    }
+}
+
+// Thrown by stores when an order number, idempotency key or payment intent is already taken
+export class OrderConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OrderConflictError';
+    }
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface OrderStore {
+    insert(order: Order): Promise<void>;
+    getById(orderId: string): Promise<Order | null>;
+    getByNumber(orderNumber: string): Promise<Order | null>;
+    getByIdempotencyKey(key: string): Promise<Order | null>;
+    getByPaymentIntent(intentId: string): Promise<Order | null>;
+    /** Orders matching the email or phone, newest first */
+    listByCustomer(identity: CustomerIdentity, limit: number): Promise<Order[]>;
+}
+
+export const normalizeEmail = (email?: string) => email?.trim().toLowerCase() || undefined;
+export const normalizePhone = (phone?: string) => phone?.replace(/\D/g, '').slice(-10) || undefined;
+
+/**
+ * Whether two sets of details share an email or phone (after normalizing)
+ */
+export function isSameCustomer(a: CustomerIdentity, b: CustomerIdentity): boolean {
+    const email = normalizeEmail(a.email);
+    const phone = normalizePhone(a.phone);
+    return (!!email && email === normalizeEmail(b.email)) || (!!phone && phone === normalizePhone(b.phone));
+}
+
+const newestFirst = (a: Order, b: Order) => b.created_at.localeCompare(a.created_at);
+
+export function createInMemoryOrderStore(): OrderStore {
+    const orders = new Map<string, Order>();
+
+    const find = (predicate: (order: Order) => boolean) => {
+        const order = [...orders.values()].find(predicate);
+        return order ? structuredClone(order) : null;
+    };
+
+    return {
+        async insert(order) {
+            if (find(o => o.order_number === order.order_number
+                || o.idempotency_key === order.idempotency_key
+                || o.payment.intent_id === order.payment.intent_id)) {
+                throw new OrderConflictError(`Order ${order.order_number} conflicts with an existing order`);
+            }
+            orders.set(order.order_id, structuredClone(order));
+        },
+
+        async getById(orderId) {
+            return find(o => o.order_id === orderId);
+        },
+
+        async getByNumber(orderNumber) {
+            return find(o => o.order_number === orderNumber);
+        },
+
+        async getByIdempotencyKey(key) {
+            return find(o => o.idempotency_key === key);
+        },
+
+        async getByPaymentIntent(intentId) {
+            return find(o => o.payment.intent_id === intentId);
+        },
+
+        async listByCustomer(identity, limit) {
+            return [...orders.values()]
+                .filter(o => (identity.email && o.customer.email === identity.email) || (identity.phone && o.customer.phone === identity.phone))
+                .sort(newestFirst)
+                .slice(0, limit)
+                .map(o => structuredClone(o));
+        }
+    };
+}
+
+interface OrderItemRow {
+    order_id: string;
+    position: number;
+    product_id: string;
+    variant_id: string;
+    title: string;
+    unit_price: number | string;
+    quantity: number;
+}
+
+type OrderRow = Omit<Order, 'items' | keyof OrderQuote> & {
+    payment_intent_id?: string;  // Copy of payment.intent_id, unique
+    subtotal: number | string;
+    discount: number | string;
+    shipping: number | string;
+    tax: number | string;
+    total: number | string;
+    currency: string;
+    order_items?: OrderItemRow[];
+};
+
+const money = (value: number | string) => Number(value).toFixed(2);
+
+function fromRow(row: OrderRow): Order {
+    const { order_items, ...order } = row;
+    delete order.payment_intent_id;
+    return {
+        ...order,
+        subtotal: money(row.subtotal),
+        discount: money(row.discount),
+        shipping: money(row.shipping),
+        tax: money(row.tax),
+        total: money(row.total),
+        items: (order_items || [])
+            .sort((a, b) => a.position - b.position)
+            .map(({ product_id, variant_id, title, unit_price, quantity }) => ({ product_id, variant_id, title, unit_price: money(unit_price), quantity }))
+    };
+}
+
+export function createSupabaseOrderStore(table: string = 'orders'): OrderStore {
+    async function findBy(column: string, value: string): Promise<Order | null> {
+        const { data, error } = await supabase
+            .from(table)
+            .select('*, order_items(*)')
+            .eq(column, value)
+            .maybeSingle();
+        if (error) throw new Error(`Failed to load order: ${error.message}`);
+        return data ? fromRow(data as unknown as OrderRow) : null;
+    }
+
+    return {
+        async insert(order) {
+            const { items, ...row } = order;
+            const { error } = await supabase.from(table).insert({ ...row, payment_intent_id: order.payment.intent_id });
+            if (error) {
+                // 23505: unique_violation (order_number, idempotency_key or payment_intent_id)
+                if (error.code === '23505') throw new OrderConflictError(`Order ${order.order_number} conflicts with an existing order`);
+                throw new Error(`Failed to save order: ${error.message}`);
+            }
+
+            const { error: itemsError } = await supabase.from('order_items').insert(items.map((item, position) => ({
+                order_id: order.order_id,
+                position,
+                ...item
+            })));
+            if (itemsError) {
+                await supabase.from(table).delete().eq('order_id', order.order_id);
+                throw new Error(`Failed to save order items: ${itemsError.message}`);
+            }
+        },
+
+        getById: orderId => findBy('order_id', orderId),
+        getByNumber: orderNumber => findBy('order_number', orderNumber),
+        getByIdempotencyKey: key => findBy('idempotency_key', key),
+        getByPaymentIntent: intentId => findBy('payment_intent_id', intentId),
+
+        async listByCustomer(identity, limit) {
+            // One .eq() query per detail: customer input never goes into a filter string
+            const filters: Array<[string, string]> = [];
+            if (identity.email) filters.push(['customer->>email', identity.email]);
+            if (identity.phone) filters.push(['customer->>phone', identity.phone]);
+
+            const matches = await Promise.all(filters.map(async ([column, value]) => {
+                const { data, error } = await supabase
+                    .from(table)
+                    .select('*, order_items(*)')
+                    .eq(column, value)
+                    .order('created_at', { ascending: false })
+                    .limit(limit);
+                if (error) throw new Error(`Failed to list orders: ${error.message}`);
+                return (data as unknown as OrderRow[]).map(fromRow);
+            }));
+            return matches.flat()
+                .filter((order, index, all) => all.findIndex(o => o.order_id === order.order_id) === index)
+                .sort(newestFirst)
+                .slice(0, limit);
+        }
+    };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+/**
+ * Totals for a cart: bundle discounts, flat shipping and GST
+ */
+export function priceOrder(cart: CartSnapshot): OrderQuote {
+    const subtotal = Number(cart.subtotal);
+    const discount = Number(cart.discount);
+    const shipping = cart.items.length > 0 ? ORDER_SHIPPING_FEE : 0;
+    const tax = (subtotal - discount) * ORDER_TAX_RATE;
+    return {
+        subtotal: subtotal.toFixed(2),
+        discount: discount.toFixed(2),
+        shipping: shipping.toFixed(2),
+        tax: tax.toFixed(2),
+        total: (subtotal - discount + shipping + tax).toFixed(2),
+        currency: CART_CURRENCY
+    };
+}
+
+/**
+ * "AG-20260115-7K2Q9D"
+ */
+export function generateOrderNumber(date: Date = new Date()): string {
+    const yyyymmdd = date.toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = crypto.randomBytes(4).readUInt32BE(0).toString(36).toUpperCase().padStart(6, '0').slice(-6);
+    return `AG-${yyyymmdd}-${suffix}`;
+}
+
+function validateDetails(input: PlaceOrderInput): void {
+    const { customer, shipping_address: address } = input;
+    if (!input.idempotency_key?.trim()) throw new OrderError('Missing idempotency key', 'invalid_details');
+    if (!customer?.full_name?.trim()) throw new OrderError('Customer name is required', 'invalid_details');
+    if (!address?.line1?.trim() || !address.city?.trim()) throw new OrderError('Shipping address is incomplete', 'invalid_details');
+    if (!/^\d{6}$/.test(address.pincode || '')) throw new OrderError('Shipping pincode must be 6 digits', 'invalid_details');
+}
+
+export interface OrderService {
+    /** Server-side totals for the session's cart */
+    quote(sessionId: string): Promise<{ cart: CartSnapshot; quote: OrderQuote }>;
+    /** Create the order from the session's cart (idempotent per key) */
+    placeOrder(input: PlaceOrderInput): Promise<PlaceOrderResult>;
+    getOrder(orderId: string): Promise<Order | null>;
+    getOrderByNumber(orderNumber: string): Promise<Order | null>;
+    /** A customer's orders by email or phone, newest first */
+    findOrders(identity: CustomerIdentity, limit?: number): Promise<Order[]>;
+}
+
+export function createOrderService(
+    store: OrderStore = getOrderStore(),
+    cartService: CartService = getCartService(),
+    gateway: PaymentGateway = getPaymentGateway(),
+    resolveVariant: VariantResolver = resolveVariantFromCatalog
+): OrderService {
+    // Serializes placements with the same key within this process (double-clicks)
+    const inFlight = new Map<string, Promise<PlaceOrderResult>>();
+
+    async function replay(input: PlaceOrderInput): Promise<PlaceOrderResult | null> {
+        const existing = await store.getByIdempotencyKey(input.idempotency_key);
+        if (!existing) return null;
+        if (existing.session_id !== input.session_id) {
+            throw new OrderError('Idempotency key was already used for a different checkout', 'idempotency_conflict');
+        }
+        console.log(`🧾 Replayed order ${existing.order_number} for key ${input.idempotency_key}`);
+        return { order: existing, replayed: true };
+    }
+
+    async function buildLines(cart: CartSnapshot): Promise<OrderLine[]> {
+        const lines: OrderLine[] = [];
+        for (const line of cart.items) {
+            const variant = await resolveVariant(line.variant_id, line.product_id);
+            if (!variant) {
+                throw new OrderError(`${line.title} is no longer available. Please remove it from your cart.`, 'unavailable_item');
+            }
+            lines.push({
+                product_id: line.product_id,
+                variant_id: line.variant_id,
+                title: line.title,
+                unit_price: (parsePrice(line.price) ?? 0).toFixed(2),
+                quantity: line.quantity
+            });
+        }
+        return lines;
+    }
+
+    async function verifyPayment(input: PlaceOrderInput, quote: OrderQuote): Promise<OrderPayment> {
+        const intentId = input.payment_intent_id;
+        const intent = intentId ? await gateway.getIntent(intentId) : null;
+        if (!intent) throw new OrderError('A payment is required to place the order', 'payment_required');
+        if (intent.reference !== input.session_id && intent.reference !== input.idempotency_key) {
+            throw new OrderError('This payment was made for a different checkout', 'payment_mismatch');
+        }
+        if (await store.getByPaymentIntent(intent.intent_id)) {
+            throw new OrderError('This payment has already been used for another order', 'payment_in_use');
+        }
+        if (!isPaymentSettled(intent)) {
+            throw new OrderError(intent.failure_reason || 'Payment has not been completed', 'payment_required');
+        }
+        if (Math.abs(Number(intent.amount) - Number(quote.total)) >= 0.01) {
+            throw new OrderError(`Payment of ₹${intent.amount} doesn't match the order total of ₹${quote.total}`, 'payment_mismatch');
+        }
+        return { method: intent.method, intent_id: intent.intent_id, status: intent.status };
+    }
+
+    async function create(input: PlaceOrderInput): Promise<PlaceOrderResult> {
+        const replayed = await replay(input);
+        if (replayed) return replayed;
+
+        validateDetails(input);
+        const cart = await cartService.getCart(input.session_id);
+        if (cart.items.length === 0) throw new OrderError('Your cart is empty', 'empty_cart');
+
+        const items = await buildLines(cart);
+        const quote = priceOrder(cart);
+        const payment = await verifyPayment(input, quote);
+
+        const now = new Date().toISOString();
+        for (let attempt = 1; ; attempt++) {
+            const order: Order = {
+                order_id: crypto.randomUUID(),
+                order_number: generateOrderNumber(),
+                idempotency_key: input.idempotency_key,
+                session_id: input.session_id,
+                status: 'confirmed',
+                items,
+                ...quote,
+                customer: {
+                    full_name: input.customer.full_name.trim(),
+                    email: normalizeEmail(input.customer.email),
+                    phone: normalizePhone(input.customer.phone)
+                },
+                shipping_address: input.shipping_address,
+                payment,
+                created_at: now,
+                updated_at: now
+            };
+
+            try {
+                await store.insert(order);
+            } catch (error) {
+                if (!(error instanceof OrderConflictError)) throw error;
+                // Another instance placed this key first, the payment was used meanwhile, or the order number collided
+                const winner = await replay(input);
+                if (winner) return winner;
+                if (await store.getByPaymentIntent(payment.intent_id)) {
+                    throw new OrderError('This payment has already been used for another order', 'payment_in_use');
+                }
+                if (attempt >= 3) throw error;
+                continue;
+            }
+
+            await cartService.clear(input.session_id);
+            console.log(`🧾 Order ${order.order_number} placed: ${items.length} lines, ₹${order.total} (${payment.method})`);
+            return { order, replayed: false };
+        }
+    }
+
+    // A rejected order gives its payment back, unless the payment belongs to an order
+    async function releasePayment(input: PlaceOrderInput, error: OrderError): Promise<void> {
+        if (!input.payment_intent_id || error.code === 'payment_in_use' || error.code === 'idempotency_conflict') return;
+        try {
+            const intent = await gateway.getIntent(input.payment_intent_id);
+            if (!intent || await store.getByPaymentIntent(intent.intent_id)) return;
+            // Only this checkout's payment: a payment for someone else's is not ours to void
+            if (intent.reference !== input.session_id && intent.reference !== input.idempotency_key) return;
+            const voided = await gateway.voidIntent(intent.intent_id);
+            console.log(`🧾 Order rejected (${error.code}), payment ${voided.intent_id} ${voided.status}`);
+        } catch (voidError) {
+            console.error(`Payment ${input.payment_intent_id} could not be voided:`, voidError);
+        }
+    }
+
+    return {
+        async quote(sessionId) {
+            const cart = await cartService.getCart(sessionId);
+            return { cart, quote: priceOrder(cart) };
+        },
+
+        placeOrder(input) {
+            const pending = inFlight.get(input.idempotency_key);
+            if (pending) return pending;
+
+            const current = create(input)
+                .catch(async error => {
+                    if (error instanceof OrderError) await releasePayment(input, error);
+                    throw error;
+                })
+                .finally(() => inFlight.delete(input.idempotency_key));
+            inFlight.set(input.idempotency_key, current);
+            return current;
+        },
+
+        getOrder: orderId => store.getById(orderId),
+        getOrderByNumber: orderNumber => store.getByNumber(orderNumber),
+
+        async findOrders(identity, limit = 5) {
+            const normalized = { email: normalizeEmail(identity.email), phone: normalizePhone(identity.phone) };
+            if (!normalized.email && !normalized.phone) return [];
+            return store.listByCustomer(normalized, limit);
+        }
+    };
+}
+
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
+
+let activeStore: OrderStore | null = null;
+let activeService: OrderService | null = null;
+
+/**
+ * Get the configured store (ORDER_STORE=memory|supabase, defaults to CART_STORE, then SESSION_STORE)
+ */
+export function getOrderStore(): OrderStore {
+    if (!activeStore) {
+        const backend = process.env.ORDER_STORE || process.env.CART_STORE || process.env.SESSION_STORE;
+        activeStore = backend === 'memory' ? createInMemoryOrderStore() : createSupabaseOrderStore();
+    }
+    return activeStore;
+}
+
+export function getOrderService(): OrderService {
+    if (!activeService) {
+        activeService = createOrderService();
+    }
+    return activeService;
+}
+
+/**
+ * Override the active service (tests, offline runs)
+ */
+export function setOrderService(service: OrderService | null): void {
+    activeService = service;
+}
@@ -0,0 +1,126 @@
+/**
+ * Order Status Lookup
+ *
+ * "Where is my order?" / "What did I buy last time?": finds a customer's
+ * orders by email or phone, from the order store first and then from Shopify
+ * (orders placed before the order store existed, email only), and turns them
+ * into one shape with a spoken-friendly summary.
+ */
+
+import { CustomerIdentity, getOrderService, normalizeEmail, Order, OrderStatus } from './orderService';
+import { findShopifyOrdersByEmail, ShopifyOrder } from './shopifyOrders';
+import type { OrderQuery } from './classificationSchema';
+
+export interface OrderStatusItem {
+    title: string;
+    quantity: number;
+    unit_price: string;
+}
+
+export interface OrderStatusEntry {
+    order_number: string;
+    placed_at: string;
+    status: OrderStatus;
+    status_label: string;      // "Shipped", "Being packed"
+    total: string;
+    currency: string;
+    items: OrderStatusItem[];
+    source: 'store' | 'shopify';
+}
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+    confirmed: 'Confirmed',
+    packed: 'Being packed',
+    shipped: 'Shipped',
+    delivered: 'Delivered',
+    cancelled: 'Cancelled'
+};
+
+function fromStoreOrder(order: Order): OrderStatusEntry {
+    return {
+        order_number: order.order_number,
+        placed_at: order.created_at,
+        status: order.status,
+        status_label: STATUS_LABELS[order.status],
+        total: order.total,
+        currency: order.currency,
+        items: order.items.map(({ title, quantity, unit_price }) => ({ title, quantity, unit_price })),
+        source: 'store'
+    };
+}
+
+// Shopify only knows unfulfilled / partial / fulfilled; delivery isn't tracked there
+function toShopifyStatus(order: ShopifyOrder): OrderStatus {
+    if (order.cancelled_at) return 'cancelled';
+    if (order.fulfillment_status === 'fulfilled' || order.fulfillment_status === 'partial') return 'shipped';
+    return 'confirmed';
+}
+
+function fromShopifyOrder(order: ShopifyOrder): OrderStatusEntry {
+    const status = toShopifyStatus(order);
+    return {
+        order_number: order.name || String(order.order_number),
+        placed_at: order.created_at,
+        status,
+        status_label: order.fulfillment_status === 'partial' ? 'Partly shipped' : STATUS_LABELS[status],
+        total: order.total_price,
+        currency: order.currency || 'INR',
+        items: (order.line_items || []).map(item => ({
+            title: item.variant_title ? `${item.title} - ${item.variant_title}` : item.title,
+            quantity: item.quantity,
+            unit_price: item.price
+        })),
+        source: 'shopify'
+    };
+}
+
+/**
+ * A customer's orders, newest first
+ */
+export async function lookupOrders(identity: CustomerIdentity, limit: number = 5): Promise<OrderStatusEntry[]> {
+    const entries = (await getOrderService().findOrders(identity, limit)).map(fromStoreOrder);
+
+    const email = normalizeEmail(identity.email);
+    if (email && entries.length < limit && process.env.SHOPIFY_ADMIN_TOKEN) {
+        try {
+            const known = new Set(entries.map(e => e.order_number));
+            const shopifyOrders = (await findShopifyOrdersByEmail(email)).map(fromShopifyOrder);
+            entries.push(...shopifyOrders.filter(e => !known.has(e.order_number)));
+        } catch (error) {
+            console.warn('Shopify order lookup skipped:', error);
+        }
+    }
+
+    return entries
+        .sort((a, b) => new Date(b.placed_at).getTime() - new Date(a.placed_at).getTime())
+        .slice(0, limit);
+}
+
+function describeItems(items: OrderStatusItem[]): string {
+    const names = items.map(i => (i.quantity > 1 ? `${i.quantity} × ${i.title}` : i.title));
+    if (names.length <= 2) return names.join(' and ');
+    return `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
+}
+
+function describeDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'long' });
+}
+
+/**
+ * Spoken summary: the latest order's state for "status", recent purchases for "history"
+ */
+export function summarizeOrders(entries: OrderStatusEntry[], query: OrderQuery): string {
+    if (entries.length === 0) {
+        return "I couldn't find any orders for those details.";
+    }
+
+    const [latest, ...older] = entries;
+    if (query === 'status') {
+        return `Your order ${latest.order_number} from ${describeDate(latest.placed_at)} (${describeItems(latest.items)}) is ${latest.status_label.toLowerCase()}.`;
+    }
+
+    const last = `Last time, on ${describeDate(latest.placed_at)}, you bought ${describeItems(latest.items)} for ₹${latest.total}.`;
+    return older.length > 0
+        ? `${last} Before that: ${older.slice(0, 2).map(e => describeItems(e.items)).join('; ')}.`
+        : last;
+}
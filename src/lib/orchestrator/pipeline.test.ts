@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assessConfidence } from '@/types/session';
+import type { ChatResponse } from '@/types/chat';
+import { runPipeline, StageHandler, TurnContext } from './pipeline';
+import { DEFAULT_STAGE_HANDLERS } from './handlers';
+import type { GeminiResponse } from './classificationSchema';
+import { createSessionRecord } from './sessionStore';
+
+function turn(overrides: { classification?: Partial<GeminiResponse> | null; request?: Partial<Omit<TurnContext['request'], 'chat_history'>>; message?: string; confidence?: number } = {}): TurnContext {
+    const { conversation, session } = createSessionRecord('s1');
+    const confidence = overrides.confidence ?? 0.9;
+    const message = overrides.message ?? 'I want a camera to vlog my trip';
+    return {
+        request: { session_id: 's1', current_message: message, chat_history: [], ...overrides.request },
+        state: { conversation, session },
+        emit: () => undefined,
+        message,
+        history: [],
+        offset: 0,
+        persona: null,
+        greetingPrefix: '',
+        intentId: 'travel_vlogging',
+        confidence,
+        confidenceLevel: assessConfidence(confidence),
+        classification: overrides.classification === null ? null : {
+            intent_id: 'travel_vlogging', confidence, missing_info: [], acknowledgement: 'Got it!', explanation: '', ...overrides.classification
+        },
+        lastProducts: [],
+        cart: null,
+        profile: null
+    };
+}
+
+// The stage that gets the turn first
+function stageFor(ctx: TurnContext): string | undefined {
+    return DEFAULT_STAGE_HANDLERS.find(handler => handler.canHandle(ctx))?.name;
+}
+
+const answer = (acknowledgement: string) => ({ response_type: 'recommendation', acknowledgement }) as unknown as ChatResponse;
+
+describe('runPipeline', () => {
+    it('answers with the first handler that can handle the turn and responds', async () => {
+        const calls: string[] = [];
+        const handler = (name: string, canHandle: boolean, response: ChatResponse | null): StageHandler => ({
+            name,
+            canHandle: () => canHandle,
+            handle: async () => { calls.push(name); return response; }
+        });
+
+        const response = await runPipeline(turn(), [
+            handler('skipped', false, answer('skipped')),
+            handler('passes', true, null),
+            handler('answers', true, answer('answers')),
+            handler('never', true, answer('never'))
+        ]);
+        assert.equal((response as { acknowledgement: string }).acknowledgement, 'answers');
+        assert.deepEqual(calls, ['passes', 'answers']);
+    });
+
+    it('fails when no handler responds', async () => {
+        await assert.rejects(runPipeline(turn(), []), /No stage handler/);
+    });
+});
+
+describe('DEFAULT_STAGE_HANDLERS', () => {
+    it('routes cart, order and comparison requests to their stages', () => {
+        assert.equal(stageFor(turn({ classification: { cart_action: 'add', product_index: 0 } })), 'cart_action');
+        assert.equal(stageFor(turn({ classification: { cart_action: 'remove', cart_item_index: 0 } })), 'cart_update');
+        assert.equal(stageFor(turn({ classification: { cart_action: 'place_order' } })), 'order_placed');
+        assert.equal(stageFor(turn({ classification: { order_query: 'status' } })), 'order_status');
+        assert.equal(stageFor(turn({ classification: { compare_indices: [0, 1] } })), 'comparison');
+    });
+
+    it('lets cart requests through while the image picker is open', () => {
+        const refine = { action: 'refine_images' as const };
+        assert.equal(stageFor(turn({ request: refine, classification: { cart_action: 'add', product_index: 0 } })), 'cart_action');
+        assert.equal(stageFor(turn({ request: refine, message: 'make it brighter' })), 'image_feedback');
+    });
+
+    it('handles image actions sent without a classification', () => {
+        assert.equal(stageFor(turn({ request: { action: 'accept_image', intent_id: 'travel_vlogging' }, classification: null })), 'image_accepted');
+        assert.equal(stageFor(turn({ request: { action: 'skip_images', intent_id: 'travel_vlogging' }, classification: null })), 'image_accepted');
+    });
+
+    it('checks a pending order lookup code before anything else', () => {
+        const ctx = turn({ message: 'it is 042 817', classification: { cart_action: 'summary' } });
+        ctx.state.session.customer_verification = { identity: { email: 'priya@example.com' }, code_hash: '', expires_at: 0, attempts: 0, query: 'status' };
+        assert.equal(stageFor(ctx), 'order_verification');
+    });
+
+    it('asks when unsure and otherwise recommends', () => {
+        assert.equal(stageFor(turn({ confidence: 0.5 })), 'clarification');
+        assert.equal(stageFor(turn({ classification: { ready_for_image_generation: true } })), 'image_generation');
+        assert.equal(stageFor(turn()), 'recommendation');
+    });
+});
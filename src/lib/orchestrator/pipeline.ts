@@ -0,0 +1,320 @@
+/**
+ * Orchestrator Pipeline
+ *
+ * A turn is prepared once (persona, greeting, classification, semantic
+ * validation, session tracking) and then offered to the registered stage
+ * handlers in order. The first handler whose canHandle(ctx) is true and whose
+ * handle(ctx) returns a response wins; returning null passes to the next one.
+ */
+
+import { SessionState, ConfidenceLevel, OutcomeConstraints, assessConfidence } from '@/types/session';
+import type { ChatHistory } from '@/types/message';
+import type { ChatRequest, ChatResponse, RankedProduct, StreamEmitter } from '@/types/chat';
+import { ConversationState, Persona, updatePersona, updateIntent, markReturningUser } from './conversationState';
+import { inferPersona, getPersonaDisplayName } from './personaInference';
+import { loadIntentsWithDescriptions, validateIntentMatch, quickSemanticCheck } from './semanticIntentMatcher';
+import { GeminiResponse } from './classificationSchema';
+import { classifyIntent } from './intentClassifier';
+import { CartSnapshot, getCartService } from './cartService';
+import { generateGreeting } from './greetings';
+import { extractBudget, describeBudget } from './budget';
+import { DEFAULT_STAGE_HANDLERS } from './handlers';
+import { CustomerProfile, getCustomerProfileService } from './customerProfiles';
+import type { CustomerIdentity } from './orderService';
+
+// Persisted per-session state for the current turn (reassigned via conversationState helpers)
+export interface TurnState {
+    conversation: ConversationState;
+    session: SessionState;
+}
+
+export interface TurnContext {
+    request: ChatRequest;
+    state: TurnState;
+    emit: StreamEmitter;
+    message: string;
+    history: ChatHistory;
+    offset: number;
+    persona: Persona;
+    greetingPrefix: string;                 // Set on the first turn only
+    intentId: string;
+    confidence: number;
+    confidenceLevel: ConfidenceLevel;
+    classification: GeminiResponse | null;  // null in pagination bypass mode
+    lastProducts: RankedProduct[];          // Products the user last saw, in display order
+    cart: CartSnapshot | null;              // Server-side cart (null in pagination bypass mode)
+    profile: CustomerProfile | null;        // Returning customer, recognized by a verified email or phone
+}
+
+export interface StageHandler {
+    name: string;
+    canHandle(ctx: TurnContext): boolean;
+    handle(ctx: TurnContext): Promise<ChatResponse | null>;
+}
+
+/**
+ * Build the context shared by all stage handlers. Mutates `state`.
+ */
+export async function prepareTurn(request: ChatRequest, state: TurnState, emit: StreamEmitter): Promise<TurnContext> {
+    const message = request.current_message;
+    const history = (request.chat_history || []) as ChatHistory;
+    const lastProducts = state.session.last_products || [];
+
+    // ============================================================================
+    // AARAV PHASE 1: CONVERSATION STATE & PERSONA TRACKING
+    // ============================================================================
+
+    // Conversation state is loaded from the session store (see POST)
+    const isFirstTurn = state.conversation.turn_count === 1 && history.length === 0;
+
+    // Details sent with the request are kept for order lookups (not the delivery
+    // address: VoiceMode sends a default one with every request)
+    const known = state.session.customer || {};
+    rememberCustomer(state, {
+        email: request.customer?.email || known.email,
+        phone: request.customer?.phone || known.phone
+    });
+
+    // Returning customers: only an email or phone proven with a code. Anyone can
+    // type someone else's email, and the profile reveals what they bought.
+    const profile = await recognizeCustomer(state, state.session.verified_customer);
+
+    // Infer persona from current message and history
+    const currentPersona = state.conversation.inferred_persona;
+    const persona = inferPersona(message, history, currentPersona);
+
+    if (persona && persona !== currentPersona) {
+        console.log(`🎭 Persona: ${getPersonaDisplayName(persona)}`);
+        state.conversation = updatePersona(state.conversation, persona);
+    }
+
+    // Budget persists across turns until the user changes or lifts it
+    const previousConstraints = state.session.outcome_context.constraints;
+    const budget = extractBudget(message, previousConstraints.budget);
+    if (budget !== undefined) {
+        console.log(budget ? `💸 Budget: ${describeBudget(budget)}` : '💸 Budget constraint lifted');
+        state.session = {
+            ...state.session,
+            outcome_context: {
+                ...state.session.outcome_context,
+                constraints: { ...previousConstraints, budget: budget || undefined }
+            }
+        };
+    }
+
+    // Generate greeting for first turn
+    const greetingPrefix = isFirstTurn ? generateGreeting(state.conversation.is_returning_user, profile?.owned_products[0]?.title) + ' ' : '';
+
+    const ctx: TurnContext = {
+        request,
+        state,
+        emit,
+        message,
+        history,
+        offset: request.offset || 0,
+        persona,
+        greetingPrefix,
+        intentId: '',
+        confidence: 0,
+        confidenceLevel: assessConfidence(0),
+        classification: null,
+        lastProducts,
+        cart: null,
+        profile
+    };
+
+    // Bypass mode (Pagination/Load More)
+    if (request.intent_id) {
+        ctx.intentId = request.intent_id;
+        ctx.confidence = 1.0; // Assume valid if client is requesting more
+        ctx.confidenceLevel = assessConfidence(ctx.confidence);
+        return ctx;
+    }
+
+    // Standard classification (Aarav) - the cart lets "remove the tripod" resolve to a line
+    ctx.cart = await getCartService().getCart(request.session_id);
+    const classification = await classifyIntent(message, history, lastProducts.length, ctx.cart.items);
+    let intentId = classification.intent_id;
+    let confidence = classification.confidence;
+    console.log("📊 CLASSIFICATION:", { intent_id: intentId, confidence, ready_for_image_generation: classification.ready_for_image_generation });
+    emit({ type: 'acknowledgement', intent_id: intentId, confidence, acknowledgement: greetingPrefix + classification.acknowledgement });
+
+    // "It's priya@example.com": remembered for the order lookup, which verifies it
+    if (classification.customer_email || classification.customer_phone) {
+        rememberCustomer(state, {
+            email: classification.customer_email || state.session.customer?.email,
+            phone: classification.customer_phone || state.session.customer?.phone
+        });
+    }
+
+    // SEMANTIC VALIDATION: Check if classified intent actually matches user's need
+    if (intentId && confidence >= 0.5) {
+        // Quick check first (keyword-based, no LLM call)
+        const quickCheck = quickSemanticCheck(intentId, message);
+
+        if (!quickCheck) {
+            console.log(`🔍 Quick semantic check failed for "${intentId}", validating with LLM...`);
+
+            // Full LLM validation against all intent descriptions
+            const intentsWithDesc = await loadIntentsWithDescriptions();
+            const contextString = history.slice(-4).map(m => `${m.role}: ${m.content}`).join('\n');
+
+            const validation = await validateIntentMatch(
+                intentId,
+                message,
+                contextString,
+                intentsWithDesc
+            );
+
+            if (validation.should_use_fallback) {
+                console.log(`⚠️ Semantic mismatch: "${intentId}" doesn't match "${validation.inferred_need}"`);
+                console.log(`   Reason: ${validation.match_reason}`);
+                console.log(`   → Will use dynamic capability fallback`);
+                // Set intent_id to a marker that triggers dynamic fallback
+                intentId = validation.matched_intent_id || `dynamic_${validation.inferred_need.replace(/\s+/g, '_').toLowerCase()}`;
+            } else if (validation.matched_intent_id && validation.matched_intent_id !== intentId) {
+                console.log(`✅ Semantic correction: "${intentId}" → "${validation.matched_intent_id}"`);
+                intentId = validation.matched_intent_id;
+                confidence = validation.confidence;
+            }
+        }
+    }
+
+    // Hard constraints accumulate across turns until relaxed or the use case changes (excluded products are reported by retrieval)
+    // (cart and order turns don't name a new use case, whatever intent they carry)
+    const previousIntentId = state.session.current_intent_id;
+    const shoppingTurn = !classification.cart_action && !classification.order_query;
+    const intentChanged = shoppingTurn && !!previousIntentId && !!intentId && intentId !== previousIntentId;
+    const constraints = mergeHardConstraints(state.session.outcome_context.constraints, classification, intentChanged);
+
+    // Track session state across turns (outcome context accumulates)
+    state.conversation = updateIntent(state.conversation, intentId, confidence);
+    state.session = {
+        ...state.session,
+        clarification_count: state.conversation.clarification_attempts,
+        current_intent_id: intentId,
+        confidence_history: [...state.session.confidence_history, confidence],
+        outcome_context: {
+            ...state.session.outcome_context,
+            use_case: classification.outcome_description || state.session.outcome_context.use_case,
+            desired_outcome: classification.outcome_description || state.session.outcome_context.desired_outcome,
+            constraints
+        }
+    };
+
+    ctx.intentId = intentId;
+    ctx.confidence = confidence;
+    // PHASE 1: ENHANCED CONFIDENCE ASSESSMENT
+    ctx.confidenceLevel = assessConfidence(confidence);
+    ctx.classification = classification;
+    return ctx;
+}
+
+function rememberCustomer(state: TurnState, identity: CustomerIdentity): void {
+    if (!identity.email && !identity.phone) return;
+    state.session = { ...state.session, customer: identity };
+}
+
+/**
+ * Look up the verified customer's profile and, if they have one, mark the
+ * conversation as a returning customer's. Recognition failures never fail the turn.
+ */
+async function recognizeCustomer(state: TurnState, identity: CustomerIdentity | undefined): Promise<CustomerProfile | null> {
+    if (!identity?.email && !identity?.phone) return null;
+
+    try {
+        const profile = await getCustomerProfileService().recognize(identity);
+        if (profile && !state.conversation.is_returning_user) {
+            console.log(`👋 Returning customer: ${profile.order_numbers.length} order(s), last persona ${profile.last_persona || 'unknown'}`);
+            state.conversation = markReturningUser(state.conversation, profile.last_persona);
+        }
+        return profile;
+    } catch (error) {
+        console.warn('Customer recognition skipped:', error);
+        return null;
+    }
+}
+
+// Responses that mean the customer was shopping for the turn's intent
+const SHOPPING_RESPONSES = new Set<ChatResponse['response_type']>(['recommendation', 'comparison', 'bundle']);
+
+// Remember what a recognized customer shopped for and their persona, for next time
+async function rememberCustomerTurn(ctx: TurnContext, response: ChatResponse): Promise<void> {
+    if (!ctx.profile) return;
+    try {
+        await getCustomerProfileService().recordTurn(ctx.profile, {
+            intent_id: ctx.classification && SHOPPING_RESPONSES.has(response.response_type) ? ctx.intentId : undefined,
+            persona: ctx.state.conversation.inferred_persona
+        });
+    } catch (error) {
+        console.warn('Customer profile update skipped:', error);
+    }
+}
+
+// Union by case-insensitive phrase, keeping the first spelling
+function mergePhrases(existing: string[] = [], added: string[] = []): string[] | undefined {
+    const merged = [...existing];
+    for (const phrase of added) {
+        if (!merged.some(p => p.toLowerCase() === phrase.toLowerCase())) merged.push(phrase);
+    }
+    return merged.length > 0 ? merged : undefined;
+}
+
+// Drop phrases the user relaxed ("waterproof" also drops "fully waterproof")
+function removePhrases(existing: string[] = [], relaxed: string[] = []): string[] {
+    const dropped = relaxed.map(r => r.toLowerCase());
+    return existing.filter(phrase => !dropped.some(r => phrase.toLowerCase().includes(r) || r.includes(phrase.toLowerCase())));
+}
+
+/**
+ * Hard constraints for this turn: a new use case starts over, otherwise the
+ * relaxed ones are dropped and the new ones added
+ */
+function mergeHardConstraints(constraints: OutcomeConstraints, classification: GeminiResponse, intentChanged: boolean): OutcomeConstraints {
+    const relaxed = classification.relaxed_constraints || [];
+    if (intentChanged && (constraints.features?.length || constraints.compatibility?.length)) {
+        console.log('🚫 Must-haves cleared: new use case');
+    } else if (relaxed.length > 0) {
+        console.log(`🚫 Must-haves relaxed: ${relaxed.join(', ')}`);
+    }
+    const features = intentChanged ? [] : removePhrases(constraints.features, relaxed);
+    const compatibility = intentChanged ? [] : removePhrases(constraints.compatibility, relaxed);
+
+    const added = [...(classification.must_have_features || []), ...(classification.compatibility || [])];
+    if (added.length > 0) console.log(`🚫 Must-haves: ${added.join(', ')}`);
+    return {
+        ...constraints,
+        features: mergePhrases(features, classification.must_have_features),
+        compatibility: mergePhrases(compatibility, classification.compatibility)
+    };
+}
+
+/**
+ * Offer the turn to each handler in order until one responds
+ */
+export async function runPipeline(ctx: TurnContext, handlers: StageHandler[]): Promise<ChatResponse> {
+    for (const handler of handlers) {
+        if (!handler.canHandle(ctx)) continue;
+        const response = await handler.handle(ctx);
+        if (response) {
+            console.log(`🧩 Stage "${handler.name}" → ${response.response_type}`);
+            return response;
+        }
+    }
+    throw new Error(`No stage handler produced a response for intent "${ctx.intentId}"`);
+}
+
+/**
+ * Orchestrate a single turn. Mutates `state` with the updated persisted state.
+ */
+export async function orchestrateTurn(
+    request: ChatRequest,
+    state: TurnState,
+    emit: StreamEmitter,
+    handlers: StageHandler[] = DEFAULT_STAGE_HANDLERS
+): Promise<ChatResponse> {
+    const ctx = await prepareTurn(request, state, emit);
+    const response = await runPipeline(ctx, handlers);
+    await rememberCustomerTurn(ctx, response);
+    return response;
+}
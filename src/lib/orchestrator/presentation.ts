@@ -0,0 +1,219 @@
+/**
+ * Presentation Writer (LLM 2)
+ *
+ * Turns deterministically ranked products into user-facing copy. Streaming
+ * callers receive the ranked products first, then each product's copy as soon
+ * as the model has written it. The persona-aware tradeoffs (why_fits /
+ * tradeoffs / when_to_choose) are written in parallel, sent when ready and
+ * merged per product.
+ */
+
+import { getLLMClient, LLMParseError, parseJSONFromText } from '@/lib/llm';
+import type { PresentationProduct, RankedProduct, StreamEmitter } from '@/types/chat';
+import type { EnrichedProduct } from './productService';
+import type { Persona } from './conversationState';
+import { generateTradeoffs } from './tradeoffGenerator';
+
+/**
+ * Reduce ranked products to the fields the UI needs up front
+ */
+export function toRankedProducts(products: EnrichedProduct[]): RankedProduct[] {
+    return products.map(p => ({
+        product_id: p.id,
+        variant_id: p.variant_id,
+        title: p.title,
+        price: p.price,
+        image_url: p.image_url,
+        fit_score: p.fit_score
+    }));
+}
+
+// Helper: generate presentation via Gemini (LLM 2)
+export async function generatePresentation(
+    intentId: string,
+    userMessage: string,
+    products: EnrichedProduct[],
+    offset: number,
+    emit: StreamEmitter = () => { },
+    persona: Persona = null
+): ReturnType<typeof writePresentation> {
+    // Streaming clients can render cards before the copy is written
+    emit({
+        type: 'products_ranked',
+        intent_id: intentId,
+        products: toRankedProducts(products)
+    });
+
+    // Copy is sent per product as soon as the model has written it; tradeoffs follow when ready
+    const described = new Set<string>();
+    const emitCopy = (product: PresentationCopy) => {
+        const productId = String(product.product_id);
+        described.add(productId);
+        emit({ type: 'presentation_delta', product_id: productId, description: product.description, reasoning: product.reasoning, features: product.features });
+    };
+
+    const ranked = toRankedProducts(products);
+    const [presentation, tradeoffs] = await Promise.all([
+        writePresentation(intentId, userMessage, products, offset, emitCopy),
+        generateTradeoffs(ranked, intentId, persona, userMessage).then(results => {
+            for (const { product_id, why_fits, tradeoffs, when_to_choose } of results) {
+                emit({ type: 'presentation_delta', product_id: String(product_id), why_fits, tradeoffs, when_to_choose });
+            }
+            return results;
+        })
+    ]);
+
+    // Products whose copy only exists in the final result (fallback copy, unparseable stream)
+    for (const product of [presentation.primary, ...(presentation.secondary || [])]) {
+        if (product?.product_id && !described.has(String(product.product_id))) emitCopy(product);
+    }
+
+    const withTradeoffs = (product: PresentationProduct): PresentationProduct => {
+        const tradeoff = tradeoffs.find(t => String(t.product_id) === String(product.product_id));
+        if (!tradeoff) return product;
+        return {
+            ...product,
+            fit_score: tradeoff.fit_score,
+            why_fits: tradeoff.why_fits,
+            tradeoffs: tradeoff.tradeoffs,
+            when_to_choose: tradeoff.when_to_choose
+        };
+    };
+    presentation.primary = presentation.primary && withTradeoffs(presentation.primary);
+    presentation.secondary = (presentation.secondary || []).map(withTradeoffs);
+
+    return presentation;
+}
+
+interface PresentationCopy {
+    product_id: string;
+    description?: string;
+    reasoning?: string;
+    features?: string[];
+}
+
+/**
+ * Product objects (those with a product_id) already complete in partial JSON
+ * output, in the order they were written
+ */
+function completedProducts(text: string): PresentationCopy[] {
+    const found: PresentationCopy[] = [];
+    const starts: number[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (c === '\\') escaped = true;
+            else if (c === '"') inString = false;
+            continue;
+        }
+        if (c === '"') {
+            inString = true;
+        } else if (c === '{') {
+            starts.push(i);
+        } else if (c === '}') {
+            const start = starts.pop();
+            if (start === undefined || starts.length === 0) continue; // The root object is the whole answer
+            try {
+                const candidate = JSON.parse(text.slice(start, i + 1));
+                if (candidate?.product_id) found.push(candidate);
+            } catch {
+                // Not a complete product yet
+            }
+        }
+    }
+    return found;
+}
+
+async function writePresentation(
+    intentId: string,
+    userMessage: string,
+    products: EnrichedProduct[],
+    offset: number,
+    onProduct: (product: PresentationCopy) => void = () => { }
+): Promise<{
+    primary: PresentationProduct | null;
+    secondary: PresentationProduct[];
+    acknowledgement: string;
+}> {
+    const prompt = `You are Aarav, the expert shopping assistant.
+    
+CONTEXT:
+User Intent: ${intentId}
+User Message: "${userMessage}"
+Top Ranked Products (Deterministic): ${JSON.stringify(products)}
+Offset: ${offset}
+
+TASK:
+1.  **Acknowledgement**: Brief, reassuring confirmation of finding these items.
+2.  **Primary Recommendation**: Select the FIRST product (Rank 1) as the primary recommendation.
+    -   Write a "description" (1-2 sentences) about why it fits the intent.
+    -   Write a "reasoning" (bullet points or short paragraph) detailing its benefits for this specific user.
+    -   Extract key "features" as a list.
+    -   IMPORTANT: Include the exact "variant_id" from the source product data.
+3.  **Secondary Recommendations**: For the remaining products, write a short "description" (1 sentence) on why they are good alternatives.
+    -   Do NOT create "reasoning" for secondary items.
+    -   IMPORTANT: Include the exact "variant_id" from each product's source data.
+
+OUTPUT JSON ONLY:
+{
+  "acknowledgement": "string",
+  "primary": {
+    "product_id": "string",
+    "variant_id": "string",
+    "title": "string",
+    "price": "string",
+    "image_url": "string",
+    "description": "string",
+    "reasoning": "string",
+    "features": ["string"]
+  },
+  "secondary": [
+    {
+      "product_id": "string",
+      "variant_id": "string",
+      "title": "string",
+      "price": "string",
+      "image_url": "string",
+      "description": "string"
+    }
+  ]
+}`;
+
+    try {
+        const client = getLLMClient();
+        if (!client.streamText) {
+            return await client.generateJSON(prompt, { label: 'generate_presentation' });
+        }
+
+        // Hand each product over as soon as its object is complete in the stream
+        let written = '';
+        const seen = new Set<string>();
+        const text = await client.streamText(prompt, {
+            label: 'generate_presentation',
+            json: true,
+            onText: chunk => {
+                written += chunk;
+                for (const product of completedProducts(written)) {
+                    if (seen.has(String(product.product_id))) continue;
+                    seen.add(String(product.product_id));
+                    onProduct(product);
+                }
+            }
+        });
+        return parseJSONFromText(text);
+    } catch (e) {
+        if (!(e instanceof LLMParseError)) throw e;
+        console.error("Presentation JSON Parse Error", e.rawText);
+        // Fallback: return raw products if LLM fails
+        const [primary, ...secondary] = toRankedProducts(products);
+        return {
+            acknowledgement: "Here are the best matches I found.",
+            primary: primary ? { ...primary, description: "Top match", reasoning: "Best fit for your needs.", features: [] } : null,
+            secondary: secondary.map(p => ({ ...p, description: "Good alternative" }))
+        };
+    }
+}
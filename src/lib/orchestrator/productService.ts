@@ -1,5 +1,16 @@
-import { supabase } from '@/lib/supabase';
+import type { OutcomeConstraints } from '@/types/session';
 import { dynamicProductSearch, DynamicProduct } from './dynamicCapabilityMatcher';
+import { applyBudget } from './budget';
+import { applyHardConstraints, hasHardConstraints, ConstraintReport } from './hardConstraints';
+import { getCatalogRepository } from './catalogRepository';
+import { getCatalogProducts, getScoredProducts, selectVariant, toProductListing } from './catalog';
+import { describeRelation } from './compatibility';
+
+// With a budget or hard constraints, rank within a wider pool so filtering still fills a page
+export const CONSTRAINED_CANDIDATE_POOL = 50;
+
+// Fit-score bonus for an accessory compatible with gear the customer already owns (× edge strength)
+const OWNED_GEAR_BOOST = 0.3;
 
 export interface EnrichedProduct {
     id: string;
@@ -11,6 +22,7 @@ export interface EnrichedProduct {
     fit_score?: number;
     score_breakdown?: any;
     source?: 'intent' | 'capability'; // Track where product came from
+    within_budget?: boolean; // Set when a budget applies; false = nearest option outside it
 }
 
 // Fetch top products for a given intent, enriched with scores.
@@ -19,47 +31,58 @@ export async function getTopProducts(
     intentId: string,
     offset = 0,
     limit = 3,
-    userMessage?: string // Optional: used for dynamic fallback
+    userMessage?: string, // Optional: used for dynamic fallback
+    constraints: OutcomeConstraints = {},
+    ownedProductIds: string[] = [] // Returning customer's gear: compatible accessories rank higher
 ): Promise<EnrichedProduct[]> {
-    console.log(`🔍 Fetching products for intent: "${intentId}", offset: ${offset}, limit: ${limit}`);
-
-    // Step 1: Try intent-based search
-    const { data: scores, error } = await supabase
-        .from('product_intent_scores')
-        .select('product_id, fit_score, score_breakdown')
-        .eq('intent_id', intentId)
-        .order('fit_score', { ascending: false })
-        .range(offset, offset + limit - 1);
-
-    if (error) {
-        console.error('❌ Error fetching product scores:', error);
-        throw new Error('Failed to fetch product scores');
-    }
+    return (await getTopProductsWithReport(intentId, offset, limit, userMessage, constraints, ownedProductIds)).products;
+}
+
+// Same as getTopProducts, plus which hard constraint eliminated which candidates.
+// Products failing a hard constraint are dropped; with a budget, products outside
+// it are dropped too (or, if nothing fits, the nearest are returned).
+export async function getTopProductsWithReport(
+    intentId: string,
+    offset = 0,
+    limit = 3,
+    userMessage?: string,
+    constraints: OutcomeConstraints = {},
+    ownedProductIds: string[] = []
+): Promise<{ products: EnrichedProduct[]; report: ConstraintReport }> {
+    const { budget } = constraints;
+    const constrained = !!budget || hasHardConstraints(constraints);
+    const reranked = constrained || ownedProductIds.length > 0;
+    const report: ConstraintReport = { constraints: [], eliminated: [] };
+    console.log(`🔍 Fetching products for intent: "${intentId}", offset: ${offset}, limit: ${limit}${constrained ? `, constraints: ${JSON.stringify(constraints)}` : ''}`);
+
+    // Step 1: Try intent-based search (constrained or re-ranked searches page afterwards)
+    const scored = await getScoredProducts(reranked
+        ? { intentId, limit: CONSTRAINED_CANDIDATE_POOL }
+        : { intentId, offset, limit });
 
-    console.log(`📊 Found ${scores?.length || 0} product scores for intent "${intentId}"`);
+    console.log(`📊 Found ${scored.length} product scores for intent "${intentId}"`);
 
     // Step 2: If no products found, try DYNAMIC CAPABILITY FALLBACK
-    if (!scores || scores.length === 0) {
+    if (scored.length === 0) {
         console.log(`🔄 No products for intent "${intentId}", trying dynamic capability search...`);
 
         // Log available intents for debugging
-        const { data: availableIntents } = await supabase
-            .from('product_intent_scores')
-            .select('intent_id')
-            .limit(50);
-        const uniqueIntents = [...new Set((availableIntents || []).map((i: any) => i.intent_id))];
+        const availableIntents = await getCatalogRepository().listIntentScores({ limit: 50 });
+        const uniqueIntents = [...new Set(availableIntents.map(i => i.intent_id))];
         console.log(`📋 Available intents in DB:`, uniqueIntents);
 
         // Try dynamic search
         const dynamicProducts = await dynamicProductSearch(
             intentId.replace(/_/g, ' '), // Convert intent_id to readable description
             userMessage || intentId,
-            limit
+            limit,
+            constraints,
+            report
         );
 
         if (dynamicProducts.length > 0) {
             console.log(`✅ Dynamic fallback found ${dynamicProducts.length} products`);
-            return dynamicProducts.map((p: DynamicProduct) => ({
+            const products = dynamicProducts.map((p: DynamicProduct) => ({
                 id: p.product_id,
                 variant_id: p.variant_id,
                 title: p.title,
@@ -67,44 +90,61 @@ export async function getTopProducts(
                 image_url: p.image_url,
                 highlights: [],
                 fit_score: p.computed_score,
-                source: 'capability' as const
+                source: 'capability' as const,
+                within_budget: p.within_budget
             }));
+            return { products, report };
         }
 
         console.log(`⚠️ Dynamic fallback also found no products`);
-        return [];
+        return { products: [], report };
     }
 
-    // Step 3: Intent-based products found - fetch details
-    const productIds = (scores as any).map((s: any) => s.product_id);
+    // Step 3: Intent-based products found (variant that fits the budget, if any)
+    const merged: EnrichedProduct[] = scored.map(({ product, score }) => {
+        const listing = toProductListing(product, selectVariant(product, budget));
+        return {
+            id: listing.product_id,
+            variant_id: listing.variant_id || undefined,
+            title: listing.title,
+            price: listing.price,
+            image_url: listing.image_url,
+            highlights: [],
+            fit_score: score.fit_score ?? undefined,
+            score_breakdown: score.score_breakdown,
+            source: 'intent' as const
+        };
+    });
 
-    const { data: products, error: prodErr } = await supabase
-        .from('products_raw')
-        .select('*')
-        .in('id', productIds);
-    if (prodErr) throw new Error('Failed to fetch product details');
+    const ranked = ownedProductIds.length > 0 ? await boostOwnedGearAccessories(merged, ownedProductIds) : merged;
+    if (!reranked) return { products: ranked, report };
+    if (!constrained) return { products: ranked.slice(offset, offset + limit), report };
+    const eligible = await applyHardConstraints(ranked, p => p.id, constraints, report);
+    return { products: applyBudget(eligible, budget).slice(offset, offset + limit), report };
+}
 
-    // Merge
-    return productIds.map((id: string) => {
-        const prod = (products as any).find((p: any) => p.id === id);
-        const score = (scores as any).find((s: any) => s.product_id === id);
+// Accessories that fit gear the customer already owns move up (and say so);
+// the gear itself moves to the back, they have it already
+async function boostOwnedGearAccessories(products: EnrichedProduct[], ownedProductIds: string[]): Promise<EnrichedProduct[]> {
+    const owned = new Set(ownedProductIds.map(String));
+    const edges = await getCatalogRepository().listCompatibility({ productIds: [...owned], accessoryIds: products.map(p => p.id) });
 
-        // Robust extraction for Shopify-like schema
-        const price = prod.variants?.[0]?.price || "N/A";
-        const image_url = prod.images?.[0]?.src || "";
-        const variant_id = prod.variants?.[0]?.id?.toString() || prod.variants?.[0]?.variant_id?.toString();
-        const highlights: string[] = [];
+    const ownedTitles = edges.length === 0 ? new Map<string, string>() : new Map((await getCatalogProducts([...owned])).map(p => [p.product_id, p.title]));
+    const boosts = new Map<string, { boost: number; reason: string }>();
+    for (const edge of edges) {
+        const boost = (edge.strength ?? 1) * OWNED_GEAR_BOOST;
+        const accessoryId = String(edge.accessory_id);
+        if (boost <= (boosts.get(accessoryId)?.boost ?? 0)) continue;
+        const ownedTitle = ownedTitles.get(String(edge.product_id));
+        boosts.set(accessoryId, { boost, reason: edge.note || (ownedTitle ? describeRelation(edge.relation, ownedTitle) : 'Works with gear you already own') });
+    }
+    if (boosts.size > 0) console.log(`👤 Owned-gear boost for ${boosts.size} accessory(ies)`);
 
-        return {
-            id: prod.id,
-            variant_id: variant_id,
-            title: prod.title,
-            price: price,
-            image_url: image_url,
-            highlights: highlights,
-            fit_score: score?.fit_score,
-            score_breakdown: score?.score_breakdown,
-            source: 'intent' as const
-        } as EnrichedProduct;
-    });
+    const rankScore = (p: EnrichedProduct) => owned.has(p.id) ? -1 : (p.fit_score ?? 0) + (boosts.get(p.id)?.boost ?? 0);
+    return [...products]
+        .sort((a, b) => rankScore(b) - rankScore(a))
+        .map(product => {
+            const match = boosts.get(product.id);
+            return match ? { ...product, highlights: [match.reason, ...(product.highlights || [])] } : product;
+        });
 }
@@ -6,7 +6,8 @@
  * If no good match, triggers dynamic capability fallback.
  */
 
-import { supabase } from '@/lib/supabase';
+import { getLLMClient, LLMParseError } from '@/lib/llm';
+import { getCatalogRepository } from './catalogRepository';
 
 export interface IntentWithDescription {
     intent_id: string;
@@ -22,21 +23,26 @@ export interface SemanticMatchResult {
     should_use_fallback: boolean;
 }
 
+// Shape requested from the LLM in validateIntentMatch
+interface RawSemanticMatch {
+    inferred_need?: string;
+    best_matching_intent_id?: string | null;
+    match_confidence?: number;
+    match_reason?: string;
+    should_use_fallback?: boolean;
+}
+
 /**
  * Load all intents with their full descriptions from database
  */
 export async function loadIntentsWithDescriptions(): Promise<IntentWithDescription[]> {
-    const { data, error } = await supabase
-        .from('intents')
-        .select('intent_id, name, description')
-        .neq('safety_level', 'blocked'); // Exclude blocked intents
-
-    if (error) {
+    try {
+        const intents = await getCatalogRepository().listIntents({ excludeBlocked: true });
+        return intents.map(({ intent_id, name, description }) => ({ intent_id, name, description: description ?? null }));
+    } catch (error) {
         console.error('Failed to load intents:', error);
         return [];
     }
-
-    return data as IntentWithDescription[];
 }
 
 /**
@@ -48,8 +54,6 @@ export async function validateIntentMatch(
     conversationContext: string,
     intents: IntentWithDescription[]
 ): Promise<SemanticMatchResult> {
-    const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-
     // Build intent descriptions for LLM
     const intentDescriptions = intents.map(i =>
         `- ${i.intent_id}: "${i.name}" - ${i.description || 'No description'}`
@@ -85,35 +89,22 @@ Respond with ONLY this JSON:
 }`;
 
     try {
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
-            {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [{ parts: [{ text: prompt }] }],
-                    generationConfig: { temperature: 0.2, maxOutputTokens: 500 }
-                })
+        const result = await getLLMClient().generateJSON<RawSemanticMatch>(prompt, {
+            label: 'semantic_validation',
+            temperature: 0.2,
+            maxOutputTokens: 500,
+            schema: {
+                type: 'object',
+                properties: {
+                    inferred_need: { type: 'string' },
+                    best_matching_intent_id: { type: 'string', nullable: true },
+                    match_confidence: { type: 'number' },
+                    match_reason: { type: 'string' },
+                    should_use_fallback: { type: 'boolean' }
+                },
+                required: ['inferred_need', 'match_confidence', 'should_use_fallback']
             }
-        );
-
-        const data = await response.json();
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '{}';
-
-        // Extract JSON
-        const jsonMatch = text.match(/\{[\s\S]*?\}/);
-        if (!jsonMatch) {
-            console.warn('❌ Failed to parse semantic match, using original classification');
-            return {
-                matched_intent_id: classifiedIntentId,
-                confidence: 0.5,
-                inferred_need: userMessage,
-                match_reason: 'Parse failed',
-                should_use_fallback: classifiedIntentId === null
-            };
-        }
-
-        const result = JSON.parse(jsonMatch[0]);
+        });
 
         console.log(`🎯 Semantic validation:`, {
             inferred_need: result.inferred_need,
@@ -128,10 +119,20 @@ Respond with ONLY this JSON:
             confidence: result.match_confidence || 0,
             inferred_need: result.inferred_need || userMessage,
             match_reason: result.match_reason || '',
-            should_use_fallback: result.should_use_fallback ?? (result.match_confidence < 0.7)
+            should_use_fallback: result.should_use_fallback ?? ((result.match_confidence || 0) < 0.7)
         };
 
     } catch (error) {
+        if (error instanceof LLMParseError) {
+            console.warn('❌ Failed to parse semantic match, using original classification');
+            return {
+                matched_intent_id: classifiedIntentId,
+                confidence: 0.5,
+                inferred_need: userMessage,
+                match_reason: 'Parse failed',
+                should_use_fallback: classifiedIntentId === null
+            };
+        }
         console.error('Semantic validation failed:', error);
         return {
             matched_intent_id: classifiedIntentId,
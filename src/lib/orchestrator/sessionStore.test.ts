@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInMemorySessionStore, createSessionRecord, scheduleSessionPurge, SessionConflictError, StoredSession, withSession } from './sessionStore';
+
+describe('createInMemorySessionStore', () => {
+    it('saves a new session and loads a copy of it', async () => {
+        const store = createInMemorySessionStore();
+        const record = { ...createSessionRecord('s1'), version: 1 };
+        await store.save(record, 0);
+
+        const loaded = await store.load('s1');
+        assert.deepEqual(loaded, record);
+        loaded!.session.current_intent_id = 'changed';
+        assert.equal((await store.load('s1'))?.session.current_intent_id, '');
+        assert.equal(await store.load('missing'), null);
+    });
+
+    it('rejects saves against a stale version', async () => {
+        const store = createInMemorySessionStore();
+        await store.save({ ...createSessionRecord('s1'), version: 1 }, 0);
+
+        await assert.rejects(store.save({ ...createSessionRecord('s1'), version: 1 }, 0), SessionConflictError);
+        await store.save({ ...createSessionRecord('s1'), version: 2 }, 1);
+        assert.equal((await store.load('s1'))?.version, 2);
+    });
+
+    it('deletes sessions and purges expired ones', async () => {
+        const store = createInMemorySessionStore();
+        await store.save({ ...createSessionRecord('old'), version: 1, expires_at: 1000 }, 0);
+        await store.save({ ...createSessionRecord('live'), version: 1, expires_at: 5000 }, 0);
+        await store.save({ ...createSessionRecord('gone'), version: 1 }, 0);
+
+        await store.delete('gone');
+        assert.equal(await store.purgeExpired(2000), 1);
+        assert.equal(await store.load('old'), null);
+        assert.notEqual(await store.load('live'), null);
+        assert.equal(await store.load('gone'), null);
+    });
+});
+
+describe('withSession', () => {
+    it('creates the session on first use and bumps its version per turn', async () => {
+        const store = createInMemorySessionStore();
+        const turn = async (record: StoredSession) => ({
+            record: { ...record, session: { ...record.session, clarification_count: record.session.clarification_count + 1 } },
+            result: record.version
+        });
+
+        assert.equal(await withSession('s1', turn, store), 0);
+        assert.equal(await withSession('s1', turn, store), 1);
+        const saved = await store.load('s1');
+        assert.equal(saved?.version, 2);
+        assert.equal(saved?.session.clarification_count, 2);
+    });
+
+    it('starts over when the stored session has expired', async () => {
+        const store = createInMemorySessionStore();
+        const expired = { ...createSessionRecord('s1'), version: 3, expires_at: Date.now() - 1 };
+        expired.session.current_intent_id = 'vlogging';
+        await store.save(expired, 0);
+
+        const intent = await withSession('s1', async record => ({ record, result: record.session.current_intent_id }), store);
+        assert.equal(intent, '');
+        assert.equal((await store.load('s1'))?.version, 4);
+    });
+
+    it('serializes turns for the same session', async () => {
+        const store = createInMemorySessionStore();
+        const order: string[] = [];
+        const turn = (name: string, delayMs: number) => withSession('s1', async record => {
+            order.push(`${name} start`);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+            order.push(`${name} end`);
+            return { record, result: name };
+        }, store);
+
+        await Promise.all([turn('first', 20), turn('second', 0)]);
+        assert.deepEqual(order, ['first start', 'first end', 'second start', 'second end']);
+    });
+
+    it('reports a concurrent write instead of replaying the turn', async () => {
+        const store = createInMemorySessionStore();
+        let runs = 0;
+        const conflict = withSession('s1', async record => {
+            runs++;
+            // Another instance saves the session while this turn runs
+            await store.save({ ...createSessionRecord('s1'), version: 1 }, 0);
+            return { record, result: null };
+        }, store);
+
+        await assert.rejects(conflict, SessionConflictError);
+        assert.equal(runs, 1);
+    });
+
+    it('purges expired sessions after a turn, at most once an hour', async () => {
+        const store = createInMemorySessionStore();
+        await store.save({ ...createSessionRecord('old'), version: 1, expires_at: Date.now() - 1 }, 0);
+
+        await withSession('s1', async record => ({ record, result: null }), store);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.equal(await store.load('old'), null);
+
+        await store.save({ ...createSessionRecord('older'), version: 1, expires_at: Date.now() - 1 }, 0);
+        scheduleSessionPurge(store);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.notEqual(await store.load('older'), null);
+    });
+
+    it('retries pure updates on conflict when asked to', async () => {
+        const store = createInMemorySessionStore();
+        let runs = 0;
+        await withSession('s1', async record => {
+            runs++;
+            if (runs === 1) await store.save({ ...createSessionRecord('s1'), version: 1 }, 0);
+            return { record, result: null };
+        }, store, { retryOnConflict: true });
+
+        assert.equal(runs, 2);
+        assert.equal((await store.load('s1'))?.version, 2);
+    });
+});
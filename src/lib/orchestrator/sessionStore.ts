@@ -0,0 +1,304 @@
+/**
+ * Session Store
+ *
+ * Persists ConversationState and SessionState server-side, keyed by session_id,
+ * so clarification attempts, persona and outcome context accumulate across turns.
+ * Expired sessions are purged after a turn, at most once an hour.
+ *
+ * Backends:
+ * - memory:   process-local Map (tests, local dev)
+ * - supabase: `sessions` table (production)
+ *
+ * Expected Supabase table:
+ *   create table sessions (
+ *     session_id text primary key,
+ *     conversation_state jsonb not null,
+ *     session_state jsonb not null,
+ *     version integer not null,
+ *     updated_at timestamptz not null,
+ *     expires_at timestamptz not null
+ *   );
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { SessionState } from '@/types/session';
+import { ConversationState, initConversationState } from './conversationState';
+
+export interface StoredSession {
+    session_id: string;
+    conversation: ConversationState;
+    session: SessionState;
+    version: number;      // Incremented on every save (optimistic concurrency)
+    updated_at: number;   // Epoch ms
+    expires_at: number;   // Epoch ms
+}
+
+export interface SessionStore {
+    load(sessionId: string): Promise<StoredSession | null>;
+    /**
+     * Save a session only if the stored version still equals expectedVersion
+     * (0 = must not exist yet). Throws SessionConflictError otherwise.
+     */
+    save(record: StoredSession, expectedVersion: number): Promise<void>;
+    delete(sessionId: string): Promise<void>;
+    purgeExpired(now?: number): Promise<number>;
+}
+
+export class SessionConflictError extends Error {
+    constructor(sessionId: string) {
+        super(`Session ${sessionId} was modified concurrently`);
+        this.name = 'SessionConflictError';
+    }
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour of inactivity
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function getSessionTtlMs(): number {
+    const seconds = Number(process.env.SESSION_TTL_SECONDS);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_TTL_MS;
+}
+
+/**
+ * Build a fresh session record for a new (or expired) session
+ */
+export function createSessionRecord(sessionId: string, isReturningUser: boolean = false): StoredSession {
+    const now = Date.now();
+    return {
+        session_id: sessionId,
+        conversation: initConversationState(sessionId, isReturningUser),
+        session: {
+            session_id: sessionId,
+            clarification_count: 0,
+            current_intent_id: '',
+            confidence_history: [],
+            outcome_context: { constraints: {} }
+        },
+        version: 0,
+        updated_at: now,
+        expires_at: now + getSessionTtlMs()
+    };
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+export function createInMemorySessionStore(): SessionStore {
+    const records = new Map<string, StoredSession>();
+
+    return {
+        async load(sessionId) {
+            const record = records.get(sessionId);
+            return record ? structuredClone(record) : null;
+        },
+
+        async save(record, expectedVersion) {
+            const currentVersion = records.get(record.session_id)?.version ?? 0;
+            if (currentVersion !== expectedVersion) {
+                throw new SessionConflictError(record.session_id);
+            }
+            records.set(record.session_id, structuredClone(record));
+        },
+
+        async delete(sessionId) {
+            records.delete(sessionId);
+        },
+
+        async purgeExpired(now = Date.now()) {
+            let purged = 0;
+            for (const [id, record] of records) {
+                if (record.expires_at <= now) {
+                    records.delete(id);
+                    purged++;
+                }
+            }
+            return purged;
+        }
+    };
+}
+
+// ============================================================================
+// SUPABASE STORE
+// ============================================================================
+
+interface SessionRow {
+    session_id: string;
+    conversation_state: ConversationState;
+    session_state: SessionState;
+    version: number;
+    updated_at: string;
+    expires_at: string;
+}
+
+function toRow(record: StoredSession): SessionRow {
+    return {
+        session_id: record.session_id,
+        conversation_state: record.conversation,
+        session_state: record.session,
+        version: record.version,
+        updated_at: new Date(record.updated_at).toISOString(),
+        expires_at: new Date(record.expires_at).toISOString()
+    };
+}
+
+function fromRow(row: SessionRow): StoredSession {
+    return {
+        session_id: row.session_id,
+        conversation: row.conversation_state,
+        session: row.session_state,
+        version: row.version,
+        updated_at: Date.parse(row.updated_at),
+        expires_at: Date.parse(row.expires_at)
+    };
+}
+
+export function createSupabaseSessionStore(table: string = 'sessions'): SessionStore {
+    return {
+        async load(sessionId) {
+            const { data, error } = await supabase
+                .from(table)
+                .select('*')
+                .eq('session_id', sessionId)
+                .maybeSingle();
+            if (error) throw new Error(`Failed to load session: ${error.message}`);
+            return data ? fromRow(data as SessionRow) : null;
+        },
+
+        async save(record, expectedVersion) {
+            const row = toRow(record);
+
+            if (expectedVersion === 0) {
+                const { error } = await supabase.from(table).insert(row);
+                if (error) {
+                    // 23505 = unique_violation: another turn created the row first
+                    if (error.code === '23505') throw new SessionConflictError(record.session_id);
+                    throw new Error(`Failed to create session: ${error.message}`);
+                }
+                return;
+            }
+
+            const { data, error } = await supabase
+                .from(table)
+                .update(row)
+                .eq('session_id', record.session_id)
+                .eq('version', expectedVersion)
+                .select('session_id');
+            if (error) throw new Error(`Failed to save session: ${error.message}`);
+            if (!data || data.length === 0) throw new SessionConflictError(record.session_id);
+        },
+
+        async delete(sessionId) {
+            const { error } = await supabase.from(table).delete().eq('session_id', sessionId);
+            if (error) throw new Error(`Failed to delete session: ${error.message}`);
+        },
+
+        async purgeExpired(now = Date.now()) {
+            const { data, error } = await supabase
+                .from(table)
+                .delete()
+                .lt('expires_at', new Date(now).toISOString())
+                .select('session_id');
+            if (error) throw new Error(`Failed to purge sessions: ${error.message}`);
+            return data?.length || 0;
+        }
+    };
+}
+
+// ============================================================================
+// STORE SELECTION & TURN HELPER
+// ============================================================================
+
+let activeStore: SessionStore | null = null;
+
+/**
+ * Get the configured store (SESSION_STORE=memory|supabase, default supabase)
+ */
+export function getSessionStore(): SessionStore {
+    if (!activeStore) {
+        activeStore = process.env.SESSION_STORE === 'memory'
+            ? createInMemorySessionStore()
+            : createSupabaseSessionStore();
+    }
+    return activeStore;
+}
+
+/**
+ * Override the active store (tests, offline runs)
+ */
+export function setSessionStore(store: SessionStore | null): void {
+    activeStore = store;
+}
+
+// When each store last purged expired sessions (epoch ms)
+const lastPurgedAt = new WeakMap<SessionStore, number>();
+
+/**
+ * Purge expired sessions unless that happened within the last hour (called after turns)
+ */
+export function scheduleSessionPurge(store: SessionStore = getSessionStore(), now: number = Date.now()): void {
+    if (now - (lastPurgedAt.get(store) ?? 0) < PURGE_INTERVAL_MS) return;
+    lastPurgedAt.set(store, now);
+    store.purgeExpired(now)
+        .then(purged => { if (purged > 0) console.log(`🧹 Purged ${purged} expired session(s)`); })
+        .catch(err => console.warn('⚠️ Session purge failed:', err));
+}
+
+// Serializes turns for the same session within this process
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Load a session (fresh if missing or expired), run one turn against it and
+ * save the result. A concurrent write from another instance (detected via
+ * the version column) fails the save with SessionConflictError: the turn has
+ * already had side effects (cart changes, orders, streamed events), so it is
+ * not replayed here; the caller reports the conflict and the client resends.
+ * Pass `retryOnConflict` only for updates that are pure functions of the record.
+ */
+export async function withSession<T>(
+    sessionId: string,
+    runTurn: (record: StoredSession) => Promise<{ record: StoredSession; result: T }>,
+    store: SessionStore = getSessionStore(),
+    options: { retryOnConflict?: boolean } = {}
+): Promise<T> {
+    const previous = sessionLocks.get(sessionId) || Promise.resolve();
+
+    const current = previous.catch(() => undefined).then(async () => {
+        for (let attempt = 1; ; attempt++) {
+            const now = Date.now();
+            const existing = await store.load(sessionId);
+            const expectedVersion = existing?.version ?? 0;
+            const base = existing && existing.expires_at > now
+                ? existing
+                : { ...createSessionRecord(sessionId), version: expectedVersion };
+
+            const { record, result } = await runTurn(base);
+
+            try {
+                await store.save({
+                    ...record,
+                    version: expectedVersion + 1,
+                    updated_at: now,
+                    expires_at: now + getSessionTtlMs()
+                }, expectedVersion);
+                scheduleSessionPurge(store, now);
+                return result;
+            } catch (error) {
+                if (error instanceof SessionConflictError && options.retryOnConflict && attempt < 2) {
+                    console.warn(`⚠️ ${error.message}, retrying update`);
+                    continue;
+                }
+                throw error;
+            }
+        }
+    });
+
+    sessionLocks.set(sessionId, current);
+    try {
+        return await current;
+    } finally {
+        if (sessionLocks.get(sessionId) === current) {
+            sessionLocks.delete(sessionId);
+        }
+    }
+}
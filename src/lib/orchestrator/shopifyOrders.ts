@@ -0,0 +1,86 @@
+/**
+ * Shopify Draft Orders
+ *
+ * Thin wrappers over the Shopify Admin API: the cart summary stage prices the
+ * cart with Shopify's shipping and tax (through /api/shopify), and the order
+ * status stage looks up a customer's Shopify orders (directly, server-side,
+ * with SHOPIFY_ADMIN_TOKEN). Orders themselves are created by the order
+ * service (orderService.ts).
+ */
+
+import { config } from '@/config';
+
+const ADMIN_API_VERSION = '2025-01';
+
+// Bundle discount earned by the cart (CartSnapshot.discount) as a draft-order-level discount
+function toAppliedDiscount(discount?: string) {
+    if (!discount || Number(discount) <= 0) return undefined;
+    return { title: 'Bundle discount', value_type: 'fixed_amount', value: discount, amount: discount };
+}
+
+// Helper: Create draft order for cart summary (no address needed for calculation)
+export async function createDraftOrderForSummary(cartItems: any[], discount?: string) {
+    const shopifyResponse = await fetch('/api/shopify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            action: 'create_draft_order',
+            adminToken: process.env.SHOPIFY_ADMIN_TOKEN,
+            params: {
+                payload: {
+                    draft_order: {
+                        line_items: cartItems.map(item => ({
+                            variant_id: parseInt(item.variant_id),
+                            quantity: item.quantity || 1
+                        })),
+                        applied_discount: toAppliedDiscount(discount),
+                        currency: 'INR'
+                    }
+                }
+            }
+        })
+    });
+
+    if (!shopifyResponse.ok) {
+        throw new Error('Failed to create draft order for summary');
+    }
+
+    return await shopifyResponse.json();
+}
+
+// Fields of a Shopify Admin order used for status lookups
+export interface ShopifyOrder {
+    name: string;                  // "#1001"
+    order_number: number;
+    created_at: string;
+    total_price: string;
+    currency?: string;
+    fulfillment_status: 'fulfilled' | 'partial' | null;
+    cancelled_at: string | null;
+    line_items?: Array<{ title: string; variant_title?: string | null; quantity: number; price: string }>;
+}
+
+// Helper: GET from the Admin API; the token stays in this process's headers
+async function getAdmin(path: string, params: Record<string, string>) {
+    const token = process.env.SHOPIFY_ADMIN_TOKEN;
+    if (!token) throw new Error('SHOPIFY_ADMIN_TOKEN is not set');
+
+    const url = `https://${config.shopify.storeDomain}/admin/api/${ADMIN_API_VERSION}/${path}?${new URLSearchParams(params)}`;
+    return fetch(url, { headers: { 'Content-Type': 'application/json', 'X-Shopify-Access-Token': token } });
+}
+
+// Helper: A customer's Shopify orders by email (empty when the customer is unknown)
+export async function findShopifyOrdersByEmail(email: string): Promise<ShopifyOrder[]> {
+    const customerResponse = await getAdmin('customers/search.json', { query: `email:${email}` });
+    if (!customerResponse.ok) {
+        throw new Error(`Failed to look up Shopify customer: ${customerResponse.status}`);
+    }
+    const customer = (await customerResponse.json()).customers?.[0];
+    if (!customer) return [];
+
+    const ordersResponse = await getAdmin('orders.json', { customer_id: String(customer.id), status: 'any' });
+    if (!ordersResponse.ok) {
+        throw new Error(`Failed to load Shopify orders: ${ordersResponse.status}`);
+    }
+    return (await ordersResponse.json()).orders || [];
+}
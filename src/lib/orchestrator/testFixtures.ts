@@ -0,0 +1,24 @@
+/**
+ * Test Fixtures
+ *
+ * A small variant catalog and in-memory cart shared by the unit tests
+ * (*.test.ts), so each service is exercised against the same products.
+ */
+
+import { createCartService, createInMemoryCartStore, ResolvedVariant, VariantResolver } from './cartService';
+
+export const TEST_VARIANTS: ResolvedVariant[] = [
+    { product_id: 'p1', variant_id: '11', title: 'Camera - Black', price: '1000.00', image_url: 'camera.jpg' },
+    { product_id: 'p1', variant_id: '12', title: 'Camera - White', price: '1100.00', image_url: 'camera.jpg' },
+    { product_id: 'p2', variant_id: '21', title: 'Tripod', price: '200.00', image_url: 'tripod.jpg' },
+    { product_id: 'p3', variant_id: '31', title: 'Mic', price: '300.00', image_url: 'mic.jpg' }
+];
+
+// Catalog stand-in: a product id alone resolves to its first variant
+export const resolveTestVariant: VariantResolver = async (variantId, productId) =>
+    TEST_VARIANTS.find(v => variantId ? v.variant_id === variantId : v.product_id === productId) || null;
+
+export function createTestCart() {
+    const store = createInMemoryCartStore();
+    return { store, cart: createCartService(store, resolveTestVariant) };
+}
@@ -6,8 +6,11 @@
  * Aligned with Aarav's role as educator-first, seller-second.
  */
 
+import { getLLMClient } from '@/lib/llm';
 import type { Persona } from './conversationState';
 
+const CORRECTION_MARGIN = 0.1; // Relative fit_score gap that warrants a nudge
+
 export interface ProductWithTradeoffs {
     product_id: string;
     title: string;
@@ -128,6 +131,61 @@ export function parseTradeoffResponse(
     }
 }
 
+/**
+ * Ask the LLM for why_fits / tradeoffs / when_to_choose per product.
+ * Never throws: unusable output falls back to neutral copy.
+ */
+export async function generateTradeoffs<T extends { title: string; price: string }>(
+    products: T[],
+    intentId: string,
+    persona: Persona | null,
+    userContext: string,
+    options: { label?: string; appendix?: string } = {}
+): Promise<Array<T & Pick<ProductWithTradeoffs, 'why_fits' | 'tradeoffs' | 'when_to_choose'>>> {
+    if (products.length === 0) return [];
+
+    const basePrompt = generateTradeoffPrompt(products, intentId, persona, userContext);
+    const prompt = options.appendix ? `${basePrompt}\n\n${options.appendix}` : basePrompt;
+
+    let llmResponse = '';
+    try {
+        llmResponse = await getLLMClient().generateText(prompt, { label: options.label || 'generate_tradeoffs' });
+    } catch (error) {
+        console.error('Tradeoff generation failed, using defaults:', error);
+    }
+    return parseTradeoffResponse(llmResponse, products) as Array<T & ProductWithTradeoffs>;
+}
+
+/**
+ * Find a noticeably better-scoring product among those the user was shown
+ */
+export function findBetterChoice<T extends { product_id: string; fit_score?: number }>(
+    selected: T,
+    shown: T[],
+    margin: number = CORRECTION_MARGIN
+): T | null {
+    if (typeof selected.fit_score !== 'number') return null;
+
+    const best = shown
+        .filter(p => p.product_id !== selected.product_id && typeof p.fit_score === 'number')
+        .sort((a, b) => b.fit_score! - a.fit_score!)[0];
+    if (!best || best.fit_score! <= 0) return null;
+
+    return (best.fit_score! - selected.fit_score) / best.fit_score! >= margin ? best : null;
+}
+
+/**
+ * Correction nudge for adding a lower-scoring product, or null if the choice is fine
+ */
+export function getCorrectionNudge<T extends { product_id: string; title: string; fit_score?: number }>(
+    selected: T,
+    shown: T[],
+    reason: string
+): string | null {
+    const better = findBetterChoice(selected, shown);
+    return better ? generateCorrectionMessage(selected, better, reason) : null;
+}
+
 /**
  * Generate sub-optimal choice correction message
  */
@@ -0,0 +1,81 @@
+/**
+ * Payment Gateway Contract
+ *
+ * A payment intent is created for the order total before the order is placed
+ * and confirmed with the customer's payment details. Cash on Delivery intents
+ * never touch a gateway: they are created as `pay_on_delivery` straight away.
+ *
+ * Status flow:
+ *   requires_confirmation → succeeded | failed   (online methods)
+ *   pay_on_delivery                              (COD, settled by the courier)
+ *   requires_confirmation | pay_on_delivery → voided, succeeded → refunded
+ *                                                (the order was not placed)
+ *
+ * Creating an intent with an idempotency key that already has a live intent
+ * for the same method and amount returns that intent, so a retried checkout
+ * reuses the payment it already confirmed instead of charging again.
+ */
+
+import type { PaymentMethodId } from './methods';
+
+export type PaymentIntentStatus = 'requires_confirmation' | 'succeeded' | 'failed' | 'pay_on_delivery' | 'voided' | 'refunded';
+
+export interface PaymentIntent {
+    intent_id: string;
+    method: PaymentMethodId;
+    amount: string;            // Order total, 2 decimals
+    currency: string;
+    status: PaymentIntentStatus;
+    reference?: string;        // Order / session the payment is for
+    failure_reason?: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CreatePaymentIntentInput {
+    method: PaymentMethodId;
+    amount: number;
+    currency: string;
+    pincode?: string;          // For eligibility (COD serviceability)
+    reference?: string;
+    idempotency_key?: string;  // Same key, same live intent (see above)
+}
+
+// What the customer entered at checkout; gateways ignore what they don't need
+export interface PaymentConfirmation {
+    upi_id?: string;
+    card_last4?: string;
+}
+
+export interface PaymentGateway {
+    readonly provider: string;
+    createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent>;
+    confirmIntent(intentId: string, confirmation?: PaymentConfirmation): Promise<PaymentIntent>;
+    getIntent(intentId: string): Promise<PaymentIntent | null>;
+    /** Cancel an unsettled intent or refund a settled one (no-op once failed, voided or refunded) */
+    voidIntent(intentId: string): Promise<PaymentIntent>;
+}
+
+export type PaymentErrorCode = 'ineligible_method' | 'invalid_amount' | 'unknown_intent' | 'invalid_state' | 'idempotency_conflict';
+
+export class PaymentError extends Error {
+    constructor(message: string, public readonly code: PaymentErrorCode) {
+        super(message);
+        this.name = 'PaymentError';
+    }
+}
+
+/**
+ * Whether the order can be placed against this intent
+ */
+export function isPaymentSettled(intent: PaymentIntent): boolean {
+    return intent.status === 'succeeded' || intent.status === 'pay_on_delivery';
+}
+
+/**
+ * Whether the intent can still end up paying for an order (an idempotency key
+ * whose intent is no longer live gets a fresh one)
+ */
+export function isPaymentLive(intent: PaymentIntent): boolean {
+    return intent.status === 'requires_confirmation' || isPaymentSettled(intent);
+}
@@ -0,0 +1,49 @@
+/**
+ * Payments
+ *
+ * Method registry (what can be offered for an order) and the payment gateway
+ * that collects it.
+ *
+ * Gateways (PAYMENT_GATEWAY):
+ * - mock: In-memory gateway that approves online payments (default)
+ *
+ * The mock marks orders paid without charging anyone, so production refuses
+ * it unless ALLOW_MOCK_PAYMENTS=true (staging, demos).
+ */
+
+import type { PaymentGateway } from './gateway';
+import { createMockPaymentGateway } from './mockGateway';
+
+export * from './methods';
+export * from './gateway';
+export { createMockPaymentGateway } from './mockGateway';
+
+let activeGateway: PaymentGateway | null = null;
+
+/**
+ * Get the configured gateway (PAYMENT_GATEWAY=mock)
+ */
+export function getPaymentGateway(): PaymentGateway {
+    if (!activeGateway) {
+        switch (process.env.PAYMENT_GATEWAY) {
+            case 'mock':
+            case undefined:
+            case '':
+                if (process.env.NODE_ENV === 'production' && process.env.ALLOW_MOCK_PAYMENTS !== 'true') {
+                    throw new Error('The mock payment gateway approves every payment: set PAYMENT_GATEWAY to a real gateway, or ALLOW_MOCK_PAYMENTS=true');
+                }
+                activeGateway = createMockPaymentGateway();
+                break;
+            default:
+                throw new Error(`Unknown PAYMENT_GATEWAY: ${process.env.PAYMENT_GATEWAY}`);
+        }
+    }
+    return activeGateway;
+}
+
+/**
+ * Override the active gateway (tests, offline runs)
+ */
+export function setPaymentGateway(gateway: PaymentGateway | null): void {
+    activeGateway = gateway;
+}
@@ -0,0 +1,143 @@
+/**
+ * Payment Method Registry
+ *
+ * Every way a customer can pay, with the rules that decide whether it's
+ * offered for a given order. Checkout (CheckoutModal) and the voice
+ * place_order flow both read from here, so a method is added or capped in
+ * one place.
+ *
+ * Rules per method:
+ * - min/max order value (INR, order total including shipping and tax)
+ * - pincode serviceability (COD only ships where couriers collect cash)
+ *
+ * Env overrides: COD_MAX_ORDER_VALUE, COD_PINCODE_PREFIXES (comma-separated
+ * allowlist of pincode prefixes; unset means everywhere), PAY_LATER_MIN_ORDER_VALUE,
+ * PAY_LATER_MAX_ORDER_VALUE.
+ */
+
+export const PAYMENT_METHOD_IDS = ['cod', 'upi', 'card', 'pay_later'] as const;
+export type PaymentMethodId = typeof PAYMENT_METHOD_IDS[number];
+
+export interface PaymentMethod {
+    id: PaymentMethodId;
+    label: string;            // "Cash on Delivery"
+    description: string;      // Shown under the label at checkout
+    spoken: string;           // How the voice assistant names it ("cash on delivery")
+    online: boolean;          // Collected through the gateway before the order ships
+    min_order_value?: number;
+    max_order_value?: number;
+    pincode_prefixes?: string[]; // Serviceable pincode prefixes (undefined = everywhere)
+}
+
+export interface PaymentEligibilityContext {
+    amount: number;    // Order total in INR
+    pincode?: string;  // Delivery pincode, when known
+}
+
+export interface PaymentMethodOption extends PaymentMethod {
+    eligible: boolean;
+    reason?: string;   // Why the method isn't offered for this order
+}
+
+function envNumber(name: string, fallback?: number): number | undefined {
+    const value = process.env[name];
+    if (value === undefined || value === '') return fallback;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function envList(name: string): string[] | undefined {
+    const list = (process.env[name] || '').split(',').map(v => v.trim()).filter(Boolean);
+    return list.length > 0 ? list : undefined;
+}
+
+/**
+ * All methods, in the order they are offered
+ */
+export function getPaymentMethods(): PaymentMethod[] {
+    return [
+        {
+            id: 'cod',
+            label: 'Cash on Delivery',
+            description: 'Pay with cash or UPI when your order arrives.',
+            spoken: 'cash on delivery',
+            online: false,
+            max_order_value: envNumber('COD_MAX_ORDER_VALUE', 50000),
+            pincode_prefixes: envList('COD_PINCODE_PREFIXES')
+        },
+        {
+            id: 'upi',
+            label: 'UPI',
+            description: 'Pay instantly from any UPI app.',
+            spoken: 'UPI',
+            online: true,
+            max_order_value: 100000 // NPCI per-transaction limit
+        },
+        {
+            id: 'card',
+            label: 'Credit / Debit Card',
+            description: 'Visa, Mastercard, RuPay and Amex.',
+            spoken: 'card',
+            online: true
+        },
+        {
+            id: 'pay_later',
+            label: 'Pay Later',
+            description: 'Buy now, pay in 30 days at no extra cost.',
+            spoken: 'pay later',
+            online: true,
+            min_order_value: envNumber('PAY_LATER_MIN_ORDER_VALUE', 1000),
+            max_order_value: envNumber('PAY_LATER_MAX_ORDER_VALUE', 60000)
+        }
+    ];
+}
+
+export function isPaymentMethodId(value: unknown): value is PaymentMethodId {
+    return typeof value === 'string' && (PAYMENT_METHOD_IDS as readonly string[]).includes(value);
+}
+
+export function getPaymentMethod(id: PaymentMethodId): PaymentMethod {
+    return getPaymentMethods().find(m => m.id === id)!;
+}
+
+/**
+ * Why a method can't be used for this order, or null when it can
+ */
+export function getIneligibilityReason(method: PaymentMethod, context: PaymentEligibilityContext): string | null {
+    if (method.min_order_value !== undefined && context.amount < method.min_order_value) {
+        return `${method.label} is available on orders of ₹${method.min_order_value} or more.`;
+    }
+    if (method.max_order_value !== undefined && context.amount > method.max_order_value) {
+        return `${method.label} is available on orders up to ₹${method.max_order_value}.`;
+    }
+    if (method.pincode_prefixes && context.pincode && !method.pincode_prefixes.some(p => context.pincode!.startsWith(p))) {
+        return `${method.label} isn't available for pincode ${context.pincode} yet.`;
+    }
+    return null;
+}
+
+/**
+ * Every method with its eligibility for this order
+ */
+export function getPaymentOptions(context: PaymentEligibilityContext): PaymentMethodOption[] {
+    return getPaymentMethods().map(method => {
+        const reason = getIneligibilityReason(method, context);
+        return reason ? { ...method, eligible: false, reason } : { ...method, eligible: true };
+    });
+}
+
+/**
+ * Only the methods that can be used for this order
+ */
+export function getEligiblePaymentMethods(context: PaymentEligibilityContext): PaymentMethod[] {
+    return getPaymentMethods().filter(method => !getIneligibilityReason(method, context));
+}
+
+/**
+ * "UPI, card or cash on delivery"
+ */
+export function describePaymentMethods(methods: PaymentMethod[]): string {
+    const names = methods.map(m => m.spoken);
+    if (names.length <= 1) return names[0] || '';
+    return `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
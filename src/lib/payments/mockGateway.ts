@@ -0,0 +1,101 @@
+/**
+ * Mock Payment Gateway
+ *
+ * Local stand-in for a real gateway: intents live in memory and online
+ * payments succeed on confirmation, so checkout can be exercised end to end
+ * without credentials.
+ *
+ * Declines (to test failure paths): a UPI id starting with "fail" or a card
+ * ending in 0002. Voiding a succeeded intent marks it refunded.
+ */
+
+import crypto from 'crypto';
+import { getPaymentMethod, getIneligibilityReason } from './methods';
+import { CreatePaymentIntentInput, isPaymentLive, PaymentConfirmation, PaymentError, PaymentGateway, PaymentIntent } from './gateway';
+
+function declineReason(confirmation: PaymentConfirmation): string | undefined {
+    if (confirmation.upi_id?.toLowerCase().startsWith('fail')) return 'UPI payment was declined by the bank.';
+    if (confirmation.card_last4 === '0002') return 'Card was declined.';
+    return undefined;
+}
+
+export function createMockPaymentGateway(): PaymentGateway {
+    const intents = new Map<string, PaymentIntent>();
+    const intentsByKey = new Map<string, string>();  // idempotency key → intent_id
+
+    return {
+        provider: 'mock',
+
+        async createIntent(input: CreatePaymentIntentInput) {
+            if (!Number.isFinite(input.amount) || input.amount <= 0) {
+                throw new PaymentError(`Invalid payment amount: ${input.amount}`, 'invalid_amount');
+            }
+            const keyed = input.idempotency_key ? intents.get(intentsByKey.get(input.idempotency_key) || '') : undefined;
+            if (keyed && isPaymentLive(keyed)) {
+                if (keyed.method !== input.method || keyed.amount !== input.amount.toFixed(2)) {
+                    throw new PaymentError('A different payment is already in progress for this checkout', 'idempotency_conflict');
+                }
+                return keyed;
+            }
+
+            const method = getPaymentMethod(input.method);
+            const reason = getIneligibilityReason(method, { amount: input.amount, pincode: input.pincode });
+            if (reason) throw new PaymentError(reason, 'ineligible_method');
+
+            const now = new Date().toISOString();
+            const intent: PaymentIntent = {
+                intent_id: `pi_mock_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`,
+                method: method.id,
+                amount: input.amount.toFixed(2),
+                currency: input.currency,
+                status: method.online ? 'requires_confirmation' : 'pay_on_delivery',
+                reference: input.reference,
+                created_at: now,
+                updated_at: now
+            };
+            intents.set(intent.intent_id, intent);
+            if (input.idempotency_key) intentsByKey.set(input.idempotency_key, intent.intent_id);
+            console.log(`💳 Payment intent ${intent.intent_id}: ${method.label} ₹${intent.amount} (${intent.status})`);
+            return intent;
+        },
+
+        async confirmIntent(intentId: string, confirmation: PaymentConfirmation = {}) {
+            const intent = intents.get(intentId);
+            if (!intent) throw new PaymentError(`Unknown payment intent: ${intentId}`, 'unknown_intent');
+            if (intent.status !== 'requires_confirmation') {
+                // Confirming twice is harmless; the first outcome stands
+                return intent;
+            }
+
+            const failure = declineReason(confirmation);
+            const updated: PaymentIntent = {
+                ...intent,
+                status: failure ? 'failed' : 'succeeded',
+                failure_reason: failure,
+                updated_at: new Date().toISOString()
+            };
+            intents.set(intentId, updated);
+            console.log(`💳 Payment intent ${intentId}: ${updated.status}${failure ? ` (${failure})` : ''}`);
+            return updated;
+        },
+
+        async getIntent(intentId: string) {
+            return intents.get(intentId) || null;
+        },
+
+        async voidIntent(intentId: string) {
+            const intent = intents.get(intentId);
+            if (!intent) throw new PaymentError(`Unknown payment intent: ${intentId}`, 'unknown_intent');
+            if (!isPaymentLive(intent)) return intent;
+
+            const updated: PaymentIntent = {
+                ...intent,
+                status: intent.status === 'succeeded' ? 'refunded' : 'voided',
+                updated_at: new Date().toISOString()
+            };
+            intents.set(intentId, updated);
+            console.log(`💳 Payment intent ${intentId}: ${updated.status}`);
+            return updated;
+        }
+    };
+}
@@ -4,4 +4,6 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = (process.env.SUPABASE_URL || '').trim();
 const supabaseServiceKey = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
 
-export const supabase = createClient(supabaseUrl, supabaseServiceKey);
+// Offline runs (CATALOG_STORE / SESSION_STORE=memory) have no project configured:
+// the client is still constructed, but nothing calls it
+export const supabase = createClient(supabaseUrl || 'http://localhost:54321', supabaseServiceKey || 'offline');
@@ -0,0 +1,236 @@
+/**
+ * Chat API Contract (server side)
+ *
+ * Request/response shapes for /api/chat, shared by the route, the
+ * orchestrator pipeline and the client (re-exported from src/lib/api.ts).
+ */
+
+import type { ClassificationIssue, CartEditAction, OrderQuery } from '@/lib/orchestrator/classificationSchema';
+import type { CartSnapshot } from '@/lib/orchestrator/cartService';
+import type { CapabilityComparisonRow, ComparedProduct } from '@/lib/orchestrator/comparison';
+import type { Bundle } from '@/lib/orchestrator/bundleBuilder';
+import type { OrderStatusEntry } from '@/lib/orchestrator/orderStatus';
+import type { CustomerIdentity } from '@/lib/orchestrator/orderService';
+import type { EnrichedProduct } from '@/lib/orchestrator/productService';
+import type { ImageFocus } from '@/lib/agents/imageGenerator';
+import type { PaymentIntentStatus, PaymentMethodId } from '@/lib/payments';
+
+export interface ChatRequest {
+    session_id: string;
+    current_message: string;
+    chat_history: { role: string; content: string }[];
+    intent_id?: string; // For pagination bypass
+    offset?: number;    // Pagination offset
+    // Delivery address sent by VoiceMode (cart and last shown products are server-side)
+    address?: DeliveryAddress;
+    // Email/phone of a signed-in or previously identified customer (returning-customer greeting)
+    customer?: CustomerIdentity;
+    // Image confirmation flow
+    action?: 'accept_image' | 'reject_images' | 'refine_images' | 'skip_images'; // skip_images: images never arrived, show products
+    selected_variant?: string;
+    rejected_variants?: string[]; // refine_images: variants to redo (default: all but selected_variant)
+    cached_products?: EnrichedProduct[];
+}
+
+// Shopify-style delivery address, as entered at checkout
+export interface DeliveryAddress {
+    first_name?: string;
+    last_name?: string;
+    address1: string;
+    address2?: string;
+    city: string;
+    province?: string;
+    country?: string;
+    zip: string;
+    phone?: string;
+    email?: string;
+}
+
+export interface Intent {
+    intent_id: string;
+    name: string;
+    description: string | null;
+}
+
+export interface ClarificationResponse {
+    response_type: 'clarification';
+    intent_id: string;
+    confidence: number;
+    missing_info: string[];
+    acknowledgement: string;
+    clarifying_question: string;
+    explanation: string;
+    clarification_count?: number; // Phase 5: Track intent clarification attempts
+}
+
+export interface RecommendationResponse {
+    response_type: 'recommendation';
+    intent_id: string;
+    confidence: number;
+    primary_recommendation?: PresentationProduct | null;
+    secondary_recommendations?: PresentationProduct[];
+    decision_frame?: string; // Aarav Phase 3: Persona-specific framing before products
+    acknowledgement: string;
+    explanation: string;
+    next_page_offset?: number | null;
+}
+
+export interface ComparisonResponse {
+    response_type: 'comparison';
+    intent_id: string;
+    confidence: number;
+    products: ComparedProduct[];               // Column order of the matrix
+    capabilities: CapabilityComparisonRow[];   // Normalized 0–1 capability rows
+    summary: string;                           // Who leads on what
+    acknowledgement: string;
+}
+
+// Complete kit: primary product + compatible accessories, priced together
+export interface BundleResponse {
+    response_type: 'bundle';
+    intent_id: string;
+    confidence: number;
+    bundle: Bundle;
+    acknowledgement: string;
+    explanation: string;
+}
+
+export interface CartActionResponse {
+    response_type: 'cart_action';
+    action: 'add' | 'add_bundle';
+    bundle_id?: string; // Set for "add_bundle" (product_id is then the kit's primary product)
+    product_id: string;
+    variant_id: string;
+    product_title: string;
+    acknowledgement: string;
+    // Aarav Phase 5: Add-on suggestions
+    suggested_addons?: Array<{
+        product_id: string;
+        title: string;
+        price: string;
+        image_url: string;
+        variant_id: string;
+        reason: string;
+        relation?: string; // Compatibility relation (mount, battery, storage, audio, ...)
+    }>;
+    addon_message?: string;
+    correction_message?: string; // Nudge when a noticeably better-fitting product was shown
+    cart?: CartSnapshot; // Authoritative cart after the add
+}
+
+export interface CartUpdateResponse {
+    response_type: 'cart_update';
+    action: CartEditAction;
+    product_id?: string;     // Line that was edited (absent for "clear")
+    variant_id?: string;     // Variant after the edit
+    product_title?: string;
+    quantity?: number;       // New quantity for "set_quantity"
+    cart: CartSnapshot;
+    acknowledgement: string;
+}
+
+export interface CartSummaryResponse {
+    response_type: 'cart_summary';
+    items: Array<{
+        product_id: string;
+        variant_id: string;
+        title: string;
+        price: string;
+        quantity: number;
+    }>;
+    subtotal: string;
+    shipping: string;
+    tax: string;
+    total: string;
+    currency: string;
+    acknowledgement: string;
+    draft_order_id?: string;
+}
+
+export interface OrderPlacedResponse {
+    response_type: 'order_placed';
+    order_id: string;
+    order_number: string;
+    total: string;
+    currency: string;
+    payment_method: PaymentMethodId;
+    payment_status: PaymentIntentStatus;
+    payment_intent_id: string;
+    acknowledgement: string;
+}
+
+export interface OrderStatusResponse {
+    response_type: 'order_status';
+    intent_id: string;
+    query: OrderQuery;
+    orders: OrderStatusEntry[];    // Newest first; just the latest for "status"
+    acknowledgement: string;
+    summary: string;               // Spoken summary
+}
+
+export interface ImageGenerationResponse {
+    response_type: 'image_generation';
+    intent_id: string;
+    outcome_description: string;
+    images: Array<{
+        url: string;
+        variant_id: string;
+        focus: ImageFocus;
+        caption: string;
+        interpretation: string;
+    }>;
+    cached_products?: EnrichedProduct[]; // Phase 4: Pre-fetched products
+    regenerated_variants?: string[]; // Set on regeneration: `images` holds only these, the rest are unchanged
+    job_id?: string; // Images still rendering: `images` is empty, poll /api/images/jobs/[job_id]
+    acknowledgement: string;
+    explanation: string;
+    inferred_persona?: string | null; // Aarav Phase 1: Pass persona to frontend
+}
+
+export type ChatResponse =
+    | ClarificationResponse
+    | RecommendationResponse
+    | ComparisonResponse
+    | BundleResponse
+    | CartActionResponse
+    | CartUpdateResponse
+    | CartSummaryResponse
+    | OrderPlacedResponse
+    | OrderStatusResponse
+    | ImageGenerationResponse;
+
+export interface ChatErrorResponse {
+    error: string;
+    code: 'classification_invalid' | 'session_conflict' | 'internal_error';
+    issues?: ClassificationIssue[];
+}
+
+// Server-Sent Events emitted by the streaming variant (Accept: text/event-stream)
+export interface RankedProduct {
+    product_id: string;
+    variant_id?: string;
+    title: string;
+    price: string;
+    image_url: string;
+    fit_score?: number; // Intent fit, used for the suboptimal-choice nudge
+}
+
+// Ranked product with the copy written for it (LLM 2) and its persona-aware tradeoffs
+export interface PresentationProduct extends RankedProduct {
+    description: string;
+    reasoning?: string;    // Primary only
+    features?: string[];
+    why_fits?: string;
+    tradeoffs?: string;
+    when_to_choose?: string;
+}
+
+export type ChatStreamEvent =
+    | { type: 'acknowledgement'; intent_id: string; confidence: number; acknowledgement: string }
+    | { type: 'clarification'; response: ClarificationResponse }
+    | { type: 'products_ranked'; intent_id: string; products: RankedProduct[] }
+    | { type: 'presentation_delta'; product_id: string; description?: string; reasoning?: string; features?: string[]; why_fits?: string; tradeoffs?: string; when_to_choose?: string }
+    | { type: 'done'; response: ChatResponse }
+    | { type: 'error'; error: ChatErrorResponse };
+
+export type StreamEmitter = (event: ChatStreamEvent) => void;
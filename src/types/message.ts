@@ -5,7 +5,7 @@
  * Backend only receives {role, content} - metadata is stripped before sending
  */
 
-import { MessageRole } from '@/lib/api';
+import { MessageRole, CartSnapshot, ComparisonResponse, BundleResponse } from '@/lib/api';
 
 export interface MessageMetadata {
     intentId: string;
@@ -43,8 +43,32 @@ export interface AssistantRecommendationMessage extends BaseMessage {
     intent_id?: string;
 }
 
+export interface AssistantCartUpdateMessage extends BaseMessage {
+    role: 'assistant';
+    responseType: 'cart_update';
+    cart: CartSnapshot;
+}
+
+export interface AssistantComparisonMessage extends BaseMessage {
+    role: 'assistant';
+    responseType: 'comparison';
+    products: ComparisonResponse['products'];
+    capabilities: ComparisonResponse['capabilities'];
+    summary: string;
+}
+
+export interface AssistantBundleMessage extends BaseMessage {
+    role: 'assistant';
+    responseType: 'bundle';
+    bundle: BundleResponse['bundle'];
+    explanation: string;
+}
+
 export type AssistantMessage =
     | AssistantClarificationMessage
-    | AssistantRecommendationMessage;
+    | AssistantRecommendationMessage
+    | AssistantCartUpdateMessage
+    | AssistantComparisonMessage
+    | AssistantBundleMessage;
 
 export type Message = UserMessage | AssistantMessage;
@@ -1,3 +1,11 @@
+import type { RankedProduct } from './chat';
+import type { Bundle } from '@/lib/orchestrator/bundleBuilder';
+import type { PaymentMethodId } from '@/lib/payments';
+import type { CustomerIdentity } from '@/lib/orchestrator/orderService';
+import type { VerificationChallenge } from '@/lib/orchestrator/customerVerification';
+import type { OrderQuery } from '@/lib/orchestrator/classificationSchema';
+import type { GeneratedImage } from '@/lib/agents/imageGenerator';
+
 // Session state for tracking user conversation context
 export interface SessionState {
     session_id: string;
@@ -6,24 +14,57 @@ export interface SessionState {
     confidence_history: number[];
     outcome_context: OutcomeContext;
     pre_fetched_products?: any[]; // Stored after parallel execution
+    image_job_id?: string; // Background job rendering the outcome images (only its result is recorded)
+    last_images?: ShownImage[]; // Outcome images last offered, so an accepted variant can be interpreted
+    image_attempts?: ImageAttempt[]; // Rounds of outcome images this session (first generation, then each regeneration)
+    last_products?: RankedProduct[]; // Last products shown, in display order ("add the second one")
+    last_bundle?: Bundle; // Last kit shown ("add the whole kit")
+    payment_method?: PaymentMethodId; // Chosen at place_order, reused if the order is retried
+    customer?: CustomerIdentity; // Email/phone the user identified with (order lookups)
+    customer_verification?: VerificationChallenge & { query: OrderQuery }; // Code sent for an order lookup, not yet entered
+    verified_customer?: CustomerIdentity; // Email/phone proven with a code this session; only its orders are disclosed
+}
+
+// An outcome image as remembered server-side (without the image data)
+export type ShownImage = Pick<GeneratedImage, 'variant_id' | 'focus' | 'caption' | 'interpretation'>;
+
+// One round of outcome images and the feedback that triggered it
+export interface ImageAttempt {
+    attempt: number;                      // 1 = first generation
+    action: 'generate' | 'refine_images' | 'reject_images';
+    feedback?: string;                    // What the user said about the previous round
+    variants: string[];                   // Variants (re)generated this round
+    visual_preferences?: OutcomeContext['visual_preferences'];
+    created_at: string;
 }
 
 export interface OutcomeContext {
     use_case?: string; // "wedding photography", "daily commute"
     desired_outcome?: string; // "capture stunning low-light shots"
-    constraints: {
-        budget?: { min?: number; max?: number; symbol: string };
-        size?: string;
-        features?: string[];
-        compatibility?: string[];
-    };
+    constraints: OutcomeConstraints;
     visual_preferences?: {
         style?: string;
         color?: string;
         form_factor?: string;
+        setting?: string;   // "outdoors in nature", "indoors"
+        notes?: string[];   // Image feedback kept verbatim for the prompt
     };
 }
 
+export interface OutcomeConstraints {
+    budget?: BudgetConstraint;
+    size?: string;
+    features?: string[];      // Must-haves as the user said them ("waterproof", "4K")
+    compatibility?: string[]; // "works with iPhone"
+}
+
+// Price range the user asked for ("under ₹50k", "between 20 and 40 thousand")
+export interface BudgetConstraint {
+    min?: number;
+    max?: number;
+    currency: string; // ISO code, e.g. "INR"
+}
+
 export interface ConfidenceLevel {
     score: number;
     level: 'high' | 'medium' | 'low';